@@ -1,127 +1,131 @@
 -- D1 数据库初始化脚本
 -- 用于创建 KatelyaTV 所需的数据表
+--
+-- 应用首次访问数据库时会自动执行 src/lib/d1.migrations.ts 中的迁移并记录到 schema_version 表，
+-- 通常无需手动执行本脚本。本脚本与迁移结果一致，可用于提前建表。
 
 -- 用户表
 CREATE TABLE IF NOT EXISTS users (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
   username TEXT UNIQUE NOT NULL,
   password TEXT NOT NULL,
-  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
 );
 
 -- 播放记录表
 CREATE TABLE IF NOT EXISTS play_records (
-  id INTEGER PRIMARY KEY AUTOINCREMENT,
-  user_id INTEGER NOT NULL,
-  record_key TEXT NOT NULL,
-  video_url TEXT,
-  current_time REAL DEFAULT 0,
-  duration REAL DEFAULT 0,
-  episode_index INTEGER DEFAULT 0,
-  episode_url TEXT,
-  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
-  UNIQUE (user_id, record_key)
+  username TEXT NOT NULL,
+  key TEXT NOT NULL,
+  title TEXT NOT NULL,
+  source_name TEXT,
+  cover TEXT,
+  year TEXT,
+  index_episode INTEGER,
+  total_episodes INTEGER,
+  play_time INTEGER,
+  total_time INTEGER,
+  save_time INTEGER NOT NULL,
+  search_title TEXT,
+  episode_title TEXT,
+  PRIMARY KEY (username, key)
 );
 
 -- 收藏表
 CREATE TABLE IF NOT EXISTS favorites (
-  id INTEGER PRIMARY KEY AUTOINCREMENT,
-  user_id INTEGER NOT NULL,
-  favorite_key TEXT NOT NULL,
-  title TEXT,
-  cover_url TEXT,
-  rating REAL,
+  username TEXT NOT NULL,
+  key TEXT NOT NULL,
+  title TEXT NOT NULL,
+  source_name TEXT,
+  cover TEXT,
   year TEXT,
-  area TEXT,
-  category TEXT,
-  actors TEXT,
-  director TEXT,
-  description TEXT,
-  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
-  UNIQUE (user_id, favorite_key)
+  total_episodes INTEGER,
+  save_time INTEGER NOT NULL,
+  search_title TEXT,
+  PRIMARY KEY (username, key)
 );
 
 -- 搜索历史表
 CREATE TABLE IF NOT EXISTS search_history (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
-  user_id INTEGER NOT NULL,
+  username TEXT NOT NULL,
   keyword TEXT NOT NULL,
-  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
 );
 
 -- 跳过配置表
 CREATE TABLE IF NOT EXISTS skip_configs (
-  id INTEGER PRIMARY KEY AUTOINCREMENT,
-  user_id INTEGER NOT NULL,
-  config_key TEXT NOT NULL,
-  start_time INTEGER DEFAULT 0,
-  end_time INTEGER DEFAULT 0,
-  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
-  UNIQUE (user_id, config_key)
+  username TEXT NOT NULL,
+  key TEXT NOT NULL,
+  source TEXT NOT NULL,
+  video_id TEXT NOT NULL,
+  title TEXT,
+  segments TEXT NOT NULL,
+  updated_time INTEGER NOT NULL,
+  PRIMARY KEY (username, key)
 );
 
 -- 用户设置表
 CREATE TABLE IF NOT EXISTS user_settings (
-  id INTEGER PRIMARY KEY AUTOINCREMENT,
-  user_id INTEGER NOT NULL,
-  username TEXT NOT NULL,
-  filter_adult_content BOOLEAN DEFAULT 1,
-  theme TEXT DEFAULT 'auto',
-  language TEXT DEFAULT 'zh-CN',
-  auto_play BOOLEAN DEFAULT 1,
-  video_quality TEXT DEFAULT 'auto',
-  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
-  UNIQUE (user_id, username)
+  username TEXT PRIMARY KEY,
+  settings TEXT NOT NULL,
+  updated_time INTEGER NOT NULL
 );
 
 -- 管理员配置表
 CREATE TABLE IF NOT EXISTS admin_configs (
-  id INTEGER PRIMARY KEY AUTOINCREMENT,
-  config_key TEXT UNIQUE NOT NULL,
-  config_value TEXT,
-  description TEXT,
-  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  config_key TEXT PRIMARY KEY,
+  config_value TEXT NOT NULL,
+  description TEXT
 );
 
--- 插入默认管理员配置
-INSERT OR IGNORE INTO admin_configs (config_key, config_value, description) VALUES
-('site_name', 'KatelyaTV', '站点名称'),
-('site_description', '高性能影视播放平台', '站点描述'),
-('enable_register', 'true', '是否允许用户注册'),
-('max_users', '100', '最大用户数量'),
-('cache_ttl', '3600', '缓存时间（秒）');
+-- 资源站健康状态表
+CREATE TABLE IF NOT EXISTS source_health (
+  source_key TEXT PRIMARY KEY,
+  data TEXT NOT NULL,
+  updated_time INTEGER NOT NULL
+);
 
--- 创建索引以提高查询性能
-CREATE INDEX IF NOT EXISTS idx_play_records_user_id ON play_records(user_id);
-CREATE INDEX IF NOT EXISTS idx_play_records_record_key ON play_records(record_key);
-CREATE INDEX IF NOT EXISTS idx_favorites_user_id ON favorites(user_id);
-CREATE INDEX IF NOT EXISTS idx_search_history_user_id ON search_history(user_id);
-CREATE INDEX IF NOT EXISTS idx_skip_configs_user_id ON skip_configs(user_id);
-CREATE INDEX IF NOT EXISTS idx_user_settings_user_id ON user_settings(user_id);
-CREATE INDEX IF NOT EXISTS idx_user_settings_username ON user_settings(username);
+-- 接口缓存表（资源站搜索、详情结果）
+CREATE TABLE IF NOT EXISTS api_cache (
+  cache_key TEXT PRIMARY KEY,
+  data TEXT NOT NULL,
+  expire_time INTEGER NOT NULL
+);
+
+-- 外挂字幕表
+CREATE TABLE IF NOT EXISTS subtitles (
+  username TEXT NOT NULL,
+  key TEXT NOT NULL,
+  data TEXT NOT NULL,
+  updated_time INTEGER NOT NULL,
+  PRIMARY KEY (username, key)
+);
+
+-- 社区共享跳过配置表
+CREATE TABLE IF NOT EXISTS shared_skip_configs (
+  config_key TEXT PRIMARY KEY,
+  data TEXT NOT NULL,
+  updated_time INTEGER NOT NULL
+);
 
--- 创建视图以简化查询
-CREATE VIEW IF NOT EXISTS user_stats AS
-SELECT 
-  u.id,
-  u.username,
-  COUNT(DISTINCT pr.id) as play_count,
-  COUNT(DISTINCT f.id) as favorite_count,
-  COUNT(DISTINCT sh.id) as search_count,
-  u.created_at
-FROM users u
-LEFT JOIN play_records pr ON u.id = pr.user_id
-LEFT JOIN favorites f ON u.id = f.user_id
-LEFT JOIN search_history sh ON u.id = sh.user_id
-GROUP BY u.id, u.username, u.created_at;
+-- 一起看房间表
+CREATE TABLE IF NOT EXISTS watch_rooms (
+  room_id TEXT PRIMARY KEY,
+  data TEXT NOT NULL,
+  updated_time INTEGER NOT NULL
+);
+
+-- 一起看房间成员表（在线心跳）
+CREATE TABLE IF NOT EXISTS watch_room_members (
+  room_id TEXT NOT NULL,
+  username TEXT NOT NULL,
+  last_seen INTEGER NOT NULL,
+  PRIMARY KEY (room_id, username)
+);
+
+-- 创建索引以提高查询性能
+CREATE INDEX IF NOT EXISTS idx_play_records_username ON play_records(username);
+CREATE INDEX IF NOT EXISTS idx_favorites_username ON favorites(username);
+CREATE INDEX IF NOT EXISTS idx_search_history_username ON search_history(username);
+CREATE INDEX IF NOT EXISTS idx_skip_configs_username ON skip_configs(username);
+CREATE INDEX IF NOT EXISTS idx_api_cache_expire_time ON api_cache(expire_time);
@@ -0,0 +1,294 @@
+// 存储测试用的内存 Redis：实现各存储用到的命令子集，语义与 Redis 保持一致
+
+type Value = string | string[] | Set<string> | Map<string, string>;
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`);
+}
+
+export class MemoryRedis {
+  private data = new Map<string, Value>();
+  private expires = new Map<string, number>();
+
+  reset() {
+    this.data.clear();
+    this.expires.clear();
+  }
+
+  private read<T extends Value>(key: string): T | undefined {
+    const expireAt = this.expires.get(key);
+    if (expireAt !== undefined && expireAt <= Date.now()) {
+      this.data.delete(key);
+      this.expires.delete(key);
+    }
+    return this.data.get(key) as T | undefined;
+  }
+
+  private write(key: string, value: Value) {
+    this.data.set(key, value);
+  }
+
+  private remove(key: string): number {
+    this.expires.delete(key);
+    return this.data.delete(key) ? 1 : 0;
+  }
+
+  private list(key: string): string[] {
+    let list = this.read<string[]>(key);
+    if (!list) {
+      list = [];
+      this.write(key, list);
+    }
+    return list;
+  }
+
+  private set_(key: string): Set<string> {
+    let set = this.read<Set<string>>(key);
+    if (!set) {
+      set = new Set();
+      this.write(key, set);
+    }
+    return set;
+  }
+
+  private hash(key: string): Map<string, string> {
+    let hash = this.read<Map<string, string>>(key);
+    if (!hash) {
+      hash = new Map();
+      this.write(key, hash);
+    }
+    return hash;
+  }
+
+  // 空集合在 Redis 中等同于不存在
+  private cleanup(key: string) {
+    const value = this.data.get(key);
+    if (typeof value !== 'string' && value && this.sizeOf(value) === 0) {
+      this.remove(key);
+    }
+  }
+
+  private sizeOf(value: Exclude<Value, string>) {
+    return Array.isArray(value) ? value.length : value.size;
+  }
+
+  // ---------- 字符串 ----------
+  async get(key: string): Promise<string | null> {
+    const value = this.read(key);
+    return typeof value === 'string' ? value : null;
+  }
+
+  async set(key: string, value: string, options?: { EX?: number }) {
+    this.remove(key);
+    this.write(key, String(value));
+    if (options?.EX) {
+      this.expires.set(key, Date.now() + options.EX * 1000);
+    }
+    return 'OK';
+  }
+
+  async mGet(keys: string[]): Promise<(string | null)[]> {
+    return Promise.all(keys.map((key) => this.get(key)));
+  }
+
+  async del(keys: string | string[]): Promise<number> {
+    return (Array.isArray(keys) ? keys : [keys]).reduce(
+      (count, key) => count + this.remove(key),
+      0
+    );
+  }
+
+  async exists(key: string): Promise<number> {
+    return this.read(key) === undefined ? 0 : 1;
+  }
+
+  async keys(pattern: string): Promise<string[]> {
+    const regexp = globToRegExp(pattern);
+    return Array.from(this.data.keys()).filter(
+      (key) => regexp.test(key) && this.read(key) !== undefined
+    );
+  }
+
+  // ---------- 列表 ----------
+  async lPush(key: string, value: string): Promise<number> {
+    const list = this.list(key);
+    list.unshift(value);
+    return list.length;
+  }
+
+  async lRange(key: string, start: number, stop: number): Promise<string[]> {
+    const list = this.read<string[]>(key) || [];
+    return list.slice(start, stop === -1 ? undefined : stop + 1);
+  }
+
+  async lRem(key: string, count: number, value: string): Promise<number> {
+    const list = this.read<string[]>(key);
+    if (!list) return 0;
+    const kept = list.filter((item) => item !== value);
+    const removed = list.length - kept.length;
+    list.splice(0, list.length, ...kept);
+    this.cleanup(key);
+    return removed;
+  }
+
+  async lTrim(key: string, start: number, stop: number) {
+    const list = this.read<string[]>(key);
+    if (list) {
+      list.splice(0, list.length, ...list.slice(start, stop + 1));
+      this.cleanup(key);
+    }
+    return 'OK';
+  }
+
+  // ---------- 集合 ----------
+  async sAdd(key: string, member: string): Promise<number> {
+    const set = this.set_(key);
+    const size = set.size;
+    set.add(member);
+    return set.size - size;
+  }
+
+  async sRem(key: string, member: string): Promise<number> {
+    const set = this.read<Set<string>>(key);
+    const removed = set?.delete(member) ? 1 : 0;
+    this.cleanup(key);
+    return removed;
+  }
+
+  async sMembers(key: string): Promise<string[]> {
+    return Array.from(this.read<Set<string>>(key) || []);
+  }
+
+  // ---------- 哈希 ----------
+  async hGet(key: string, field: string): Promise<string | null> {
+    return this.read<Map<string, string>>(key)?.get(field) ?? null;
+  }
+
+  async hSet(key: string, field: string, value: string): Promise<number> {
+    const hash = this.hash(key);
+    const added = hash.has(field) ? 0 : 1;
+    hash.set(field, String(value));
+    return added;
+  }
+
+  async hGetAll(key: string): Promise<Record<string, string>> {
+    return Object.fromEntries(this.read<Map<string, string>>(key) || []);
+  }
+
+  async hDel(key: string, field: string): Promise<number> {
+    const removed = this.read<Map<string, string>>(key)?.delete(field) ? 1 : 0;
+    this.cleanup(key);
+    return removed;
+  }
+
+  // ---------- 连接 ----------
+  isOpen = true;
+
+  async connect() {
+    return this;
+  }
+
+  on() {
+    return this;
+  }
+}
+
+// @upstash/redis 会自动序列化非字符串的值，读取时尝试按 JSON 解析
+function serialize(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function deserialize(raw: string | null): unknown {
+  if (raw === null) return null;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+/**
+ * 模拟 @upstash/redis 的客户端接口，数据保存在 MemoryRedis 中
+ */
+export class MemoryUpstashRedis {
+  constructor(private readonly redis: MemoryRedis) {}
+
+  async get(key: string) {
+    return deserialize(await this.redis.get(key));
+  }
+
+  async set(key: string, value: unknown, options?: { ex?: number }) {
+    return this.redis.set(key, serialize(value), { EX: options?.ex });
+  }
+
+  async del(...keys: string[]) {
+    return this.redis.del(keys);
+  }
+
+  async exists(key: string) {
+    return this.redis.exists(key);
+  }
+
+  async keys(pattern: string) {
+    return this.redis.keys(pattern);
+  }
+
+  async lpush(key: string, value: unknown) {
+    return this.redis.lPush(key, serialize(value));
+  }
+
+  async lrange(key: string, start: number, stop: number) {
+    return (await this.redis.lRange(key, start, stop)).map(deserialize);
+  }
+
+  async lrem(key: string, count: number, value: unknown) {
+    return this.redis.lRem(key, count, serialize(value));
+  }
+
+  async ltrim(key: string, start: number, stop: number) {
+    return this.redis.lTrim(key, start, stop);
+  }
+
+  async sadd(key: string, member: unknown) {
+    return this.redis.sAdd(key, serialize(member));
+  }
+
+  async srem(key: string, member: unknown) {
+    return this.redis.sRem(key, serialize(member));
+  }
+
+  async smembers(key: string) {
+    return (await this.redis.sMembers(key)).map(deserialize);
+  }
+
+  async hget(key: string, field: string) {
+    return deserialize(await this.redis.hGet(key, field));
+  }
+
+  async hset(key: string, values: Record<string, unknown>) {
+    let added = 0;
+    for (const [field, value] of Object.entries(values)) {
+      added += await this.redis.hSet(key, field, serialize(value));
+    }
+    return added;
+  }
+
+  async hgetall(key: string) {
+    const raw = await this.redis.hGetAll(key);
+    if (Object.keys(raw).length === 0) return null;
+    return Object.fromEntries(
+      Object.entries(raw).map(([field, value]) => [field, deserialize(value)])
+    );
+  }
+
+  async hdel(key: string, field: string) {
+    return this.redis.hDel(key, field);
+  }
+}
+
+// 测试中所有 Redis 类客户端共用的数据
+export const memoryRedis = new MemoryRedis();
@@ -0,0 +1,25 @@
+// 测试用的 SQLite 内存数据库：使用 Node 22.5+ 内置的 node:sqlite，低版本不可用
+
+import { SqliteD1Database } from '@/lib/sqlite.db';
+
+type SqliteModule = {
+  DatabaseSync: new (path: string) => ConstructorParameters<
+    typeof SqliteD1Database
+  >[0];
+};
+
+const sqlite = (
+  process as NodeJS.Process & { getBuiltinModule?: (id: string) => unknown }
+).getBuiltinModule?.('node:sqlite') as SqliteModule | undefined;
+
+export const memorySqliteAvailable = Boolean(sqlite);
+
+/**
+ * 创建兼容 D1 接口的内存数据库，node:sqlite 不可用时抛出错误
+ */
+export function createMemoryD1Database(): SqliteD1Database {
+  if (!sqlite) {
+    throw new Error('当前 Node.js 版本不支持 node:sqlite');
+  }
+  return new SqliteD1Database(new sqlite.DatabaseSync(':memory:'));
+}
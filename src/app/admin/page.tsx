@@ -22,9 +22,14 @@ import {
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import {
+  Activity,
   ChevronDown,
   ChevronUp,
+  Database,
+  DatabaseBackup,
+  Link2,
   Settings,
+  SkipForward,
   Tv,
   Users,
   Video,
@@ -34,8 +39,18 @@ import { useRouter } from 'next/navigation';
 import { Suspense, useCallback, useEffect, useState } from 'react';
 import Swal from 'sweetalert2';
 
-import { AdminConfig, AdminConfigResult } from '@/lib/admin.types';
+import {
+  AdFilterRules,
+  AdminConfig,
+  AdminConfigResult,
+  ParserConfig,
+} from '@/lib/admin.types';
 import { getAuthInfoFromBrowserCookie } from '@/lib/auth';
+import { D1SchemaStatus } from '@/lib/d1.migrations';
+import { DEFAULT_AD_FILTER_RULES } from '@/lib/hlsAdFilter';
+import { PARSE_PLATFORMS } from '@/lib/parser';
+import { MigrationCounts, MigrationEvent } from '@/lib/storageMigration';
+import { SharedSkipConfig, SourceHealth } from '@/lib/types';
 
 import PageLayout from '@/components/PageLayout';
 
@@ -62,15 +77,46 @@ interface SiteConfig {
   DoubanProxy: string;
 }
 
+// 测试解析接口时默认使用的视频页面地址
+const DEFAULT_PARSER_TEST_URL = 'https://v.qq.com/x/cover/mzc00200mp8vo9b.html';
+
+// 可迁移的源存储
+const MIGRATION_SOURCES = [
+  { value: 'redis', label: 'Redis' },
+  { value: 'kvrocks', label: 'Kvrocks' },
+  { value: 'upstash', label: 'Upstash' },
+  { value: 'd1', label: 'Cloudflare D1' },
+  { value: 'sqlite', label: 'SQLite' },
+];
+
+const MIGRATION_FIELDS: [keyof MigrationCounts, string][] = [
+  ['users', '用户'],
+  ['play_records', '播放记录'],
+  ['favorites', '收藏'],
+  ['skip_configs', '跳过配置'],
+  ['subtitles', '字幕'],
+  ['search_history', '搜索历史'],
+  ['settings', '用户设置'],
+  ['admin_config', '管理员配置'],
+  ['shared_skip_configs', '社区跳过配置'],
+  ['source_health', '资源站健康状态'],
+];
+
 // 视频源数据类型
 interface DataSource {
   name: string;
   key: string;
   api: string;
   detail?: string;
+  format?: 'json' | 'xml'; // 留空时自动识别
   disabled?: boolean;
   from: 'config' | 'custom';
   is_adult?: boolean; // 添加成人内容标记字段
+  ad_filter?: AdFilterRules; // 去广告规则
+  force_proxy?: boolean; // 强制经由服务端代理播放
+  proxy_headers?: Record<string, string>; // 代理请求头
+  proxy_hosts?: string[]; // 允许代理的播放域名
+  play_mode?: 'parse' | 'direct'; // 播放方式
 }
 
 // 可折叠标签组件
@@ -702,6 +748,153 @@ const VideoSourceConfig = ({
     });
   };
 
+  // 编辑去广告规则
+  const handleEditAdFilter = async (source: DataSource) => {
+    const rules = { ...DEFAULT_AD_FILTER_RULES, ...source.ad_filter };
+    const checkbox = (id: string, label: string, checked: boolean) =>
+      `<label style="display:flex;align-items:center;gap:8px;margin:6px 0;font-size:14px">
+        <input type="checkbox" id="${id}" ${checked ? 'checked' : ''} />${label}
+      </label>`;
+
+    const result = await Swal.fire({
+      title: `去广告规则 - ${source.name}`,
+      html: `<div style="text-align:left">
+        ${checkbox('ad-enabled', '启用去广告', rules.enabled)}
+        ${checkbox('ad-host', '分片域名与正片不同视为广告', rules.checkHost)}
+        ${checkbox('ad-path', '分片目录与正片不同视为广告', rules.checkPath)}
+        ${checkbox('ad-duration', '分片时长特征与正片不同视为广告', rules.checkDuration)}
+        <label style="display:block;margin-top:10px;font-size:14px">单个广告块最长时长（秒）</label>
+        <input id="ad-max" type="number" min="1" class="swal2-input" style="margin:6px 0;width:100%" value="${rules.maxAdDuration}" />
+        <label style="display:block;margin-top:10px;font-size:14px">地址关键字（每行一个，命中即移除）</label>
+        <textarea id="ad-keywords" class="swal2-textarea" style="margin:6px 0;width:100%">${rules.keywords.join('\n')}</textarea>
+      </div>`,
+      showCancelButton: true,
+      showDenyButton: !!source.ad_filter,
+      confirmButtonText: '保存',
+      denyButtonText: '恢复默认',
+      cancelButtonText: '取消',
+      focusConfirm: false,
+      preConfirm: () => {
+        const getChecked = (id: string) =>
+          (document.getElementById(id) as HTMLInputElement).checked;
+        const maxAdDuration = Number(
+          (document.getElementById('ad-max') as HTMLInputElement).value
+        );
+        if (!(maxAdDuration > 0)) {
+          Swal.showValidationMessage('请输入有效的时长');
+          return false;
+        }
+        return {
+          enabled: getChecked('ad-enabled'),
+          checkHost: getChecked('ad-host'),
+          checkPath: getChecked('ad-path'),
+          checkDuration: getChecked('ad-duration'),
+          maxAdDuration,
+          keywords: (
+            document.getElementById('ad-keywords') as HTMLTextAreaElement
+          ).value
+            .split('\n')
+            .map((k) => k.trim())
+            .filter(Boolean),
+        } as AdFilterRules;
+      },
+    });
+
+    if (result.isDismissed) return;
+    callSourceApi({
+      action: 'ad_filter',
+      key: source.key,
+      ad_filter: result.isDenied ? null : result.value,
+    })
+      .then(() => showSuccess('去广告规则已保存'))
+      .catch(() => {
+        console.error('操作失败', 'ad_filter', source.key);
+      });
+  };
+
+  // 编辑播放代理设置
+  const handleEditProxy = async (source: DataSource) => {
+    const headersText = Object.entries(source.proxy_headers || {})
+      .map(([name, value]) => `${name}: ${value}`)
+      .join('\n');
+    const hostsText = (source.proxy_hosts || []).join('\n');
+
+    const result = await Swal.fire({
+      title: `播放代理 - ${source.name}`,
+      html: `<div style="text-align:left">
+        <label style="display:flex;align-items:center;gap:8px;margin:6px 0;font-size:14px">
+          <input type="checkbox" id="proxy-force" ${source.force_proxy ? 'checked' : ''} />强制经由服务端代理播放
+        </label>
+        <label style="display:block;margin-top:10px;font-size:14px">自定义请求头（每行一个，如 Referer: https://example.com/）</label>
+        <textarea id="proxy-headers" class="swal2-textarea" style="margin:6px 0;width:100%">${headersText}</textarea>
+        <label style="display:block;margin-top:10px;font-size:14px">播放域名（每行一个，包含子域名；接口所在域名无需填写）</label>
+        <p style="margin:4px 0;font-size:12px;color:#6b7280">强制代理只转发接口域名与这里填写的域名下的播放列表，播放地址不在接口域名下时必须填写，否则无法播放；已放行播放列表中的分片域名会自动放行</p>
+        <textarea id="proxy-hosts" class="swal2-textarea" style="margin:6px 0;width:100%">${hostsText}</textarea>
+      </div>`,
+      showCancelButton: true,
+      confirmButtonText: '保存',
+      cancelButtonText: '取消',
+      focusConfirm: false,
+      preConfirm: () => {
+        const headers: Record<string, string> = {};
+        const lines = (
+          document.getElementById('proxy-headers') as HTMLTextAreaElement
+        ).value
+          .split('\n')
+          .map((line) => line.trim())
+          .filter(Boolean);
+        for (const line of lines) {
+          const index = line.indexOf(':');
+          if (index <= 0) {
+            Swal.showValidationMessage(`请求头格式错误: ${line}`);
+            return false;
+          }
+          headers[line.slice(0, index).trim()] = line.slice(index + 1).trim();
+        }
+        const hosts = (
+          document.getElementById('proxy-hosts') as HTMLTextAreaElement
+        ).value
+          .split('\n')
+          .map((line) => line.trim().toLowerCase())
+          .filter(Boolean);
+        const invalidHost = hosts.find(
+          (host) => !/^[a-z0-9.-]+\.[a-z0-9-]+$/.test(host)
+        );
+        if (invalidHost) {
+          Swal.showValidationMessage(`域名格式错误: ${invalidHost}`);
+          return false;
+        }
+        return {
+          force_proxy: (document.getElementById('proxy-force') as HTMLInputElement)
+            .checked,
+          proxy_headers: headers,
+          proxy_hosts: hosts,
+        };
+      },
+    });
+
+    if (!result.isConfirmed) return;
+    callSourceApi({ action: 'proxy', key: source.key, ...result.value })
+      .then(() => showSuccess('播放代理设置已保存'))
+      .catch(() => {
+        console.error('操作失败', 'proxy', source.key);
+      });
+  };
+
+  // 切换播放方式：直接播放或经由解析接口播放
+  const handleTogglePlayMode = (source: DataSource) => {
+    const playMode = source.play_mode === 'parse' ? 'direct' : 'parse';
+    callSourceApi({ action: 'play_mode', key: source.key, play_mode: playMode })
+      .then(() =>
+        showSuccess(
+          playMode === 'parse' ? '已改为经由解析接口播放' : '已改为直接播放'
+        )
+      )
+      .catch(() => {
+        console.error('操作失败', 'play_mode', source.key);
+      });
+  };
+
   const handleDelete = (key: string) => {
     // 检查是否为示例源
     const source = sources.find(s => s.key === key);
@@ -723,6 +916,7 @@ const VideoSourceConfig = ({
       name: newSource.name,
       api: newSource.api,
       detail: newSource.detail,
+      format: newSource.format,
       is_adult: newSource.is_adult, // 传递成人内容标记
     })
       .then(() => {
@@ -731,6 +925,7 @@ const VideoSourceConfig = ({
           key: '',
           api: '',
           detail: '',
+          format: undefined,
           disabled: false,
           from: 'custom',
           is_adult: false, // 重置为默认值
@@ -871,7 +1066,9 @@ const VideoSourceConfig = ({
             api: source.api,
             name: source.name,
             ...(source.detail && { detail: source.detail }),
-            ...(source.is_adult !== undefined && { is_adult: source.is_adult }) // 确保导出 is_adult 字段
+            ...(source.format && { format: source.format }),
+            ...(source.is_adult !== undefined && { is_adult: source.is_adult }), // 确保导出 is_adult 字段
+            ...(source.play_mode === 'parse' && { playMode: 'parse' })
           };
         }
       });
@@ -944,7 +1141,7 @@ const VideoSourceConfig = ({
               throw new Error(`${key}: 无效的配置对象`);
             }
             
-            const sourceObj = source as { api?: string; name?: string; detail?: string; is_adult?: boolean };
+            const sourceObj = source as { api?: string; name?: string; detail?: string; format?: 'json' | 'xml'; is_adult?: boolean; playMode?: 'parse' | 'direct' };
             
             if (!sourceObj.api || !sourceObj.name) {
               throw new Error(`${key}: 缺少必要字段 api 或 name`);
@@ -956,7 +1153,9 @@ const VideoSourceConfig = ({
               name: sourceObj.name,
               api: sourceObj.api,
               detail: sourceObj.detail || '',
-              is_adult: sourceObj.is_adult || false // 确保处理 is_adult 字段
+              format: sourceObj.format,
+              is_adult: sourceObj.is_adult || false, // 确保处理 is_adult 字段
+              play_mode: sourceObj.playMode
             });
             successCount++;
           } catch (error) {
@@ -1110,6 +1309,43 @@ const VideoSourceConfig = ({
           >
             {!source.disabled ? '禁用' : '启用'}
           </button>
+          <button
+            onClick={() => handleEditAdFilter(source)}
+            className={`inline-flex items-center px-3 py-1.5 rounded-full text-xs font-medium ${
+              source.ad_filter
+                ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-800 dark:text-blue-300 hover:bg-blue-200 dark:hover:bg-blue-900/60'
+                : 'bg-gray-100 text-gray-800 hover:bg-gray-200 dark:bg-gray-700/40 dark:hover:bg-gray-700/60 dark:text-gray-200'
+            } transition-colors`}
+            title={source.ad_filter ? '已自定义去广告规则' : '使用默认去广告规则'}
+          >
+            去广告
+          </button>
+          <button
+            onClick={() => handleEditProxy(source)}
+            className={`inline-flex items-center px-3 py-1.5 rounded-full text-xs font-medium ${
+              source.force_proxy
+                ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-800 dark:text-blue-300 hover:bg-blue-200 dark:hover:bg-blue-900/60'
+                : 'bg-gray-100 text-gray-800 hover:bg-gray-200 dark:bg-gray-700/40 dark:hover:bg-gray-700/60 dark:text-gray-200'
+            } transition-colors`}
+            title={source.force_proxy ? '已强制代理播放' : '直连播放'}
+          >
+            代理
+          </button>
+          <button
+            onClick={() => handleTogglePlayMode(source)}
+            className={`inline-flex items-center px-3 py-1.5 rounded-full text-xs font-medium ${
+              source.play_mode === 'parse'
+                ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-800 dark:text-blue-300 hover:bg-blue-200 dark:hover:bg-blue-900/60'
+                : 'bg-gray-100 text-gray-800 hover:bg-gray-200 dark:bg-gray-700/40 dark:hover:bg-gray-700/60 dark:text-gray-200'
+            } transition-colors`}
+            title={
+              source.play_mode === 'parse'
+                ? '播放地址经由解析接口播放'
+                : '播放地址直接播放'
+            }
+          >
+            解析
+          </button>
           {source.from !== 'config' ? (
             <button
               onClick={() => handleDelete(source.key)}
@@ -1252,6 +1488,20 @@ const VideoSourceConfig = ({
               }
               className='px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100'
             />
+            <select
+              value={newSource.format || ''}
+              onChange={(e) =>
+                setNewSource((prev) => ({
+                  ...prev,
+                  format: (e.target.value || undefined) as DataSource['format'],
+                }))
+              }
+              className='px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100'
+            >
+              <option value=''>接口格式：自动识别</option>
+              <option value='json'>接口格式：JSON</option>
+              <option value='xml'>接口格式：XML（苹果 CMS）</option>
+            </select>
             
             {/* 成人内容标记复选框 */}
             <div className='flex items-center space-x-2'>
@@ -1360,6 +1610,690 @@ const VideoSourceConfig = ({
   );
 };
 
+// 解析接口配置组件
+const ParserConfigPanel = ({
+  config,
+  refreshConfig,
+}: {
+  config: AdminConfig | null;
+  refreshConfig: () => Promise<void>;
+}) => {
+  const [testUrl, setTestUrl] = useState(DEFAULT_PARSER_TEST_URL);
+  const [testingKey, setTestingKey] = useState<string | null>(null);
+
+  const callParserApi = async (body: Record<string, any>) => {
+    const resp = await fetch('/api/admin/parser', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const data = await resp.json().catch(() => ({}));
+    if (!resp.ok) {
+      throw new Error(data.error || `操作失败: ${resp.status}`);
+    }
+    return data;
+  };
+
+  const runAction = async (body: Record<string, any>, success?: string) => {
+    try {
+      await callParserApi(body);
+      await refreshConfig();
+      if (success) showSuccess(success);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : '操作失败');
+    }
+  };
+
+  // 添加或编辑解析接口
+  const handleEdit = async (parser?: ParserConfig) => {
+    const escape = (value: string) =>
+      value
+        .replace(/&/g, '&amp;')
+        .replace(/"/g, '&quot;')
+        .replace(/</g, '&lt;');
+    const headersText = Object.entries(parser?.headers || {})
+      .map(([name, value]) => `${name}: ${value}`)
+      .join('\n');
+    const platformBoxes = PARSE_PLATFORMS.map(
+      (p) =>
+        `<label style="display:inline-flex;align-items:center;gap:4px;margin:4px 12px 4px 0;font-size:14px">
+          <input type="checkbox" class="parser-platform" value="${p.key}" ${
+          parser?.platforms.includes(p.key) ? 'checked' : ''
+        } />${p.name}
+        </label>`
+    ).join('');
+
+    const result = await Swal.fire({
+      title: parser ? `编辑解析接口 - ${parser.name}` : '添加解析接口',
+      html: `<div style="text-align:left">
+        <label style="display:block;font-size:14px">标识</label>
+        <input id="parser-key" class="swal2-input" style="margin:6px 0;width:100%" value="${escape(parser?.key || '')}" />
+        <label style="display:block;margin-top:10px;font-size:14px">名称</label>
+        <input id="parser-name" class="swal2-input" style="margin:6px 0;width:100%" value="${escape(parser?.name || '')}" />
+        <label style="display:block;margin-top:10px;font-size:14px">地址模板（{url} 替换为视频地址，省略时拼接在末尾）</label>
+        <input id="parser-url" class="swal2-input" style="margin:6px 0;width:100%" placeholder="https://example.com/?url={url}" value="${escape(parser?.url || '')}" />
+        <label style="display:block;margin-top:10px;font-size:14px">类型</label>
+        <select id="parser-type" class="swal2-select" style="margin:6px 0;width:100%">
+          <option value="web" ${parser?.type !== 'json' ? 'selected' : ''}>网页（嵌入播放）</option>
+          <option value="json" ${parser?.type === 'json' ? 'selected' : ''}>JSON（返回播放地址）</option>
+        </select>
+        <label style="display:block;margin-top:10px;font-size:14px">支持平台（不选表示不限）</label>
+        <div>${platformBoxes}</div>
+        <label style="display:block;margin-top:10px;font-size:14px">请求头（仅 JSON 接口，每行一个，如 Referer: https://example.com/）</label>
+        <textarea id="parser-headers" class="swal2-textarea" style="margin:6px 0;width:100%">${escape(headersText)}</textarea>
+      </div>`,
+      showCancelButton: true,
+      confirmButtonText: '保存',
+      cancelButtonText: '取消',
+      focusConfirm: false,
+      preConfirm: () => {
+        const getValue = (id: string) =>
+          (document.getElementById(id) as HTMLInputElement).value.trim();
+        const headers: Record<string, string> = {};
+        const lines = getValue('parser-headers')
+          .split('\n')
+          .map((line) => line.trim())
+          .filter(Boolean);
+        for (const line of lines) {
+          const index = line.indexOf(':');
+          if (index <= 0) {
+            Swal.showValidationMessage(`请求头格式错误: ${line}`);
+            return false;
+          }
+          headers[line.slice(0, index).trim()] = line.slice(index + 1).trim();
+        }
+        const value: ParserConfig = {
+          key: getValue('parser-key'),
+          name: getValue('parser-name'),
+          url: getValue('parser-url'),
+          type: getValue('parser-type') === 'json' ? 'json' : 'web',
+          platforms: Array.from(
+            document.querySelectorAll<HTMLInputElement>(
+              '.parser-platform:checked'
+            )
+          ).map((input) => input.value),
+          headers,
+        };
+        if (!value.key || !value.name || !value.url) {
+          Swal.showValidationMessage('请填写标识、名称和地址模板');
+          return false;
+        }
+        return value;
+      },
+    });
+
+    if (!result.isConfirmed) return;
+    runAction(
+      parser
+        ? { action: 'update', key: parser.key, parser: result.value }
+        : { action: 'add', parser: result.value },
+      '解析接口已保存'
+    );
+  };
+
+  const handleTest = async (parser: ParserConfig) => {
+    const input = await Swal.fire({
+      title: `测试解析接口 - ${parser.name}`,
+      input: 'url',
+      inputLabel: '视频页面地址',
+      inputValue: testUrl,
+      showCancelButton: true,
+      confirmButtonText: '测试',
+      cancelButtonText: '取消',
+    });
+    if (!input.isConfirmed || !input.value) return;
+    setTestUrl(input.value);
+
+    setTestingKey(parser.key);
+    try {
+      const result = await callParserApi({
+        action: 'test',
+        key: parser.key,
+        url: input.value,
+      });
+      await Swal.fire({
+        icon: result.ok ? 'success' : 'error',
+        title: result.ok ? '解析接口可用' : '解析接口不可用',
+        html: `<div style="text-align:left;font-size:14px;word-break:break-all">
+          <p>耗时：${result.latency}ms</p>
+          ${result.error ? `<p>原因：${result.error}</p>` : ''}
+          ${result.url ? `<p>播放地址：${result.url}</p>` : ''}
+          <p>解析地址：<a href="${result.parse_url}" target="_blank" rel="noreferrer" style="color:#2563eb">${result.parse_url}</a></p>
+        </div>`,
+      });
+    } catch (err) {
+      showError(err instanceof Error ? err.message : '测试失败');
+    } finally {
+      setTestingKey(null);
+    }
+  };
+
+  const handleDelete = async (parser: ParserConfig) => {
+    const { isConfirmed } = await Swal.fire({
+      title: '确认删除',
+      text: `确定删除解析接口「${parser.name}」？`,
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonText: '删除',
+      cancelButtonText: '取消',
+      confirmButtonColor: '#ef4444',
+    });
+    if (!isConfirmed) return;
+    runAction({ action: 'delete', key: parser.key });
+  };
+
+  const handleMove = (index: number, delta: number) => {
+    if (!config) return;
+    const order = config.ParseConfig.map((p) => p.key);
+    const target = index + delta;
+    if (target < 0 || target >= order.length) return;
+    [order[index], order[target]] = [order[target], order[index]];
+    runAction({ action: 'sort', order });
+  };
+
+  if (!config) {
+    return (
+      <div className='text-center text-gray-500 dark:text-gray-400'>
+        加载中...
+      </div>
+    );
+  }
+
+  const platformName = (key: string) =>
+    PARSE_PLATFORMS.find((p) => p.key === key)?.name || key;
+
+  return (
+    <div className='space-y-4'>
+      <div className='flex items-center justify-between'>
+        <h4 className='text-sm font-medium text-gray-700 dark:text-gray-300'>
+          播放方式为「解析」的资源站按顺序使用这些接口，JSON 接口失败时依次尝试下一个
+        </h4>
+        <button
+          onClick={() => handleEdit()}
+          className='px-3 py-1 bg-green-600 hover:bg-green-700 text-white text-sm rounded-lg transition-colors'
+        >
+          添加
+        </button>
+      </div>
+
+      <div className='border border-gray-200 dark:border-gray-700 rounded-lg max-h-[28rem] overflow-y-auto overflow-x-auto'>
+        <table className='min-w-full divide-y divide-gray-200 dark:divide-gray-700'>
+          <thead className='bg-gray-50 dark:bg-gray-900'>
+            <tr>
+              <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                名称
+              </th>
+              <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                类型
+              </th>
+              <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                地址模板
+              </th>
+              <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                支持平台
+              </th>
+              <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                状态
+              </th>
+              <th className='px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                操作
+              </th>
+            </tr>
+          </thead>
+          <tbody className='divide-y divide-gray-200 dark:divide-gray-700'>
+            {config.ParseConfig.map((parser, index) => (
+              <tr
+                key={parser.key}
+                className='hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors'
+              >
+                <td className='px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'>
+                  {parser.name}
+                </td>
+                <td className='px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'>
+                  {parser.type === 'json' ? 'JSON' : '网页'}
+                </td>
+                <td
+                  className='px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100 max-w-[14rem] truncate'
+                  title={parser.url}
+                >
+                  {parser.url}
+                </td>
+                <td
+                  className='px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100 max-w-[10rem] truncate'
+                  title={parser.platforms.map(platformName).join('、')}
+                >
+                  {parser.platforms.length > 0
+                    ? parser.platforms.map(platformName).join('、')
+                    : '不限'}
+                </td>
+                <td className='px-6 py-4 whitespace-nowrap'>
+                  <span
+                    className={`px-2 py-1 text-xs rounded-full ${
+                      !parser.disabled
+                        ? 'bg-green-100 dark:bg-green-900/20 text-green-800 dark:text-green-300'
+                        : 'bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-300'
+                    }`}
+                  >
+                    {!parser.disabled ? '启用中' : '已禁用'}
+                  </span>
+                </td>
+                <td className='px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-2'>
+                  <button
+                    onClick={() => handleMove(index, -1)}
+                    disabled={index === 0}
+                    className='inline-flex items-center px-2 py-1.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800 hover:bg-gray-200 disabled:opacity-40 dark:bg-gray-700/40 dark:hover:bg-gray-700/60 dark:text-gray-200 transition-colors'
+                    title='上移'
+                  >
+                    ↑
+                  </button>
+                  <button
+                    onClick={() => handleMove(index, 1)}
+                    disabled={index === config.ParseConfig.length - 1}
+                    className='inline-flex items-center px-2 py-1.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800 hover:bg-gray-200 disabled:opacity-40 dark:bg-gray-700/40 dark:hover:bg-gray-700/60 dark:text-gray-200 transition-colors'
+                    title='下移'
+                  >
+                    ↓
+                  </button>
+                  <button
+                    onClick={() => handleTest(parser)}
+                    disabled={testingKey === parser.key}
+                    className='inline-flex items-center px-3 py-1.5 rounded-full text-xs font-medium bg-blue-100 dark:bg-blue-900/40 text-blue-800 dark:text-blue-300 hover:bg-blue-200 dark:hover:bg-blue-900/60 disabled:opacity-50 transition-colors'
+                  >
+                    {testingKey === parser.key ? '测试中...' : '测试'}
+                  </button>
+                  <button
+                    onClick={() => handleEdit(parser)}
+                    className='inline-flex items-center px-3 py-1.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800 hover:bg-gray-200 dark:bg-gray-700/40 dark:hover:bg-gray-700/60 dark:text-gray-200 transition-colors'
+                  >
+                    编辑
+                  </button>
+                  <button
+                    onClick={() =>
+                      runAction({
+                        action: parser.disabled ? 'enable' : 'disable',
+                        key: parser.key,
+                      })
+                    }
+                    className={`inline-flex items-center px-3 py-1.5 rounded-full text-xs font-medium ${
+                      !parser.disabled
+                        ? 'bg-red-100 dark:bg-red-900/40 text-red-800 dark:text-red-300 hover:bg-red-200 dark:hover:bg-red-900/60'
+                        : 'bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-300 hover:bg-green-200 dark:hover:bg-green-900/60'
+                    } transition-colors`}
+                  >
+                    {!parser.disabled ? '禁用' : '启用'}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(parser)}
+                    className='inline-flex items-center px-3 py-1.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800 hover:bg-gray-200 dark:bg-gray-700/40 dark:hover:bg-gray-700/60 dark:text-gray-200 transition-colors'
+                  >
+                    删除
+                  </button>
+                </td>
+              </tr>
+            ))}
+            {config.ParseConfig.length === 0 && (
+              <tr>
+                <td
+                  colSpan={6}
+                  className='px-6 py-8 text-center text-sm text-gray-500 dark:text-gray-400'
+                >
+                  暂无解析接口
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+// 资源站健康状态组件
+const SourceHealthPanel = ({ config }: { config: AdminConfig | null }) => {
+  const [health, setHealth] = useState<Record<string, SourceHealth>>({});
+  const [loading, setLoading] = useState(false);
+
+  const fetchHealth = useCallback(async () => {
+    try {
+      setLoading(true);
+      const resp = await fetch('/api/admin/source/health');
+      const data = await resp.json();
+      if (!resp.ok) {
+        throw new Error(data.error || `获取失败: ${resp.status}`);
+      }
+      setHealth(data.health || {});
+    } catch (err) {
+      showError(err instanceof Error ? err.message : '获取健康状态失败');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchHealth();
+  }, [fetchHealth]);
+
+  const handleReset = async (key?: string) => {
+    try {
+      const resp = await fetch('/api/admin/source/health', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'reset', key }),
+      });
+      if (!resp.ok) {
+        const data = await resp.json().catch(() => ({}));
+        throw new Error(data.error || `重置失败: ${resp.status}`);
+      }
+      await fetchHealth();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : '重置失败');
+    }
+  };
+
+  if (!config) {
+    return (
+      <div className='text-center text-gray-500 dark:text-gray-400'>
+        加载中...
+      </div>
+    );
+  }
+
+  const now = Date.now();
+
+  return (
+    <div className='space-y-4'>
+      <div className='flex items-center justify-between'>
+        <h4 className='text-sm font-medium text-gray-700 dark:text-gray-300'>
+          连续失败的资源站会被暂时跳过，冷却结束后自动重试
+        </h4>
+        <div className='flex items-center gap-2'>
+          <button
+            onClick={fetchHealth}
+            disabled={loading}
+            className='px-3 py-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white text-sm rounded-lg transition-colors'
+          >
+            {loading ? '刷新中...' : '刷新'}
+          </button>
+          <button
+            onClick={() => handleReset()}
+            className='px-3 py-1 bg-gray-600 hover:bg-gray-700 text-white text-sm rounded-lg transition-colors'
+          >
+            全部重置
+          </button>
+        </div>
+      </div>
+
+      <div className='border border-gray-200 dark:border-gray-700 rounded-lg max-h-[28rem] overflow-y-auto overflow-x-auto'>
+        <table className='min-w-full divide-y divide-gray-200 dark:divide-gray-700'>
+          <thead className='bg-gray-50 dark:bg-gray-900'>
+            <tr>
+              <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                名称
+              </th>
+              <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                成功率
+              </th>
+              <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                平均耗时
+              </th>
+              <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                最近错误
+              </th>
+              <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                状态
+              </th>
+              <th className='px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                操作
+              </th>
+            </tr>
+          </thead>
+          <tbody className='divide-y divide-gray-200 dark:divide-gray-700'>
+            {config.SourceConfig.map((source) => {
+              const item = health[source.key];
+              const total = item ? item.success_count + item.failure_count : 0;
+              const circuitOpen =
+                !!item?.circuit_open_until && item.circuit_open_until > now;
+              return (
+                <tr
+                  key={source.key}
+                  className='hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors'
+                >
+                  <td className='px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'>
+                    {source.name}
+                  </td>
+                  <td className='px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'>
+                    {total > 0
+                      ? `${Math.round(
+                          ((item?.success_count || 0) / total) * 100
+                        )}% (${total})`
+                      : '-'}
+                  </td>
+                  <td className='px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'>
+                    {item ? `${item.avg_latency}ms` : '-'}
+                  </td>
+                  <td
+                    className='px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100 max-w-[12rem] truncate'
+                    title={item?.last_error || '-'}
+                  >
+                    {item?.last_error || '-'}
+                  </td>
+                  <td className='px-6 py-4 whitespace-nowrap'>
+                    <span
+                      className={`px-2 py-1 text-xs rounded-full ${
+                        circuitOpen
+                          ? 'bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-300'
+                          : item && item.consecutive_failures > 0
+                          ? 'bg-amber-100 dark:bg-amber-900/20 text-amber-800 dark:text-amber-300'
+                          : 'bg-green-100 dark:bg-green-900/20 text-green-800 dark:text-green-300'
+                      }`}
+                    >
+                      {circuitOpen
+                        ? `熔断中 (${Math.ceil(
+                            ((item?.circuit_open_until || 0) - now) / 60000
+                          )} 分钟)`
+                        : item && item.consecutive_failures > 0
+                        ? `连续失败 ${item.consecutive_failures} 次`
+                        : '正常'}
+                    </span>
+                  </td>
+                  <td className='px-6 py-4 whitespace-nowrap text-right text-sm font-medium'>
+                    <button
+                      onClick={() => handleReset(source.key)}
+                      disabled={!item}
+                      className='inline-flex items-center px-3 py-1.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800 hover:bg-gray-200 disabled:opacity-50 dark:bg-gray-700/40 dark:hover:bg-gray-700/60 dark:text-gray-200 transition-colors'
+                    >
+                      重置
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+// 社区共享跳过配置审核组件
+const SharedSkipPanel = () => {
+  const [configs, setConfigs] = useState<Record<string, SharedSkipConfig>>({});
+  const [loading, setLoading] = useState(false);
+
+  const fetchConfigs = useCallback(async () => {
+    try {
+      setLoading(true);
+      const resp = await fetch('/api/admin/skip-configs');
+      const data = await resp.json();
+      if (!resp.ok) {
+        throw new Error(data.error || `获取失败: ${resp.status}`);
+      }
+      setConfigs(data.configs || {});
+    } catch (err) {
+      showError(err instanceof Error ? err.message : '获取共享跳过配置失败');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchConfigs();
+  }, [fetchConfigs]);
+
+  const handleAction = async (
+    action: 'hide' | 'unhide' | 'delete',
+    key: string
+  ) => {
+    if (action === 'delete') {
+      const { isConfirmed } = await Swal.fire({
+        title: '确认删除',
+        text: '删除后其他用户将不再获得这组跳过时间，是否继续？',
+        icon: 'warning',
+        showCancelButton: true,
+        confirmButtonText: '删除',
+        cancelButtonText: '取消',
+      });
+      if (!isConfirmed) return;
+    }
+
+    try {
+      const resp = await fetch('/api/admin/skip-configs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, key }),
+      });
+      if (!resp.ok) {
+        const data = await resp.json().catch(() => ({}));
+        throw new Error(data.error || `操作失败: ${resp.status}`);
+      }
+      await fetchConfigs();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : '操作失败');
+    }
+  };
+
+  const formatSeconds = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60)
+      .toString()
+      .padStart(2, '0')}`;
+
+  const entries = Object.entries(configs).sort(
+    ([, a], [, b]) => b.updated_time - a.updated_time
+  );
+
+  return (
+    <div className='space-y-4'>
+      <div className='flex items-center justify-between'>
+        <h4 className='text-sm font-medium text-gray-700 dark:text-gray-300'>
+          用户发布的跳过时间会作为其他用户的默认配置，隐藏后不再下发
+        </h4>
+        <button
+          onClick={fetchConfigs}
+          disabled={loading}
+          className='px-3 py-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white text-sm rounded-lg transition-colors'
+        >
+          {loading ? '刷新中...' : '刷新'}
+        </button>
+      </div>
+
+      <div className='border border-gray-200 dark:border-gray-700 rounded-lg max-h-[28rem] overflow-y-auto overflow-x-auto'>
+        <table className='min-w-full divide-y divide-gray-200 dark:divide-gray-700'>
+          <thead className='bg-gray-50 dark:bg-gray-900'>
+            <tr>
+              <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                标题
+              </th>
+              <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                片段
+              </th>
+              <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                发布者
+              </th>
+              <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                更新时间
+              </th>
+              <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                状态
+              </th>
+              <th className='px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                操作
+              </th>
+            </tr>
+          </thead>
+          <tbody className='divide-y divide-gray-200 dark:divide-gray-700'>
+            {entries.length === 0 && (
+              <tr>
+                <td
+                  colSpan={6}
+                  className='px-6 py-4 text-center text-sm text-gray-500 dark:text-gray-400'
+                >
+                  暂无共享配置
+                </td>
+              </tr>
+            )}
+            {entries.map(([key, item]) => (
+              <tr
+                key={key}
+                className='hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors'
+              >
+                <td
+                  className='px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100 max-w-[14rem] truncate'
+                  title={`${item.title} (${key})`}
+                >
+                  {item.title}
+                </td>
+                <td className='px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'>
+                  {item.segments
+                    .map(
+                      (s) =>
+                        `${
+                          s.type === 'opening' ? '片头' : '片尾'
+                        } ${formatSeconds(s.start)}-${formatSeconds(s.end)}`
+                    )
+                    .join('，')}
+                </td>
+                <td className='px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'>
+                  {item.contributor}
+                </td>
+                <td className='px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'>
+                  {new Date(item.updated_time).toLocaleString()}
+                </td>
+                <td className='px-6 py-4 whitespace-nowrap'>
+                  <span
+                    className={`px-2 py-1 text-xs rounded-full ${
+                      item.hidden
+                        ? 'bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-300'
+                        : 'bg-green-100 dark:bg-green-900/20 text-green-800 dark:text-green-300'
+                    }`}
+                  >
+                    {item.hidden ? '已隐藏' : '已发布'}
+                  </span>
+                </td>
+                <td className='px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-2'>
+                  <button
+                    onClick={() =>
+                      handleAction(item.hidden ? 'unhide' : 'hide', key)
+                    }
+                    className='inline-flex items-center px-3 py-1.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800 hover:bg-gray-200 dark:bg-gray-700/40 dark:hover:bg-gray-700/60 dark:text-gray-200 transition-colors'
+                  >
+                    {item.hidden ? '恢复' : '隐藏'}
+                  </button>
+                  <button
+                    onClick={() => handleAction('delete', key)}
+                    className='inline-flex items-center px-3 py-1.5 rounded-full text-xs font-medium bg-red-100 text-red-800 hover:bg-red-200 dark:bg-red-900/40 dark:hover:bg-red-900/60 dark:text-red-300 transition-colors'
+                  >
+                    删除
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
 // 新增站点配置组件
 const SiteConfigComponent = ({ config }: { config: AdminConfig | null }) => {
   const [siteSettings, setSiteSettings] = useState<SiteConfig>({
@@ -1372,6 +2306,7 @@ const SiteConfigComponent = ({ config }: { config: AdminConfig | null }) => {
   });
   // 保存状态
   const [saving, setSaving] = useState(false);
+  const [purging, setPurging] = useState(false);
 
   // 检测存储类型是否为 d1 或 upstash
   const isD1Storage =
@@ -1391,6 +2326,29 @@ const SiteConfigComponent = ({ config }: { config: AdminConfig | null }) => {
     }
   }, [config]);
 
+  // 清除资源站接口缓存
+  const handlePurgeCache = async () => {
+    try {
+      setPurging(true);
+      const resp = await fetch('/api/admin/cache', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+
+      if (!resp.ok) {
+        const data = await resp.json().catch(() => ({}));
+        throw new Error(data.error || `清除失败: ${resp.status}`);
+      }
+
+      showSuccess('接口缓存已清除');
+    } catch (err) {
+      showError(err instanceof Error ? err.message : '清除失败');
+    } finally {
+      setPurging(false);
+    }
+  };
+
   // 保存站点配置
   const handleSave = async () => {
     try {
@@ -1535,6 +2493,18 @@ const SiteConfigComponent = ({ config }: { config: AdminConfig | null }) => {
           }
           className='w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-green-500 focus:border-transparent'
         />
+        <div className='mt-2 flex items-center justify-between gap-2'>
+          <p className='text-xs text-gray-500 dark:text-gray-400'>
+            资源站搜索与详情结果会按此时间缓存在数据库中
+          </p>
+          <button
+            onClick={handlePurgeCache}
+            disabled={purging}
+            className='shrink-0 px-3 py-1 bg-gray-600 hover:bg-gray-700 disabled:bg-gray-400 text-white text-xs rounded-md transition-colors'
+          >
+            {purging ? '清除中...' : '清除缓存'}
+          </button>
+        </div>
       </div>
 
       {/* 图片代理 */}
@@ -1641,6 +2611,416 @@ const SiteConfigComponent = ({ config }: { config: AdminConfig | null }) => {
   );
 };
 
+// 存储迁移组件（仅站长可见）
+const StorageMigrationPanel = () => {
+  const currentStorage =
+    typeof window !== 'undefined'
+      ? (window as any).RUNTIME_CONFIG?.STORAGE_TYPE || 'localstorage'
+      : 'localstorage';
+  const sourceOptions = MIGRATION_SOURCES.filter(
+    (s) => s.value !== currentStorage
+  );
+  const [from, setFrom] = useState(sourceOptions[0]?.value || '');
+  const [mode, setMode] = useState<'merge' | 'overwrite'>('merge');
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState<{
+    done: number;
+    total: number;
+    username: string;
+  } | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [result, setResult] = useState<Extract<
+    MigrationEvent,
+    { type: 'done' }
+  > | null>(null);
+
+  const handleRun = async (dryRun: boolean) => {
+    if (!dryRun) {
+      const { isConfirmed } = await Swal.fire({
+        title: '确认迁移',
+        text: `将 ${from} 中的数据写入当前存储（${currentStorage}）${
+          mode === 'overwrite' ? '，同名用户的数据以源存储为准' : ''
+        }，管理员配置会被源存储覆盖`,
+        icon: 'warning',
+        showCancelButton: true,
+        confirmButtonText: '开始迁移',
+        cancelButtonText: '取消',
+      });
+      if (!isConfirmed) return;
+    }
+
+    setRunning(true);
+    setProgress(null);
+    setWarnings([]);
+    setResult(null);
+    try {
+      const response = await fetch('/api/admin/migrate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ from, dry_run: dryRun, mode }),
+      });
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `迁移失败: ${response.status}`);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          const event = JSON.parse(line) as MigrationEvent;
+          if (event.type === 'progress') {
+            setProgress(event);
+          } else if (event.type === 'warning') {
+            setWarnings((prev) => [...prev, event.message]);
+          } else if (event.type === 'done') {
+            setResult(event);
+          } else if (event.type === 'error') {
+            throw new Error(event.error);
+          }
+        }
+      }
+    } catch (err) {
+      showError(err instanceof Error ? err.message : '迁移失败');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  if (sourceOptions.length === 0) {
+    return (
+      <p className='text-sm text-gray-500 dark:text-gray-400'>
+        当前存储不支持迁移
+      </p>
+    );
+  }
+
+  return (
+    <div className='space-y-4'>
+      <p className='text-sm text-gray-600 dark:text-gray-400'>
+        从其它存储读取账号、播放记录、收藏、跳过配置、字幕、搜索历史、用户设置和管理员配置，写入当前存储（
+        {currentStorage}）。源存储的连接参数需在环境变量中保留。
+      </p>
+
+      <div className='flex flex-wrap items-end gap-4'>
+        <div>
+          <label className='block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2'>
+            源存储
+          </label>
+          <select
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            disabled={running}
+            className='px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-green-500 focus:border-transparent'
+          >
+            {sourceOptions.map((s) => (
+              <option key={s.value} value={s.value}>
+                {s.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className='block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2'>
+            已有数据
+          </label>
+          <select
+            value={mode}
+            onChange={(e) => setMode(e.target.value as 'merge' | 'overwrite')}
+            disabled={running}
+            className='px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-green-500 focus:border-transparent'
+          >
+            <option value='merge'>合并（保留较新的记录）</option>
+            <option value='overwrite'>覆盖（以源存储为准）</option>
+          </select>
+        </div>
+        <div className='flex gap-2'>
+          <button
+            onClick={() => handleRun(true)}
+            disabled={running || !from}
+            className='px-3 py-2 bg-gray-600 hover:bg-gray-700 disabled:bg-gray-400 text-white text-sm rounded-lg transition-colors'
+          >
+            试运行
+          </button>
+          <button
+            onClick={() => handleRun(false)}
+            disabled={running || !from}
+            className='px-3 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white text-sm rounded-lg transition-colors'
+          >
+            {running ? '迁移中...' : '开始迁移'}
+          </button>
+        </div>
+      </div>
+
+      {progress && (
+        <div>
+          <div className='flex justify-between text-xs text-gray-500 dark:text-gray-400 mb-1'>
+            <span>{progress.username}</span>
+            <span>
+              {progress.done} / {progress.total}
+            </span>
+          </div>
+          <div className='h-2 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden'>
+            <div
+              className='h-full bg-green-500 transition-all'
+              style={{
+                width: `${
+                  progress.total ? (progress.done / progress.total) * 100 : 100
+                }%`,
+              }}
+            />
+          </div>
+        </div>
+      )}
+
+      {warnings.map((warning) => (
+        <p
+          key={warning}
+          className='text-sm text-yellow-600 dark:text-yellow-400'
+        >
+          {warning}
+        </p>
+      ))}
+
+      {result && (
+        <div className='space-y-3'>
+          <div className='border border-gray-200 dark:border-gray-700 rounded-lg overflow-x-auto'>
+            <table className='min-w-full divide-y divide-gray-200 dark:divide-gray-700'>
+              <thead className='bg-gray-50 dark:bg-gray-900'>
+                <tr>
+                  <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                    数据
+                  </th>
+                  <th className='px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                    源存储
+                  </th>
+                  {result.verified && (
+                    <th className='px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                      已核对
+                    </th>
+                  )}
+                </tr>
+              </thead>
+              <tbody className='divide-y divide-gray-200 dark:divide-gray-700'>
+                {MIGRATION_FIELDS.map(([field, label]) => (
+                  <tr key={field}>
+                    <td className='px-6 py-2 text-sm text-gray-900 dark:text-gray-100'>
+                      {label}
+                    </td>
+                    <td className='px-6 py-2 text-sm text-right text-gray-900 dark:text-gray-100'>
+                      {result.source[field]}
+                    </td>
+                    {result.verified && (
+                      <td
+                        className={`px-6 py-2 text-sm text-right ${
+                          result.verified[field] < result.source[field]
+                            ? 'text-red-600 dark:text-red-400'
+                            : 'text-green-600 dark:text-green-400'
+                        }`}
+                      >
+                        {result.verified[field]}
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {result.dry_run ? (
+            <p className='text-sm text-gray-600 dark:text-gray-400'>
+              试运行仅统计源存储中的数据，未写入当前存储
+            </p>
+          ) : result.mismatches.length === 0 ? (
+            <p className='text-sm text-green-600 dark:text-green-400'>
+              迁移完成，核对无误
+            </p>
+          ) : (
+            <div className='text-sm text-red-600 dark:text-red-400 space-y-1'>
+              <p>以下数据核对不一致，可重新运行迁移：</p>
+              <ul className='list-disc pl-5 max-h-40 overflow-y-auto'>
+                {result.mismatches.map((item, index) => (
+                  <li key={index}>{item}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {result.not_migrated.length > 0 && (
+            <div className='text-sm text-gray-600 dark:text-gray-400 space-y-1'>
+              <p>以下数据不会迁移：</p>
+              <ul className='list-disc pl-5'>
+                {result.not_migrated.map((item, index) => (
+                  <li key={index}>{item}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// D1 数据库结构版本组件
+const SchemaStatusPanel = ({ role }: { role: 'owner' | 'admin' | null }) => {
+  const [status, setStatus] = useState<
+    (D1SchemaStatus & { error: string | null }) | null
+  >(null);
+  const [loading, setLoading] = useState(false);
+  const [applying, setApplying] = useState(false);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      setLoading(true);
+      const resp = await fetch('/api/admin/schema');
+      const data = await resp.json();
+      if (!resp.ok) {
+        throw new Error(data.error || `获取失败: ${resp.status}`);
+      }
+      setStatus(data);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : '获取数据库结构版本失败');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const handleApply = async () => {
+    try {
+      setApplying(true);
+      const resp = await fetch('/api/admin/schema', { method: 'POST' });
+      const data = await resp.json();
+      if (!resp.ok) {
+        throw new Error(
+          data.details || data.error || `迁移失败: ${resp.status}`
+        );
+      }
+      setStatus(data.status);
+      const renamed =
+        data.renamed.length > 0
+          ? `，旧表已改名保留：${data.renamed
+              .map((table: string) => `legacy_${table}`)
+              .join('、')}`
+          : '';
+      showSuccess(
+        data.applied.length > 0
+          ? `已执行 ${data.applied.length} 个迁移${renamed}`
+          : '数据库结构已是最新'
+      );
+    } catch (err) {
+      showError(err instanceof Error ? err.message : '执行数据库迁移失败');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  if (!status) {
+    return (
+      <p className='text-sm text-gray-500 dark:text-gray-400'>
+        {loading ? '加载中...' : '暂无数据'}
+      </p>
+    );
+  }
+
+  return (
+    <div className='space-y-4'>
+      <div className='flex flex-wrap items-center justify-between gap-4'>
+        <div className='text-sm text-gray-700 dark:text-gray-300 space-y-1'>
+          <p>
+            当前版本 {status.current} / 最新版本 {status.latest}
+          </p>
+          {status.pending.length === 0 ? (
+            <p className='text-green-600 dark:text-green-400'>
+              数据库结构已是最新
+            </p>
+          ) : (
+            <p className='text-yellow-600 dark:text-yellow-400'>
+              有 {status.pending.length} 个迁移待执行：
+              {status.pending.map((m) => `${m.version} ${m.name}`).join('、')}
+            </p>
+          )}
+          {status.legacy.length > 0 && (
+            <p className='text-red-600 dark:text-red-400'>
+              检测到旧版初始化脚本建立的表：{status.legacy.join('、')}
+              ，与当前版本不兼容，自动迁移已停止。执行迁移后这些表将改名为
+              legacy_ 前缀保留（数据不会自动转换），并按当前结构重新建表
+            </p>
+          )}
+          {status.error && (
+            <p className='text-red-600 dark:text-red-400'>
+              上次自动迁移失败：{status.error}
+            </p>
+          )}
+        </div>
+        <div className='flex gap-2'>
+          <button
+            onClick={fetchStatus}
+            disabled={loading || applying}
+            className='px-3 py-2 bg-gray-600 hover:bg-gray-700 disabled:bg-gray-400 text-white text-sm rounded-lg transition-colors'
+          >
+            刷新
+          </button>
+          {role === 'owner' &&
+            (status.pending.length > 0 || status.legacy.length > 0) && (
+              <button
+                onClick={handleApply}
+                disabled={loading || applying}
+                className='px-3 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white text-sm rounded-lg transition-colors'
+              >
+                {applying ? '执行中...' : '执行迁移'}
+              </button>
+            )}
+        </div>
+      </div>
+
+      {status.applied.length > 0 && (
+        <div className='border border-gray-200 dark:border-gray-700 rounded-lg overflow-x-auto'>
+          <table className='min-w-full divide-y divide-gray-200 dark:divide-gray-700'>
+            <thead className='bg-gray-50 dark:bg-gray-900'>
+              <tr>
+                <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                  版本
+                </th>
+                <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                  迁移
+                </th>
+                <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                  执行时间
+                </th>
+              </tr>
+            </thead>
+            <tbody className='divide-y divide-gray-200 dark:divide-gray-700'>
+              {status.applied.map((m) => (
+                <tr key={m.version}>
+                  <td className='px-6 py-2 text-sm text-gray-900 dark:text-gray-100'>
+                    {m.version}
+                  </td>
+                  <td className='px-6 py-2 text-sm text-gray-900 dark:text-gray-100'>
+                    {m.name}
+                  </td>
+                  <td className='px-6 py-2 text-sm text-gray-500 dark:text-gray-400'>
+                    {new Date(m.applied_at).toLocaleString()}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
 function AdminPageClient() {
   const router = useRouter();
   const [config, setConfig] = useState<AdminConfig | null>(null);
@@ -1650,9 +3030,19 @@ function AdminPageClient() {
   const [expandedTabs, setExpandedTabs] = useState<{ [key: string]: boolean }>({
     userConfig: false,
     videoSource: false,
+    parser: false,
+    sourceHealth: false,
+    sharedSkip: false,
+    migration: false,
+    schema: false,
     siteConfig: false,
   });
 
+  // 数据库结构版本适用于 D1 和 SQLite 存储
+  const hasSchemaVersion =
+    typeof window !== 'undefined' &&
+    ['d1', 'sqlite'].includes((window as any).RUNTIME_CONFIG?.STORAGE_TYPE);
+
   // 获取管理员配置
   // showLoading 用于控制是否在请求期间显示整体加载骨架。
   const fetchConfig = useCallback(async (showLoading = false) => {
@@ -1814,6 +3204,82 @@ function AdminPageClient() {
             >
               <VideoSourceConfig config={config} refreshConfig={fetchConfig} />
             </CollapsibleTab>
+
+            {/* 解析接口配置标签 */}
+            <CollapsibleTab
+              title='解析接口'
+              icon={
+                <Link2 size={20} className='text-gray-600 dark:text-gray-400' />
+              }
+              isExpanded={expandedTabs.parser}
+              onToggle={() => toggleTab('parser')}
+            >
+              <ParserConfigPanel config={config} refreshConfig={fetchConfig} />
+            </CollapsibleTab>
+
+            {/* 资源站健康状态标签 */}
+            <CollapsibleTab
+              title='资源站健康'
+              icon={
+                <Activity
+                  size={20}
+                  className='text-gray-600 dark:text-gray-400'
+                />
+              }
+              isExpanded={expandedTabs.sourceHealth}
+              onToggle={() => toggleTab('sourceHealth')}
+            >
+              <SourceHealthPanel config={config} />
+            </CollapsibleTab>
+
+            {/* 社区跳过配置标签 */}
+            <CollapsibleTab
+              title='社区跳过配置'
+              icon={
+                <SkipForward
+                  size={20}
+                  className='text-gray-600 dark:text-gray-400'
+                />
+              }
+              isExpanded={expandedTabs.sharedSkip}
+              onToggle={() => toggleTab('sharedSkip')}
+            >
+              <SharedSkipPanel />
+            </CollapsibleTab>
+
+            {/* 存储迁移标签 */}
+            {role === 'owner' && (
+              <CollapsibleTab
+                title='存储迁移'
+                icon={
+                  <DatabaseBackup
+                    size={20}
+                    className='text-gray-600 dark:text-gray-400'
+                  />
+                }
+                isExpanded={expandedTabs.migration}
+                onToggle={() => toggleTab('migration')}
+              >
+                <StorageMigrationPanel />
+              </CollapsibleTab>
+            )}
+
+            {/* 数据库结构标签 */}
+            {hasSchemaVersion && (
+              <CollapsibleTab
+                title='数据库结构'
+                icon={
+                  <Database
+                    size={20}
+                    className='text-gray-600 dark:text-gray-400'
+                  />
+                }
+                isExpanded={expandedTabs.schema}
+                onToggle={() => toggleTab('schema')}
+              >
+                <SchemaStatusPanel role={role} />
+              </CollapsibleTab>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,69 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { ApiCacheScope, purgeApiCache } from '@/lib/apiCache';
+import { getAuthInfoFromCookie } from '@/lib/auth';
+import { getConfig } from '@/lib/config';
+
+export const runtime = 'edge';
+
+// 清除资源站接口缓存
+export async function POST(request: NextRequest) {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json(
+      {
+        error: '不支持本地存储进行管理员配置',
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { scope } = (await request.json().catch(() => ({}))) as {
+      scope?: ApiCacheScope;
+    };
+
+    const authInfo = getAuthInfoFromCookie(request);
+    if (!authInfo || !authInfo.username) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const username = authInfo.username;
+
+    if (scope !== undefined && scope !== 'search' && scope !== 'detail') {
+      return NextResponse.json({ error: '参数格式错误' }, { status: 400 });
+    }
+
+    // 权限校验
+    if (username !== process.env.USERNAME) {
+      const adminConfig = await getConfig();
+      const userEntry = adminConfig.UserConfig.Users.find(
+        (u) => u.username === username
+      );
+      if (!userEntry || userEntry.role !== 'admin') {
+        return NextResponse.json({ error: '权限不足' }, { status: 401 });
+      }
+    }
+
+    await purgeApiCache(scope);
+
+    return NextResponse.json(
+      { ok: true },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('清除接口缓存失败:', error);
+    return NextResponse.json(
+      {
+        error: '清除接口缓存失败',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,128 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAuthInfoFromCookie } from '@/lib/auth';
+import { createStorage, getStorage, StorageType } from '@/lib/db';
+import { migrateStorage, MigrationEvent } from '@/lib/storageMigration';
+import { IStorage } from '@/lib/types';
+import { UserDataImportMode } from '@/lib/userData';
+
+export const runtime = 'edge';
+
+// 可作为迁移来源的服务端存储
+const SOURCE_TYPES: StorageType[] = [
+  'redis',
+  'kvrocks',
+  'upstash',
+  'd1',
+  'sqlite',
+];
+
+/**
+ * POST /api/admin/migrate
+ * body: { from: 源存储类型, dry_run: boolean, mode: 'merge' | 'overwrite' }
+ * 将源存储的数据迁移到当前存储，以 NDJSON 流返回进度，仅站长可用
+ */
+export async function POST(request: NextRequest) {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json(
+      {
+        error: '不支持本地存储进行管理员配置',
+      },
+      { status: 400 }
+    );
+  }
+
+  const authInfo = getAuthInfoFromCookie(request);
+  if (!authInfo || !authInfo.username) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (authInfo.username !== process.env.USERNAME) {
+    return NextResponse.json({ error: '仅站长可以迁移数据' }, { status: 401 });
+  }
+
+  const body = (await request.json().catch(() => ({}))) as {
+    from?: StorageType;
+    dry_run?: boolean;
+    mode?: UserDataImportMode;
+  };
+  const { from, mode = 'merge' } = body;
+  const dryRun = body.dry_run !== false;
+  if (!from || !SOURCE_TYPES.includes(from)) {
+    return NextResponse.json({ error: '源存储类型错误' }, { status: 400 });
+  }
+  if (from === storageType) {
+    return NextResponse.json(
+      { error: '源存储与当前存储相同' },
+      { status: 400 }
+    );
+  }
+  if (mode !== 'merge' && mode !== 'overwrite') {
+    return NextResponse.json({ error: '导入模式错误' }, { status: 400 });
+  }
+
+  // 连接参数缺失时 createStorage 会抛出错误
+  let source: IStorage;
+  try {
+    source = createStorage(from);
+  } catch (err) {
+    return NextResponse.json(
+      {
+        error: `无法连接源存储 ${from}，请检查对应的环境变量`,
+        details: (err as Error).message,
+      },
+      { status: 400 }
+    );
+  }
+  const target = getStorage();
+
+  const encoder = new TextEncoder();
+  // 客户端断开后不再写入进度，但迁移继续执行到结束，避免目标存储只写入一部分
+  let closed = false;
+  request.signal.addEventListener('abort', () => {
+    closed = true;
+  });
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: MigrationEvent) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+        } catch {
+          closed = true;
+        }
+      };
+      try {
+        await migrateStorage(source, target, {
+          dryRun,
+          mode,
+          onEvent: send,
+        });
+      } catch (err) {
+        console.error('存储迁移失败:', err);
+        send({ type: 'error', error: (err as Error).message });
+      }
+      if (!closed) {
+        closed = true;
+        try {
+          controller.close();
+        } catch {
+          // 流已被取消
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-store',
+    },
+  });
+}
@@ -0,0 +1,328 @@
+/* eslint-disable @typescript-eslint/no-explicit-any,no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { ParserConfig } from '@/lib/admin.types';
+import { getAuthInfoFromCookie } from '@/lib/auth';
+import { getConfig } from '@/lib/config';
+import { getStorage } from '@/lib/db';
+import { buildParseUrl, extractParsedUrl, PARSE_PLATFORMS } from '@/lib/parser';
+import { IStorage } from '@/lib/types';
+
+export const runtime = 'edge';
+
+// 支持的操作类型
+type Action =
+  | 'add'
+  | 'update'
+  | 'disable'
+  | 'enable'
+  | 'delete'
+  | 'sort'
+  | 'test';
+
+interface BaseBody {
+  action?: Action;
+}
+
+// 测试解析接口的超时时间
+const TEST_TIMEOUT_MS = 10000;
+
+/**
+ * 校验并规范化解析接口配置，格式错误时返回错误信息
+ */
+function normalizeParser(input: any): ParserConfig | string {
+  if (!input || typeof input !== 'object') return '缺少解析接口配置';
+  const key = String(input.key || '').trim();
+  const name = String(input.name || '').trim();
+  const url = String(input.url || '').trim();
+  if (!key || !name || !url) return '缺少必要参数';
+  if (!/^https?:\/\//i.test(url))
+    return '解析地址必须以 http:// 或 https:// 开头';
+  if (input.type !== 'web' && input.type !== 'json') return '解析类型错误';
+
+  const platforms = Array.isArray(input.platforms) ? input.platforms : [];
+  const validPlatforms = new Set(PARSE_PLATFORMS.map((p) => p.key));
+  if (platforms.some((p: unknown) => !validPlatforms.has(String(p)))) {
+    return '支持平台格式错误';
+  }
+
+  const headers = input.headers;
+  if (
+    headers !== undefined &&
+    headers !== null &&
+    (typeof headers !== 'object' ||
+      Array.isArray(headers) ||
+      Object.values(headers).some((v) => typeof v !== 'string'))
+  ) {
+    return '请求头格式错误';
+  }
+
+  return {
+    key,
+    name,
+    url,
+    type: input.type,
+    platforms: platforms.map(String),
+    ...(headers && Object.keys(headers).length > 0 && { headers }),
+    ...(input.disabled === true && { disabled: true }),
+  };
+}
+
+/**
+ * 用示例视频地址请求解析接口，JSON 接口需返回播放地址，网页接口需返回 HTML
+ */
+async function testParser(parser: ParserConfig, videoUrl: string) {
+  const parseUrl = buildParseUrl(parser.url, videoUrl);
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), TEST_TIMEOUT_MS);
+  const start = Date.now();
+  try {
+    const response = await fetch(parseUrl, {
+      headers: parser.headers,
+      signal: controller.signal,
+    });
+    const latency = Date.now() - start;
+    if (!response.ok) {
+      return {
+        ok: false,
+        latency,
+        parse_url: parseUrl,
+        error: `HTTP ${response.status}`,
+      };
+    }
+    if (parser.type === 'json') {
+      const data = await response.json().catch(() => null);
+      const resolved = extractParsedUrl(data);
+      return resolved
+        ? { ok: true, latency, parse_url: parseUrl, url: resolved }
+        : {
+            ok: false,
+            latency,
+            parse_url: parseUrl,
+            error: '响应中没有播放地址',
+          };
+    }
+    const contentType = response.headers.get('content-type') || '';
+    return contentType.includes('html')
+      ? { ok: true, latency, parse_url: parseUrl }
+      : {
+          ok: false,
+          latency,
+          parse_url: parseUrl,
+          error: `响应类型不是网页: ${contentType || '未知'}`,
+        };
+  } catch (err) {
+    return {
+      ok: false,
+      latency: Date.now() - start,
+      parse_url: parseUrl,
+      error: controller.signal.aborted ? '请求超时' : (err as Error).message,
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json(
+      {
+        error: '不支持本地存储进行管理员配置',
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const body = (await request.json()) as BaseBody & Record<string, any>;
+    const { action } = body;
+
+    const authInfo = getAuthInfoFromCookie(request);
+    if (!authInfo || !authInfo.username) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const username = authInfo.username;
+
+    // 基础校验
+    const ACTIONS: Action[] = [
+      'add',
+      'update',
+      'disable',
+      'enable',
+      'delete',
+      'sort',
+      'test',
+    ];
+    if (!username || !action || !ACTIONS.includes(action)) {
+      return NextResponse.json({ error: '参数格式错误' }, { status: 400 });
+    }
+
+    // 获取配置与存储
+    const adminConfig = await getConfig();
+    const storage: IStorage | null = getStorage();
+
+    // 权限与身份校验
+    if (username !== process.env.USERNAME) {
+      const userEntry = adminConfig.UserConfig.Users.find(
+        (u) => u.username === username
+      );
+      if (!userEntry || userEntry.role !== 'admin') {
+        return NextResponse.json({ error: '权限不足' }, { status: 401 });
+      }
+    }
+
+    const parsers = adminConfig.ParseConfig;
+
+    switch (action) {
+      case 'test': {
+        const { key, parser, url } = body as {
+          key?: string;
+          parser?: ParserConfig;
+          url?: string;
+        };
+        if (!url || !/^https?:\/\//i.test(url)) {
+          return NextResponse.json(
+            { error: '请输入有效的测试视频地址' },
+            { status: 400 }
+          );
+        }
+        // 未保存的配置也可以测试
+        const target = parser
+          ? normalizeParser(parser)
+          : parsers.find((p) => p.key === key);
+        if (!target) {
+          return NextResponse.json(
+            { error: '解析接口不存在' },
+            { status: 404 }
+          );
+        }
+        if (typeof target === 'string') {
+          return NextResponse.json({ error: target }, { status: 400 });
+        }
+        return NextResponse.json(await testParser(target, url), {
+          headers: { 'Cache-Control': 'no-store' },
+        });
+      }
+      case 'add': {
+        const parser = normalizeParser(body.parser);
+        if (typeof parser === 'string') {
+          return NextResponse.json({ error: parser }, { status: 400 });
+        }
+        if (parsers.some((p) => p.key === parser.key)) {
+          return NextResponse.json(
+            { error: '该解析接口已存在' },
+            { status: 400 }
+          );
+        }
+        parsers.push(parser);
+        break;
+      }
+      case 'update': {
+        const { key } = body as { key?: string };
+        const idx = parsers.findIndex((p) => p.key === key);
+        if (idx === -1) {
+          return NextResponse.json(
+            { error: '解析接口不存在' },
+            { status: 404 }
+          );
+        }
+        const parser = normalizeParser(body.parser);
+        if (typeof parser === 'string') {
+          return NextResponse.json({ error: parser }, { status: 400 });
+        }
+        if (parser.key !== key && parsers.some((p) => p.key === parser.key)) {
+          return NextResponse.json(
+            { error: '该解析接口已存在' },
+            { status: 400 }
+          );
+        }
+        // 启用状态由 enable / disable 单独控制
+        parsers[idx] = {
+          ...parser,
+          ...(parsers[idx].disabled && { disabled: true }),
+        };
+        break;
+      }
+      case 'disable':
+      case 'enable': {
+        const { key } = body as { key?: string };
+        const entry = parsers.find((p) => p.key === key);
+        if (!entry) {
+          return NextResponse.json(
+            { error: '解析接口不存在' },
+            { status: 404 }
+          );
+        }
+        if (action === 'disable') {
+          entry.disabled = true;
+        } else {
+          delete entry.disabled;
+        }
+        break;
+      }
+      case 'delete': {
+        const { key } = body as { key?: string };
+        const idx = parsers.findIndex((p) => p.key === key);
+        if (idx === -1) {
+          return NextResponse.json(
+            { error: '解析接口不存在' },
+            { status: 404 }
+          );
+        }
+        parsers.splice(idx, 1);
+        break;
+      }
+      case 'sort': {
+        const { order } = body as { order?: string[] };
+        if (!Array.isArray(order)) {
+          return NextResponse.json(
+            { error: '排序列表格式错误' },
+            { status: 400 }
+          );
+        }
+        const map = new Map(parsers.map((p) => [p.key, p]));
+        const newList: ParserConfig[] = [];
+        order.forEach((k) => {
+          const item = map.get(k);
+          if (item) {
+            newList.push(item);
+            map.delete(k);
+          }
+        });
+        // 未在 order 中的保持原顺序
+        parsers.forEach((item) => {
+          if (map.has(item.key)) newList.push(item);
+        });
+        adminConfig.ParseConfig = newList;
+        break;
+      }
+      default:
+        return NextResponse.json({ error: '未知操作' }, { status: 400 });
+    }
+
+    // 持久化到存储
+    if (storage && typeof (storage as any).setAdminConfig === 'function') {
+      await (storage as any).setAdminConfig(adminConfig);
+    }
+
+    return NextResponse.json(
+      { ok: true },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('解析接口管理操作失败:', error);
+    return NextResponse.json(
+      {
+        error: '解析接口管理操作失败',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
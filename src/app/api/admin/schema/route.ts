@@ -0,0 +1,99 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAuthInfoFromCookie } from '@/lib/auth';
+import { getConfig } from '@/lib/config';
+import { D1Storage } from '@/lib/d1.db';
+import { getStorage } from '@/lib/db';
+
+export const runtime = 'edge';
+
+/**
+ * 校验请求者身份并返回 D1 存储，失败时返回错误响应
+ */
+async function getD1Storage(
+  request: NextRequest,
+  ownerOnly: boolean
+): Promise<D1Storage | NextResponse> {
+  const storage = getStorage();
+  if (!(storage instanceof D1Storage)) {
+    return NextResponse.json(
+      { error: '当前存储不支持数据库结构迁移' },
+      { status: 400 }
+    );
+  }
+
+  const authInfo = getAuthInfoFromCookie(request);
+  if (!authInfo || !authInfo.username) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const username = authInfo.username;
+  if (username !== process.env.USERNAME) {
+    if (ownerOnly) {
+      return NextResponse.json(
+        { error: '仅站长可以执行数据库迁移' },
+        { status: 401 }
+      );
+    }
+    const adminConfig = await getConfig();
+    const userEntry = adminConfig.UserConfig.Users.find(
+      (u) => u.username === username
+    );
+    if (!userEntry || userEntry.role !== 'admin') {
+      return NextResponse.json({ error: '权限不足' }, { status: 401 });
+    }
+  }
+  return storage;
+}
+
+/**
+ * GET /api/admin/schema
+ * 返回数据库结构版本、已执行和待执行的迁移（D1 与 SQLite 存储）
+ */
+export async function GET(request: NextRequest) {
+  const storage = await getD1Storage(request, false);
+  if (storage instanceof NextResponse) return storage;
+
+  try {
+    return NextResponse.json(await storage.getSchemaStatus(), {
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    console.error('获取数据库结构版本失败:', error);
+    return NextResponse.json(
+      {
+        error: '获取数据库结构版本失败',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/schema
+ * 执行待执行的迁移，仅站长可用
+ * 检测到旧版初始化脚本建出的表时改名为 legacy_ 前缀保留，改名的表在 renamed 中返回
+ */
+export async function POST(request: NextRequest) {
+  const storage = await getD1Storage(request, true);
+  if (storage instanceof NextResponse) return storage;
+
+  try {
+    const { applied, renamed } = await storage.applySchemaMigrations();
+    return NextResponse.json(
+      { ok: true, applied, renamed, status: await storage.getSchemaStatus() },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('执行数据库迁移失败:', error);
+    return NextResponse.json(
+      {
+        error: '执行数据库迁移失败',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,111 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAuthInfoFromCookie } from '@/lib/auth';
+import { getConfig } from '@/lib/config';
+import { getStorage } from '@/lib/db';
+
+export const runtime = 'edge';
+
+// 校验当前用户是否为站长或管理员
+async function checkAdmin(request: NextRequest): Promise<NextResponse | null> {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json(
+      { error: '不支持本地存储进行管理员配置' },
+      { status: 400 }
+    );
+  }
+
+  const authInfo = getAuthInfoFromCookie(request);
+  if (!authInfo || !authInfo.username) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (authInfo.username !== process.env.USERNAME) {
+    const config = await getConfig();
+    const userEntry = config.UserConfig.Users.find(
+      (u) => u.username === authInfo.username
+    );
+    if (!userEntry || userEntry.role !== 'admin') {
+      return NextResponse.json({ error: '权限不足' }, { status: 401 });
+    }
+  }
+  return null;
+}
+
+// 列出全部社区共享跳过配置（含已隐藏的）
+export async function GET(request: NextRequest) {
+  const denied = await checkAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const configs = await getStorage().getAllSharedSkipConfigs();
+    return NextResponse.json(
+      { configs },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('获取共享跳过配置失败:', error);
+    return NextResponse.json(
+      {
+        error: '获取共享跳过配置失败',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// 审核共享配置：hide 隐藏、unhide 恢复、delete 删除
+export async function POST(request: NextRequest) {
+  const denied = await checkAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const { action, key } = (await request.json()) as {
+      action?: string;
+      key?: string;
+    };
+    if (!key || !action || !['hide', 'unhide', 'delete'].includes(action)) {
+      return NextResponse.json({ error: '参数格式错误' }, { status: 400 });
+    }
+
+    const storage = getStorage();
+    if (action === 'delete') {
+      await storage.deleteSharedSkipConfig(key);
+    } else {
+      const existing = await storage.getSharedSkipConfig(key);
+      if (!existing) {
+        return NextResponse.json({ error: '共享配置不存在' }, { status: 404 });
+      }
+      await storage.setSharedSkipConfig(key, {
+        ...existing,
+        hidden: action === 'hide',
+      });
+    }
+
+    return NextResponse.json(
+      { ok: true },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('更新共享跳过配置失败:', error);
+    return NextResponse.json(
+      {
+        error: '更新共享跳过配置失败',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAuthInfoFromCookie } from '@/lib/auth';
+import { getConfig } from '@/lib/config';
+import {
+  CIRCUIT_COOL_DOWN_MS,
+  CIRCUIT_FAILURE_THRESHOLD,
+  getAllSourceHealth,
+  resetSourceHealth,
+} from '@/lib/sourceHealth';
+
+export const runtime = 'edge';
+
+// 校验当前用户是否为站长或管理员
+async function checkAdmin(request: NextRequest): Promise<NextResponse | null> {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json(
+      { error: '不支持本地存储进行管理员配置' },
+      { status: 400 }
+    );
+  }
+
+  const authInfo = getAuthInfoFromCookie(request);
+  if (!authInfo || !authInfo.username) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (authInfo.username !== process.env.USERNAME) {
+    const config = await getConfig();
+    const userEntry = config.UserConfig.Users.find(
+      (u) => u.username === authInfo.username
+    );
+    if (!userEntry || userEntry.role !== 'admin') {
+      return NextResponse.json({ error: '权限不足' }, { status: 401 });
+    }
+  }
+  return null;
+}
+
+export async function GET(request: NextRequest) {
+  const denied = await checkAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const health = await getAllSourceHealth();
+    return NextResponse.json(
+      {
+        health,
+        threshold: CIRCUIT_FAILURE_THRESHOLD,
+        coolDown: CIRCUIT_COOL_DOWN_MS,
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('获取资源站健康状态失败:', error);
+    return NextResponse.json(
+      {
+        error: '获取资源站健康状态失败',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const denied = await checkAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const { action, key } = (await request.json()) as {
+      action?: string;
+      key?: string;
+    };
+    if (action !== 'reset') {
+      return NextResponse.json({ error: '参数格式错误' }, { status: 400 });
+    }
+
+    await resetSourceHealth(key);
+    return NextResponse.json(
+      { ok: true },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('重置资源站健康状态失败:', error);
+    return NextResponse.json(
+      {
+        error: '重置资源站健康状态失败',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 
+import { AdFilterRules } from '@/lib/admin.types';
 import { getAuthInfoFromCookie } from '@/lib/auth';
 import { getConfig } from '@/lib/config';
 import { getStorage } from '@/lib/db';
@@ -10,7 +11,15 @@ import { IStorage } from '@/lib/types';
 export const runtime = 'edge';
 
 // 支持的操作类型
-type Action = 'add' | 'disable' | 'enable' | 'delete' | 'sort';
+type Action =
+  | 'add'
+  | 'disable'
+  | 'enable'
+  | 'delete'
+  | 'sort'
+  | 'ad_filter'
+  | 'proxy'
+  | 'play_mode';
 
 interface BaseBody {
   action?: Action;
@@ -38,7 +47,16 @@ export async function POST(request: NextRequest) {
     const username = authInfo.username;
 
     // 基础校验
-    const ACTIONS: Action[] = ['add', 'disable', 'enable', 'delete', 'sort'];
+    const ACTIONS: Action[] = [
+      'add',
+      'disable',
+      'enable',
+      'delete',
+      'sort',
+      'ad_filter',
+      'proxy',
+      'play_mode',
+    ];
     if (!username || !action || !ACTIONS.includes(action)) {
       return NextResponse.json({ error: '参数格式错误' }, { status: 400 });
     }
@@ -59,16 +77,22 @@ export async function POST(request: NextRequest) {
 
     switch (action) {
       case 'add': {
-        const { key, name, api, detail, is_adult } = body as {
-          key?: string;
-          name?: string;
-          api?: string;
-          detail?: string;
-          is_adult?: boolean;
-        };
+        const { key, name, api, detail, format, is_adult, play_mode } =
+          body as {
+            key?: string;
+            name?: string;
+            api?: string;
+            detail?: string;
+            format?: 'json' | 'xml';
+            is_adult?: boolean;
+            play_mode?: 'parse' | 'direct';
+          };
         if (!key || !name || !api) {
           return NextResponse.json({ error: '缺少必要参数' }, { status: 400 });
         }
+        if (format !== undefined && format !== 'json' && format !== 'xml') {
+          return NextResponse.json({ error: '接口格式错误' }, { status: 400 });
+        }
         if (adminConfig.SourceConfig.some((s) => s.key === key)) {
           return NextResponse.json({ error: '该源已存在' }, { status: 400 });
         }
@@ -77,9 +101,11 @@ export async function POST(request: NextRequest) {
           name,
           api,
           detail,
+          ...(format && { format }),
           from: 'custom',
           disabled: false,
           is_adult: is_adult || false, // 确保处理 is_adult 字段
+          ...(play_mode === 'parse' && { play_mode }),
         });
         break;
       }
@@ -141,6 +167,108 @@ export async function POST(request: NextRequest) {
         adminConfig.SourceConfig = newList;
         break;
       }
+      case 'ad_filter': {
+        const { key, ad_filter } = body as {
+          key?: string;
+          ad_filter?: AdFilterRules | null;
+        };
+        if (!key)
+          return NextResponse.json({ error: '缺少 key 参数' }, { status: 400 });
+        const entry = adminConfig.SourceConfig.find((s) => s.key === key);
+        if (!entry)
+          return NextResponse.json({ error: '源不存在' }, { status: 404 });
+        // 传 null 时恢复默认规则
+        if (!ad_filter) {
+          delete entry.ad_filter;
+          break;
+        }
+        if (
+          (ad_filter.maxAdDuration !== undefined &&
+            !(ad_filter.maxAdDuration > 0)) ||
+          (ad_filter.keywords !== undefined &&
+            !Array.isArray(ad_filter.keywords))
+        ) {
+          return NextResponse.json(
+            { error: '去广告规则格式错误' },
+            { status: 400 }
+          );
+        }
+        entry.ad_filter = {
+          enabled: ad_filter.enabled !== false,
+          checkHost: ad_filter.checkHost !== false,
+          checkPath: ad_filter.checkPath !== false,
+          checkDuration: ad_filter.checkDuration !== false,
+          ...(ad_filter.maxAdDuration !== undefined && {
+            maxAdDuration: Number(ad_filter.maxAdDuration),
+          }),
+          keywords: (ad_filter.keywords || [])
+            .map((k) => String(k).trim())
+            .filter(Boolean),
+        };
+        break;
+      }
+      case 'proxy': {
+        const { key, force_proxy, proxy_headers, proxy_hosts } = body as {
+          key?: string;
+          force_proxy?: boolean;
+          proxy_headers?: Record<string, string>;
+          proxy_hosts?: string[];
+        };
+        if (!key)
+          return NextResponse.json({ error: '缺少 key 参数' }, { status: 400 });
+        const entry = adminConfig.SourceConfig.find((s) => s.key === key);
+        if (!entry)
+          return NextResponse.json({ error: '源不存在' }, { status: 404 });
+        if (
+          proxy_headers !== undefined &&
+          (typeof proxy_headers !== 'object' ||
+            Array.isArray(proxy_headers) ||
+            Object.values(proxy_headers).some((v) => typeof v !== 'string'))
+        ) {
+          return NextResponse.json({ error: '请求头格式错误' }, { status: 400 });
+        }
+        if (
+          proxy_hosts !== undefined &&
+          (!Array.isArray(proxy_hosts) ||
+            proxy_hosts.some(
+              (h) =>
+                typeof h !== 'string' || !/^[a-z0-9.-]+\.[a-z0-9-]+$/i.test(h)
+            ))
+        ) {
+          return NextResponse.json(
+            { error: '播放域名格式错误' },
+            { status: 400 }
+          );
+        }
+        entry.force_proxy = force_proxy === true;
+        if (proxy_headers && Object.keys(proxy_headers).length > 0) {
+          entry.proxy_headers = proxy_headers;
+        } else {
+          delete entry.proxy_headers;
+        }
+        if (proxy_hosts && proxy_hosts.length > 0) {
+          entry.proxy_hosts = proxy_hosts.map((h) => h.toLowerCase());
+        } else {
+          delete entry.proxy_hosts;
+        }
+        break;
+      }
+      case 'play_mode': {
+        const { key, play_mode } = body as {
+          key?: string;
+          play_mode?: 'parse' | 'direct';
+        };
+        if (!key)
+          return NextResponse.json({ error: '缺少 key 参数' }, { status: 400 });
+        const entry = adminConfig.SourceConfig.find((s) => s.key === key);
+        if (!entry)
+          return NextResponse.json({ error: '源不存在' }, { status: 404 });
+        if (play_mode !== 'parse' && play_mode !== 'direct') {
+          return NextResponse.json({ error: '播放方式错误' }, { status: 400 });
+        }
+        entry.play_mode = play_mode;
+        break;
+      }
       default:
         return NextResponse.json({ error: '未知操作' }, { status: 400 });
     }
@@ -1,105 +1,133 @@
+/* eslint-disable no-console */
+
 import { NextRequest, NextResponse } from 'next/server';
 
+import { ParserConfig } from '@/lib/admin.types';
+import { getConfig } from '@/lib/config';
+import {
+  buildParseUrl,
+  detectPlatform,
+  extractParsedUrl,
+  getCompatibleParsers,
+} from '@/lib/parser';
+
 // 强制使用 Edge Runtime 以支持 Cloudflare Pages
 export const runtime = 'edge';
 
-// 常用的视频解析接口列表
-const PARSE_APIS = [
-  {
-    name: '无名小站',
-    url: 'https://jx.aidouer.net/?url=',
-    support: ['qq', 'iqiyi', 'youku', 'mgtv', 'bilibili']
-  },
-  {
-    name: '虾米解析',
-    url: 'https://jx.xmflv.com/?url=',
-    support: ['qq', 'iqiyi', 'youku', 'mgtv', 'bilibili', 'sohu']
-  },
-  {
-    name: '爱豆解析',
-    url: 'https://jx.aidouer.net/?url=',
-    support: ['qq', 'iqiyi', 'youku', 'mgtv', 'bilibili']
-  },
-  {
-    name: '8090解析',
-    url: 'https://www.8090g.cn/?url=',
-    support: ['qq', 'iqiyi', 'youku', 'mgtv', 'bilibili']
-  },
-  {
-    name: 'OK解析',
-    url: 'https://okjx.cc/?url=',
-    support: ['qq', 'iqiyi', 'youku', 'mgtv', 'bilibili']
-  }
-];
+// 单个 JSON 解析接口的超时时间
+const RESOLVE_TIMEOUT_MS = 8000;
 
-// 检测视频URL的平台类型
-function detectPlatform(url: string): string {
-  if (url.includes('qq.com') || url.includes('v.qq.com')) return 'qq';
-  if (url.includes('iqiyi.com') || url.includes('qiyi.com')) return 'iqiyi';
-  if (url.includes('youku.com')) return 'youku';
-  if (url.includes('mgtv.com')) return 'mgtv';
-  if (url.includes('bilibili.com')) return 'bilibili';
-  if (url.includes('sohu.com')) return 'sohu';
-  if (url.includes('letv.com') || url.includes('le.com')) return 'letv';
-  if (url.includes('tudou.com')) return 'tudou';
-  if (url.includes('pptv.com')) return 'pptv';
-  if (url.includes('1905.com')) return '1905';
-  return 'unknown';
-}
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
 
-// 获取适用的解析接口
-function getCompatibleParsers(platform: string) {
-  return PARSE_APIS.filter(api => 
-    api.support.includes(platform) || platform === 'unknown'
-  );
+/**
+ * 请求 JSON 解析接口，返回可直接播放的地址，失败时抛出错误
+ */
+async function resolveWithParser(
+  parser: ParserConfig,
+  url: string
+): Promise<string> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), RESOLVE_TIMEOUT_MS);
+  try {
+    const response = await fetch(buildParseUrl(parser.url, url), {
+      headers: parser.headers,
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`解析接口返回 ${response.status}`);
+    }
+    const resolved = extractParsedUrl(await response.json());
+    if (!resolved) {
+      throw new Error('解析接口未返回播放地址');
+    }
+    return resolved;
+  } finally {
+    clearTimeout(timer);
+  }
 }
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const url = searchParams.get('url');
-    const parser = searchParams.get('parser'); // 指定解析器
+    const parser = searchParams.get('parser'); // 指定解析器（key 或名称）
     const format = searchParams.get('format') || 'json'; // 返回格式
 
     if (!url) {
-      return NextResponse.json(
-        { error: '缺少url参数' },
-        { status: 400 }
-      );
+      return NextResponse.json({ error: '缺少url参数' }, { status: 400 });
     }
 
-    // 检测平台类型
+    const config = await getConfig();
     const platform = detectPlatform(url);
-    const compatibleParsers = getCompatibleParsers(platform);
+    const preferred = parser
+      ? config.ParseConfig.find(
+          (p) =>
+            p.key === parser ||
+            p.name.toLowerCase().includes(parser.toLowerCase())
+        )?.key
+      : null;
+    const compatibleParsers = getCompatibleParsers(
+      config.ParseConfig,
+      url,
+      preferred
+    );
 
     if (compatibleParsers.length === 0) {
       return NextResponse.json(
-        { 
+        {
           error: '暂不支持该平台的视频解析',
           platform,
-          url 
+          url,
         },
         { status: 400 }
       );
     }
 
-    // 如果指定了解析器，优先使用
-    let selectedParser = compatibleParsers[0];
-    if (parser) {
-      const customParser = PARSE_APIS.find(api => 
-        api.name.toLowerCase().includes(parser.toLowerCase())
-      );
-      if (customParser && compatibleParsers.includes(customParser)) {
-        selectedParser = customParser;
+    const parsers = compatibleParsers.map((p) => ({
+      key: p.key,
+      name: p.name,
+      type: p.type,
+      parse_url: buildParseUrl(p.url, url),
+    }));
+
+    // 依次尝试 JSON 解析接口，全部失败时由调用方使用网页解析接口
+    if (format === 'resolve') {
+      let resolved: {
+        url: string;
+        parser_key: string;
+        parser_name: string;
+      } | null = null;
+      for (const item of compatibleParsers.filter((p) => p.type === 'json')) {
+        try {
+          resolved = {
+            url: await resolveWithParser(item, url),
+            parser_key: item.key,
+            parser_name: item.name,
+          };
+          break;
+        } catch (err) {
+          console.warn(`解析接口 ${item.name} 失败:`, (err as Error).message);
+        }
       }
+      return NextResponse.json(
+        {
+          success: true,
+          data: { original_url: url, platform, resolved, parsers },
+        },
+        { headers: { 'Cache-Control': 'no-store' } }
+      );
     }
 
-    const parseUrl = selectedParser.url + encodeURIComponent(url);
+    const selectedParser = parsers[0];
 
     // 根据format返回不同格式
     if (format === 'redirect') {
       // 直接重定向到解析页面
-      return NextResponse.redirect(parseUrl);
+      return NextResponse.redirect(selectedParser.parse_url);
     } else if (format === 'iframe') {
       // 返回可嵌入的HTML页面
       const html = `
@@ -114,41 +142,42 @@ export async function GET(request: NextRequest) {
     </style>
 </head>
 <body>
-    <iframe src="${parseUrl}" allowfullscreen></iframe>
+    <iframe src="${selectedParser.parse_url}" allowfullscreen></iframe>
 </body>
 </html>`;
       return new NextResponse(html, {
         headers: {
           'Content-Type': 'text/html; charset=utf-8',
-          'Access-Control-Allow-Origin': '*'
-        }
+          'Access-Control-Allow-Origin': '*',
+        },
       });
     } else {
       // 返回JSON格式的解析信息
-      return NextResponse.json({
-        success: true,
-        data: {
-          original_url: url,
-          platform,
-          parse_url: parseUrl,
-          parser_name: selectedParser.name,
-          available_parsers: compatibleParsers.map(p => p.name)
-        }
-      }, {
-        headers: {
-          'Access-Control-Allow-Origin': '*',
-          'Access-Control-Allow-Methods': 'GET',
-          'Access-Control-Allow-Headers': 'Content-Type',
-          'Cache-Control': 'public, max-age=300' // 5分钟缓存
+      return NextResponse.json(
+        {
+          success: true,
+          data: {
+            original_url: url,
+            platform,
+            parse_url: selectedParser.parse_url,
+            parser_name: selectedParser.name,
+            available_parsers: parsers.map((p) => p.name),
+            parsers,
+          },
+        },
+        {
+          headers: {
+            ...CORS_HEADERS,
+            'Cache-Control': 'public, max-age=300', // 5分钟缓存
+          },
         }
-      });
+      );
     }
-
   } catch (error) {
     return NextResponse.json(
-      { 
+      {
         error: '视频解析失败',
-        details: error instanceof Error ? error.message : String(error)
+        details: error instanceof Error ? error.message : String(error),
       },
       { status: 500 }
     );
@@ -160,9 +189,8 @@ export async function OPTIONS() {
   return new NextResponse(null, {
     status: 200,
     headers: {
-      'Access-Control-Allow-Origin': '*',
+      ...CORS_HEADERS,
       'Access-Control-Allow-Methods': 'GET, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
-    }
+    },
   });
 }
@@ -0,0 +1,211 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getConfig } from '@/lib/config';
+import {
+  getPlaylistHosts,
+  mayBePlaylist,
+  rewritePlaylist,
+} from '@/lib/hlsProxy';
+import {
+  fetchProxyTarget,
+  getSourceProxyHosts,
+  isPrivateHostname,
+  isProxyTargetAllowed,
+  ProxyTargetError,
+} from '@/lib/proxyGuard';
+
+export const runtime = 'edge';
+
+const DEFAULT_HEADERS: Record<string, string> = {
+  'User-Agent':
+    'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36',
+  Accept: '*/*',
+};
+
+// 透传给浏览器的上游响应头
+const PASSTHROUGH_HEADERS = [
+  'Content-Type',
+  'Content-Length',
+  'Content-Range',
+  'Accept-Ranges',
+  'Last-Modified',
+  'ETag',
+];
+
+interface ProxySource {
+  api: string; // 相对地址按接口地址解析
+  hosts: string[]; // 允许代理的主机名
+  headers: Record<string, string>;
+}
+
+// 每个分片都会请求一次，资源站代理设置短暂缓存，避免频繁读取配置
+const SOURCE_CACHE_TTL_MS = 60 * 1000;
+const sourceCache = new Map<
+  string,
+  { expires: number; source: ProxySource | null }
+>();
+
+async function getProxySource(key: string): Promise<ProxySource | null> {
+  const cached = sourceCache.get(key);
+  if (cached && cached.expires > Date.now()) {
+    return cached.source;
+  }
+
+  const config = await getConfig();
+  const entry = config.SourceConfig.find((s) => s.key === key && !s.disabled);
+  const source = entry
+    ? {
+        api: entry.api,
+        hosts: getSourceProxyHosts(entry),
+        headers: entry.proxy_headers || {},
+      }
+    : null;
+  sourceCache.set(key, { expires: Date.now() + SOURCE_CACHE_TTL_MS, source });
+  return source;
+}
+
+// 已放行的播放列表中引用的主机（分片通常放在资源站的 CDN 上），按资源站记录一段时间
+const LEARNED_HOST_TTL_MS = 6 * 60 * 60 * 1000;
+const MAX_LEARNED_HOSTS = 50;
+const learnedHosts = new Map<string, Map<string, number>>();
+
+function getAllowedHosts(key: string, source: ProxySource): string[] {
+  const learned = learnedHosts.get(key);
+  if (!learned) return source.hosts;
+
+  const now = Date.now();
+  const hosts = [...source.hosts];
+  learned.forEach((expires, host) => {
+    if (expires > now) {
+      hosts.push(host);
+    } else {
+      learned.delete(host);
+    }
+  });
+  return hosts;
+}
+
+function learnHosts(key: string, hosts: string[]) {
+  const learned = learnedHosts.get(key) || new Map<string, number>();
+  const expires = Date.now() + LEARNED_HOST_TTL_MS;
+  hosts
+    .filter((host) => !isPrivateHostname(host))
+    .forEach((host) => {
+      if (learned.has(host) || learned.size < MAX_LEARNED_HOSTS) {
+        learned.set(host, expires);
+      }
+    });
+  learnedHosts.set(key, learned);
+}
+
+/**
+ * GET /api/proxy/m3u8?url=xxx&source=xxx
+ * 代理播放列表、分片与密钥：播放列表中的地址改写为经由本接口访问，其余内容流式返回
+ * 只代理该资源站的接口主机、管理员配置的播放域名以及已放行播放列表中引用的主机，
+ * 资源站的自定义请求头也只发往这些主机
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const url = searchParams.get('url');
+  const key = searchParams.get('source');
+
+  if (!url || !key) {
+    return NextResponse.json({ error: '缺少地址或资源站' }, { status: 400 });
+  }
+
+  try {
+    const source = await getProxySource(key);
+    if (!source) {
+      return NextResponse.json({ error: '资源站不存在' }, { status: 404 });
+    }
+
+    let target: URL;
+    try {
+      target = new URL(url, source.api);
+    } catch {
+      return NextResponse.json({ error: '无效的地址' }, { status: 400 });
+    }
+    const hosts = getAllowedHosts(key, source);
+    if (!isProxyTargetAllowed(target, hosts)) {
+      return NextResponse.json(
+        { error: '该地址不属于此资源站' },
+        { status: 403 }
+      );
+    }
+
+    const headers: Record<string, string> = {
+      ...DEFAULT_HEADERS,
+      ...source.headers,
+    };
+    // 支持分片的断点续传与拖动
+    const range = request.headers.get('Range');
+    if (range) {
+      headers.Range = range;
+    }
+
+    const { response: upstream, url: finalUrl } = await fetchProxyTarget(
+      target,
+      { headers },
+      hosts
+    );
+    if (!upstream.ok) {
+      return NextResponse.json(
+        { error: `上游请求失败: ${upstream.status}` },
+        { status: upstream.status }
+      );
+    }
+
+    const contentType = upstream.headers.get('Content-Type');
+    if (mayBePlaylist(contentType, finalUrl.toString())) {
+      const text = await upstream.text();
+      if (text.trimStart().startsWith('#EXTM3U')) {
+        learnHosts(key, getPlaylistHosts(text, finalUrl.toString()));
+        // 以最终地址为基准解析相对路径，兼容上游重定向
+        const body = rewritePlaylist(text, finalUrl.toString(), key);
+        return new Response(body, {
+          status: 200,
+          headers: {
+            'Content-Type': 'application/vnd.apple.mpegurl',
+            'Cache-Control': 'no-store',
+          },
+        });
+      }
+      return new Response(text, {
+        status: upstream.status,
+        headers: {
+          'Content-Type': contentType || 'text/plain',
+          'Cache-Control': 'no-store',
+        },
+      });
+    }
+
+    const responseHeaders = new Headers();
+    PASSTHROUGH_HEADERS.forEach((name) => {
+      const value = upstream.headers.get(name);
+      if (value) responseHeaders.set(name, value);
+    });
+    responseHeaders.set('Cache-Control', 'private, max-age=3600');
+
+    return new Response(upstream.body, {
+      status: upstream.status,
+      headers: responseHeaders,
+    });
+  } catch (error) {
+    if (error instanceof ProxyTargetError) {
+      return NextResponse.json(
+        { error: '该地址不属于此资源站' },
+        { status: 403 }
+      );
+    }
+    console.error('HLS 代理请求失败:', error);
+    return NextResponse.json(
+      {
+        error: 'HLS 代理请求失败',
+        details: (error as Error).message,
+      },
+      { status: 502 }
+    );
+  }
+}
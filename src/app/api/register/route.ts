@@ -13,6 +13,7 @@ const STORAGE_TYPE =
     | 'redis'
     | 'd1'
     | 'upstash'
+    | 'sqlite'
     | undefined) || 'localstorage';
 
 // 生成签名
@@ -1,12 +1,127 @@
 import { NextResponse } from 'next/server';
 
-import { getAvailableApiSites,getCacheTime } from '@/lib/config';
+import { aggregateSearchResults } from '@/lib/aggregate';
+import { ApiSite, getAvailableApiSites, getCacheTime } from '@/lib/config';
 import { addCorsHeaders, handleOptionsRequest } from '@/lib/cors';
 import { getStorage } from '@/lib/db';
-import { searchFromApi } from '@/lib/downstream';
+import { searchFromApi, searchFromApiStrict } from '@/lib/downstream';
+import {
+  applySearchFilters,
+  computeSearchFacets,
+  parseSearchFilters,
+  sortByYear,
+} from '@/lib/searchFilter';
+import {
+  SearchFilters,
+  SearchResult,
+  SearchSourceStatus,
+  SearchStreamEvent,
+} from '@/lib/types';
 
 export const runtime = 'edge';
 
+// 流式搜索：每个资源站返回后立即推送一行 NDJSON，最后推送汇总事件
+// 每个资源站的结果按筛选条件过滤，分面统计在汇总事件中基于全部结果给出
+function createSearchStream(
+  sites: ApiSite[],
+  query: string,
+  filters: SearchFilters,
+  signal: AbortSignal
+): Response {
+  const encoder = new TextEncoder();
+  const startTime = Date.now();
+  // 客户端断开或取消读取后不再写入，避免 enqueue 抛错
+  let closed = false;
+  signal.addEventListener('abort', () => {
+    closed = true;
+  });
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: SearchStreamEvent) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+        } catch {
+          closed = true;
+        }
+      };
+
+      send({
+        type: 'start',
+        sources: sites.map((site) => ({
+          source: site.key,
+          source_name: site.name,
+        })),
+      });
+
+      const allResults: SearchResult[] = [];
+      const statuses: SearchSourceStatus[] = await Promise.all(
+        sites.map(async (site) => {
+          const siteStart = Date.now();
+          let results: SearchResult[] = [];
+          let error: string | undefined;
+          try {
+            results = await searchFromApiStrict(site, query);
+          } catch (err) {
+            error =
+              (err as Error).name === 'AbortError'
+                ? '请求超时'
+                : (err as Error).message || '搜索失败';
+          }
+          const elapsed = Date.now() - siteStart;
+          allResults.push(...results);
+          results = applySearchFilters(results, filters);
+
+          send({
+            type: 'source',
+            source: site.key,
+            source_name: site.name,
+            results,
+            elapsed,
+            error,
+          });
+
+          return {
+            source: site.key,
+            source_name: site.name,
+            count: results.length,
+            elapsed,
+            error,
+          };
+        })
+      );
+
+      send({
+        type: 'done',
+        total: statuses.reduce((sum, s) => sum + s.count, 0),
+        elapsed: Date.now() - startTime,
+        sources: statuses,
+        facets: computeSearchFacets(allResults, filters),
+      });
+      if (!closed) {
+        closed = true;
+        try {
+          controller.close();
+        } catch {
+          // 流已被取消
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-store',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
+
 // 处理OPTIONS预检请求（OrionTV客户端需要）
 export async function OPTIONS() {
   return handleOptionsRequest();
@@ -69,6 +184,16 @@ export async function GET(request: Request) {
       ? await getAvailableApiSites(true) // 过滤成人内容
       : await getAvailableApiSites(false); // 不过滤成人内容
     
+    // 筛选条件：year_from、year_to、type、class、source、douban、sort
+    const filters = parseSearchFilters(searchParams);
+
+    // 流式模式：不等待最慢的资源站，逐个返回结果
+    if (searchParams.get('stream') === '1') {
+      return addCorsHeaders(
+        createSearchStream(availableSites || [], query, filters, request.signal)
+      );
+    }
+
     if (!availableSites || availableSites.length === 0) {
       const cacheTime = await getCacheTime();
       const response = NextResponse.json({ 
@@ -86,14 +211,29 @@ export async function GET(request: Request) {
 
     // 搜索所有可用的资源站（已根据用户设置动态过滤）
     const searchPromises = availableSites.map((site) => searchFromApi(site, query));
-    const searchResults = (await Promise.all(searchPromises)).flat();
+    const allResults = (await Promise.all(searchPromises)).flat();
+    const searchResults = applySearchFilters(allResults, filters);
 
     // 所有结果都作为常规结果返回，因为成人内容源已经在源头被过滤掉了
     const cacheTime = await getCacheTime();
     const response = NextResponse.json(
       { 
         regular_results: searchResults,
-        adult_results: [] // 始终为空，因为成人内容在源头就被过滤了
+        adult_results: [], // 始终为空，因为成人内容在源头就被过滤了
+        // 分面统计基于过滤前的全部结果
+        facets: computeSearchFacets(allResults, filters),
+        // aggregate=true 时额外返回跨源合并后的条目
+        ...(searchParams.get('aggregate') === 'true'
+          ? {
+              aggregated_results: filters.sort
+                ? sortByYear(
+                    aggregateSearchResults(searchResults, query),
+                    (item) => item.year,
+                    filters.sort === 'year_asc' ? 'asc' : 'desc'
+                  )
+                : aggregateSearchResults(searchResults, query),
+            }
+          : {}),
       },
       {
         headers: {
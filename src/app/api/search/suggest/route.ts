@@ -0,0 +1,84 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAuthInfoFromCookie } from '@/lib/auth';
+import { getStorage } from '@/lib/db';
+import { fetchDoubanSuggest } from '@/lib/doubanSuggest';
+import {
+  getLibraryTitles,
+  rankSuggestions,
+  SuggestionCandidate,
+} from '@/lib/searchSuggest';
+
+export const runtime = 'edge';
+
+// 联想条数上限
+const SUGGEST_LIMIT = 10;
+
+/**
+ * GET /api/search/suggest?q=xxx
+ * 综合个人搜索历史、站内播放记录与收藏、豆瓣联想，返回 { suggestions: SearchSuggestion[] }
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const query = (searchParams.get('q') || '').trim();
+
+  if (!query) {
+    return NextResponse.json({ suggestions: [] });
+  }
+
+  const authInfo = getAuthInfoFromCookie(request);
+  const userName = authInfo?.username;
+  const storage = getStorage();
+
+  // 三个来源并行获取，任一来源失败不影响其他来源
+  const [history, library, douban] = await Promise.all([
+    userName
+      ? storage.getSearchHistory(userName).catch((err) => {
+          console.error('获取搜索历史失败:', err);
+          return [] as string[];
+        })
+      : Promise.resolve([] as string[]),
+    getLibraryTitles().catch((err) => {
+      console.error('获取片库标题失败:', err);
+      return [];
+    }),
+    fetchDoubanSuggest(query).catch((err) => {
+      console.error('获取豆瓣联想失败:', err);
+      return [];
+    }),
+  ]);
+
+  const candidates: SuggestionCandidate[] = [
+    ...history.map(
+      (title): SuggestionCandidate => ({ title, source: 'history' })
+    ),
+    ...library.map(
+      (item): SuggestionCandidate => ({
+        title: item.title,
+        poster: item.poster,
+        year: item.year,
+        source: 'library',
+        weight: item.count,
+      })
+    ),
+    ...douban.map(
+      (item): SuggestionCandidate => ({
+        title: item.title,
+        poster: item.img,
+        year: item.year,
+        source: 'douban',
+      })
+    ),
+  ];
+
+  return NextResponse.json(
+    { suggestions: rankSuggestions(query, candidates, SUGGEST_LIMIT) },
+    {
+      headers: {
+        'Cache-Control': 'private, max-age=60',
+      },
+    }
+  );
+}
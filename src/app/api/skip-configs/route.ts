@@ -1,12 +1,36 @@
 import { NextRequest, NextResponse } from 'next/server';
 
 import { getAuthInfoFromCookie } from '@/lib/auth';
+import { getConfig } from '@/lib/config';
 import { getStorage } from '@/lib/db';
-import { EpisodeSkipConfig } from '@/lib/types';
+import { validateSkipConfig } from '@/lib/skipConfig';
+import { EpisodeSkipConfig, SharedSkipConfig } from '@/lib/types';
 
 // 配置 Edge Runtime - Cloudflare Pages 要求
 export const runtime = 'edge';
 
+// 共享配置的键由配置自身的资源站与剧集 ID 生成，与 generateSkipConfigKey 一致
+function sharedSkipConfigKey(config: EpisodeSkipConfig): string {
+  return `${config.source}_${config.id}`;
+}
+
+// 站长或管理员可以替换、撤回任何人发布的共享配置
+async function isAdminUser(username: string): Promise<boolean> {
+  if (username === process.env.USERNAME) return true;
+  const config = await getConfig();
+  return config.UserConfig.Users.some(
+    (u) => u.username === username && u.role === 'admin'
+  );
+}
+
+// 共享配置只能由发布者本人或站长、管理员替换与撤回
+async function canManageShared(
+  shared: SharedSkipConfig,
+  username: string
+): Promise<boolean> {
+  return shared.contributor === username || isAdminUser(username);
+}
+
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
@@ -45,21 +69,10 @@ export async function POST(request: NextRequest) {
           return NextResponse.json({ error: '缺少配置键或配置数据' }, { status: 400 });
         }
 
-        // 验证配置数据结构
-        if (!config.source || !config.id || !config.title || !Array.isArray(config.segments)) {
-          return NextResponse.json({ error: '配置数据格式错误' }, { status: 400 });
-        }
-
-        // 验证片段数据
-        for (const segment of config.segments) {
-          if (
-            typeof segment.start !== 'number' ||
-            typeof segment.end !== 'number' ||
-            segment.start >= segment.end ||
-            !['opening', 'ending'].includes(segment.type)
-          ) {
-            return NextResponse.json({ error: '片段数据格式错误' }, { status: 400 });
-          }
+        // 验证配置与片段数据
+        const invalid = validateSkipConfig(config);
+        if (invalid) {
+          return NextResponse.json({ error: invalid }, { status: 400 });
         }
 
         await storage.setSkipConfig(finalUsername, key, config as EpisodeSkipConfig);
@@ -80,6 +93,87 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({ success: true });
       }
 
+      // 获取社区共享配置，被管理员隐藏的不下发
+      case 'getShared': {
+        if (!key) {
+          return NextResponse.json({ error: '缺少配置键' }, { status: 400 });
+        }
+
+        const shared = await storage.getSharedSkipConfig(key);
+        return NextResponse.json({ config: shared && !shared.hidden ? shared : null });
+      }
+
+      // 将自己的配置发布到社区，同一剧集已有他人发布的配置时需管理员权限才能覆盖
+      case 'publish': {
+        // 发布者身份以登录 Cookie 为准，不信任请求体中的用户名
+        const publisher = authInfo?.username;
+        if (!publisher) {
+          return NextResponse.json({ error: '用户未登录' }, { status: 401 });
+        }
+        if (!config) {
+          return NextResponse.json({ error: '缺少配置数据' }, { status: 400 });
+        }
+
+        const invalid = validateSkipConfig(config);
+        if (invalid) {
+          return NextResponse.json({ error: invalid }, { status: 400 });
+        }
+        // 不信任客户端提交的键，避免把配置发布到其他剧集下
+        const sharedKey = sharedSkipConfigKey(config);
+        if (key && key !== sharedKey) {
+          return NextResponse.json({ error: '配置键与剧集不匹配' }, { status: 400 });
+        }
+        if (config.segments.length === 0) {
+          return NextResponse.json({ error: '没有可发布的跳过片段' }, { status: 400 });
+        }
+
+        // 被隐藏的条目需管理员删除后才能重新发布，避免绕过审核
+        const existing = await storage.getSharedSkipConfig(sharedKey);
+        if (existing?.hidden) {
+          return NextResponse.json({ error: '该剧集的共享配置已被管理员隐藏' }, { status: 403 });
+        }
+        if (existing && !(await canManageShared(existing, publisher))) {
+          return NextResponse.json({ error: '该剧集的共享配置由其他用户发布，无法覆盖' }, { status: 403 });
+        }
+
+        const shared: SharedSkipConfig = {
+          source: config.source,
+          id: config.id,
+          title: config.title,
+          segments: config.segments,
+          updated_time: Date.now(),
+          contributor: publisher,
+        };
+        await storage.setSharedSkipConfig(sharedKey, shared);
+        return NextResponse.json({ success: true, config: shared });
+      }
+
+      // 撤回共享配置，仅发布者本人或站长、管理员可操作
+      case 'withdraw': {
+        const publisher = authInfo?.username;
+        if (!publisher) {
+          return NextResponse.json({ error: '用户未登录' }, { status: 401 });
+        }
+        if (!key) {
+          return NextResponse.json({ error: '缺少配置键' }, { status: 400 });
+        }
+
+        const existing = await storage.getSharedSkipConfig(key);
+        if (!existing) {
+          return NextResponse.json({ success: true });
+        }
+        // 被隐藏的条目只能由管理员删除，避免撤回后重新发布绕过审核
+        if (existing.hidden && !(await isAdminUser(publisher))) {
+          return NextResponse.json({ error: '该剧集的共享配置已被管理员隐藏' }, { status: 403 });
+        }
+        if (!(await canManageShared(existing, publisher))) {
+          return NextResponse.json({ error: '只能撤回自己发布的共享配置' }, { status: 403 });
+        }
+
+        await storage.deleteSharedSkipConfig(key);
+        return NextResponse.json({ success: true });
+      }
+
       default:
         return NextResponse.json({ error: '不支持的操作类型' }, { status: 400 });
     }
@@ -3,6 +3,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 
 import { API_CONFIG, getAvailableApiSites } from '@/lib/config';
+import { isXmlContent, parseMacCmsXml } from '@/lib/maccmsXml';
 import { cleanHtmlTags } from '@/lib/utils';
 
 interface ApiSearchItem {
@@ -85,7 +86,9 @@ async function fetchCategoryVideosFromApi(
       return [];
     }
 
-    const data = await response.json();
+    // 兼容苹果 CMS XML 接口
+    const text = await response.text();
+    const data = isXmlContent(text) ? parseMacCmsXml(text) : JSON.parse(text);
 
     // 确保数据包含视频列表
     if (!data || !data.list || !Array.isArray(data.list) || data.list.length === 0) {
@@ -0,0 +1,47 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getConfig } from '@/lib/config';
+
+export const runtime = 'edge';
+
+/**
+ * GET /api/source/playback?source=xxx
+ * 返回播放页需要的资源站播放配置（去广告规则、是否强制代理、播放方式）
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const source = searchParams.get('source');
+
+  if (!source) {
+    return NextResponse.json({ error: '缺少 source 参数' }, { status: 400 });
+  }
+
+  try {
+    const config = await getConfig();
+    const entry = config.SourceConfig.find((s) => s.key === source);
+
+    return NextResponse.json(
+      {
+        ad_filter: entry?.ad_filter || null,
+        force_proxy: entry?.force_proxy === true,
+        play_mode: entry?.play_mode === 'parse' ? 'parse' : 'direct',
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('获取资源站播放配置失败:', error);
+    return NextResponse.json(
+      {
+        error: '获取资源站播放配置失败',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAuthInfoFromCookie } from '@/lib/auth';
+import { getStorage } from '@/lib/db';
+import { MAX_SUBTITLE_SIZE } from '@/lib/subtitle';
+import { EpisodeSubtitle } from '@/lib/types';
+
+export const runtime = 'edge';
+
+// 校验客户端提交的字幕，返回错误信息
+function validateSubtitle(subtitle: EpisodeSubtitle): string | null {
+  if (
+    !subtitle ||
+    typeof subtitle.name !== 'string' ||
+    typeof subtitle.offset !== 'number' ||
+    typeof subtitle.size !== 'number'
+  ) {
+    return '字幕数据格式错误';
+  }
+  if (subtitle.url) {
+    if (!/^https?:\/\//i.test(subtitle.url)) {
+      return '字幕地址无效';
+    }
+  } else if (
+    typeof subtitle.content !== 'string' ||
+    !subtitle.content.startsWith('WEBVTT')
+  ) {
+    return '字幕内容必须为 WebVTT';
+  } else if (subtitle.content.length > MAX_SUBTITLE_SIZE) {
+    return '字幕文件过大';
+  }
+  return null;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { action, key, subtitle } = await request.json();
+
+    if (!action || !key) {
+      return NextResponse.json(
+        { error: '缺少操作类型或字幕键' },
+        { status: 400 }
+      );
+    }
+
+    const authInfo = getAuthInfoFromCookie(request);
+    if (!authInfo?.username) {
+      return NextResponse.json({ error: '用户未登录' }, { status: 401 });
+    }
+
+    const storage = getStorage();
+
+    switch (action) {
+      case 'get': {
+        const result = await storage.getSubtitle(authInfo.username, key);
+        return NextResponse.json({ subtitle: result });
+      }
+
+      case 'set': {
+        const invalid = validateSubtitle(subtitle);
+        if (invalid) {
+          return NextResponse.json({ error: invalid }, { status: 400 });
+        }
+
+        const saved: EpisodeSubtitle = {
+          name: subtitle.name,
+          url: subtitle.url || undefined,
+          content: subtitle.url ? undefined : subtitle.content,
+          offset: subtitle.offset,
+          size: subtitle.size,
+          updated_time: Date.now(),
+        };
+        await storage.setSubtitle(authInfo.username, key, saved);
+        return NextResponse.json({ success: true });
+      }
+
+      case 'delete': {
+        await storage.deleteSubtitle(authInfo.username, key);
+        return NextResponse.json({ success: true });
+      }
+
+      default:
+        return NextResponse.json(
+          { error: '不支持的操作类型' },
+          { status: 400 }
+        );
+    }
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error('字幕 API 错误:', error);
+    return NextResponse.json({ error: '服务器内部错误' }, { status: 500 });
+  }
+}
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 
+import { ParserConfig } from '@/lib/admin.types';
 import { getConfig } from '@/lib/config';
+import { isXmlApi } from '@/lib/maccmsXml';
+import { PARSE_PLATFORMS } from '@/lib/parser';
 
 // 强制使用 Edge Runtime 以支持 Cloudflare Pages
 export const runtime = 'edge';
@@ -44,6 +47,43 @@ interface TVBoxConfig {
   ads?: string[]; // 广告过滤规则
 }
 
+/**
+ * 将管理员配置的解析接口转换为 TVBox 解析源
+ * TVBox 将视频地址拼接在解析地址末尾，{url} 不在末尾的模板无法使用
+ */
+function toTVBoxParses(parsers: ParserConfig[]): TVBoxConfig['parses'] {
+  const parses: NonNullable<TVBoxConfig['parses']> = parsers
+    .filter((p) => !p.disabled)
+    .filter((p) => !p.url.includes('{url}') || p.url.endsWith('{url}'))
+    .map((p) => {
+      const platforms = PARSE_PLATFORMS.filter(
+        (platform) =>
+          p.platforms.length === 0 || p.platforms.includes(platform.key)
+      );
+      return {
+        name: p.name,
+        type: p.type === 'json' ? 1 : 0,
+        url: p.url.replace(/\{url\}$/, ''),
+        ext: {
+          flag: platforms.reduce<string[]>(
+            (all, platform) => all.concat(platform.flags),
+            []
+          ),
+        },
+        ...(p.headers && { header: p.headers }),
+      };
+    });
+
+  // 存在 JSON 解析接口时提供并发与轮询两种聚合方式
+  if (parses.some((p) => p.type === 1)) {
+    parses.unshift(
+      { name: 'Json并发', type: 2, url: 'Parallel' },
+      { name: 'Json轮询', type: 2, url: 'Sequence' }
+    );
+  }
+  return parses;
+}
+
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
@@ -70,17 +110,11 @@ export async function GET(request: NextRequest) {
       
       // 影视源配置
       sites: sourceConfigs.map((source) => {
-        // 更智能的type判断逻辑：
-        // 1. 如果api地址包含 "/provide/vod" 且不包含 "at/xml"，则认为是JSON类型 (type=1)
-        // 2. 如果api地址包含 "at/xml"，则认为是XML类型 (type=0)
-        // 3. 如果api地址以 ".json" 结尾，则认为是JSON类型 (type=1)
-        // 4. 其他情况默认为JSON类型 (type=1)，因为现在大部分都是JSON
-        let type = 1; // 默认为JSON类型
-        
-        const apiLower = source.api.toLowerCase();
-        if (apiLower.includes('at/xml') || apiLower.endsWith('.xml')) {
-          type = 0; // XML类型
-        }
+        // type判断逻辑：
+        // 1. 资源站显式配置了 format 时以配置为准
+        // 2. 否则api地址包含 "at/xml" 或以 ".xml" 结尾认为是XML类型 (type=0)
+        // 3. 其他情况默认为JSON类型 (type=1)，因为现在大部分都是JSON
+        const type = isXmlApi(source) ? 0 : 1;
         
         return {
           key: source.key || source.name,
@@ -98,27 +132,8 @@ export async function GET(request: NextRequest) {
         };
       }),
 
-      // 解析源配置（添加一些常用的解析源）
-      parses: [
-        {
-          name: "Json并发",
-          type: 2,
-          url: "Parallel"
-        },
-        {
-          name: "Json轮询",
-          type: 2, 
-          url: "Sequence"
-        },
-        {
-          name: "KatelyaTV内置解析",
-          type: 1,
-          url: `${baseUrl}/api/parse?url=`,
-          ext: {
-            flag: ["qiyi", "qq", "letv", "sohu", "youku", "mgtv", "bilibili", "wasu", "xigua", "1905"]
-          }
-        }
-      ],
+      // 解析源配置（与管理员配置的解析接口一致）
+      parses: toTVBoxParses(config.ParseConfig || []),
 
       // 播放标识
       flags: [
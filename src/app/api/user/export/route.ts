@@ -0,0 +1,55 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAuthInfoFromCookie } from '@/lib/auth';
+import { getStorage } from '@/lib/db';
+import { exportUserDataFromStorage } from '@/lib/userData';
+
+export const runtime = 'edge';
+
+/**
+ * GET /api/user/export
+ * 导出当前用户的播放记录、收藏、跳过配置、字幕、搜索历史和设置
+ */
+export async function GET(request: NextRequest) {
+  // 本地存储模式的数据保存在浏览器中，由客户端直接导出
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json(
+      { error: '本地存储模式请在浏览器中导出' },
+      { status: 400 }
+    );
+  }
+
+  const authInfo = getAuthInfoFromCookie(request);
+  if (!authInfo?.username) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const bundle = await exportUserDataFromStorage(
+      getStorage(),
+      authInfo.username
+    );
+    const date = new Date(bundle.exported_at).toISOString().slice(0, 10);
+    const fileName = `katelyatv-${authInfo.username}-${date}.json`;
+    return NextResponse.json(bundle, {
+      headers: {
+        'Cache-Control': 'no-store',
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(
+          fileName
+        )}`,
+      },
+    });
+  } catch (error) {
+    console.error('导出用户数据失败:', error);
+    return NextResponse.json(
+      {
+        error: '导出用户数据失败',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
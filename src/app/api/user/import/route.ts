@@ -0,0 +1,73 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAuthInfoFromCookie } from '@/lib/auth';
+import { getStorage } from '@/lib/db';
+import {
+  importUserDataToStorage,
+  parseUserDataBundle,
+  UserDataImportMode,
+} from '@/lib/userData';
+
+export const runtime = 'edge';
+
+/**
+ * POST /api/user/import
+ * body: { mode: 'merge' | 'overwrite', data: 导出的备份数据 }
+ */
+export async function POST(request: NextRequest) {
+  // 本地存储模式的数据保存在浏览器中，由客户端直接导入
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json(
+      { error: '本地存储模式请在浏览器中导入' },
+      { status: 400 }
+    );
+  }
+
+  const authInfo = getAuthInfoFromCookie(request);
+  if (!authInfo?.username) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { mode, data } = (await request.json()) as {
+      mode?: UserDataImportMode;
+      data?: unknown;
+    };
+    if (mode !== 'merge' && mode !== 'overwrite') {
+      return NextResponse.json({ error: '导入模式错误' }, { status: 400 });
+    }
+
+    let parsed: ReturnType<typeof parseUserDataBundle>;
+    try {
+      parsed = parseUserDataBundle(data);
+    } catch (err) {
+      return NextResponse.json(
+        { error: (err as Error).message },
+        { status: 400 }
+      );
+    }
+
+    const result = await importUserDataToStorage(
+      getStorage(),
+      authInfo.username,
+      parsed.bundle,
+      mode
+    );
+    return NextResponse.json(
+      { ok: true, result: { ...result, invalid: parsed.invalid } },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('导入用户数据失败:', error);
+    return NextResponse.json(
+      {
+        error: '导入用户数据失败',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -2,11 +2,63 @@ import { headers } from 'next/headers';
 import { NextRequest, NextResponse } from 'next/server';
 
 import { getStorage } from '@/lib/db';
-import { UserSettings } from '@/lib/types';
+import { DEFAULT_USER_SETTINGS, UserSettings } from '@/lib/types';
 
 // 设置运行时为 Edge Runtime，确保部署兼容性
 export const runtime = 'edge';
 
+// 播放器可选倍速，与播放页保持一致
+const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2, 3];
+
+// 播放器偏好默认值，与播放页原有行为一致
+const DEFAULT_PLAYER_SETTINGS: Partial<UserSettings> = {
+  default_playback_rate: 1,
+  default_volume: 0.7,
+  default_muted: false,
+  auto_next_episode: true,
+  block_ad: true,
+  speed_test: true,
+  preferred_sources: [],
+};
+
+/**
+ * 校验播放器偏好字段，返回错误信息，合法时返回 null
+ */
+function validatePlayerSettings(settings: Partial<UserSettings>): string | null {
+  const rate = settings.default_playback_rate;
+  if (rate !== undefined && !PLAYBACK_RATES.includes(rate)) {
+    return '不支持的播放倍速';
+  }
+  const volume = settings.default_volume;
+  if (
+    volume !== undefined &&
+    (typeof volume !== 'number' || volume < 0 || volume > 1)
+  ) {
+    return '音量需在 0 到 1 之间';
+  }
+  const booleanKeys = [
+    'default_muted',
+    'auto_next_episode',
+    'block_ad',
+    'speed_test',
+  ];
+  if (
+    booleanKeys.some(
+      (key) => settings[key] !== undefined && typeof settings[key] !== 'boolean'
+    )
+  ) {
+    return '播放器开关设置格式错误';
+  }
+  const sources = settings.preferred_sources;
+  if (
+    sources !== undefined &&
+    (!Array.isArray(sources) || sources.some((s) => typeof s !== 'string'))
+  ) {
+    return '偏好资源站格式错误';
+  }
+  return null;
+}
+
 // 获取用户设置
 export async function GET(_request: NextRequest) {
   try {
@@ -27,12 +79,9 @@ export async function GET(_request: NextRequest) {
     const settings = await storage.getUserSettings(userName);
     
     return NextResponse.json({ 
-      settings: settings || {
-        filter_adult_content: true, // 默认开启成人内容过滤
-        theme: 'auto',
-        language: 'zh-CN',
-        auto_play: true,
-        video_quality: 'auto'
+      settings: {
+        ...DEFAULT_PLAYER_SETTINGS,
+        ...(settings || DEFAULT_USER_SETTINGS)
       }
     }, {
       headers: {
@@ -71,6 +120,11 @@ export async function PATCH(request: NextRequest) {
       return NextResponse.json({ error: '设置数据不能为空' }, { status: 400 });
     }
 
+    const invalid = validatePlayerSettings(settings);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
     const storage = getStorage();
     
     // 验证用户存在
@@ -121,6 +175,11 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({ error: '设置数据不能为空' }, { status: 400 });
     }
 
+    const invalid = validatePlayerSettings(settings);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
     const storage = getStorage();
     
     // 验证用户存在
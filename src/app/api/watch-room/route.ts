@@ -0,0 +1,296 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAuthInfoFromCookie } from '@/lib/auth';
+import { getStorage } from '@/lib/db';
+import { WatchRoom } from '@/lib/types';
+
+export const runtime = 'edge';
+
+// 超过该时长没有心跳的成员视为离线
+const MEMBER_TIMEOUT_MS = 20 * 1000;
+// 成员心跳写入间隔，减少轮询时的写入次数
+const HEARTBEAT_INTERVAL_MS = 5 * 1000;
+// 房主离线超过该时长后，房主身份移交给其他在线成员
+const HOST_TIMEOUT_MS = 60 * 1000;
+// 超过该时长无人访问且未更新的房间视为已关闭，再次打开或创建新房间时清理
+const ROOM_EXPIRE_MS = 12 * 60 * 60 * 1000;
+
+function noStore(body: unknown, status = 200) {
+  return NextResponse.json(body, {
+    status,
+    headers: { 'Cache-Control': 'no-store' },
+  });
+}
+
+// 房间需要在多个客户端间共享，本地存储模式不可用
+function isLocalStorage(): boolean {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  return storageType === 'localstorage';
+}
+
+function generateRoomId(): string {
+  return crypto.randomUUID().replace(/-/g, '').slice(0, 8);
+}
+
+function canControl(room: WatchRoom, userName: string): boolean {
+  return room.host === userName || !room.host_only;
+}
+
+// 房间最近活跃时间：播放状态更新或成员心跳
+function lastActiveTime(
+  room: WatchRoom,
+  members: { [userName: string]: number }
+): number {
+  return Math.max(room.state_time, ...Object.values(members));
+}
+
+/**
+ * 清理长时间无人访问的房间，避免废弃房间一直占用存储
+ */
+async function sweepExpiredRooms(now: number): Promise<void> {
+  const storage = getStorage();
+  const rooms = await storage.getAllWatchRooms();
+  await Promise.all(
+    rooms
+      .filter((room) => now - room.state_time > ROOM_EXPIRE_MS)
+      .map(async (room) => {
+        const members = await storage.getWatchRoomMembers(room.id);
+        if (now - lastActiveTime(room, members) > ROOM_EXPIRE_MS) {
+          await storage.deleteWatchRoom(room.id);
+        }
+      })
+  );
+}
+
+/**
+ * 记录成员心跳并返回在线成员，必要时移交房主或清理过期房间
+ * 房间已被删除时返回 null
+ */
+async function touchRoom(
+  room: WatchRoom,
+  userName: string
+): Promise<{ room: WatchRoom; members: string[] } | null> {
+  const storage = getStorage();
+  const now = Date.now();
+  const members = await storage.getWatchRoomMembers(room.id);
+
+  if (now - lastActiveTime(room, members) > ROOM_EXPIRE_MS) {
+    await storage.deleteWatchRoom(room.id);
+    return null;
+  }
+
+  if (!members[userName] || now - members[userName] >= HEARTBEAT_INTERVAL_MS) {
+    await storage.setWatchRoomMember(room.id, userName, now);
+  }
+  members[userName] = now;
+
+  const online = Object.keys(members)
+    .filter((name) => now - members[name] < MEMBER_TIMEOUT_MS)
+    .sort((a, b) => members[a] - members[b]);
+
+  const hostSeen = members[room.host] || 0;
+  if (room.host !== userName && now - hostSeen > HOST_TIMEOUT_MS) {
+    // 原房主长时间离线，由当前在线成员接任
+    // 写入前重新读取房间，避免覆盖期间其他成员更新的播放状态
+    const latest = await storage.getWatchRoom(room.id);
+    if (!latest) return null;
+    if (latest.host === room.host) {
+      room = { ...latest, host: userName };
+      await storage.setWatchRoom(room.id, room);
+    } else {
+      room = latest;
+    }
+  }
+
+  return { room, members: online };
+}
+
+// 获取房间状态（同时作为成员心跳），客户端定时轮询
+export async function GET(request: NextRequest) {
+  try {
+    if (isLocalStorage()) {
+      return noStore({ error: '本地存储模式不支持一起看' }, 400);
+    }
+
+    const authInfo = getAuthInfoFromCookie(request);
+    if (!authInfo?.username) {
+      return noStore({ error: '用户未登录' }, 401);
+    }
+
+    const roomId = request.nextUrl.searchParams.get('id');
+    if (!roomId) {
+      return noStore({ error: '缺少房间号' }, 400);
+    }
+
+    const room = await getStorage().getWatchRoom(roomId);
+    if (!room) {
+      return noStore({ error: '房间不存在或已关闭' }, 404);
+    }
+    if (room.kicked.includes(authInfo.username)) {
+      return noStore({ error: '你已被房主移出房间' }, 403);
+    }
+
+    const result = await touchRoom(room, authInfo.username);
+    if (!result) {
+      return noStore({ error: '房间不存在或已关闭' }, 404);
+    }
+
+    return noStore({ ...result, server_time: Date.now() });
+  } catch (error) {
+    console.error('获取房间状态失败:', error);
+    return noStore({ error: '获取房间状态失败' }, 500);
+  }
+}
+
+// 创建房间、更新播放状态与房主管理操作
+export async function POST(request: NextRequest) {
+  try {
+    if (isLocalStorage()) {
+      return noStore({ error: '本地存储模式不支持一起看' }, 400);
+    }
+
+    const authInfo = getAuthInfoFromCookie(request);
+    if (!authInfo?.username) {
+      return noStore({ error: '用户未登录' }, 401);
+    }
+    const userName = authInfo.username;
+
+    const body = await request.json();
+    const { action } = body;
+    const storage = getStorage();
+    const now = Date.now();
+
+    if (action === 'create') {
+      const { source, id, title, episode } = body;
+      if (!source || !id || typeof episode !== 'number' || episode < 1) {
+        return noStore({ error: '缺少视频信息' }, 400);
+      }
+
+      await sweepExpiredRooms(now).catch((err) =>
+        console.error('清理过期房间失败:', err)
+      );
+
+      const room: WatchRoom = {
+        id: generateRoomId(),
+        host: userName,
+        source,
+        video_id: id,
+        title: title || '',
+        episode,
+        playing: false,
+        position: typeof body.position === 'number' ? body.position : 0,
+        rate: 1,
+        state_time: now,
+        version: 1,
+        updated_by: userName,
+        host_only: true,
+        kicked: [],
+        created_time: now,
+      };
+      await storage.setWatchRoom(room.id, room);
+      await storage.setWatchRoomMember(room.id, userName, now);
+      return noStore({ room, members: [userName], server_time: now });
+    }
+
+    const roomId = body.room;
+    if (!roomId) {
+      return noStore({ error: '缺少房间号' }, 400);
+    }
+    const room = await storage.getWatchRoom(roomId);
+    if (!room) {
+      return noStore({ error: '房间不存在或已关闭' }, 404);
+    }
+    if (room.kicked.includes(userName)) {
+      return noStore({ error: '你已被房主移出房间' }, 403);
+    }
+    const isHost = room.host === userName;
+
+    switch (action) {
+      // 更新播放状态：播放/暂停、进度、倍速与换集换源
+      case 'update': {
+        if (!canControl(room, userName)) {
+          return noStore({ error: '仅房主可以控制播放' }, 403);
+        }
+        const { state } = body;
+        if (!state || typeof state !== 'object') {
+          return noStore({ error: '缺少播放状态' }, 400);
+        }
+
+        const updated: WatchRoom = {
+          ...room,
+          playing:
+            typeof state.playing === 'boolean' ? state.playing : room.playing,
+          position:
+            typeof state.position === 'number' && state.position >= 0
+              ? state.position
+              : room.position,
+          rate:
+            typeof state.rate === 'number' && state.rate > 0
+              ? state.rate
+              : room.rate,
+          episode:
+            typeof state.episode === 'number' && state.episode >= 1
+              ? state.episode
+              : room.episode,
+          source: typeof state.source === 'string' ? state.source : room.source,
+          video_id: typeof state.id === 'string' ? state.id : room.video_id,
+          title: typeof state.title === 'string' ? state.title : room.title,
+          state_time: now,
+          version: room.version + 1,
+          updated_by: userName,
+        };
+        await storage.setWatchRoom(room.id, updated);
+        return noStore({ room: updated, server_time: now });
+      }
+
+      case 'leave': {
+        await storage.deleteWatchRoomMember(room.id, userName);
+        return noStore({ success: true });
+      }
+
+      // 以下为房主操作
+      case 'settings':
+      case 'kick':
+      case 'transfer':
+      case 'close': {
+        if (!isHost) {
+          return noStore({ error: '仅房主可以执行该操作' }, 403);
+        }
+
+        if (action === 'close') {
+          await storage.deleteWatchRoom(room.id);
+          return noStore({ success: true });
+        }
+
+        const target = body.username;
+        if (action !== 'settings' && (!target || target === userName)) {
+          return noStore({ error: '目标成员无效' }, 400);
+        }
+
+        let updated: WatchRoom;
+        if (action === 'settings') {
+          updated = { ...room, host_only: body.host_only !== false };
+        } else if (action === 'kick') {
+          updated = { ...room, kicked: [...room.kicked, target] };
+          await storage.deleteWatchRoomMember(room.id, target);
+        } else {
+          const members = await storage.getWatchRoomMembers(room.id);
+          if (!members[target] || now - members[target] > MEMBER_TIMEOUT_MS) {
+            return noStore({ error: '该成员不在线' }, 400);
+          }
+          updated = { ...room, host: target };
+        }
+        await storage.setWatchRoom(room.id, updated);
+        return noStore({ room: updated, server_time: now });
+      }
+
+      default:
+        return noStore({ error: '不支持的操作类型' }, 400);
+    }
+  } catch (error) {
+    console.error('房间操作失败:', error);
+    return noStore({ error: '房间操作失败' }, 500);
+  }
+}
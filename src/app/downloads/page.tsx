@@ -0,0 +1,249 @@
+/* eslint-disable no-console, @next/next/no-img-element */
+'use client';
+
+import { Download, Pause, Play, RotateCcw, Trash2 } from 'lucide-react';
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+
+import {
+  deleteOfflineEpisode,
+  getOfflineEpisodes,
+  isOfflineSupported,
+  OfflineEpisode,
+  pauseOfflineDownload,
+  resumeOfflineDownload,
+  subscribeOfflineDownloads,
+} from '@/lib/offlineDownload';
+import { processImageUrl } from '@/lib/utils';
+
+import { getOfflineProgress } from '@/components/OfflineDownloadButton';
+import PageLayout from '@/components/PageLayout';
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) {
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  }
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+}
+
+const STATUS_TEXT: Record<OfflineEpisode['status'], string> = {
+  downloading: '下载中',
+  paused: '已暂停',
+  completed: '已完成',
+  error: '下载失败',
+};
+
+function playUrl(episode: OfflineEpisode): string {
+  const params = new URLSearchParams({
+    source: episode.source,
+    id: episode.id,
+    title: episode.title,
+    episode: String(episode.episode),
+  });
+  return `/play?${params.toString()}`;
+}
+
+export default function DownloadsPage() {
+  const [episodes, setEpisodes] = useState<OfflineEpisode[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [supported, setSupported] = useState(true);
+  const [usage, setUsage] = useState<{ usage: number; quota: number } | null>(
+    null
+  );
+
+  const refreshUsage = () => {
+    navigator.storage
+      ?.estimate?.()
+      .then(({ usage = 0, quota = 0 }) => setUsage({ usage, quota }))
+      .catch(() => undefined);
+  };
+
+  useEffect(() => {
+    if (!isOfflineSupported()) {
+      setSupported(false);
+      setLoading(false);
+      return;
+    }
+
+    getOfflineEpisodes()
+      .then(setEpisodes)
+      .catch((err) => console.error('读取离线下载失败:', err))
+      .finally(() => setLoading(false));
+    refreshUsage();
+
+    return subscribeOfflineDownloads(({ key, episode }) => {
+      setEpisodes((prev) => {
+        if (!episode) return prev.filter((item) => item.key !== key);
+        const exists = prev.some((item) => item.key === key);
+        return exists
+          ? prev.map((item) => (item.key === key ? episode : item))
+          : [episode, ...prev];
+      });
+      if (!episode || episode.status !== 'downloading') refreshUsage();
+    });
+  }, []);
+
+  const handleDelete = async (episode: OfflineEpisode) => {
+    if (
+      !confirm(
+        `确定删除「${episode.title} ${episode.episode_name}」的离线内容？`
+      )
+    ) {
+      return;
+    }
+    try {
+      await deleteOfflineEpisode(episode.key);
+    } catch (err) {
+      console.error('删除离线内容失败:', err);
+    }
+  };
+
+  const totalSize = episodes.reduce((sum, episode) => sum + episode.size, 0);
+
+  return (
+    <PageLayout activePath='/downloads'>
+      <div className='px-4 sm:px-10 py-4 sm:py-8 mb-10'>
+        <div className='max-w-4xl mx-auto'>
+          <div className='flex items-end justify-between mb-6'>
+            <div>
+              <h1 className='text-2xl font-bold text-gray-900 dark:text-white flex items-center'>
+                <Download className='w-6 h-6 mr-2 text-green-600' />
+                离线下载
+              </h1>
+              <p className='text-sm text-gray-500 dark:text-gray-400 mt-1'>
+                已下载的剧集保存在当前浏览器中，无网络时也可以播放
+              </p>
+            </div>
+            <div className='text-right text-sm text-gray-500 dark:text-gray-400'>
+              <div>共 {formatSize(totalSize)}</div>
+              {usage && usage.quota > 0 && (
+                <div className='text-xs'>
+                  浏览器存储 {formatSize(usage.usage)} /{' '}
+                  {formatSize(usage.quota)}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {!supported ? (
+            <p className='text-center text-gray-500 dark:text-gray-400 py-16'>
+              当前浏览器不支持离线下载
+            </p>
+          ) : loading ? (
+            <p className='text-center text-gray-500 dark:text-gray-400 py-16'>
+              加载中...
+            </p>
+          ) : episodes.length === 0 ? (
+            <p className='text-center text-gray-500 dark:text-gray-400 py-16'>
+              暂无离线内容，可在播放页点击「下载」保存当前集
+            </p>
+          ) : (
+            <ul className='space-y-3'>
+              {episodes.map((episode) => {
+                const progress = getOfflineProgress(episode);
+                return (
+                  <li
+                    key={episode.key}
+                    className='flex gap-4 p-3 rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 shadow-sm'
+                  >
+                    <img
+                      src={processImageUrl(episode.poster)}
+                      alt={episode.title}
+                      className='w-16 h-24 object-cover rounded bg-gray-200 dark:bg-gray-700 flex-shrink-0'
+                      referrerPolicy='no-referrer'
+                    />
+                    <div className='flex-1 min-w-0 flex flex-col justify-between'>
+                      <div>
+                        <h3 className='font-medium text-gray-900 dark:text-gray-100 truncate'>
+                          {episode.title}
+                        </h3>
+                        <p className='text-sm text-gray-500 dark:text-gray-400 truncate'>
+                          {episode.episode_name} · {episode.source_name}
+                        </p>
+                      </div>
+                      <div>
+                        <div className='flex items-center justify-between text-xs text-gray-500 dark:text-gray-400 mb-1'>
+                          <span
+                            className={
+                              episode.status === 'error'
+                                ? 'text-red-500'
+                                : undefined
+                            }
+                            title={episode.error}
+                          >
+                            {STATUS_TEXT[episode.status]}
+                            {episode.status !== 'completed' &&
+                              episode.total > 0 &&
+                              ` ${progress}%`}
+                            {episode.status === 'error' &&
+                              episode.error &&
+                              `：${episode.error}`}
+                          </span>
+                          <span>{formatSize(episode.size)}</span>
+                        </div>
+                        {episode.status !== 'completed' && (
+                          <div className='h-1.5 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden'>
+                            <div
+                              className='h-full bg-green-500 transition-all'
+                              style={{ width: `${progress}%` }}
+                            />
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                    <div className='flex flex-col justify-center gap-2'>
+                      {episode.status === 'completed' && (
+                        <Link
+                          href={playUrl(episode)}
+                          className='p-2 rounded-full text-green-600 hover:bg-green-50 dark:hover:bg-green-900/30'
+                          title='播放'
+                        >
+                          <Play className='w-5 h-5' />
+                        </Link>
+                      )}
+                      {episode.status === 'downloading' && (
+                        <button
+                          onClick={() => pauseOfflineDownload(episode.key)}
+                          className='p-2 rounded-full text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                          title='暂停'
+                        >
+                          <Pause className='w-5 h-5' />
+                        </button>
+                      )}
+                      {(episode.status === 'paused' ||
+                        episode.status === 'error') && (
+                        <button
+                          onClick={() =>
+                            resumeOfflineDownload(episode.key).catch((err) =>
+                              console.error('继续离线下载失败:', err)
+                            )
+                          }
+                          className='p-2 rounded-full text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                          title={episode.status === 'error' ? '重试' : '继续'}
+                        >
+                          {episode.status === 'error' ? (
+                            <RotateCcw className='w-5 h-5' />
+                          ) : (
+                            <Download className='w-5 h-5' />
+                          )}
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleDelete(episode)}
+                        className='p-2 rounded-full text-gray-500 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20'
+                        title='删除'
+                      >
+                        <Trash2 className='w-5 h-5' />
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </PageLayout>
+  );
+}
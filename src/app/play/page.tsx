@@ -8,22 +8,66 @@ import { Heart } from 'lucide-react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { Suspense, useEffect, useRef, useState } from 'react';
 
+import { AdFilterRules } from '@/lib/admin.types';
+import { normalizeTitle } from '@/lib/aggregate';
+import { isSourceBroken, markSourceBroken } from '@/lib/brokenSources';
 import {
+  DEFAULT_PLAYER_PREFERENCES,
   deleteFavorite,
   deletePlayRecord,
   generateStorageKey,
   getAllPlayRecords,
+  getLocalPlayerPreferences,
+  getPlayerPreferences,
   isFavorited,
+  isWatchRoomAvailable,
+  PlayerPreferences,
   saveFavorite,
+  savePlayerPreferences,
   savePlayRecord,
   subscribeToDataUpdates,
 } from '@/lib/db.client';
-import { SearchResult } from '@/lib/types';
-import { getVideoResolutionFromM3u8, processImageUrl } from '@/lib/utils';
+import { filterAdsFromM3U8 } from '@/lib/hlsAdFilter';
+import { buildProxyUrl, isProxyUrl } from '@/lib/hlsProxy';
+import {
+  getOfflineEpisodeKey,
+  getOfflineEpisodes,
+  getOfflinePlaylistUrl,
+  isOfflineUrl,
+  loadOfflineResource,
+  OfflineEpisode,
+  subscribeOfflineDownloads,
+} from '@/lib/offlineDownload';
+import {
+  fingerprintSegment,
+  getSkipProposals,
+  recordSegmentPrint,
+} from '@/lib/skipDetector';
+import { SearchResult, SkipSegment } from '@/lib/types';
+import {
+  getEpisodeLabel,
+  getVideoResolutionFromM3u8,
+  processImageUrl,
+} from '@/lib/utils';
 
 import EpisodeSelector from '@/components/EpisodeSelector';
+import OfflineDownloadButton from '@/components/OfflineDownloadButton';
 import PageLayout from '@/components/PageLayout';
+import ParseFrame, {
+  getPreferredParser,
+  ParseFrameParser,
+} from '@/components/ParseFrame';
 import SkipController, { SkipSettingsButton } from '@/components/SkipController';
+import SubtitleController, {
+  ActiveSubtitle,
+  applySubtitleToPlayer,
+  SubtitleSettingsButton,
+} from '@/components/SubtitleController';
+import WatchRoomPanel, {
+  useWatchRoom,
+  WatchRoomButton,
+  WatchRoomOverlay,
+} from '@/components/WatchRoomController';
 
 // 扩展 HTMLVideoElement 类型以支持 hls 属性
 declare global {
@@ -32,6 +76,9 @@ declare global {
   }
 }
 
+// 连续卡顿超过该时长自动换源
+const STALL_TIMEOUT_MS = 20000;
+
 function PlayPageClient() {
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -50,18 +97,18 @@ function PlayPageClient() {
   // 收藏状态
   const [favorited, setFavorited] = useState(false);
 
-  // 去广告开关（从 localStorage 继承，默认 true）
-  const [blockAdEnabled, setBlockAdEnabled] = useState<boolean>(() => {
-    if (typeof window !== 'undefined') {
-      const v = localStorage.getItem('enable_blockad');
-      if (v !== null) return v === 'true';
-    }
-    return true;
-  });
+  // 去广告开关（先使用本地缓存的播放器偏好，加载完成后更新）
+  const [blockAdEnabled, setBlockAdEnabled] = useState<boolean>(
+    () => getLocalPlayerPreferences().block_ad
+  );
   const blockAdEnabledRef = useRef(blockAdEnabled);
   useEffect(() => {
     blockAdEnabledRef.current = blockAdEnabled;
   }, [blockAdEnabled]);
+  // 当前资源站的去广告规则（由管理员按源配置）
+  const adFilterRulesRef = useRef<AdFilterRules | null>(null);
+  // 当前资源站是否强制经由服务端代理播放
+  const forceProxyRef = useRef(false);
 
   // 视频基本信息
   const [videoTitle, setVideoTitle] = useState(searchParams.get('title') || '');
@@ -87,6 +134,12 @@ function PlayPageClient() {
   }, [needPrefer]);
   // 集数相关
   const [currentEpisodeIndex, setCurrentEpisodeIndex] = useState(0);
+  // 从离线下载页进入时指定的集数（从 1 开始）
+  const [requestedEpisode] = useState(
+    () => Number(searchParams.get('episode')) || 0
+  );
+  // 已下载完成的离线剧集，存在时优先从本地播放
+  const offlineKeysRef = useRef<Set<string>>(new Set());
 
   const currentSourceRef = useRef(currentSource);
   const currentIdRef = useRef(currentId);
@@ -115,13 +168,50 @@ function PlayPageClient() {
   // 视频播放地址
   const [videoUrl, setVideoUrl] = useState('');
 
+  // 资源站播放方式，获取到播放配置前为 null
+  const [playMode, setPlayMode] = useState<'parse' | 'direct' | null>(null);
+  // 网页解析接口的嵌入播放状态
+  const [parseFrame, setParseFrame] = useState<{
+    parsers: ParseFrameParser[];
+    index: number;
+    error?: string;
+  } | null>(null);
+  const parseRequestRef = useRef(0);
+
   // 总集数
   const totalEpisodes = detail?.episodes?.length || 0;
 
+  // 当前集名称：资源站标签为纯数字时显示为 "第 N 集"
+  const currentEpisodeLabel = getEpisodeLabel(
+    detail?.episodes_titles?.[currentEpisodeIndex],
+    currentEpisodeIndex + 1
+  );
+  const currentEpisodeName = /^\d+$/.test(currentEpisodeLabel)
+    ? `第 ${currentEpisodeLabel} 集`
+    : currentEpisodeLabel;
+
+  // 当前播放线路：与 detail.episodes 首集地址相同的线路
+  const currentLineIndex = Math.max(
+    0,
+    detail?.play_lines?.findIndex(
+      (line) => line.episodes[0] === detail.episodes[0]
+    ) ?? 0
+  );
+
   // 用于记录是否需要在播放器 ready 后跳转到指定进度
   const resumeTimeRef = useRef<number | null>(null);
-  // 上次使用的音量，默认 0.7
-  const lastVolumeRef = useRef<number>(0.7);
+  // 播放器偏好（跟随用户设置），加载完成前使用默认值
+  const playerPrefsRef = useRef<PlayerPreferences>(DEFAULT_PLAYER_PREFERENCES);
+  // 上次使用的音量、静音与倍速，初始为偏好中的默认值
+  const lastVolumeRef = useRef<number>(
+    DEFAULT_PLAYER_PREFERENCES.default_volume
+  );
+  const lastMutedRef = useRef<boolean>(
+    DEFAULT_PLAYER_PREFERENCES.default_muted
+  );
+  const lastPlaybackRateRef = useRef<number>(
+    DEFAULT_PLAYER_PREFERENCES.default_playback_rate
+  );
 
   // 换源相关状态
   const [availableSources, setAvailableSources] = useState<SearchResult[]>([]);
@@ -130,21 +220,6 @@ function PlayPageClient() {
     null
   );
 
-  // 优选和测速开关
-  const [optimizationEnabled] = useState<boolean>(() => {
-    if (typeof window !== 'undefined') {
-      const saved = localStorage.getItem('enableOptimization');
-      if (saved !== null) {
-        try {
-          return JSON.parse(saved);
-        } catch {
-          /* ignore */
-        }
-      }
-    }
-    return true;
-  });
-
   // 保存优选时的测速结果，避免EpisodeSelector重复测速
   const [precomputedVideoInfo, setPrecomputedVideoInfo] = useState<
     Map<string, { quality: string; loadSpeed: string; pingTime: number }>
@@ -154,6 +229,16 @@ function PlayPageClient() {
   const [isEpisodeSelectorCollapsed, setIsEpisodeSelectorCollapsed] =
     useState(false);
 
+  // 根据分片指纹自动识别出的片头片尾建议
+  const [skipProposals, setSkipProposals] = useState<SkipSegment[]>([]);
+  const skipDetectTimerRef = useRef<NodeJS.Timeout | null>(null);
+
+  // 自动换源：播放失败或长时间卡顿时切换到下一个可用源
+  const [failoverToast, setFailoverToast] = useState<string | null>(null);
+  const failoverRef = useRef<(reason: string) => void>(() => undefined);
+  const failoverPendingRef = useRef(false);
+  const stallTimerRef = useRef<NodeJS.Timeout | null>(null);
+
   // 换源加载状态
   const [isVideoLoading, setIsVideoLoading] = useState(true);
   const [videoLoadingStage, setVideoLoadingStage] = useState<
@@ -171,9 +256,78 @@ function PlayPageClient() {
   // 跳过设置状态
   const [isSkipSettingMode, setIsSkipSettingMode] = useState<boolean>(false);
 
+  // 外挂字幕：播放器重建后需要重新加载
+  const [isSubtitleOpen, setIsSubtitleOpen] = useState(false);
+  const [hasSubtitle, setHasSubtitle] = useState(false);
+  const subtitleRef = useRef<ActiveSubtitle | null>(null);
+
   const artPlayerRef = useRef<any>(null);
   const artRef = useRef<HTMLDivElement | null>(null);
 
+  // 一起看：房间号来自分享链接或本页创建
+  const [watchRoomId, setWatchRoomId] = useState(searchParams.get('room'));
+  const [isWatchRoomOpen, setIsWatchRoomOpen] = useState(false);
+  // 房间切换资源站时避免轮询重复触发换源
+  const watchRoomNavigateRef = useRef({ key: '', time: 0 });
+
+  const watchRoom = useWatchRoom({
+    roomId: watchRoomId,
+    artPlayerRef,
+    video: {
+      source: currentSource,
+      id: currentId,
+      title: videoTitle,
+      episode: currentEpisodeIndex + 1,
+    },
+    onNavigate: (target) => {
+      // 加载完成后再跟随房间切换，未完成时等待下一次轮询
+      if (loading || !detail) return;
+
+      if (target.source === currentSource && target.id === currentId) {
+        if (target.episode <= detail.episodes.length) {
+          setCurrentEpisodeIndex(target.episode - 1);
+        }
+        return;
+      }
+
+      const key = `${target.source}+${target.id}`;
+      const now = Date.now();
+      if (
+        watchRoomNavigateRef.current.key === key &&
+        now - watchRoomNavigateRef.current.time < 10000
+      ) {
+        return;
+      }
+      watchRoomNavigateRef.current = { key, time: now };
+
+      if (
+        availableSources.some(
+          (s) => s.source === target.source && s.id === target.id
+        )
+      ) {
+        handleSourceChange(target.source, target.id, target.title);
+        return;
+      }
+      // 房间切换到了当前搜索结果以外的视频，重新打开播放页
+      const url = new URL('/play', window.location.origin);
+      url.searchParams.set('source', target.source);
+      url.searchParams.set('id', target.id);
+      url.searchParams.set('title', target.title);
+      url.searchParams.set('room', watchRoomId || '');
+      window.location.href = url.toString();
+    },
+    onRoomChange: (roomId) => {
+      setWatchRoomId(roomId);
+      const newUrl = new URL(window.location.href);
+      if (roomId) {
+        newUrl.searchParams.set('room', roomId);
+      } else {
+        newUrl.searchParams.delete('room');
+      }
+      window.history.replaceState({}, '', newUrl.toString());
+    },
+  });
+
   // -----------------------------------------------------------------------------
   // 工具函数（Utils）
   // -----------------------------------------------------------------------------
@@ -382,6 +536,8 @@ function PlayPageClient() {
     detailData: SearchResult | null,
     episodeIndex: number
   ) => {
+    parseRequestRef.current++;
+    setParseFrame(null);
     if (
       !detailData ||
       !detailData.episodes ||
@@ -390,12 +546,65 @@ function PlayPageClient() {
       setVideoUrl('');
       return;
     }
+    const offlineKey = getOfflineEpisodeKey(
+      detailData.source,
+      detailData.id,
+      episodeIndex + 1
+    );
+    // 离线播放依赖 hls.js 从 IndexedDB 读取分片
+    if (offlineKeysRef.current.has(offlineKey) && Hls.isSupported()) {
+      setVideoUrl(getOfflinePlaylistUrl(offlineKey));
+      return;
+    }
     const newUrl = detailData?.episodes[episodeIndex] || '';
+    if (playMode === 'parse' && newUrl) {
+      resolveParsedUrl(newUrl);
+      return;
+    }
     if (newUrl !== videoUrl) {
       setVideoUrl(newUrl);
     }
   };
 
+  // 解析模式：优先使用 JSON 接口解析出的地址，失败时嵌入网页解析接口
+  const resolveParsedUrl = async (url: string) => {
+    const requestId = parseRequestRef.current;
+    const params = new URLSearchParams({ url, format: 'resolve' });
+    const preferred = getPreferredParser();
+    if (preferred) params.set('parser', preferred);
+
+    let parsers: ParseFrameParser[] = [];
+    let resolvedUrl: string | null = null;
+    let errorMessage = '';
+    try {
+      const res = await fetch(`/api/parse?${params.toString()}`);
+      const data = await res.json();
+      if (!res.ok) {
+        errorMessage = data.error || '视频解析失败';
+      } else {
+        resolvedUrl = data.data.resolved?.url || null;
+        parsers = data.data.parsers.filter(
+          (p: ParseFrameParser) => p.type === 'web'
+        );
+      }
+    } catch (err) {
+      console.error('视频解析失败:', err);
+      errorMessage = '视频解析失败';
+    }
+    if (requestId !== parseRequestRef.current) return;
+
+    if (resolvedUrl) {
+      setVideoUrl(resolvedUrl);
+      return;
+    }
+    artPlayerRef.current?.pause();
+    setParseFrame(
+      parsers.length > 0
+        ? { parsers, index: 0 }
+        : { parsers: [], index: 0, error: errorMessage || '没有可用的解析接口' }
+    );
+  };
+
   const ensureVideoSource = (video: HTMLVideoElement | null, url: string) => {
     if (!video || !url) return;
     const sources = Array.from(video.getElementsByTagName('source'));
@@ -416,35 +625,71 @@ function PlayPageClient() {
     }
   };
 
-  // 去广告相关函数
-  function filterAdsFromM3U8(m3u8Content: string): string {
-    if (!m3u8Content) return '';
-
-    // 按行分割M3U8内容
-    const lines = m3u8Content.split('\n');
-    const filteredLines = [];
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-
-      // 只过滤#EXT-X-DISCONTINUITY标识
-      if (!line.includes('#EXT-X-DISCONTINUITY')) {
-        filteredLines.push(line);
-      }
-    }
-
-    return filteredLines.join('\n');
-  }
-
   class CustomHlsJsLoader extends Hls.DefaultConfig.loader {
     constructor(config: any) {
       super(config);
       const load = this.load.bind(this);
+      const stats = this.stats;
+      let aborted = false;
+      const abort = this.abort.bind(this);
+      this.abort = () => {
+        aborted = true;
+        abort();
+      };
+      const destroy = this.destroy.bind(this);
+      this.destroy = () => {
+        aborted = true;
+        destroy();
+      };
+      const loadOffline = (context: any, callbacks: any) => {
+        stats.loading.start = performance.now();
+        loadOfflineResource(context.url)
+          .then((data) => {
+            if (aborted) return;
+            if (data === null) {
+              callbacks.onError(
+                { code: 404, text: '离线文件不存在' },
+                context,
+                null,
+                stats
+              );
+              return;
+            }
+            stats.loading.first = stats.loading.end = performance.now();
+            stats.loaded = stats.total =
+              typeof data === 'string' ? data.length : data.byteLength;
+            callbacks.onSuccess(
+              { url: context.url, data },
+              stats,
+              context,
+              null
+            );
+          })
+          .catch((err) => {
+            if (aborted) return;
+            callbacks.onError(
+              { code: 0, text: String(err) },
+              context,
+              null,
+              stats
+            );
+          });
+      };
       this.load = function (context: any, config: any, callbacks: any) {
+        // 离线地址从 IndexedDB 读取，下载时已去除广告
+        if (isOfflineUrl(context.url)) {
+          loadOffline(context, callbacks);
+          return;
+        }
+        // 资源站需要代理时，播放列表、分片与密钥请求都改走服务端代理
+        if (forceProxyRef.current && !isProxyUrl(context.url)) {
+          context.url = buildProxyUrl(context.url, currentSourceRef.current);
+        }
         // 拦截manifest和level请求
         if (
-          (context as any).type === 'manifest' ||
-          (context as any).type === 'level'
+          blockAdEnabledRef.current &&
+          ((context as any).type === 'manifest' ||
+            (context as any).type === 'level')
         ) {
           const onSuccess = callbacks.onSuccess;
           callbacks.onSuccess = function (
@@ -454,8 +699,19 @@ function PlayPageClient() {
           ) {
             // 如果是m3u8文件，处理内容以移除广告分段
             if (response.data && typeof response.data === 'string') {
-              // 过滤掉广告段 - 实现更精确的广告过滤逻辑
-              response.data = filterAdsFromM3U8(response.data);
+              const result = filterAdsFromM3U8(
+                response.data,
+                response.url || context.url,
+                adFilterRulesRef.current || undefined
+              );
+              response.data = result.content;
+              if (result.removed.length > 0) {
+                if (artPlayerRef.current) {
+                  artPlayerRef.current.notice.show = `已跳过 ${
+                    result.removed.length
+                  } 段广告（${Math.round(result.removedDuration)} 秒）`;
+                }
+              }
             }
             return onSuccess(response, stats, context, null);
           };
@@ -466,10 +722,23 @@ function PlayPageClient() {
     }
   }
 
-  // 当集数索引变化时自动更新视频地址
+  // 当集数索引变化时自动更新视频地址，需等待资源站播放方式确定
   useEffect(() => {
+    if (!playMode) return;
     updateVideoUrl(detail, currentEpisodeIndex);
-  }, [detail, currentEpisodeIndex]);
+  }, [detail, currentEpisodeIndex, playMode]);
+
+  // 切换剧集或换源后，重新从已记录的指纹中识别
+  useEffect(() => {
+    setSkipProposals(
+      currentSource && currentId
+        ? getSkipProposals(
+            generateStorageKey(currentSource, currentId),
+            currentEpisodeIndex
+          )
+        : []
+    );
+  }, [currentSource, currentId, currentEpisodeIndex]);
 
   // 进入页面时直接获取全部源信息
   useEffect(() => {
@@ -522,8 +791,8 @@ function PlayPageClient() {
         // 处理搜索结果，根据规则过滤
         const results = allResults.filter(
           (result: SearchResult) =>
-            result.title.replaceAll(' ', '').toLowerCase() ===
-              videoTitleRef.current.replaceAll(' ', '').toLowerCase() &&
+            normalizeTitle(result.title) ===
+              normalizeTitle(videoTitleRef.current) &&
             (videoYearRef.current
               ? result.year.toLowerCase() === videoYearRef.current.toLowerCase()
               : true) &&
@@ -550,6 +819,26 @@ function PlayPageClient() {
         return;
       }
       setLoading(true);
+
+      // 加载播放器偏好，播放器创建时使用
+      const prefs = await getPlayerPreferences();
+      playerPrefsRef.current = prefs;
+      lastVolumeRef.current = prefs.default_volume;
+      lastMutedRef.current = prefs.default_muted;
+      lastPlaybackRateRef.current = prefs.default_playback_rate;
+      setBlockAdEnabled(prefs.block_ad);
+
+      // 已下载的剧集可直接离线播放，无网络时也用于恢复视频详情
+      const offlineEpisodes = await getOfflineEpisodes().catch((err) => {
+        console.error('读取离线下载失败:', err);
+        return [] as OfflineEpisode[];
+      });
+      offlineKeysRef.current = new Set(
+        offlineEpisodes
+          .filter((episode) => episode.status === 'completed')
+          .map((episode) => episode.key)
+      );
+
       setLoadingStage(currentSource && currentId ? 'fetching' : 'searching');
       setLoadingMessage(
         currentSource && currentId
@@ -567,13 +856,37 @@ function PlayPageClient() {
       ) {
         sourcesInfo = await fetchSourceDetail(currentSource, currentId);
       }
+      if (sourcesInfo.length === 0) {
+        const offline = offlineEpisodes.find(
+          (episode) =>
+            episode.source === currentSource && episode.id === currentId
+        );
+        if (offline) {
+          sourcesInfo = [offline.detail];
+          setAvailableSources(sourcesInfo);
+        }
+      }
       if (sourcesInfo.length === 0) {
         setError('未找到匹配结果');
         setLoading(false);
         return;
       }
 
-      let detailData: SearchResult = sourcesInfo[0];
+      // 跳过该标题下曾播放失败的源；全部失败过时仍从全部源中选择
+      const healthySources = sourcesInfo.filter(
+        (source) => !isSourceBroken(source.title, source.source, source.id)
+      );
+      let candidates = healthySources.length > 0 ? healthySources : sourcesInfo;
+
+      // 存在偏好资源站的结果时只在其中选择，并按偏好顺序排列
+      const preferredCandidates = prefs.preferred_sources
+        .map((key) => candidates.filter((source) => source.source === key))
+        .reduce<SearchResult[]>((all, list) => all.concat(list), []);
+      if (preferredCandidates.length > 0) {
+        candidates = preferredCandidates;
+      }
+
+      let detailData: SearchResult = candidates[0];
       // 指定源和id且无需优选
       if (currentSource && currentId && !needPreferRef.current) {
         const target = sourcesInfo.find(
@@ -591,12 +904,12 @@ function PlayPageClient() {
       // 未指定源和 id 或需要优选，且开启优选开关
       if (
         (!currentSource || !currentId || needPreferRef.current) &&
-        optimizationEnabled
+        prefs.speed_test
       ) {
         setLoadingStage('preferring');
         setLoadingMessage('⚡ 正在优选最佳播放源...');
 
-        detailData = await preferBestSource(sourcesInfo);
+        detailData = await preferBestSource(candidates);
       }
 
       console.log(detailData.source, detailData.id);
@@ -619,6 +932,7 @@ function PlayPageClient() {
       newUrl.searchParams.set('year', detailData.year);
       newUrl.searchParams.set('title', detailData.title);
       newUrl.searchParams.delete('prefer');
+      newUrl.searchParams.delete('episode');
       window.history.replaceState({}, '', newUrl.toString());
 
       setLoadingStage('ready');
@@ -633,18 +947,60 @@ function PlayPageClient() {
     initAll();
   }, []);
 
+  // 当前页面中下载完成或删除的剧集，切换集数时生效
+  useEffect(() => {
+    return subscribeOfflineDownloads(({ key, episode }) => {
+      if (episode?.status === 'completed') {
+        offlineKeysRef.current.add(key);
+      } else {
+        offlineKeysRef.current.delete(key);
+      }
+    });
+  }, []);
+
+  // 切换资源站时获取该源的播放配置
+  useEffect(() => {
+    adFilterRulesRef.current = null;
+    forceProxyRef.current = false;
+    setPlayMode(null);
+    if (!currentSource) return;
+    fetch(`/api/source/playback?source=${encodeURIComponent(currentSource)}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (currentSourceRef.current !== currentSource) return;
+        adFilterRulesRef.current = data?.ad_filter || null;
+        forceProxyRef.current = data?.force_proxy === true;
+        setPlayMode(data?.play_mode === 'parse' ? 'parse' : 'direct');
+      })
+      .catch((err) => {
+        console.error('获取资源站播放配置失败:', err);
+        if (currentSourceRef.current === currentSource) {
+          setPlayMode('direct');
+        }
+      });
+  }, [currentSource]);
+
   // 播放记录处理
   useEffect(() => {
     // 仅在初次挂载时检查播放记录
     const initFromHistory = async () => {
-      if (!currentSource || !currentId) return;
+      // 加入一起看房间时以房间进度为准
+      if (!currentSource || !currentId || watchRoomId) return;
+
+      if (requestedEpisode > 0) {
+        setCurrentEpisodeIndex(requestedEpisode - 1);
+      }
 
       try {
         const allRecords = await getAllPlayRecords();
         const key = generateStorageKey(currentSource, currentId);
         const record = allRecords[key];
 
-        if (record) {
+        // 指定了集数时，仅在播放记录为同一集时恢复进度
+        if (
+          record &&
+          (!requestedEpisode || record.index === requestedEpisode)
+        ) {
           const targetIndex = record.index - 1;
           const targetTime = record.play_time;
 
@@ -696,6 +1052,7 @@ function PlayPageClient() {
         (source) => source.source === newSource && source.id === newId
       );
       if (!newDetail) {
+        failoverPendingRef.current = false;
         setError('未找到匹配结果');
         return;
       }
@@ -733,12 +1090,57 @@ function PlayPageClient() {
       setDetail(newDetail);
       setCurrentEpisodeIndex(targetIndex);
     } catch (err) {
+      failoverPendingRef.current = false;
       // 隐藏换源加载状态
       setIsVideoLoading(false);
       setError(err instanceof Error ? err.message : '换源失败');
     }
   };
 
+  // 每次渲染更新，供播放器事件回调读取最新的可用源列表
+  failoverRef.current = (reason: string) => {
+    const source = currentSourceRef.current;
+    const id = currentIdRef.current;
+    if (failoverPendingRef.current || !source || !id) return;
+
+    if (stallTimerRef.current) {
+      clearTimeout(stallTimerRef.current);
+      stallTimerRef.current = null;
+    }
+    markSourceBroken(
+      detailRef.current?.title || videoTitleRef.current,
+      source,
+      id
+    );
+
+    // 从当前源之后开始查找，跳过该标题下已记录为失败的源
+    const index = availableSources.findIndex(
+      (s) => s.source === source && s.id === id
+    );
+    const ordered = [
+      ...availableSources.slice(index + 1),
+      ...availableSources.slice(0, Math.max(index, 0)),
+    ];
+    const next = ordered.find(
+      (s) => !isSourceBroken(s.title, s.source, s.id)
+    );
+    if (!next) {
+      setIsVideoLoading(false);
+      setFailoverToast(`${reason}，没有其他可用的播放源`);
+      return;
+    }
+
+    failoverPendingRef.current = true;
+    setFailoverToast(`${reason}，已自动切换到「${next.source_name}」`);
+    handleSourceChange(next.source, next.id, next.title);
+  };
+
+  useEffect(() => {
+    if (!failoverToast) return;
+    const timer = setTimeout(() => setFailoverToast(null), 4000);
+    return () => clearTimeout(timer);
+  }, [failoverToast]);
+
   useEffect(() => {
     document.addEventListener('keydown', handleKeyboardShortcuts);
     return () => {
@@ -762,6 +1164,28 @@ function PlayPageClient() {
     }
   };
 
+  // 切换同一资源站的播放线路，保持当前集数与播放进度
+  const handleLineChange = (lineIndex: number) => {
+    const d = detailRef.current;
+    const line = d?.play_lines?.[lineIndex];
+    if (!d || !line || line.episodes.length === 0) return;
+
+    if (artPlayerRef.current) {
+      saveCurrentPlayProgress();
+    }
+
+    let targetIndex = currentEpisodeIndexRef.current;
+    if (targetIndex >= line.episodes.length) {
+      targetIndex = 0;
+      resumeTimeRef.current = 0;
+    } else if (currentPlayTime > 1) {
+      resumeTimeRef.current = currentPlayTime;
+    }
+
+    setDetail({ ...d, episodes: line.episodes, episodes_titles: line.titles });
+    setCurrentEpisodeIndex(targetIndex);
+  };
+
   const handlePreviousEpisode = () => {
     const d = detailRef.current;
     const idx = currentEpisodeIndexRef.current;
@@ -910,6 +1334,9 @@ function PlayPageClient() {
         total_time: Math.floor(duration),
         save_time: Date.now(),
         search_title: searchTitle,
+        episode_title:
+          detailRef.current?.episodes_titles?.[currentEpisodeIndexRef.current] ||
+          undefined,
       });
 
       lastSaveTimeRef.current = Date.now();
@@ -1059,9 +1486,7 @@ function PlayPageClient() {
     // 非WebKit浏览器且播放器已存在，使用switch方法切换
     if (!isWebkit && artPlayerRef.current) {
       artPlayerRef.current.switch = videoUrl;
-      artPlayerRef.current.title = `${videoTitle} - 第${
-        currentEpisodeIndex + 1
-      }集`;
+      artPlayerRef.current.title = `${videoTitle} - ${currentEpisodeName}`;
       artPlayerRef.current.poster = videoCover;
       if (artPlayerRef.current?.video) {
         ensureVideoSource(
@@ -1091,9 +1516,9 @@ function PlayPageClient() {
         container: artRef.current,
         url: videoUrl,
         poster: videoCover,
-        volume: 0.7,
+        volume: lastVolumeRef.current,
         isLive: false,
-        muted: false,
+        muted: lastMutedRef.current,
         autoplay: true,
         pip: true,
         autoSize: false,
@@ -1142,33 +1567,94 @@ function PlayPageClient() {
               backBufferLength: 30, // 仅保留 30s 已播放内容，避免内存占用
               maxBufferSize: 60 * 1000 * 1000, // 约 60MB，超出后触发清理
 
-              /* 自定义loader */
-              loader: blockAdEnabledRef.current
-                ? CustomHlsJsLoader
-                : Hls.DefaultConfig.loader,
+              /* 自定义loader：去广告与代理 */
+              loader: CustomHlsJsLoader,
             });
 
             hls.loadSource(url);
             hls.attachMedia(video);
             video.hls = hls;
+            // 新的播放源已接管播放，此后的失败可以再次触发换源
+            failoverPendingRef.current = false;
 
             ensureVideoSource(video, url);
 
+            // 播放列表加载失败无法恢复，直接换源；其余错误先尝试恢复一次
+            const manifestErrors = [
+              Hls.ErrorDetails.MANIFEST_LOAD_ERROR,
+              Hls.ErrorDetails.MANIFEST_LOAD_TIMEOUT,
+              Hls.ErrorDetails.MANIFEST_PARSING_ERROR,
+              Hls.ErrorDetails.LEVEL_LOAD_ERROR,
+              Hls.ErrorDetails.LEVEL_LOAD_TIMEOUT,
+            ];
+            let networkRetried = false;
+            let mediaRecovered = false;
+
+            // 记录开头与结尾分片的指纹，用于跨集识别片头片尾
+            let levelTotal = 0;
+            hls.on(Hls.Events.LEVEL_LOADED, function (_: any, data: any) {
+              levelTotal = data.details?.totalduration || levelTotal;
+            });
+            hls.on(Hls.Events.FRAG_LOADED, function (_: any, data: any) {
+              if (data.frag?.type !== 'main' || !data.payload) return;
+              const source = currentSourceRef.current;
+              const id = currentIdRef.current;
+              const episode = currentEpisodeIndexRef.current;
+              if (!source || !id) return;
+              const key = generateStorageKey(source, id);
+              const recorded = recordSegmentPrint(
+                key,
+                episode,
+                {
+                  start: data.frag.start,
+                  duration: data.frag.duration,
+                  ...fingerprintSegment(data.payload),
+                },
+                levelTotal
+              );
+              if (!recorded) return;
+              // 分片通常连续到达，稍后统一比较
+              if (skipDetectTimerRef.current) {
+                clearTimeout(skipDetectTimerRef.current);
+              }
+              skipDetectTimerRef.current = setTimeout(() => {
+                if (currentEpisodeIndexRef.current === episode) {
+                  setSkipProposals(getSkipProposals(key, episode));
+                }
+              }, 3000);
+            });
+
             hls.on(Hls.Events.ERROR, function (event: any, data: any) {
               console.error('HLS Error:', event, data);
               if (data.fatal) {
                 switch (data.type) {
                   case Hls.ErrorTypes.NETWORK_ERROR:
-                    console.log('网络错误，尝试恢复...');
-                    hls.startLoad();
+                    if (
+                      networkRetried ||
+                      manifestErrors.includes(data.details)
+                    ) {
+                      hls.destroy();
+                      failoverRef.current('播放源加载失败');
+                    } else {
+                      console.log('网络错误，尝试恢复...');
+                      networkRetried = true;
+                      hls.startLoad();
+                    }
                     break;
                   case Hls.ErrorTypes.MEDIA_ERROR:
-                    console.log('媒体错误，尝试恢复...');
-                    hls.recoverMediaError();
+                    if (mediaRecovered) {
+                      hls.destroy();
+                      failoverRef.current('播放源解码失败');
+                    } else {
+                      console.log('媒体错误，尝试恢复...');
+                      mediaRecovered = true;
+                      hls.recoverMediaError();
+                    }
                     break;
                   default:
                     console.log('无法恢复的错误');
                     hls.destroy();
+                    failoverRef.current('播放源无法播放');
                     break;
                 }
               }
@@ -1187,7 +1673,9 @@ function PlayPageClient() {
             onClick() {
               const newVal = !blockAdEnabled;
               try {
-                localStorage.setItem('enable_blockad', String(newVal));
+                savePlayerPreferences({ block_ad: newVal }).catch((err) =>
+                  console.warn('保存去广告设置失败:', err)
+                );
                 if (artPlayerRef.current) {
                   resumeTimeRef.current = artPlayerRef.current.currentTime;
                   if (
@@ -1224,6 +1712,9 @@ function PlayPageClient() {
       // 监听播放器事件
       artPlayerRef.current.on('ready', () => {
         setError(null);
+        if (subtitleRef.current) {
+          applySubtitleToPlayer(artPlayerRef.current, subtitleRef.current);
+        }
         // 更新视频时长
         const duration = artPlayerRef.current.duration || 0;
         setVideoDuration(duration);
@@ -1231,8 +1722,24 @@ function PlayPageClient() {
 
       artPlayerRef.current.on('video:volumechange', () => {
         lastVolumeRef.current = artPlayerRef.current.volume;
+        lastMutedRef.current = artPlayerRef.current.muted;
+      });
+
+      // 同步 defaultPlaybackRate，避免切换视频地址时倍速被重置
+      artPlayerRef.current.on('video:ratechange', () => {
+        const rate = artPlayerRef.current.playbackRate;
+        lastPlaybackRateRef.current = rate;
+        if (artPlayerRef.current.video) {
+          artPlayerRef.current.video.defaultPlaybackRate = rate;
+        }
+        watchRoom.reportPlayback();
       });
 
+      // 一起看：上报本地的播放、暂停与跳转
+      artPlayerRef.current.on('play', watchRoom.reportPlayback);
+      artPlayerRef.current.on('pause', watchRoom.reportPlayback);
+      artPlayerRef.current.on('seek', watchRoom.reportPlayback);
+
       // 监听播放时间更新（用于跳过功能）
       artPlayerRef.current.on('video:timeupdate', () => {
         const currentTime = artPlayerRef.current.currentTime || 0;
@@ -1269,13 +1776,39 @@ function PlayPageClient() {
           ) {
             artPlayerRef.current.volume = lastVolumeRef.current;
           }
+          // 应用默认倍速或上次使用的倍速
+          if (
+            artPlayerRef.current.playbackRate !== lastPlaybackRateRef.current
+          ) {
+            artPlayerRef.current.playbackRate = lastPlaybackRateRef.current;
+          }
           artPlayerRef.current.notice.show = '';
         }, 0);
 
         // 隐藏换源加载状态
         setIsVideoLoading(false);
+        // 非 HLS 播放源没有 hls 实例，在可以播放时结束换源
+        failoverPendingRef.current = false;
       });
 
+      // 长时间卡顿视为播放源不可用
+      const clearStallTimer = () => {
+        if (stallTimerRef.current) {
+          clearTimeout(stallTimerRef.current);
+          stallTimerRef.current = null;
+        }
+      };
+      artPlayerRef.current.on('video:waiting', () => {
+        if (stallTimerRef.current || artPlayerRef.current?.paused) return;
+        stallTimerRef.current = setTimeout(() => {
+          stallTimerRef.current = null;
+          failoverRef.current('播放长时间卡顿');
+        }, STALL_TIMEOUT_MS);
+      });
+      artPlayerRef.current.on('video:playing', clearStallTimer);
+      artPlayerRef.current.on('video:canplay', clearStallTimer);
+      artPlayerRef.current.on('pause', clearStallTimer);
+
       artPlayerRef.current.on('error', (err: any) => {
         console.error('播放器错误:', err);
         if (artPlayerRef.current.currentTime > 0) {
@@ -1283,8 +1816,9 @@ function PlayPageClient() {
         }
       });
 
-      // 监听视频播放结束事件，自动播放下一集
+      // 监听视频播放结束事件，按偏好自动播放下一集
       artPlayerRef.current.on('video:ended', () => {
+        if (!playerPrefsRef.current.auto_next_episode) return;
         const d = detailRef.current;
         const idx = currentEpisodeIndexRef.current;
         if (d && d.episodes && idx < d.episodes.length - 1) {
@@ -1331,6 +1865,12 @@ function PlayPageClient() {
       if (saveIntervalRef.current) {
         clearInterval(saveIntervalRef.current);
       }
+      if (stallTimerRef.current) {
+        clearTimeout(stallTimerRef.current);
+      }
+      if (skipDetectTimerRef.current) {
+        clearTimeout(skipDetectTimerRef.current);
+      }
     };
   }, []);
 
@@ -1496,6 +2036,12 @@ function PlayPageClient() {
 
   return (
     <PageLayout activePath='/play'>
+      {/* 自动换源提示 */}
+      {failoverToast && (
+        <div className='fixed top-20 left-1/2 -translate-x-1/2 z-[600] px-4 py-2 rounded-lg bg-gray-900/90 text-white text-sm shadow-lg backdrop-blur-sm'>
+          {failoverToast}
+        </div>
+      )}
       <div className='flex flex-col gap-3 py-4 px-5 lg:px-[3rem] 2xl:px-20'>
         {/* 第一行：影片标题和操作按钮 */}
         <div className='py-1 flex items-center justify-between'>
@@ -1503,14 +2049,52 @@ function PlayPageClient() {
             {videoTitle || '影片标题'}
             {totalEpisodes > 1 && (
               <span className='text-gray-500 dark:text-gray-400'>
-                {` > 第 ${currentEpisodeIndex + 1} 集`}
+                {` > ${currentEpisodeName}`}
               </span>
             )}
           </h1>
           
-          {/* 跳过设置按钮 */}
+          {/* 一起看、下载、字幕与跳过设置按钮 */}
           {currentSource && currentId && (
-            <SkipSettingsButton onClick={() => setIsSkipSettingMode(true)} />
+            <div className='flex items-center gap-2'>
+              {isWatchRoomAvailable() && (
+                <WatchRoomButton
+                  onClick={() => setIsWatchRoomOpen(true)}
+                  active={!!watchRoom.room}
+                />
+              )}
+              <OfflineDownloadButton
+                request={
+                  detail &&
+                  playMode === 'direct' &&
+                  detail.source === currentSource &&
+                  detail.id === currentId &&
+                  detail.episodes[currentEpisodeIndex]
+                    ? {
+                        source: detail.source,
+                        id: detail.id,
+                        episode: currentEpisodeIndex + 1,
+                        title: videoTitle || detail.title,
+                        episode_name: currentEpisodeName,
+                        source_name: detail.source_name,
+                        poster: videoCover || detail.poster,
+                        detail,
+                        url: detail.episodes[currentEpisodeIndex],
+                      }
+                    : null
+                }
+                getOptions={() => ({
+                  forceProxy: forceProxyRef.current,
+                  blockAd: blockAdEnabledRef.current,
+                  adFilterRules: adFilterRulesRef.current,
+                })}
+              />
+              <SubtitleSettingsButton
+                onClick={() => setIsSubtitleOpen(true)}
+                active={hasSubtitle}
+              />
+              <SkipSettingsButton onClick={() => setIsSkipSettingMode(true)} />
+            </div>
           )}
         </div>
         {/* 第二行：播放器和选集 */}
@@ -1575,6 +2159,25 @@ function PlayPageClient() {
                   className='bg-black w-full h-full rounded-xl overflow-hidden shadow-lg'
                 ></div>
 
+                {/* 网页解析接口 */}
+                {parseFrame &&
+                  (parseFrame.error ? (
+                    <div className='absolute inset-0 z-[600] flex items-center justify-center bg-black rounded-xl text-sm text-gray-300'>
+                      {parseFrame.error}
+                    </div>
+                  ) : (
+                    <ParseFrame
+                      parsers={parseFrame.parsers}
+                      current={parseFrame.index}
+                      onChange={(index) =>
+                        setParseFrame({ ...parseFrame, index })
+                      }
+                    />
+                  ))}
+
+                {/* 一起看成员列表 */}
+                <WatchRoomOverlay controls={watchRoom} />
+
                 {/* 跳过片头片尾控制器 */}
                 {currentSource && currentId && videoTitle && (
                   <SkipController
@@ -1587,9 +2190,33 @@ function PlayPageClient() {
                     isSettingMode={isSkipSettingMode}
                     onSettingModeChange={setIsSkipSettingMode}
                     onNextEpisode={handleNextEpisode}
+                    proposals={skipProposals}
+                  />
+                )}
+
+                {/* 外挂字幕 */}
+                {currentSource && currentId && (
+                  <SubtitleController
+                    source={currentSource}
+                    id={currentId}
+                    episode={currentEpisodeIndex + 1}
+                    isOpen={isSubtitleOpen}
+                    onOpenChange={setIsSubtitleOpen}
+                    onChange={(subtitle) => {
+                      subtitleRef.current = subtitle;
+                      setHasSubtitle(!!subtitle);
+                      applySubtitleToPlayer(artPlayerRef.current, subtitle);
+                    }}
                   />
                 )}
 
+                {/* 一起看 */}
+                <WatchRoomPanel
+                  controls={watchRoom}
+                  isOpen={isWatchRoomOpen}
+                  onOpenChange={setIsWatchRoomOpen}
+                />
+
                 {/* 换源加载蒙层 */}
                 {isVideoLoading && (
                   <div className='absolute inset-0 bg-black/85 backdrop-blur-sm rounded-xl flex items-center justify-center z-[500] transition-all duration-300'>
@@ -1643,6 +2270,10 @@ function PlayPageClient() {
                 episodesPerPage={50}
                 value={currentEpisodeIndex + 1}
                 onChange={handleEpisodeChange}
+                episodesTitles={detail?.episodes_titles}
+                playLines={detail?.play_lines}
+                currentLine={currentLineIndex}
+                onLineChange={handleLineChange}
                 onSourceChange={handleSourceChange}
                 currentSource={currentSource}
                 currentId={currentId}
@@ -1,10 +1,15 @@
 /* eslint-disable react-hooks/exhaustive-deps, @typescript-eslint/no-explicit-any */
 'use client';
 
-import { ChevronUp, Search, X } from 'lucide-react';
+import { ChevronUp, Search, SlidersHorizontal, X } from 'lucide-react';
 import { useRouter, useSearchParams } from 'next/navigation';
-import { Suspense, useEffect, useState } from 'react';
+import { Suspense, useEffect, useMemo, useRef, useState } from 'react';
 
+import {
+  groupSearchResults,
+  sortSearchGroups,
+  toAggregatedResult,
+} from '@/lib/aggregate';
 import { getAuthInfoFromBrowserCookie } from '@/lib/auth';
 import {
   addSearchHistory,
@@ -13,11 +18,42 @@ import {
   getSearchHistory,
   subscribeToDataUpdates,
 } from '@/lib/db.client';
-import { SearchResult } from '@/lib/types';
+import {
+  applySearchFiltersToParams,
+  hasSearchFilters,
+  parseSearchFilters,
+  sortByYear,
+} from '@/lib/searchFilter';
+import {
+  SearchFacets,
+  SearchFilters,
+  SearchResult,
+  SearchStreamEvent,
+} from '@/lib/types';
 
 import PageLayout from '@/components/PageLayout';
+import SearchFilterPanel from '@/components/SearchFilterPanel';
+import SearchSuggestions from '@/components/SearchSuggestions';
 import VideoCard from '@/components/VideoCard';
 
+// 资源站搜索状态标签
+interface SourceStatusChip {
+  source: string;
+  source_name: string;
+  status: 'pending' | 'done' | 'error';
+  count: number;
+  elapsed?: number;
+  error?: string;
+}
+
+// 搜索词与筛选条件共同决定一次搜索请求
+function getSearchKey(query: string, filters: SearchFilters): string {
+  return `${query}\n${applySearchFiltersToParams(
+    new URLSearchParams(),
+    filters
+  ).toString()}`;
+}
+
 function SearchPageClient() {
   // 搜索历史
   const [searchHistory, setSearchHistory] = useState<string[]>([]);
@@ -27,6 +63,8 @@ function SearchPageClient() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const [searchQuery, setSearchQuery] = useState('');
+  // 搜索联想下拉框
+  const [showSuggestions, setShowSuggestions] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [showResults, setShowResults] = useState(false);
   const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
@@ -37,9 +75,24 @@ function SearchPageClient() {
     adult: SearchResult[];
   } | null>(null);
   
+  // 各资源站的搜索状态（流式返回时逐个更新）
+  const [sourceStatuses, setSourceStatuses] = useState<SourceStatusChip[]>([]);
+  const searchAbortRef = useRef<AbortController | null>(null);
+  
   // 分组标签页状态
   const [activeTab, setActiveTab] = useState<'regular' | 'adult'>('regular');
 
+  // 筛选条件保存在地址栏中，便于收藏和分享
+  const filters = useMemo(
+    () => parseSearchFilters(new URLSearchParams(searchParams.toString())),
+    [searchParams]
+  );
+  const [showFilters, setShowFilters] = useState(false);
+  // 分面统计由服务端在搜索结束时给出
+  const [facets, setFacets] = useState<SearchFacets | null>(null);
+  // 搜索词或筛选条件变化时重新请求，筛选在服务端完成
+  const lastSearchKeyRef = useRef<string | null>(null);
+
   // 获取默认聚合设置：只读取用户本地设置，默认为 true
   const getDefaultAggregate = () => {
     if (typeof window !== 'undefined') {
@@ -55,50 +108,6 @@ function SearchPageClient() {
     return getDefaultAggregate() ? 'agg' : 'all';
   });
 
-  // 聚合函数
-  const aggregateResults = (results: SearchResult[]) => {
-    const map = new Map<string, SearchResult[]>();
-    results.forEach((item) => {
-      // 使用 title + year + type 作为键
-      const key = `${item.title.replaceAll(' ', '')}-${
-        item.year || 'unknown'
-      }-${item.episodes.length === 1 ? 'movie' : 'tv'}`;
-      const arr = map.get(key) || [];
-      arr.push(item);
-      map.set(key, arr);
-    });
-    return Array.from(map.entries()).sort((a, b) => {
-      // 优先排序：标题与搜索词完全一致的排在前面
-      const aExactMatch = a[1][0].title
-        .replaceAll(' ', '')
-        .includes(searchQuery.trim().replaceAll(' ', ''));
-      const bExactMatch = b[1][0].title
-        .replaceAll(' ', '')
-        .includes(searchQuery.trim().replaceAll(' ', ''));
-
-      if (aExactMatch && !bExactMatch) return -1;
-      if (!aExactMatch && bExactMatch) return 1;
-
-      // 年份排序
-      if (a[1][0].year === b[1][0].year) {
-        return a[0].localeCompare(b[0]);
-      } else {
-        const aYear = a[1][0].year;
-        const bYear = b[1][0].year;
-
-        if (aYear === 'unknown' && bYear === 'unknown') {
-          return 0;
-        } else if (aYear === 'unknown') {
-          return 1;
-        } else if (bYear === 'unknown') {
-          return -1;
-        } else {
-          return aYear > bYear ? -1 : 1;
-        }
-      }
-    });
-  };
-
   useEffect(() => {
     // 无搜索参数时聚焦搜索框
     !searchParams.get('q') && document.getElementById('searchInput')?.focus();
@@ -145,6 +154,7 @@ function SearchPageClient() {
 
     return () => {
       unsubscribe();
+      searchAbortRef.current?.abort();
       isRunning = false; // 停止 requestAnimationFrame 循环
 
       // 移除 body 滚动事件监听器
@@ -156,19 +166,46 @@ function SearchPageClient() {
     // 当搜索参数变化时更新搜索状态
     const query = searchParams.get('q');
     if (query) {
+      const searchKey = getSearchKey(query, filters);
+      if (searchKey === lastSearchKeyRef.current) return;
+      const queryChanged = lastSearchKeyRef.current?.split('\n')[0] !== query;
+      lastSearchKeyRef.current = searchKey;
       setSearchQuery(query);
-      fetchSearchResults(query);
+      fetchSearchResults(query, filters, queryChanged);
 
       // 保存到搜索历史 (事件监听会自动更新界面)
-      addSearchHistory(query);
+      if (queryChanged) addSearchHistory(query);
     } else {
+      lastSearchKeyRef.current = null;
       setShowResults(false);
     }
   }, [searchParams]);
 
-  const fetchSearchResults = async (query: string) => {
+  const handleFiltersChange = (next: SearchFilters) => {
+    const params = applySearchFiltersToParams(
+      new URLSearchParams(searchParams.toString()),
+      next
+    );
+    router.replace(`/search?${params.toString()}`, { scroll: false });
+  };
+
+  const fetchSearchResults = async (
+    query: string,
+    searchFilters: SearchFilters,
+    resetFacets: boolean
+  ) => {
+    // 取消上一次尚未结束的搜索
+    searchAbortRef.current?.abort();
+    const controller = new AbortController();
+    searchAbortRef.current = controller;
+
     try {
       setIsLoading(true);
+      setSearchResults([]);
+      setGroupedResults(null);
+      setSourceStatuses([]);
+      // 同一搜索词只修改筛选条件时保留原有分面，避免筛选面板闪烁
+      if (resetFacets) setFacets(null);
       
       // 获取用户认证信息
       const authInfo = getAuthInfoFromBrowserCookie();
@@ -179,68 +216,164 @@ function SearchPageClient() {
         headers['Authorization'] = `Bearer ${authInfo.username}`;
       }
       
-      // 简化的搜索请求 - 成人内容过滤现在在API层面自动处理
+      // 流式搜索请求 - 每个资源站返回后立即渲染，不必等待最慢的源
       // 添加时间戳参数避免缓存问题
-      const timestamp = Date.now();
-      const response = await fetch(
-        `/api/search?q=${encodeURIComponent(query.trim())}&t=${timestamp}`, 
-        { 
-          headers: {
-            ...headers,
-            'Cache-Control': 'no-cache, no-store, must-revalidate'
+      const params = applySearchFiltersToParams(
+        new URLSearchParams({
+          q: query.trim(),
+          stream: '1',
+          t: Date.now().toString(),
+        }),
+        searchFilters
+      );
+      const response = await fetch(`/api/search?${params.toString()}`, {
+        headers: {
+          ...headers,
+          'Cache-Control': 'no-cache, no-store, must-revalidate',
+        },
+        signal: controller.signal,
+      });
+      if (!response.ok || !response.body) {
+        throw new Error(`搜索失败: ${response.status}`);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let collected: SearchResult[] = [];
+
+      const handleEvent = (event: SearchStreamEvent) => {
+        if (event.type === 'start') {
+          setSourceStatuses(
+            event.sources.map((s) => ({
+              source: s.source,
+              source_name: s.source_name,
+              status: 'pending',
+              count: 0,
+            }))
+          );
+          setIsLoading(false);
+          setShowResults(true);
+        } else if (event.type === 'source') {
+          if (event.results.length > 0) {
+            collected = [...collected, ...event.results];
+            setSearchResults(collected);
+            setGroupedResults({ regular: collected, adult: [] });
           }
+          setSourceStatuses((prev) =>
+            prev.map((s) =>
+              s.source === event.source
+                ? {
+                    ...s,
+                    status: event.error ? 'error' : 'done',
+                    count: event.results.length,
+                    elapsed: event.elapsed,
+                    error: event.error,
+                  }
+                : s
+            )
+          );
+        } else if (event.type === 'done') {
+          if (event.facets) setFacets(event.facets);
+          setSourceStatuses((prev) =>
+            prev.map((s) => {
+              const summary = event.sources.find(
+                (item) => item.source === s.source
+              );
+              return summary
+                ? {
+                    ...s,
+                    status: summary.error ? 'error' : 'done',
+                    count: summary.count,
+                    elapsed: summary.elapsed,
+                    error: summary.error,
+                  }
+                : s;
+            })
+          );
         }
-      );
-      const data = await response.json();
-      
-      // 处理新的搜索结果格式
-      if (data.regular_results || data.adult_results) {
-        // 处理分组结果
-        setGroupedResults({
-          regular: data.regular_results || [],
-          adult: data.adult_results || []
-        });
-        setSearchResults([...(data.regular_results || []), ...(data.adult_results || [])]);
-      } else if (data.grouped) {
-        // 兼容旧的分组格式
-        setGroupedResults({
-          regular: data.regular || [],
-          adult: data.adult || []
+      };
+
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        lines.forEach((line) => {
+          if (line.trim()) {
+            handleEvent(JSON.parse(line) as SearchStreamEvent);
+          }
         });
-        setSearchResults([...(data.regular || []), ...(data.adult || [])]);
-      } else {
-        // 兼容旧的普通结果格式
-        setGroupedResults(null);
-        setSearchResults(data.results || []);
+      }
+      if (buffer.trim()) {
+        handleEvent(JSON.parse(buffer) as SearchStreamEvent);
       }
       
       setShowResults(true);
     } catch (error) {
+      if ((error as Error).name === 'AbortError') return;
       setGroupedResults(null);
       setSearchResults([]);
+      setShowResults(true);
     } finally {
-      setIsLoading(false);
+      if (searchAbortRef.current === controller) {
+        setIsLoading(false);
+      }
     }
   };
 
-  const handleSearch = (e: React.FormEvent) => {
-    e.preventDefault();
-    const trimmed = searchQuery.trim().replace(/\s+/g, ' ');
+  const submitSearch = (query: string) => {
+    const trimmed = query.trim().replace(/\s+/g, ' ');
     if (!trimmed) return;
 
     // 回显搜索框
     setSearchQuery(trimmed);
+    setShowSuggestions(false);
     setIsLoading(true);
     setShowResults(true);
 
+    // 新的搜索不沿用之前的筛选条件
+    lastSearchKeyRef.current = getSearchKey(trimmed, {});
     router.push(`/search?q=${encodeURIComponent(trimmed)}`);
     // 直接发请求
-    fetchSearchResults(trimmed);
+    fetchSearchResults(trimmed, {}, true);
 
     // 保存到搜索历史 (事件监听会自动更新界面)
     addSearchHistory(trimmed);
   };
 
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    submitSearch(searchQuery);
+  };
+
+  // 当前标签页的结果（存在成人内容分组时按标签页切换）
+  const tabResults =
+    groupedResults && groupedResults.adult.length > 0
+      ? activeTab === 'adult'
+        ? groupedResults.adult
+        : groupedResults.regular
+      : searchResults;
+  // 服务端已按筛选条件过滤并在每个资源站内排序，这里只需对合并后的结果整体排序
+  const filteredResults = useMemo(
+    () =>
+      filters.sort
+        ? sortByYear(
+            tabResults,
+            (result) => result.year,
+            filters.sort === 'year_asc' ? 'asc' : 'desc'
+          )
+        : tabResults,
+    [tabResults, filters.sort]
+  );
+  const activeFilterCount =
+    (filters.year_from !== undefined || filters.year_to !== undefined ? 1 : 0) +
+    (filters.type_name?.length || 0) +
+    (filters.class?.length || 0) +
+    (filters.source?.length || 0) +
+    (filters.has_douban !== undefined ? 1 : 0);
+
   // 返回顶部功能
   const scrollToTop = () => {
     try {
@@ -267,10 +400,23 @@ function SearchPageClient() {
                 id='searchInput'
                 type='text'
                 value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                onChange={(e) => {
+                  setSearchQuery(e.target.value);
+                  setShowSuggestions(true);
+                }}
+                onFocus={() => setShowSuggestions(true)}
+                onBlur={() => setShowSuggestions(false)}
+                onKeyDown={(e) => e.key === 'Escape' && setShowSuggestions(false)}
+                autoComplete='off'
                 placeholder='搜索电影、电视剧...'
                 className='w-full h-12 rounded-lg bg-gray-50/80 py-3 pl-10 pr-4 text-sm text-gray-700 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-green-400 focus:bg-white border border-gray-200/50 shadow-sm dark:bg-gray-800 dark:text-gray-300 dark:placeholder-gray-500 dark:focus:bg-gray-700 dark:border-gray-700'
               />
+              <SearchSuggestions
+                query={searchQuery}
+                history={searchHistory}
+                visible={showSuggestions}
+                onSelect={submitSearch}
+              />
             </div>
           </form>
         </div>
@@ -288,26 +434,69 @@ function SearchPageClient() {
                 <h2 className='text-xl font-bold text-gray-800 dark:text-gray-200'>
                   搜索结果
                 </h2>
-                {/* 聚合开关 */}
-                <label className='flex items-center gap-2 cursor-pointer select-none'>
-                  <span className='text-sm text-gray-700 dark:text-gray-300'>
-                    聚合
-                  </span>
-                  <div className='relative'>
-                    <input
-                      type='checkbox'
-                      className='sr-only peer'
-                      checked={viewMode === 'agg'}
-                      onChange={() =>
-                        setViewMode(viewMode === 'agg' ? 'all' : 'agg')
-                      }
-                    />
-                    <div className='w-9 h-5 bg-gray-300 rounded-full peer-checked:bg-green-500 transition-colors dark:bg-gray-600'></div>
-                    <div className='absolute top-0.5 left-0.5 w-4 h-4 bg-white rounded-full transition-transform peer-checked:translate-x-4'></div>
-                  </div>
-                </label>
+                <div className='flex items-center gap-4'>
+                  {/* 筛选面板开关（小屏） */}
+                  <button
+                    type='button'
+                    onClick={() => setShowFilters(!showFilters)}
+                    className={`lg:hidden inline-flex items-center gap-1 text-sm ${
+                      hasSearchFilters(filters)
+                        ? 'text-green-600 dark:text-green-400'
+                        : 'text-gray-700 dark:text-gray-300'
+                    }`}
+                  >
+                    <SlidersHorizontal className='w-4 h-4' />
+                    筛选{activeFilterCount > 0 && ` (${activeFilterCount})`}
+                  </button>
+                  {/* 聚合开关 */}
+                  <label className='flex items-center gap-2 cursor-pointer select-none'>
+                    <span className='text-sm text-gray-700 dark:text-gray-300'>
+                      聚合
+                    </span>
+                    <div className='relative'>
+                      <input
+                        type='checkbox'
+                        className='sr-only peer'
+                        checked={viewMode === 'agg'}
+                        onChange={() =>
+                          setViewMode(viewMode === 'agg' ? 'all' : 'agg')
+                        }
+                      />
+                      <div className='w-9 h-5 bg-gray-300 rounded-full peer-checked:bg-green-500 transition-colors dark:bg-gray-600'></div>
+                      <div className='absolute top-0.5 left-0.5 w-4 h-4 bg-white rounded-full transition-transform peer-checked:translate-x-4'></div>
+                    </div>
+                  </label>
+                </div>
               </div>
               
+              {/* 各资源站搜索状态 */}
+              {sourceStatuses.length > 0 && (
+                <div className='mb-6 flex flex-wrap gap-2'>
+                  {sourceStatuses.map((s) => (
+                    <span
+                      key={s.source}
+                      title={
+                        s.error ||
+                        (s.elapsed !== undefined ? `${s.elapsed}ms` : '搜索中')
+                      }
+                      className={`inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-medium ${
+                        s.status === 'pending'
+                          ? 'bg-gray-100 text-gray-500 dark:bg-gray-800 dark:text-gray-400 animate-pulse'
+                          : s.status === 'error'
+                          ? 'bg-red-100 text-red-700 dark:bg-red-900/20 dark:text-red-300'
+                          : s.count > 0
+                          ? 'bg-green-100 text-green-700 dark:bg-green-900/20 dark:text-green-300'
+                          : 'bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400'
+                      }`}
+                    >
+                      {s.source_name}
+                      {s.status === 'done' && <span>{s.count}</span>}
+                      {s.status === 'error' && <span>失败</span>}
+                    </span>
+                  ))}
+                </div>
+              )}
+
               {/* 如果有分组结果且有成人内容，显示分组标签 */}
               {groupedResults && groupedResults.adult.length > 0 && (
                 <div className="mb-6">
@@ -344,68 +533,98 @@ function SearchPageClient() {
                   )}
                 </div>
               )}
-              <div
-                key={`search-results-${viewMode}-${activeTab}`}
-                className='justify-start grid grid-cols-3 gap-x-2 gap-y-14 sm:gap-y-20 px-0 sm:px-2 sm:grid-cols-[repeat(auto-fill,_minmax(11rem,_1fr))] sm:gap-x-8'
-              >
-                {(() => {
-                  // 确定要显示的结果
-                  let displayResults = searchResults;
-                  if (groupedResults && groupedResults.adult.length > 0) {
-                    displayResults = activeTab === 'adult' 
-                      ? groupedResults.adult 
-                      : groupedResults.regular;
-                  }
-
-                  // 聚合显示模式
-                  if (viewMode === 'agg') {
-                    const aggregated = aggregateResults(displayResults);
-                    return aggregated.map(([mapKey, group]: [string, SearchResult[]]) => (
-                      <div key={`agg-${mapKey}`} className='w-full'>
+              <div className='flex flex-col lg:flex-row gap-6'>
+                {/* 筛选面板：大屏为侧边栏，小屏点击按钮展开 */}
+                {facets && (
+                  <aside
+                    className={`${
+                      showFilters ? 'block' : 'hidden'
+                    } lg:block lg:w-56 flex-shrink-0 p-4 rounded-lg bg-gray-50/80 border border-gray-200/50 dark:bg-gray-800/50 dark:border-gray-700 lg:self-start`}
+                  >
+                    <SearchFilterPanel
+                      filters={filters}
+                      facets={facets}
+                      onChange={handleFiltersChange}
+                    />
+                  </aside>
+                )}
+                <div
+                  key={`search-results-${viewMode}-${activeTab}`}
+                  className='flex-1 min-w-0 justify-start grid grid-cols-3 gap-x-2 gap-y-14 sm:gap-y-20 px-0 sm:px-2 sm:grid-cols-[repeat(auto-fill,_minmax(11rem,_1fr))] sm:gap-x-8 content-start'
+                >
+                  {(() => {
+                    // 确定要显示的结果（已按筛选条件过滤）
+                    const displayResults = filteredResults;
+
+                    // 聚合显示模式
+                    if (viewMode === 'agg') {
+                      const groups = sortSearchGroups(
+                        groupSearchResults(displayResults),
+                        searchQuery
+                      );
+                      const aggregated = filters.sort
+                        ? sortByYear(
+                            groups,
+                            (group) => group[0].year,
+                            filters.sort === 'year_asc' ? 'asc' : 'desc'
+                          )
+                        : groups;
+                      return aggregated.map((group) => (
+                        <div
+                          key={`agg-${toAggregatedResult(group).key}`}
+                          className='w-full'
+                        >
+                          <VideoCard
+                            from='search'
+                            items={group}
+                            query={
+                              searchQuery.trim() !== group[0].title
+                                ? searchQuery.trim()
+                                : ''
+                            }
+                          />
+                        </div>
+                      ));
+                    }
+
+                    // 列表显示模式
+                    return displayResults.map((item) => (
+                      <div
+                        key={`all-${item.source}-${item.id}`}
+                        className='w-full'
+                      >
                         <VideoCard
-                          from='search'
-                          items={group}
+                          id={item.id}
+                          title={item.title}
+                          poster={item.poster}
+                          episodes={item.episodes.length}
+                          source={item.source}
+                          source_name={item.source_name}
+                          douban_id={item.douban_id?.toString()}
                           query={
-                            searchQuery.trim() !== group[0].title
+                            searchQuery.trim() !== item.title
                               ? searchQuery.trim()
                               : ''
                           }
+                          year={item.year}
+                          from='search'
+                          type={item.episodes.length > 1 ? 'tv' : 'movie'}
                         />
                       </div>
                     ));
-                  }
-
-                  // 列表显示模式
-                  return displayResults.map((item) => (
-                    <div
-                      key={`all-${item.source}-${item.id}`}
-                      className='w-full'
-                    >
-                      <VideoCard
-                        id={item.id}
-                        title={item.title}
-                        poster={item.poster}
-                        episodes={item.episodes.length}
-                        source={item.source}
-                        source_name={item.source_name}
-                        douban_id={item.douban_id?.toString()}
-                        query={
-                          searchQuery.trim() !== item.title
-                            ? searchQuery.trim()
-                            : ''
-                        }
-                        year={item.year}
-                        from='search'
-                        type={item.episodes.length > 1 ? 'tv' : 'movie'}
-                      />
+                  })()}
+                  {searchResults.length === 0 &&
+                    sourceStatuses.every((s) => s.status !== 'pending') && (
+                      <div className='col-span-full text-center text-gray-500 py-8 dark:text-gray-400'>
+                        未找到相关结果
+                      </div>
+                    )}
+                  {searchResults.length > 0 && filteredResults.length === 0 && (
+                    <div className='col-span-full text-center text-gray-500 py-8 dark:text-gray-400'>
+                      没有符合筛选条件的结果
                     </div>
-                  ));
-                })()}
-                {searchResults.length === 0 && (
-                  <div className='col-span-full text-center text-gray-500 py-8 dark:text-gray-400'>
-                    未找到相关结果
-                  </div>
-                )}
+                  )}
+                </div>
               </div>
             </section>
           ) : searchHistory.length > 0 ? (
@@ -7,6 +7,7 @@ import { useEffect, useState } from 'react';
 import { getAuthInfoFromBrowserCookie } from '@/lib/auth';
 
 import AdultContentFilter from '@/components/AdultContentFilter';
+import PlayerPreferences from '@/components/PlayerPreferences';
 
 export default function UserSettingsPage() {
   const router = useRouter();
@@ -85,16 +86,12 @@ export default function UserSettingsPage() {
             />
           </div>
 
-          {/* 其他设置部分预留 */}
+          {/* 播放设置 */}
           <div>
             <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
-              其他设置
+              播放设置
             </h2>
-            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
-              <p className="text-gray-500 dark:text-gray-400 text-center py-8">
-                更多设置选项即将推出...
-              </p>
-            </div>
+            <PlayerPreferences />
           </div>
         </div>
 
@@ -136,6 +136,7 @@ export default function ContinueWatching({ className }: ContinueWatchingProps) {
                     progress={getProgress(record)}
                     episodes={record.total_episodes}
                     currentEpisode={record.index}
+                    currentEpisodeTitle={record.episode_title}
                     query={record.search_title}
                     from='playrecord'
                     onDelete={() =>
@@ -10,8 +10,12 @@ import React, {
   useState,
 } from 'react';
 
-import { SearchResult } from '@/lib/types';
-import { getVideoResolutionFromM3u8, processImageUrl } from '@/lib/utils';
+import { PlayLine, SearchResult } from '@/lib/types';
+import {
+  getEpisodeLabel,
+  getVideoResolutionFromM3u8,
+  processImageUrl,
+} from '@/lib/utils';
 
 // 定义视频信息类型
 interface VideoInfo {
@@ -30,6 +34,14 @@ interface EpisodeSelectorProps {
   value?: number;
   /** 用户点击选集后的回调 */
   onChange?: (episodeNumber: number) => void;
+  /** 剧集标签，与集数一一对应 */
+  episodesTitles?: string[];
+  /** 当前源的全部播放线路 */
+  playLines?: PlayLine[];
+  /** 当前线路索引 */
+  currentLine?: number;
+  /** 切换线路的回调 */
+  onLineChange?: (lineIndex: number) => void;
   /** 换源相关 */
   onSourceChange?: (source: string, id: string, title: string) => void;
   currentSource?: string;
@@ -51,6 +63,10 @@ const EpisodeSelector: React.FC<EpisodeSelectorProps> = ({
   episodesPerPage = 10,
   value = 1,
   onChange,
+  episodesTitles = [],
+  playLines = [],
+  currentLine = 0,
+  onLineChange,
   onSourceChange,
   currentSource,
   currentId,
@@ -62,6 +78,8 @@ const EpisodeSelector: React.FC<EpisodeSelectorProps> = ({
 }) => {
   const router = useRouter();
   const pageCount = Math.ceil(totalEpisodes / episodesPerPage);
+  // 只有一集但有多条线路时，仍需展示选集标签以便切换线路
+  const showEpisodesTab = totalEpisodes > 1 || playLines.length > 1;
 
   // 存储每个源的视频信息
   const [videoInfoMap, setVideoInfoMap] = useState<Map<string, VideoInfo>>(
@@ -85,9 +103,9 @@ const EpisodeSelector: React.FC<EpisodeSelectorProps> = ({
   }, [videoInfoMap]);
 
   // 主要的 tab 状态：'episodes' 或 'sources'
-  // 当只有一集时默认展示 "换源"，并隐藏 "选集" 标签
+  // 当只有一集且只有一条线路时默认展示 "换源"，并隐藏 "选集" 标签
   const [activeTab, setActiveTab] = useState<'episodes' | 'sources'>(
-    totalEpisodes > 1 ? 'episodes' : 'sources'
+    showEpisodesTab ? 'episodes' : 'sources'
   );
 
   // 当前分页索引（0 开始）
@@ -235,7 +253,7 @@ const EpisodeSelector: React.FC<EpisodeSelectorProps> = ({
     <div className='md:ml-2 px-4 py-0 h-full rounded-xl bg-black/10 dark:bg-white/5 flex flex-col border border-white/0 dark:border-white/30 overflow-hidden'>
       {/* 主要的 Tab 切换 - 无缝融入设计 */}
       <div className='flex mb-0 -mx-6 flex-shrink-0'>
-        {totalEpisodes > 1 && (
+        {showEpisodesTab && (
           <div
             onClick={() => setActiveTab('episodes')}
             className={`flex-1 py-3 px-6 text-center cursor-pointer transition-all duration-200 font-medium
@@ -266,6 +284,31 @@ const EpisodeSelector: React.FC<EpisodeSelectorProps> = ({
       {/* 选集 Tab 内容 */}
       {activeTab === 'episodes' && (
         <>
+          {/* 播放线路 */}
+          {playLines.length > 1 && (
+            <div className='flex flex-wrap gap-2 pt-3 pb-2 flex-shrink-0'>
+              {playLines.map((line, idx) => {
+                const isActive = idx === currentLine;
+                return (
+                  <button
+                    key={`${line.name}-${idx}`}
+                    onClick={() => !isActive && onLineChange?.(idx)}
+                    title={`${line.name}（${line.episodes.length} 集）`}
+                    className={`px-3 py-1 text-xs rounded-full border transition-colors whitespace-nowrap
+                      ${
+                        isActive
+                          ? 'border-green-500 bg-green-500 text-white dark:border-green-600 dark:bg-green-600'
+                          : 'border-gray-300 text-gray-700 hover:border-green-500 hover:text-green-600 dark:border-gray-600 dark:text-gray-300 dark:hover:text-green-400'
+                      }`.trim()}
+                    type='button'
+                  >
+                    {line.name}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
           {/* 分类标签 */}
           <div className='flex items-center gap-4 mb-2 border-b border-gray-300 dark:border-gray-700 -mx-6 px-6 flex-shrink-0'>
             <div className='flex-1 overflow-x-auto' ref={categoryContainerRef}>
@@ -330,15 +373,17 @@ const EpisodeSelector: React.FC<EpisodeSelectorProps> = ({
               return episodes;
             })().map((episodeNumber) => {
               const isActive = episodeNumber === value;
+              const episodeTitle = episodesTitles[episodeNumber - 1];
               return (
                 <button
                   key={episodeNumber}
+                  title={episodeTitle || undefined}
                   onClick={(e) => {
                     e.preventDefault();
                     e.stopPropagation();
                     handleEpisodeClick(episodeNumber);
                   }}
-                  className={`w-full h-10 flex items-center justify-center text-sm font-medium rounded-lg transition-all duration-200 cursor-pointer
+                  className={`w-full h-10 px-1 flex items-center justify-center text-sm font-medium rounded-lg transition-all duration-200 cursor-pointer
                     ${
                       isActive
                         ? 'bg-green-500 text-white shadow-lg shadow-green-500/25 dark:bg-green-600'
@@ -346,7 +391,9 @@ const EpisodeSelector: React.FC<EpisodeSelectorProps> = ({
                     }`.trim()}
                   type="button"
                 >
-                  {episodeNumber}
+                  <span className='truncate'>
+                    {getEpisodeLabel(episodeTitle, episodeNumber)}
+                  </span>
                 </button>
               );
             })}
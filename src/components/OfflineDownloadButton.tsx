@@ -0,0 +1,124 @@
+/* eslint-disable no-console */
+'use client';
+
+import { CheckCircle, Download, Pause, RotateCcw } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+
+import {
+  getOfflineEpisodeKey,
+  getOfflineEpisodes,
+  isOfflineSupported,
+  OfflineDownloadOptions,
+  OfflineDownloadRequest,
+  OfflineEpisode,
+  pauseOfflineDownload,
+  resumeOfflineDownload,
+  startOfflineDownload,
+  subscribeOfflineDownloads,
+} from '@/lib/offlineDownload';
+
+export function getOfflineProgress(episode: OfflineEpisode): number {
+  if (episode.status === 'completed') return 100;
+  if (!episode.total) return 0;
+  return Math.floor((episode.downloaded / episode.total) * 100);
+}
+
+/**
+ * 播放页中的当前集下载按钮：下载、暂停、继续，下载完成后跳转到离线下载页
+ */
+export default function OfflineDownloadButton({
+  request,
+  getOptions,
+}: {
+  request: OfflineDownloadRequest | null;
+  getOptions: () => OfflineDownloadOptions;
+}) {
+  const router = useRouter();
+  const [episode, setEpisode] = useState<OfflineEpisode | null>(null);
+  const [supported, setSupported] = useState(false);
+  const key = request
+    ? getOfflineEpisodeKey(request.source, request.id, request.episode)
+    : '';
+
+  useEffect(() => {
+    setSupported(isOfflineSupported());
+  }, []);
+
+  useEffect(() => {
+    setEpisode(null);
+    if (!key || !isOfflineSupported()) return;
+
+    let cancelled = false;
+    getOfflineEpisodes()
+      .then((episodes) => {
+        if (!cancelled) {
+          setEpisode(episodes.find((item) => item.key === key) || null);
+        }
+      })
+      .catch((err) => console.error('读取离线下载失败:', err));
+
+    const unsubscribe = subscribeOfflineDownloads((event) => {
+      if (event.key === key) setEpisode(event.episode);
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [key]);
+
+  if (!supported || !request) return null;
+
+  const handleClick = () => {
+    if (!episode) {
+      startOfflineDownload(request, getOptions()).catch((err) =>
+        console.error('开始离线下载失败:', err)
+      );
+    } else if (episode.status === 'downloading') {
+      pauseOfflineDownload(key);
+    } else if (episode.status === 'completed') {
+      router.push('/downloads');
+    } else {
+      resumeOfflineDownload(key).catch((err) =>
+        console.error('继续离线下载失败:', err)
+      );
+    }
+  };
+
+  const status = episode?.status;
+  const progress = episode ? getOfflineProgress(episode) : 0;
+  let icon = <Download className='w-4 h-4' />;
+  let label = '下载';
+  let title = '下载当前集以便离线观看';
+  if (status === 'downloading') {
+    icon = <Pause className='w-4 h-4' />;
+    label = `${progress}%`;
+    title = '暂停下载';
+  } else if (status === 'paused') {
+    label = `继续 ${progress}%`;
+    title = '继续下载';
+  } else if (status === 'error') {
+    icon = <RotateCcw className='w-4 h-4' />;
+    label = '重试';
+    title = episode?.error || '下载失败，点击重试';
+  } else if (status === 'completed') {
+    icon = <CheckCircle className='w-4 h-4' />;
+    label = '已下载';
+    title = '查看离线下载';
+  }
+
+  return (
+    <button
+      onClick={handleClick}
+      className={`flex items-center space-x-1 px-3 py-1.5 rounded text-sm transition-colors ${
+        status === 'completed' || status === 'downloading'
+          ? 'bg-green-100 hover:bg-green-200 text-green-700 dark:bg-green-900/40 dark:hover:bg-green-900/60 dark:text-green-300'
+          : 'bg-gray-100 hover:bg-gray-200 text-gray-700 dark:bg-gray-700 dark:hover:bg-gray-600 dark:text-gray-300'
+      }`}
+      title={title}
+    >
+      {icon}
+      <span>{label}</span>
+    </button>
+  );
+}
@@ -0,0 +1,79 @@
+'use client';
+
+import { RefreshCw } from 'lucide-react';
+
+// 播放页可用的解析接口，与 /api/parse?format=resolve 的返回一致
+export interface ParseFrameParser {
+  key: string;
+  name: string;
+  type: 'web' | 'json';
+  parse_url: string;
+}
+
+const PREFERRED_PARSER_KEY = 'preferredParser';
+
+/**
+ * 读取用户上次选择的解析接口
+ */
+export function getPreferredParser(): string | null {
+  if (typeof window === 'undefined') return null;
+  return localStorage.getItem(PREFERRED_PARSER_KEY);
+}
+
+/**
+ * 通过网页解析接口播放：在播放器上方嵌入解析页面，可切换解析接口
+ */
+export default function ParseFrame({
+  parsers,
+  current,
+  onChange,
+}: {
+  parsers: ParseFrameParser[];
+  current: number;
+  onChange: (index: number) => void;
+}) {
+  const parser = parsers[current];
+  if (!parser) return null;
+
+  const handleChange = (index: number) => {
+    localStorage.setItem(PREFERRED_PARSER_KEY, parsers[index].key);
+    onChange(index);
+  };
+
+  return (
+    <div className='absolute inset-0 z-[600] flex flex-col bg-black rounded-xl overflow-hidden'>
+      <div className='flex items-center gap-2 px-3 py-2 bg-gray-900/90 text-sm text-gray-200'>
+        <span className='flex-shrink-0'>解析接口</span>
+        <select
+          value={current}
+          onChange={(e) => handleChange(Number(e.target.value))}
+          className='min-w-0 flex-1 sm:flex-none bg-gray-800 border border-gray-700 rounded px-2 py-1 text-gray-100 focus:outline-none'
+        >
+          {parsers.map((p, index) => (
+            <option key={p.key} value={index}>
+              {p.name}
+            </option>
+          ))}
+        </select>
+        {parsers.length > 1 && (
+          <button
+            onClick={() => handleChange((current + 1) % parsers.length)}
+            className='flex items-center gap-1 px-2 py-1 rounded bg-gray-800 hover:bg-gray-700 transition-colors flex-shrink-0'
+            title='当前接口无法播放时切换到下一个'
+          >
+            <RefreshCw className='w-3.5 h-3.5' />
+            换一个
+          </button>
+        )}
+      </div>
+      <iframe
+        key={parser.parse_url}
+        src={parser.parse_url}
+        className='flex-1 w-full border-0'
+        allow='autoplay; fullscreen; encrypted-media; picture-in-picture'
+        allowFullScreen
+        referrerPolicy='no-referrer'
+      />
+    </div>
+  );
+}
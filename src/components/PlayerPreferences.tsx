@@ -0,0 +1,297 @@
+/* eslint-disable no-console */
+'use client';
+
+import { ArrowDown, ArrowUp, PlayCircle, X } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+
+import {
+  getPlayerPreferences,
+  PlayerPreferences as Preferences,
+  savePlayerPreferences,
+} from '@/lib/db.client';
+
+interface SourceOption {
+  key: string;
+  name: string;
+}
+
+// 与播放页的倍速列表保持一致
+const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2, 3];
+
+function Toggle({
+  title,
+  description,
+  checked,
+  onChange,
+}: {
+  title: string;
+  description: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}) {
+  return (
+    <div className='flex items-center justify-between'>
+      <div>
+        <h4 className='text-sm font-medium text-gray-700 dark:text-gray-300'>
+          {title}
+        </h4>
+        <p className='text-xs text-gray-500 dark:text-gray-400 mt-1'>
+          {description}
+        </p>
+      </div>
+      <label className='flex items-center cursor-pointer'>
+        <div className='relative'>
+          <input
+            type='checkbox'
+            className='sr-only peer'
+            checked={checked}
+            onChange={(e) => onChange(e.target.checked)}
+          />
+          <div className='w-11 h-6 bg-gray-300 rounded-full peer-checked:bg-green-500 transition-colors dark:bg-gray-600'></div>
+          <div className='absolute top-0.5 left-0.5 w-5 h-5 bg-white rounded-full transition-transform peer-checked:translate-x-5'></div>
+        </div>
+      </label>
+    </div>
+  );
+}
+
+/**
+ * 播放器偏好设置：倍速、音量、自动下一集、去广告、测速与偏好资源站
+ */
+export default function PlayerPreferences() {
+  const [prefs, setPrefs] = useState<Preferences | null>(null);
+  const [sources, setSources] = useState<SourceOption[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const volumeTimerRef = useRef<NodeJS.Timeout | null>(null);
+
+  useEffect(() => {
+    getPlayerPreferences().then(setPrefs);
+    fetch('/api/search/resources')
+      .then((res) => (res.ok ? res.json() : []))
+      .then((data) => {
+        if (Array.isArray(data)) {
+          setSources(
+            data.map((site: SourceOption) => ({
+              key: site.key,
+              name: site.name,
+            }))
+          );
+        }
+      })
+      .catch((err) => console.error('获取资源站列表失败:', err));
+
+    return () => {
+      if (volumeTimerRef.current) clearTimeout(volumeTimerRef.current);
+    };
+  }, []);
+
+  const update = async (updates: Partial<Preferences>) => {
+    if (!prefs) return;
+    const previous = prefs;
+    setPrefs({ ...prefs, ...updates });
+    setError(null);
+    try {
+      await savePlayerPreferences(updates);
+    } catch (err) {
+      console.error('保存播放器偏好失败:', err);
+      setPrefs(previous);
+      setError(err instanceof Error ? err.message : '保存失败');
+    }
+  };
+
+  // 拖动音量时只在停止后保存
+  const handleVolumeChange = (volume: number) => {
+    if (!prefs) return;
+    setPrefs({ ...prefs, default_volume: volume });
+    if (volumeTimerRef.current) clearTimeout(volumeTimerRef.current);
+    volumeTimerRef.current = setTimeout(() => {
+      update({ default_volume: volume });
+    }, 600);
+  };
+
+  if (!prefs) {
+    return (
+      <div className='bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6'>
+        <p className='text-sm text-gray-500 dark:text-gray-400 text-center py-4'>
+          加载中...
+        </p>
+      </div>
+    );
+  }
+
+  const preferred = prefs.preferred_sources;
+  const sourceName = (key: string) =>
+    sources.find((s) => s.key === key)?.name || key;
+  const remaining = sources.filter((s) => !preferred.includes(s.key));
+
+  const moveSource = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= preferred.length) return;
+    const next = [...preferred];
+    [next[index], next[target]] = [next[target], next[index]];
+    update({ preferred_sources: next });
+  };
+
+  return (
+    <div className='bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6 space-y-6'>
+      <div className='flex items-center space-x-3'>
+        <div className='flex items-center justify-center w-10 h-10 rounded-full bg-blue-100 dark:bg-blue-900'>
+          <PlayCircle className='w-5 h-5 text-blue-600 dark:text-blue-400' />
+        </div>
+        <div>
+          <h3 className='text-lg font-medium text-gray-900 dark:text-white'>
+            播放器偏好
+          </h3>
+          <p className='text-sm text-gray-500 dark:text-gray-400 mt-1'>
+            打开播放页时自动应用
+          </p>
+        </div>
+      </div>
+
+      {/* 默认倍速 */}
+      <div className='flex items-center justify-between'>
+        <h4 className='text-sm font-medium text-gray-700 dark:text-gray-300'>
+          默认倍速
+        </h4>
+        <select
+          value={prefs.default_playback_rate}
+          onChange={(e) =>
+            update({ default_playback_rate: Number(e.target.value) })
+          }
+          className='px-3 py-1.5 text-sm rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100'
+        >
+          {PLAYBACK_RATES.map((rate) => (
+            <option key={rate} value={rate}>
+              {rate === 1 ? '正常' : `${rate}x`}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* 默认音量 */}
+      <div>
+        <div className='flex items-center justify-between mb-2'>
+          <h4 className='text-sm font-medium text-gray-700 dark:text-gray-300'>
+            默认音量
+          </h4>
+          <span className='text-sm text-gray-500 dark:text-gray-400'>
+            {Math.round(prefs.default_volume * 100)}%
+          </span>
+        </div>
+        <input
+          type='range'
+          min={0}
+          max={100}
+          step={5}
+          value={Math.round(prefs.default_volume * 100)}
+          onChange={(e) => handleVolumeChange(Number(e.target.value) / 100)}
+          className='w-full accent-green-500'
+        />
+      </div>
+
+      <Toggle
+        title='默认静音'
+        description='开始播放时保持静音'
+        checked={prefs.default_muted}
+        onChange={(checked) => update({ default_muted: checked })}
+      />
+      <Toggle
+        title='自动播放下一集'
+        description='当前集播放结束后自动切换到下一集'
+        checked={prefs.auto_next_episode}
+        onChange={(checked) => update({ auto_next_episode: checked })}
+      />
+      <Toggle
+        title='去广告'
+        description='过滤播放列表中插入的广告片段'
+        checked={prefs.block_ad}
+        onChange={(checked) => update({ block_ad: checked })}
+      />
+      <Toggle
+        title='启用优选和测速'
+        description='打开视频时对各资源站测速并选择最佳播放源'
+        checked={prefs.speed_test}
+        onChange={(checked) => update({ speed_test: checked })}
+      />
+
+      {/* 偏好资源站 */}
+      <div>
+        <h4 className='text-sm font-medium text-gray-700 dark:text-gray-300'>
+          偏好资源站
+        </h4>
+        <p className='text-xs text-gray-500 dark:text-gray-400 mt-1 mb-3'>
+          有匹配结果时优先从这些资源站中选择播放源，越靠前优先级越高
+        </p>
+        {preferred.length > 0 && (
+          <ul className='space-y-2 mb-3'>
+            {preferred.map((key, index) => (
+              <li
+                key={key}
+                className='flex items-center justify-between px-3 py-2 rounded-md bg-gray-50 dark:bg-gray-700/50 text-sm text-gray-800 dark:text-gray-200'
+              >
+                <span>
+                  {index + 1}. {sourceName(key)}
+                </span>
+                <div className='flex items-center gap-1'>
+                  <button
+                    type='button'
+                    onClick={() => moveSource(index, -1)}
+                    disabled={index === 0}
+                    className='p-1 rounded text-gray-500 hover:text-green-600 disabled:opacity-30'
+                    aria-label='上移'
+                  >
+                    <ArrowUp className='w-4 h-4' />
+                  </button>
+                  <button
+                    type='button'
+                    onClick={() => moveSource(index, 1)}
+                    disabled={index === preferred.length - 1}
+                    className='p-1 rounded text-gray-500 hover:text-green-600 disabled:opacity-30'
+                    aria-label='下移'
+                  >
+                    <ArrowDown className='w-4 h-4' />
+                  </button>
+                  <button
+                    type='button'
+                    onClick={() =>
+                      update({
+                        preferred_sources: preferred.filter((k) => k !== key),
+                      })
+                    }
+                    className='p-1 rounded text-gray-500 hover:text-red-500'
+                    aria-label='移除'
+                  >
+                    <X className='w-4 h-4' />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+        {remaining.length > 0 && (
+          <select
+            value=''
+            onChange={(e) =>
+              e.target.value &&
+              update({ preferred_sources: [...preferred, e.target.value] })
+            }
+            className='w-full px-3 py-2 text-sm rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100'
+          >
+            <option value=''>添加偏好资源站...</option>
+            {remaining.map((site) => (
+              <option key={site.key} value={site.key}>
+                {site.name}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {error && (
+        <div className='text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 p-3 rounded-md'>
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { hasSearchFilters } from '@/lib/searchFilter';
+import { SearchFacetCount, SearchFacets, SearchFilters } from '@/lib/types';
+
+interface SearchFilterPanelProps {
+  filters: SearchFilters;
+  facets: SearchFacets;
+  onChange: (filters: SearchFilters) => void;
+}
+
+// 每个分面默认展示的选项数量
+const COLLAPSED_COUNT = 8;
+
+type ListFacetKey = 'type_name' | 'class' | 'source';
+
+function FacetSection({
+  title,
+  options,
+  selected,
+  onToggle,
+}: {
+  title: string;
+  options: SearchFacetCount[];
+  selected: string[];
+  onToggle: (value: string) => void;
+}) {
+  const [expanded, setExpanded] = useState(false);
+
+  if (options.length === 0) return null;
+
+  const visible = expanded ? options : options.slice(0, COLLAPSED_COUNT);
+
+  return (
+    <div>
+      <h4 className='text-xs font-medium text-gray-500 dark:text-gray-400 mb-2'>
+        {title}
+      </h4>
+      <div className='flex flex-wrap gap-1.5'>
+        {visible.map((option) => {
+          const isActive = selected.includes(option.value);
+          return (
+            <button
+              key={option.value}
+              type='button'
+              onClick={() => onToggle(option.value)}
+              className={`inline-flex items-center gap-1 px-2 py-1 rounded-md text-xs transition-colors ${
+                isActive
+                  ? 'bg-green-500 text-white dark:bg-green-600'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-800 dark:text-gray-300 dark:hover:bg-gray-700'
+              }`}
+            >
+              {option.label}
+              <span className={isActive ? 'text-white/80' : 'text-gray-400'}>
+                {option.count}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+      {options.length > COLLAPSED_COUNT && (
+        <button
+          type='button'
+          onClick={() => setExpanded(!expanded)}
+          className='mt-1.5 text-xs text-gray-500 hover:text-green-600 dark:text-gray-400 dark:hover:text-green-400'
+        >
+          {expanded ? '收起' : `展开全部 ${options.length} 项`}
+        </button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * 搜索结果筛选面板：排序、年份区间、类型、分类、资源站与豆瓣信息
+ */
+export default function SearchFilterPanel({
+  filters,
+  facets,
+  onChange,
+}: SearchFilterPanelProps) {
+  // 年份输入在失焦或回车时才提交，避免每次按键都改写地址栏
+  const [yearFrom, setYearFrom] = useState(filters.year_from?.toString() || '');
+  const [yearTo, setYearTo] = useState(filters.year_to?.toString() || '');
+
+  useEffect(() => {
+    setYearFrom(filters.year_from?.toString() || '');
+    setYearTo(filters.year_to?.toString() || '');
+  }, [filters.year_from, filters.year_to]);
+
+  const commitYears = () => {
+    const from = parseInt(yearFrom, 10) || undefined;
+    const to = parseInt(yearTo, 10) || undefined;
+    if (from !== filters.year_from || to !== filters.year_to) {
+      onChange({ ...filters, year_from: from, year_to: to });
+    }
+  };
+
+  const toggleValue = (key: ListFacetKey, value: string) => {
+    const current = filters[key] || [];
+    const next = current.includes(value)
+      ? current.filter((v) => v !== value)
+      : [...current, value];
+    onChange({ ...filters, [key]: next.length > 0 ? next : undefined });
+  };
+
+  const inputClassName =
+    'w-full px-2 py-1.5 text-sm rounded-md border border-gray-200 bg-white text-gray-700 focus:outline-none focus:ring-2 focus:ring-green-400 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-300';
+
+  return (
+    <div className='space-y-5'>
+      {/* 排序 */}
+      <div>
+        <h4 className='text-xs font-medium text-gray-500 dark:text-gray-400 mb-2'>
+          排序
+        </h4>
+        <select
+          value={filters.sort || ''}
+          onChange={(e) =>
+            onChange({
+              ...filters,
+              sort: (e.target.value || undefined) as SearchFilters['sort'],
+            })
+          }
+          className={inputClassName}
+        >
+          <option value=''>相关度</option>
+          <option value='year_desc'>年份从新到旧</option>
+          <option value='year_asc'>年份从旧到新</option>
+        </select>
+      </div>
+
+      {/* 年份区间 */}
+      <div>
+        <h4 className='text-xs font-medium text-gray-500 dark:text-gray-400 mb-2'>
+          年份
+        </h4>
+        <div className='flex items-center gap-2'>
+          <input
+            type='number'
+            inputMode='numeric'
+            placeholder={facets.year[facets.year.length - 1]?.value || '起始'}
+            value={yearFrom}
+            onChange={(e) => setYearFrom(e.target.value)}
+            onBlur={commitYears}
+            onKeyDown={(e) => e.key === 'Enter' && commitYears()}
+            className={inputClassName}
+          />
+          <span className='text-gray-400'>-</span>
+          <input
+            type='number'
+            inputMode='numeric'
+            placeholder={facets.year[0]?.value || '结束'}
+            value={yearTo}
+            onChange={(e) => setYearTo(e.target.value)}
+            onBlur={commitYears}
+            onKeyDown={(e) => e.key === 'Enter' && commitYears()}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <FacetSection
+        title='类型'
+        options={facets.type_name}
+        selected={filters.type_name || []}
+        onToggle={(value) => toggleValue('type_name', value)}
+      />
+      <FacetSection
+        title='分类'
+        options={facets.class}
+        selected={filters.class || []}
+        onToggle={(value) => toggleValue('class', value)}
+      />
+      <FacetSection
+        title='资源站'
+        options={facets.source}
+        selected={filters.source || []}
+        onToggle={(value) => toggleValue('source', value)}
+      />
+      <FacetSection
+        title='豆瓣信息'
+        options={facets.has_douban}
+        selected={
+          filters.has_douban === undefined ? [] : [String(filters.has_douban)]
+        }
+        onToggle={(value) =>
+          onChange({
+            ...filters,
+            has_douban:
+              String(filters.has_douban) === value
+                ? undefined
+                : value === 'true',
+          })
+        }
+      />
+
+      {hasSearchFilters(filters) && (
+        <button
+          type='button'
+          onClick={() => onChange({ sort: filters.sort })}
+          className='w-full py-1.5 text-sm rounded-md border border-gray-200 text-gray-600 hover:text-red-500 hover:border-red-300 dark:border-gray-700 dark:text-gray-400 dark:hover:text-red-400'
+        >
+          清除筛选
+        </button>
+      )}
+    </div>
+  );
+}
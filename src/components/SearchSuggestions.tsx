@@ -0,0 +1,157 @@
+'use client';
+
+import { Clock, Film, Search } from 'lucide-react';
+import Image from 'next/image';
+import { useEffect, useRef, useState } from 'react';
+
+import { SearchSuggestion } from '@/lib/types';
+import { processImageUrl } from '@/lib/utils';
+
+interface SearchSuggestionsProps {
+  query: string;
+  // 本地搜索历史，本地存储模式下服务端无法读取，需要在客户端补充
+  history: string[];
+  visible: boolean;
+  onSelect: (title: string) => void;
+}
+
+// 输入停顿后再请求，避免每次按键都触发
+const DEBOUNCE_MS = 250;
+
+/**
+ * 搜索框下拉联想：个人历史、站内片库与豆瓣标题
+ */
+export default function SearchSuggestions({
+  query,
+  history,
+  visible,
+  onSelect,
+}: SearchSuggestionsProps) {
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const trimmed = query.trim();
+
+  useEffect(() => {
+    setActiveIndex(-1);
+    if (!trimmed) {
+      setSuggestions([]);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      abortRef.current?.abort();
+      const controller = new AbortController();
+      abortRef.current = controller;
+      try {
+        const response = await fetch(
+          `/api/search/suggest?q=${encodeURIComponent(trimmed)}`,
+          { signal: controller.signal }
+        );
+        if (!response.ok) return;
+        const data = await response.json();
+        setSuggestions(data.suggestions || []);
+      } catch (err) {
+        // 请求被新的输入取消时忽略
+      }
+    }, DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [trimmed]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // 补充服务端未返回的本地历史匹配项，排在最前
+  const lowerQuery = trimmed.toLowerCase();
+  const items: SearchSuggestion[] = [
+    ...history
+      .filter(
+        (item) =>
+          item !== trimmed &&
+          item.toLowerCase().includes(lowerQuery) &&
+          !suggestions.some((s) => s.title === item)
+      )
+      .slice(0, 3)
+      .map(
+        (title): SearchSuggestion => ({
+          title,
+          sources: ['history'],
+          score: 0,
+        })
+      ),
+    ...suggestions.filter((s) => s.title !== trimmed),
+  ];
+
+  // 键盘上下选择、回车确认
+  useEffect(() => {
+    if (!visible || items.length === 0) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowDown') {
+        e.preventDefault();
+        setActiveIndex((index) => (index + 1) % items.length);
+      } else if (e.key === 'ArrowUp') {
+        e.preventDefault();
+        setActiveIndex((index) => (index <= 0 ? items.length - 1 : index - 1));
+      } else if (e.key === 'Enter' && activeIndex >= 0) {
+        e.preventDefault();
+        onSelect(items[activeIndex].title);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  if (!visible || !trimmed || items.length === 0) return null;
+
+  return (
+    <ul className='absolute left-0 right-0 top-full mt-1 z-50 max-h-96 overflow-y-auto rounded-lg border border-gray-200 bg-white py-1 shadow-lg dark:border-gray-700 dark:bg-gray-800'>
+      {items.map((item, index) => {
+        const Icon = item.sources.includes('history')
+          ? Clock
+          : item.poster
+          ? Film
+          : Search;
+        return (
+          <li key={item.title}>
+            <button
+              type='button'
+              // 使用 onMouseDown，避免输入框先失焦导致下拉框关闭
+              onMouseDown={(e) => {
+                e.preventDefault();
+                onSelect(item.title);
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`flex w-full items-center gap-3 px-3 py-2 text-left text-sm ${
+                index === activeIndex
+                  ? 'bg-gray-100 dark:bg-gray-700'
+                  : 'hover:bg-gray-50 dark:hover:bg-gray-700/60'
+              }`}
+            >
+              {item.poster ? (
+                <div className='relative h-12 w-8 flex-shrink-0 overflow-hidden rounded'>
+                  <Image
+                    src={processImageUrl(item.poster)}
+                    alt={item.title}
+                    fill
+                    sizes='32px'
+                    className='object-cover'
+                    referrerPolicy='no-referrer'
+                  />
+                </div>
+              ) : (
+                <Icon className='h-4 w-4 flex-shrink-0 text-gray-400' />
+              )}
+              <span className='flex-1 truncate text-gray-700 dark:text-gray-200'>
+                {item.title}
+              </span>
+              {item.year && (
+                <span className='text-xs text-gray-400'>{item.year}</span>
+              )}
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -1,14 +1,22 @@
 /* eslint-disable @typescript-eslint/no-explicit-any, no-console */
 'use client';
 
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 
+import { getAuthInfoFromBrowserCookie } from '@/lib/auth';
 import {
   deleteSkipConfig,
   EpisodeSkipConfig,
+  getCommunitySkipEnabled,
+  getSharedSkipConfig,
   getSkipConfig,
+  isCommunitySkipAvailable,
+  publishSkipConfig,
   saveSkipConfig,
+  setCommunitySkipEnabled,
+  SharedSkipConfig,
   SkipSegment,
+  withdrawSkipConfig,
 } from '@/lib/db.client';
 
 interface SkipControllerProps {
@@ -21,6 +29,7 @@ interface SkipControllerProps {
   isSettingMode?: boolean;
   onSettingModeChange?: (isOpen: boolean) => void;
   onNextEpisode?: () => void; // 新增：跳转下一集的回调
+  proposals?: SkipSegment[]; // 自动识别出的片头片尾建议
 }
 
 export default function SkipController({
@@ -33,8 +42,17 @@ export default function SkipController({
   isSettingMode = false,
   onSettingModeChange,
   onNextEpisode,
+  proposals = [],
 }: SkipControllerProps) {
   const [skipConfig, setSkipConfig] = useState<EpisodeSkipConfig | null>(null);
+  // 社区共享配置，仅在没有个人配置时生效
+  const [communityConfig, setCommunityConfig] = useState<SharedSkipConfig | null>(null);
+  const [useCommunitySkip, setUseCommunitySkip] = useState(true);
+  const [publishing, setPublishing] = useState(false);
+  const userName = useMemo(
+    () => getAuthInfoFromBrowserCookie()?.username || '',
+    []
+  );
   const [showSkipButton, setShowSkipButton] = useState(false);
   const [currentSkipSegment, setCurrentSkipSegment] = useState<SkipSegment | null>(null);
   const [newSegment, setNewSegment] = useState<Partial<SkipSegment>>({});
@@ -49,9 +67,15 @@ export default function SkipController({
     autoSkip: true,         // 自动跳过开关
     autoNextEpisode: true,  // 自动下一集开关
   });
+  // 已忽略的自动识别建议
+  const [dismissedProposals, setDismissedProposals] = useState<string[]>([]);
   const [showCountdown, setShowCountdown] = useState(false);
   const [countdownSeconds, setCountdownSeconds] = useState(0);
 
+  const communityAvailable = isCommunitySkipAvailable();
+  // 实际生效的配置：个人配置优先，其次为社区配置
+  const activeConfig = skipConfig || (useCommunitySkip ? communityConfig : null);
+
   const lastSkipTimeRef = useRef<number>(0);
   const skipTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const autoSkipTimeoutRef = useRef<NodeJS.Timeout | null>(null);
@@ -85,8 +109,12 @@ export default function SkipController({
   // 加载跳过配置
   const loadSkipConfig = useCallback(async () => {
     try {
-      const config = await getSkipConfig(source, id);
+      const [config, shared] = await Promise.all([
+        getSkipConfig(source, id),
+        getSharedSkipConfig(source, id),
+      ]);
       setSkipConfig(config);
+      setCommunityConfig(shared);
     } catch (err) {
       console.error('加载跳过配置失败:', err);
     }
@@ -138,9 +166,9 @@ export default function SkipController({
 
   // 检查片尾倒计时
   const checkEndingCountdown = useCallback((time: number) => {
-    if (!skipConfig?.segments?.length || !duration || !onNextEpisode) return;
+    if (!activeConfig?.segments?.length || !duration || !onNextEpisode) return;
 
-    const endingSegments = skipConfig.segments.filter(s => s.type === 'ending' && s.autoNextEpisode !== false);
+    const endingSegments = activeConfig.segments.filter(s => s.type === 'ending' && s.autoNextEpisode !== false);
     if (!endingSegments.length) return;
 
     for (const segment of endingSegments) {
@@ -153,14 +181,14 @@ export default function SkipController({
         break;
       }
     }
-  }, [skipConfig, duration, onNextEpisode, showCountdown, startEndingCountdown]);
+  }, [activeConfig, duration, onNextEpisode, showCountdown, startEndingCountdown]);
 
   // 检查当前播放时间是否在跳过区间内
   const checkSkipSegment = useCallback(
     (time: number) => {
-      if (!skipConfig?.segments?.length) return;
+      if (!activeConfig?.segments?.length) return;
 
-      const currentSegment = skipConfig.segments.find(
+      const currentSegment = activeConfig.segments.find(
         (segment) => time >= segment.start && time <= segment.end
       );
 
@@ -168,7 +196,7 @@ export default function SkipController({
         setCurrentSkipSegment(currentSegment);
         
         // 检查是否开启自动跳过
-        const hasAutoSkipSetting = skipConfig.segments.some(s => s.autoSkip !== false);
+        const hasAutoSkipSetting = activeConfig.segments.some(s => s.autoSkip !== false);
         
         if (hasAutoSkipSetting) {
           // 自动跳过：延迟1秒执行跳过
@@ -207,7 +235,7 @@ export default function SkipController({
       // 检查片尾倒计时
       checkEndingCountdown(time);
     },
-    [skipConfig, currentSkipSegment, handleAutoSkip, checkEndingCountdown]
+    [activeConfig, currentSkipSegment, handleAutoSkip, checkEndingCountdown]
   );
 
   // 执行跳过
@@ -394,6 +422,55 @@ export default function SkipController({
     }
   }, [batchSettings, duration, source, id, title, onSettingModeChange, timeToSeconds, secondsToTime]);
 
+  // 尚未采用也未被忽略的建议；已存在相近片段时不再提示
+  const proposalKey = (segment: SkipSegment) =>
+    `${segment.type}-${segment.start}-${segment.end}`;
+  const pendingProposals = proposals.filter(
+    (proposal) =>
+      !dismissedProposals.includes(proposalKey(proposal)) &&
+      !activeConfig?.segments?.some(
+        (s) =>
+          s.type === proposal.type &&
+          Math.abs(s.start - proposal.start) <= 2 &&
+          Math.abs(s.end - proposal.end) <= 2
+      )
+  );
+
+  // 采用自动识别的片段，替换同类型的已有片段
+  const handleAcceptProposal = useCallback(
+    async (proposal: SkipSegment) => {
+      const segment: SkipSegment = {
+        ...proposal,
+        autoSkip: true,
+        autoNextEpisode: proposal.type === 'ending',
+      };
+      const updatedConfig: EpisodeSkipConfig = {
+        source,
+        id,
+        title,
+        segments: [
+          ...(skipConfig?.segments || []).filter((s) => s.type !== proposal.type),
+          segment,
+        ],
+        updated_time: Date.now(),
+      };
+
+      try {
+        await saveSkipConfig(source, id, updatedConfig);
+        setSkipConfig(updatedConfig);
+        if (artPlayerRef.current?.notice) {
+          artPlayerRef.current.notice.show = `已采用自动识别的${
+            proposal.type === 'opening' ? '片头' : '片尾'
+          }`;
+        }
+      } catch (err) {
+        console.error('保存跳过片段失败:', err);
+        alert('保存失败，请重试');
+      }
+    },
+    [skipConfig, source, id, title, artPlayerRef]
+  );
+
   // 删除跳过片段
   const handleDeleteSegment = useCallback(
     async (index: number) => {
@@ -426,6 +503,49 @@ export default function SkipController({
     [skipConfig, source, id]
   );
 
+  // 切换是否使用社区跳过时间
+  const handleToggleCommunity = useCallback(async (enabled: boolean) => {
+    setUseCommunitySkip(enabled);
+    try {
+      await setCommunitySkipEnabled(enabled);
+    } catch (err) {
+      console.error('保存社区跳过设置失败:', err);
+    }
+  }, []);
+
+  // 将个人配置发布到社区
+  const handlePublish = useCallback(async () => {
+    if (!skipConfig?.segments?.length || publishing) return;
+
+    setPublishing(true);
+    try {
+      await publishSkipConfig(source, id, skipConfig);
+      await loadSkipConfig();
+      alert('已发布到社区，其他用户将默认使用这组跳过时间');
+    } catch (err) {
+      console.error('发布跳过配置失败:', err);
+      alert(err instanceof Error ? err.message : '发布失败，请重试');
+    } finally {
+      setPublishing(false);
+    }
+  }, [skipConfig, publishing, source, id, loadSkipConfig]);
+
+  // 撤回自己发布到社区的配置
+  const handleWithdraw = useCallback(async () => {
+    if (publishing || !confirm('确定要撤回发布到社区的跳过配置吗？')) return;
+
+    setPublishing(true);
+    try {
+      await withdrawSkipConfig(source, id);
+      setCommunityConfig(null);
+    } catch (err) {
+      console.error('撤回跳过配置失败:', err);
+      alert(err instanceof Error ? err.message : '撤回失败，请重试');
+    } finally {
+      setPublishing(false);
+    }
+  }, [publishing, source, id]);
+
   // 格式化时间显示
   const formatTime = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
@@ -438,6 +558,12 @@ export default function SkipController({
     loadSkipConfig();
   }, [loadSkipConfig]);
 
+  // 读取是否使用社区跳过时间的用户设置
+  useEffect(() => {
+    if (!communityAvailable) return;
+    getCommunitySkipEnabled().then(setUseCommunitySkip);
+  }, [communityAvailable]);
+
   // 监听播放时间变化
   useEffect(() => {
     if (currentTime > 0) {
@@ -504,6 +630,34 @@ export default function SkipController({
         </div>
       )}
 
+      {/* 自动识别的片头片尾建议 */}
+      {pendingProposals.length > 0 && !isSettingMode && (
+        <div className="fixed bottom-24 right-4 z-[9999] bg-black/80 text-white px-4 py-3 rounded-lg backdrop-blur-sm border border-white/20 shadow-lg animate-fade-in space-y-2">
+          {pendingProposals.map((proposal) => (
+            <div key={proposalKey(proposal)} className="flex items-center space-x-3">
+              <span className="text-sm">
+                识别到{proposal.type === 'opening' ? '片头' : '片尾'}{' '}
+                {formatTime(proposal.start)} - {formatTime(proposal.end)}
+              </span>
+              <button
+                onClick={() => handleAcceptProposal(proposal)}
+                className="px-3 py-1 bg-green-600 hover:bg-green-700 rounded text-xs font-medium transition-colors"
+              >
+                采用
+              </button>
+              <button
+                onClick={() =>
+                  setDismissedProposals((prev) => [...prev, proposalKey(proposal)])
+                }
+                className="px-2 py-1 bg-white/20 hover:bg-white/30 rounded text-xs transition-colors"
+              >
+                忽略
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* 设置模式面板 - 增强版批量设置 */}
       {isSettingMode && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[9999] p-4">
@@ -540,6 +694,26 @@ export default function SkipController({
                   </span>
                 </label>
               </div>
+              {communityAvailable && (
+                <div className="flex items-center justify-between mt-2">
+                  <label className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      checked={useCommunitySkip}
+                      onChange={(e) => handleToggleCommunity(e.target.checked)}
+                      className="rounded"
+                    />
+                    <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                      使用社区跳过时间
+                    </span>
+                  </label>
+                  {communityConfig && !skipConfig && (
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      由 {communityConfig.contributor} 分享
+                    </span>
+                  )}
+                </div>
+              )}
               <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
                 开启后将自动跳过设定的片头片尾，无需手动点击
               </p>
@@ -761,18 +935,23 @@ export default function SkipController({
         </div>
       )}
 
-      {/* 管理已有片段 - 优化布局避免重叠 */}
-      {skipConfig && skipConfig.segments && skipConfig.segments.length > 0 && !isSettingMode && (
+      {/* 管理已有片段 - 优化布局避免重叠；未设置个人配置时展示社区配置 */}
+      {activeConfig && activeConfig.segments && activeConfig.segments.length > 0 && !isSettingMode && (
         <div className="fixed bottom-4 left-4 z-[9998] max-w-sm bg-white/95 dark:bg-gray-800/95 backdrop-blur-sm rounded-lg shadow-lg border border-gray-200 dark:border-gray-600 animate-fade-in">
           <div className="p-3">
             <h4 className="font-medium mb-2 text-gray-900 dark:text-gray-100 text-sm flex items-center">
               <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 5l7 7-7 7M5 5l7 7-7 7" />
               </svg>
-              跳过配置
+              {skipConfig ? '跳过配置' : '社区跳过配置'}
             </h4>
+            {!skipConfig && communityConfig && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                由 {communityConfig.contributor} 分享，修改后将保存为你自己的配置
+              </p>
+            )}
             <div className="space-y-1">
-              {skipConfig.segments.map((segment, index) => (
+              {activeConfig.segments.map((segment, index) => (
                 <div
                   key={index}
                   className="flex items-center justify-between p-2 bg-gray-50 dark:bg-gray-700 rounded text-xs"
@@ -791,23 +970,43 @@ export default function SkipController({
                       </span>
                     )}
                   </span>
-                  <button
-                    onClick={() => handleDeleteSegment(index)}
-                    className="px-1.5 py-0.5 bg-red-500 hover:bg-red-600 text-white rounded text-xs transition-colors flex-shrink-0"
-                    title="删除"
-                  >
-                    ×
-                  </button>
+                  {skipConfig && (
+                    <button
+                      onClick={() => handleDeleteSegment(index)}
+                      className="px-1.5 py-0.5 bg-red-500 hover:bg-red-600 text-white rounded text-xs transition-colors flex-shrink-0"
+                      title="删除"
+                    >
+                      ×
+                    </button>
+                  )}
                 </div>
               ))}
             </div>
-            <div className="mt-2 pt-2 border-t border-gray-200 dark:border-gray-600">
+            <div className="mt-2 pt-2 border-t border-gray-200 dark:border-gray-600 flex space-x-2">
               <button
                 onClick={() => onSettingModeChange?.(true)}
-                className="w-full px-2 py-1 bg-blue-100 hover:bg-blue-200 dark:bg-blue-900 dark:hover:bg-blue-800 text-blue-700 dark:text-blue-300 rounded text-xs transition-colors"
+                className="flex-1 px-2 py-1 bg-blue-100 hover:bg-blue-200 dark:bg-blue-900 dark:hover:bg-blue-800 text-blue-700 dark:text-blue-300 rounded text-xs transition-colors"
               >
                 修改配置
               </button>
+              {skipConfig && communityAvailable && (
+                <button
+                  onClick={handlePublish}
+                  disabled={publishing}
+                  className="flex-1 px-2 py-1 bg-green-100 hover:bg-green-200 disabled:opacity-50 dark:bg-green-900 dark:hover:bg-green-800 text-green-700 dark:text-green-300 rounded text-xs transition-colors"
+                >
+                  {publishing ? '发布中...' : '发布到社区'}
+                </button>
+              )}
+              {communityConfig && communityConfig.contributor === userName && (
+                <button
+                  onClick={handleWithdraw}
+                  disabled={publishing}
+                  className="flex-1 px-2 py-1 bg-gray-100 hover:bg-gray-200 disabled:opacity-50 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded text-xs transition-colors"
+                >
+                  撤回社区配置
+                </button>
+              )}
             </div>
           </div>
         </div>
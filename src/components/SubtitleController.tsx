@@ -0,0 +1,411 @@
+/* eslint-disable @typescript-eslint/no-explicit-any, no-console */
+'use client';
+
+import { Captions } from 'lucide-react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import {
+  deleteSubtitle,
+  EpisodeSubtitle,
+  getSubtitle,
+  saveSubtitle,
+} from '@/lib/db.client';
+import {
+  convertToWebVtt,
+  decodeSubtitle,
+  detectSubtitleFormat,
+  MAX_SUBTITLE_SIZE,
+  shiftWebVtt,
+} from '@/lib/subtitle';
+
+// 当前生效的字幕，vtt 为未偏移的原始内容
+export interface ActiveSubtitle {
+  name: string;
+  vtt: string;
+  offset: number;
+  size: number;
+}
+
+interface SubtitleControllerProps {
+  source: string;
+  id: string;
+  episode: number; // 从 1 开始的集数
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  onChange: (subtitle: ActiveSubtitle | null) => void;
+}
+
+const DEFAULT_SIZE = 24;
+const MIN_SIZE = 12;
+const MAX_SIZE = 48;
+
+/**
+ * 将字幕加载到 ArtPlayer，传入 null 时隐藏字幕
+ */
+export async function applySubtitleToPlayer(
+  art: any,
+  subtitle: ActiveSubtitle | null
+): Promise<void> {
+  if (!art?.subtitle) return;
+  if (!subtitle) {
+    art.subtitle.show = false;
+    return;
+  }
+
+  const blobUrl = URL.createObjectURL(
+    new Blob([shiftWebVtt(subtitle.vtt, subtitle.offset)], {
+      type: 'text/vtt',
+    })
+  );
+  try {
+    await art.subtitle.switch(blobUrl, { type: 'vtt' });
+    art.subtitle.style({ fontSize: `${subtitle.size}px` });
+    art.subtitle.show = true;
+  } catch (err) {
+    console.error('加载字幕失败:', err);
+  } finally {
+    URL.revokeObjectURL(blobUrl);
+  }
+}
+
+// 远程字幕优先直接请求，跨域失败时经由服务端下载
+async function fetchSubtitleText(url: string): Promise<string> {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch {
+    response = await fetch(
+      `/api/subtitles/fetch?url=${encodeURIComponent(url)}`
+    );
+  }
+  if (!response.ok) {
+    throw new Error(`字幕下载失败: ${response.status}`);
+  }
+  return decodeSubtitle(await response.arrayBuffer());
+}
+
+async function resolveSubtitle(
+  subtitle: EpisodeSubtitle
+): Promise<ActiveSubtitle> {
+  const vtt = subtitle.url
+    ? convertToWebVtt(
+        await fetchSubtitleText(subtitle.url),
+        detectSubtitleFormat('', subtitle.url)
+      )
+    : subtitle.content || '';
+  return {
+    name: subtitle.name,
+    vtt,
+    offset: subtitle.offset,
+    size: subtitle.size,
+  };
+}
+
+/**
+ * 外挂字幕：加载本地文件或远程地址，按集保存并支持偏移与字号调整
+ */
+export default function SubtitleController({
+  source,
+  id,
+  episode,
+  isOpen,
+  onOpenChange,
+  onChange,
+}: SubtitleControllerProps) {
+  const [saved, setSaved] = useState<EpisodeSubtitle | null>(null);
+  const [active, setActive] = useState<ActiveSubtitle | null>(null);
+  const [urlInput, setUrlInput] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const saveTimerRef = useRef<NodeJS.Timeout | null>(null);
+
+  const updateActive = useCallback((next: ActiveSubtitle | null) => {
+    setActive(next);
+    onChangeRef.current(next);
+  }, []);
+
+  // 切换剧集时加载对应的字幕
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+    updateActive(null);
+    setSaved(null);
+
+    if (!source || !id) return;
+    getSubtitle(source, id, episode).then(async (subtitle) => {
+      if (cancelled || !subtitle) return;
+      setSaved(subtitle);
+      try {
+        const resolved = await resolveSubtitle(subtitle);
+        if (!cancelled) updateActive(resolved);
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : '字幕加载失败');
+        }
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [source, id, episode, updateActive]);
+
+  useEffect(() => {
+    return () => {
+      if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    };
+  }, []);
+
+  const persist = useCallback(
+    async (subtitle: EpisodeSubtitle) => {
+      try {
+        await saveSubtitle(source, id, episode, subtitle);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : '字幕保存失败');
+      }
+    },
+    [source, id, episode]
+  );
+
+  const loadSubtitle = async (
+    name: string,
+    text: string,
+    url?: string
+  ): Promise<void> => {
+    const vtt = convertToWebVtt(text, detectSubtitleFormat(text, name));
+    const size = active?.size || DEFAULT_SIZE;
+    const subtitle: EpisodeSubtitle = {
+      name,
+      url,
+      content: url ? undefined : vtt,
+      offset: 0,
+      size,
+      updated_time: Date.now(),
+    };
+    updateActive({ name, vtt, offset: 0, size });
+    setSaved(subtitle);
+    await persist(subtitle);
+  };
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    if (file.size > MAX_SUBTITLE_SIZE) {
+      setError('字幕文件过大');
+      return;
+    }
+    setLoading(true);
+    try {
+      await loadSubtitle(file.name, decodeSubtitle(await file.arrayBuffer()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '字幕加载失败');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUrl = async () => {
+    const url = urlInput.trim();
+    if (!/^https?:\/\//i.test(url)) {
+      setError('请输入 http(s) 开头的字幕地址');
+      return;
+    }
+    setError(null);
+    setLoading(true);
+    try {
+      const name = decodeURIComponent(
+        new URL(url).pathname.split('/').pop() || url
+      );
+      await loadSubtitle(name, await fetchSubtitleText(url), url);
+      setUrlInput('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '字幕加载失败');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // 偏移与字号即时生效，停止调整后再保存
+  const adjust = (
+    changes: Partial<Pick<ActiveSubtitle, 'offset' | 'size'>>
+  ) => {
+    if (!active || !saved) return;
+    const next = { ...active, ...changes };
+    updateActive(next);
+    const nextSaved = {
+      ...saved,
+      offset: next.offset,
+      size: next.size,
+      updated_time: Date.now(),
+    };
+    setSaved(nextSaved);
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = setTimeout(() => persist(nextSaved), 800);
+  };
+
+  const handleRemove = async () => {
+    updateActive(null);
+    setSaved(null);
+    try {
+      await deleteSubtitle(source, id, episode);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '字幕移除失败');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const buttonClassName =
+    'px-2 py-1 rounded bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-sm text-gray-700 dark:text-gray-300 transition-colors';
+
+  return (
+    <div className='fixed inset-0 bg-black/50 flex items-center justify-center z-[9999] p-4'>
+      <div className='bg-white dark:bg-gray-800 rounded-lg p-6 w-full max-w-md space-y-5'>
+        <div className='flex items-center justify-between'>
+          <h3 className='text-lg font-semibold text-gray-900 dark:text-gray-100'>
+            外挂字幕（第 {episode} 集）
+          </h3>
+          <button
+            onClick={() => onOpenChange(false)}
+            className='text-gray-400 hover:text-gray-600 dark:hover:text-gray-200'
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className='text-sm text-gray-600 dark:text-gray-400 truncate'>
+          当前字幕：{active ? active.name : saved ? saved.name : '未加载'}
+        </div>
+
+        {/* 加载字幕 */}
+        <div className='space-y-3'>
+          <label className='block'>
+            <span className='block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300'>
+              本地文件（SRT / VTT / ASS）
+            </span>
+            <input
+              type='file'
+              accept='.srt,.vtt,.ass,.ssa'
+              disabled={loading}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = '';
+              }}
+              className='block w-full text-sm text-gray-600 dark:text-gray-400 file:mr-3 file:px-3 file:py-1 file:rounded file:border-0 file:bg-green-600 file:text-white hover:file:bg-green-700'
+            />
+          </label>
+          <div>
+            <span className='block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300'>
+              字幕地址
+            </span>
+            <div className='flex gap-2'>
+              <input
+                type='url'
+                value={urlInput}
+                onChange={(e) => setUrlInput(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleUrl()}
+                placeholder='https://example.com/episode.srt'
+                className='flex-1 px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100'
+              />
+              <button
+                onClick={handleUrl}
+                disabled={loading}
+                className='px-3 py-1.5 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white rounded text-sm transition-colors'
+              >
+                {loading ? '加载中...' : '加载'}
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* 偏移与字号 */}
+        {active && (
+          <div className='space-y-3 border-t border-gray-200 dark:border-gray-600 pt-4'>
+            <div className='flex items-center justify-between'>
+              <span className='text-sm text-gray-700 dark:text-gray-300'>
+                时间偏移
+              </span>
+              <div className='flex items-center gap-2'>
+                <button
+                  onClick={() => adjust({ offset: active.offset - 0.5 })}
+                  className={buttonClassName}
+                >
+                  -0.5s
+                </button>
+                <input
+                  type='number'
+                  step='0.1'
+                  value={active.offset}
+                  onChange={(e) =>
+                    adjust({ offset: parseFloat(e.target.value) || 0 })
+                  }
+                  className='w-20 px-2 py-1 text-sm text-center border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100'
+                />
+                <button
+                  onClick={() => adjust({ offset: active.offset + 0.5 })}
+                  className={buttonClassName}
+                >
+                  +0.5s
+                </button>
+              </div>
+            </div>
+            <p className='text-xs text-gray-500 dark:text-gray-400'>
+              正数表示字幕延后出现，负数表示提前
+            </p>
+            <div className='flex items-center justify-between gap-4'>
+              <span className='text-sm text-gray-700 dark:text-gray-300'>
+                字号 {active.size}px
+              </span>
+              <input
+                type='range'
+                min={MIN_SIZE}
+                max={MAX_SIZE}
+                value={active.size}
+                onChange={(e) => adjust({ size: Number(e.target.value) })}
+                className='flex-1'
+              />
+            </div>
+          </div>
+        )}
+
+        {error && <p className='text-sm text-red-500'>{error}</p>}
+
+        {(active || saved) && (
+          <button
+            onClick={handleRemove}
+            className='w-full py-1.5 text-sm rounded border border-gray-200 text-gray-600 hover:text-red-500 hover:border-red-300 dark:border-gray-700 dark:text-gray-400 dark:hover:text-red-400'
+          >
+            移除本集字幕
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// 导出字幕设置按钮组件
+export function SubtitleSettingsButton({
+  onClick,
+  active,
+}: {
+  onClick: () => void;
+  active: boolean;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className={`flex items-center space-x-1 px-3 py-1.5 rounded text-sm transition-colors ${
+        active
+          ? 'bg-green-100 hover:bg-green-200 text-green-700 dark:bg-green-900/40 dark:hover:bg-green-900/60 dark:text-green-300'
+          : 'bg-gray-100 hover:bg-gray-200 text-gray-700 dark:bg-gray-700 dark:hover:bg-gray-600 dark:text-gray-300'
+      }`}
+      title='加载外挂字幕'
+    >
+      <Captions className='w-4 h-4' />
+      <span>字幕</span>
+    </button>
+  );
+}
@@ -2,12 +2,29 @@
 
 'use client';
 
-import { Filter, KeyRound, LogOut, Settings, Shield, User, X } from 'lucide-react';
+import {
+  Download,
+  FileDown,
+  FileUp,
+  Filter,
+  KeyRound,
+  LogOut,
+  Settings,
+  Shield,
+  User,
+  X,
+} from 'lucide-react';
 import { useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react';
 import { createPortal } from 'react-dom';
 
 import { getAuthInfoFromBrowserCookie } from '@/lib/auth';
+import {
+  exportUserData,
+  importUserData,
+  savePlayerPreferences,
+} from '@/lib/db.client';
+import { UserDataImportMode, UserDataImportResult } from '@/lib/userData';
 import { checkForUpdates, CURRENT_VERSION, UpdateStatus } from '@/lib/version';
 
 interface AuthInfo {
@@ -20,6 +37,7 @@ export const UserMenu: React.FC = () => {
   const [isOpen, setIsOpen] = useState(false);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [isChangePasswordOpen, setIsChangePasswordOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
   const [authInfo, setAuthInfo] = useState<AuthInfo | null>(null);
   const [storageType, setStorageType] = useState<string>('localstorage');
   const [mounted, setMounted] = useState(false);
@@ -38,6 +56,15 @@ export const UserMenu: React.FC = () => {
   const [passwordLoading, setPasswordLoading] = useState(false);
   const [passwordError, setPasswordError] = useState('');
 
+  // 数据导入相关状态
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importMode, setImportMode] = useState<UserDataImportMode>('merge');
+  const [importLoading, setImportLoading] = useState(false);
+  const [importError, setImportError] = useState('');
+  const [importResult, setImportResult] = useState<UserDataImportResult | null>(
+    null
+  );
+
   // 版本检查相关状态
   const [updateStatus, setUpdateStatus] = useState<UpdateStatus | null>(null);
   const [isChecking, setIsChecking] = useState(true);
@@ -219,10 +246,78 @@ export const UserMenu: React.FC = () => {
     setIsOpen(false);
     // 跳转到内容过滤设置页面
     router.push('/settings');
-  };  const handleCloseSettings = () => {
+  };
+
+  // 跳转到离线下载页面
+  const handleDownloads = () => {
+    setIsOpen(false);
+    router.push('/downloads');
+  };
+
+  const handleCloseSettings = () => {
     setIsSettingsOpen(false);
   };
 
+  // 导出数据为 JSON 文件
+  const handleExportData = async () => {
+    setIsOpen(false);
+    try {
+      const bundle = await exportUserData();
+      const blob = new Blob([JSON.stringify(bundle, null, 2)], {
+        type: 'application/json',
+      });
+      const date = new Date(bundle.exported_at).toISOString().slice(0, 10);
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = `katelyatv-${bundle.username || 'local'}-${date}.json`;
+      link.click();
+      URL.revokeObjectURL(link.href);
+    } catch (error) {
+      console.error('导出数据失败:', error);
+      alert(error instanceof Error ? error.message : '导出数据失败');
+    }
+  };
+
+  const handleImportData = () => {
+    setIsOpen(false);
+    setIsImportOpen(true);
+    setImportFile(null);
+    setImportMode('merge');
+    setImportError('');
+    setImportResult(null);
+  };
+
+  const handleCloseImport = () => {
+    setIsImportOpen(false);
+  };
+
+  const handleSubmitImport = async () => {
+    if (!importFile) return;
+    if (
+      importMode === 'overwrite' &&
+      !confirm('覆盖导入会删除备份中没有的播放记录、收藏等数据，确定继续？')
+    ) {
+      return;
+    }
+
+    setImportError('');
+    setImportResult(null);
+    setImportLoading(true);
+    try {
+      let data: unknown;
+      try {
+        data = JSON.parse(await importFile.text());
+      } catch {
+        throw new Error('文件不是有效的 JSON');
+      }
+      setImportResult(await importUserData(data, importMode));
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : '导入数据失败');
+    } finally {
+      setImportLoading(false);
+    }
+  };
+
   // 设置相关的处理函数
   const handleAggregateToggle = (value: boolean) => {
     setDefaultAggregateSearch(value);
@@ -247,9 +342,10 @@ export const UserMenu: React.FC = () => {
 
   const handleOptimizationToggle = (value: boolean) => {
     setEnableOptimization(value);
-    if (typeof window !== 'undefined') {
-      localStorage.setItem('enableOptimization', JSON.stringify(value));
-    }
+    // 优选和测速属于播放器偏好，同步到用户设置
+    savePlayerPreferences({ speed_test: value }).catch((err) =>
+      console.error('保存优选和测速设置失败:', err)
+    );
   };
 
   const handleImageProxyToggle = (value: boolean) => {
@@ -280,7 +376,9 @@ export const UserMenu: React.FC = () => {
 
     if (typeof window !== 'undefined') {
       localStorage.setItem('defaultAggregateSearch', JSON.stringify(true));
-      localStorage.setItem('enableOptimization', JSON.stringify(true));
+      savePlayerPreferences({ speed_test: true }).catch((err) =>
+        console.error('保存优选和测速设置失败:', err)
+      );
       localStorage.setItem('doubanProxyUrl', defaultDoubanProxy);
       localStorage.setItem(
         'enableDoubanProxy',
@@ -378,6 +476,33 @@ export const UserMenu: React.FC = () => {
             <span className='font-medium'>内容过滤</span>
           </button>
 
+          {/* 离线下载按钮 */}
+          <button
+            onClick={handleDownloads}
+            className='w-full px-3 py-2 text-left flex items-center gap-2.5 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors text-sm'
+          >
+            <Download className='w-4 h-4 text-gray-500 dark:text-gray-400' />
+            <span className='font-medium'>离线下载</span>
+          </button>
+
+          {/* 导出数据按钮 */}
+          <button
+            onClick={handleExportData}
+            className='w-full px-3 py-2 text-left flex items-center gap-2.5 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors text-sm'
+          >
+            <FileDown className='w-4 h-4 text-gray-500 dark:text-gray-400' />
+            <span className='font-medium'>导出数据</span>
+          </button>
+
+          {/* 导入数据按钮 */}
+          <button
+            onClick={handleImportData}
+            className='w-full px-3 py-2 text-left flex items-center gap-2.5 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors text-sm'
+          >
+            <FileUp className='w-4 h-4 text-gray-500 dark:text-gray-400' />
+            <span className='font-medium'>导入数据</span>
+          </button>
+
           {/* 管理面板按钮 */}
           {showAdminPanel && (
             <button
@@ -734,6 +859,139 @@ export const UserMenu: React.FC = () => {
     </>
   );
 
+  // 导入数据面板内容
+  const importPanel = (
+    <>
+      {/* 背景遮罩 */}
+      <div
+        className='fixed inset-0 bg-black/50 backdrop-blur-sm z-[1000]'
+        onClick={handleCloseImport}
+      />
+
+      {/* 导入数据面板 */}
+      <div className='fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-full max-w-md bg-white dark:bg-gray-900 rounded-xl shadow-xl z-[1001] p-6'>
+        {/* 标题栏 */}
+        <div className='flex items-center justify-between mb-6'>
+          <h3 className='text-xl font-bold text-gray-800 dark:text-gray-200'>
+            导入数据
+          </h3>
+          <button
+            onClick={handleCloseImport}
+            className='w-8 h-8 p-1 rounded-full flex items-center justify-center text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors'
+            aria-label='Close'
+          >
+            <X className='w-full h-full' />
+          </button>
+        </div>
+
+        <div className='space-y-4'>
+          {/* 备份文件 */}
+          <div>
+            <label className='block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2'>
+              备份文件
+            </label>
+            <input
+              type='file'
+              accept='application/json,.json'
+              className='w-full text-sm text-gray-700 dark:text-gray-300 file:mr-3 file:px-3 file:py-1.5 file:rounded-md file:border-0 file:text-sm file:bg-gray-100 dark:file:bg-gray-800 file:text-gray-700 dark:file:text-gray-300'
+              onChange={(e) => {
+                setImportFile(e.target.files?.[0] || null);
+                setImportResult(null);
+                setImportError('');
+              }}
+              disabled={importLoading}
+            />
+          </div>
+
+          {/* 导入方式 */}
+          <div>
+            <label className='block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2'>
+              导入方式
+            </label>
+            <div className='space-y-2'>
+              {(
+                [
+                  ['merge', '合并', '同一条目保留保存时间较新的一份'],
+                  ['overwrite', '覆盖', '以备份为准，删除备份中没有的数据'],
+                ] as const
+              ).map(([mode, label, description]) => (
+                <label
+                  key={mode}
+                  className='flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer'
+                >
+                  <input
+                    type='radio'
+                    name='import-mode'
+                    className='mt-0.5'
+                    checked={importMode === mode}
+                    onChange={() => setImportMode(mode)}
+                    disabled={importLoading}
+                  />
+                  <span>
+                    <span className='font-medium'>{label}</span>
+                    <span className='block text-xs text-gray-500 dark:text-gray-400'>
+                      {description}
+                    </span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {/* 错误信息 */}
+          {importError && (
+            <div className='text-red-500 text-sm bg-red-50 dark:bg-red-900/20 p-3 rounded-md border border-red-200 dark:border-red-800'>
+              {importError}
+            </div>
+          )}
+
+          {/* 导入结果 */}
+          {importResult && (
+            <div className='text-sm text-green-700 dark:text-green-300 bg-green-50 dark:bg-green-900/20 p-3 rounded-md border border-green-200 dark:border-green-800 space-y-1'>
+              <p>
+                已导入播放记录 {importResult.play_records} 条、收藏{' '}
+                {importResult.favorites} 条、跳过配置{' '}
+                {importResult.skip_configs} 条、字幕 {importResult.subtitles}{' '}
+                条、搜索历史 {importResult.search_history} 条
+                {importResult.settings && '，以及用户设置'}
+              </p>
+              {(importResult.skipped > 0 ||
+                importResult.removed > 0 ||
+                importResult.invalid > 0) && (
+                <p className='text-xs text-gray-500 dark:text-gray-400'>
+                  {importResult.skipped > 0 &&
+                    `本地较新而跳过 ${importResult.skipped} 条；`}
+                  {importResult.removed > 0 &&
+                    `删除 ${importResult.removed} 条；`}
+                  {importResult.invalid > 0 &&
+                    `格式错误忽略 ${importResult.invalid} 条`}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* 操作按钮 */}
+        <div className='flex gap-3 mt-6 pt-4 border-t border-gray-200 dark:border-gray-700'>
+          <button
+            onClick={handleCloseImport}
+            className='flex-1 px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-md transition-colors'
+            disabled={importLoading}
+          >
+            {importResult ? '完成' : '取消'}
+          </button>
+          <button
+            onClick={handleSubmitImport}
+            className='flex-1 px-4 py-2 text-sm font-medium text-white bg-green-600 hover:bg-green-700 dark:bg-green-700 dark:hover:bg-green-600 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed'
+            disabled={importLoading || !importFile}
+          >
+            {importLoading ? '导入中...' : '开始导入'}
+          </button>
+        </div>
+      </div>
+    </>
+  );
+
   return (
     <>
       <div className='relative'>
@@ -759,6 +1017,9 @@ export const UserMenu: React.FC = () => {
       {isChangePasswordOpen &&
         mounted &&
         createPortal(changePasswordPanel, document.body)}
+
+      {/* 使用 Portal 将导入数据面板渲染到 document.body */}
+      {isImportOpen && mounted && createPortal(importPanel, document.body)}
     </>
   );
 };
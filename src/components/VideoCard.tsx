@@ -3,6 +3,7 @@ import Image from 'next/image';
 import { useRouter } from 'next/navigation';
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
 
+import { toAggregatedResult } from '@/lib/aggregate';
 import {
   type Favorite,
   deleteFavorite,
@@ -13,7 +14,7 @@ import {
   subscribeToDataUpdates,
 } from '@/lib/db.client';
 import { SearchResult } from '@/lib/types';
-import { processImageUrl } from '@/lib/utils';
+import { getEpisodeLabel, processImageUrl } from '@/lib/utils';
 
 import { ImagePlaceholder } from '@/components/ImagePlaceholder';
 
@@ -29,6 +30,7 @@ interface VideoCardProps {
   year?: string;
   from: 'playrecord' | 'favorite' | 'search' | 'douban';
   currentEpisode?: number;
+  currentEpisodeTitle?: string;
   douban_id?: string;
   onDelete?: () => void;
   rate?: string;
@@ -36,6 +38,11 @@ interface VideoCardProps {
   type?: string;
 }
 
+// 角标显示进度：数字标签显示为 "3/12"，"SP2"、"花絮" 等标签直接显示
+function formatEpisodeProgress(label: string, total: number): string {
+  return /^\d+$/.test(label) ? `${label}/${total}` : label;
+}
+
 export default function VideoCard({
   id,
   title = '',
@@ -48,6 +55,7 @@ export default function VideoCard({
   year,
   from,
   currentEpisode,
+  currentEpisodeTitle,
   douban_id,
   onDelete,
   rate,
@@ -62,41 +70,18 @@ export default function VideoCard({
 
   const aggregateData = useMemo(() => {
     if (!isAggregate || !items) return null;
-    const countMap = new Map<string | number, number>();
-    const episodeCountMap = new Map<number, number>();
-    items.forEach((item) => {
-      if (item.douban_id && item.douban_id !== 0) {
-        countMap.set(item.douban_id, (countMap.get(item.douban_id) || 0) + 1);
-      }
-      const len = item.episodes?.length || 0;
-      if (len > 0) {
-        episodeCountMap.set(len, (episodeCountMap.get(len) || 0) + 1);
-      }
-    });
-
-    const getMostFrequent = <T extends string | number>(
-      map: Map<T, number>
-    ) => {
-      let maxCount = 0;
-      let result: T | undefined;
-      map.forEach((cnt, key) => {
-        if (cnt > maxCount) {
-          maxCount = cnt;
-          result = key;
-        }
-      });
-      return result;
-    };
-
+    const aggregated = toAggregatedResult(items);
     return {
       first: items[0],
-      mostFrequentDoubanId: getMostFrequent(countMap),
-      mostFrequentEpisodes: getMostFrequent(episodeCountMap) || 0,
+      poster: aggregated.poster,
+      mostFrequentDoubanId: aggregated.douban_id,
+      mostFrequentEpisodes: aggregated.episodes,
+      sourceCount: new Set(items.map((item) => item.source)).size,
     };
   }, [isAggregate, items]);
 
   const actualTitle = aggregateData?.first.title ?? title;
-  const actualPoster = aggregateData?.first.poster ?? poster;
+  const actualPoster = aggregateData?.poster || poster;
   const actualSource = aggregateData?.first.source ?? source;
   const actualId = aggregateData?.first.id ?? id;
   const actualDoubanId = String(
@@ -333,11 +318,21 @@ export default function VideoCard({
         {actualEpisodes && actualEpisodes > 1 && (
           <div className='absolute top-2 right-2 bg-green-500 text-white text-xs font-semibold px-2 py-1 rounded-md shadow-md transition-all duration-300 ease-out group-hover:scale-110'>
             {currentEpisode
-              ? `${currentEpisode}/${actualEpisodes}`
+              ? formatEpisodeProgress(
+                  getEpisodeLabel(currentEpisodeTitle, currentEpisode),
+                  actualEpisodes
+                )
               : actualEpisodes}
           </div>
         )}
 
+        {/* 聚合来源数量 */}
+        {aggregateData && aggregateData.sourceCount > 1 && (
+          <div className='absolute bottom-2 left-2 bg-black/60 text-white text-xs font-medium px-2 py-0.5 rounded-md shadow-md backdrop-blur-sm transition-all duration-300 ease-out group-hover:opacity-0'>
+            {aggregateData.sourceCount} 源
+          </div>
+        )}
+
         {/* 豆瓣链接 */}
         {config.showDoubanLink && actualDoubanId && (
           <a
@@ -0,0 +1,647 @@
+/* eslint-disable @typescript-eslint/no-explicit-any, no-console */
+'use client';
+
+import { Copy, Crown, Users } from 'lucide-react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+import { getAuthInfoFromBrowserCookie } from '@/lib/auth';
+import {
+  createWatchRoom,
+  getWatchRoomState,
+  manageWatchRoom,
+  updateWatchRoomState,
+  WatchRoom,
+} from '@/lib/db.client';
+
+// 轮询房间状态的间隔
+const POLL_INTERVAL_MS = 2000;
+// 播放进度与房间状态相差超过该秒数时校正
+const DRIFT_TOLERANCE = 2;
+// 应用房间状态后的一段时间内忽略本地播放事件，避免回传
+const SUPPRESS_MS = 1000;
+// 本地播放事件合并上报的延迟（拖动进度时会连续触发暂停、跳转、播放）
+const REPORT_DEBOUNCE_MS = 300;
+// 提示信息显示时长
+const NOTICE_MS = 4000;
+
+/**
+ * 根据房间状态推算当前应播放到的进度，clockOffset 为服务器与本地的时间差
+ */
+function expectedPosition(room: WatchRoom, clockOffset: number): number {
+  if (!room.playing) return room.position;
+  const elapsed = (Date.now() + clockOffset - room.state_time) / 1000;
+  return room.position + Math.max(0, elapsed) * room.rate;
+}
+
+export interface WatchRoomVideo {
+  source: string;
+  id: string;
+  title: string;
+  episode: number; // 从 1 开始的集数
+}
+
+interface UseWatchRoomOptions {
+  roomId: string | null;
+  artPlayerRef: React.MutableRefObject<any>;
+  video: WatchRoomVideo;
+  // 房间切换了视频或集数时调用，由播放页完成切换
+  onNavigate: (video: WatchRoomVideo) => void;
+  // 创建、离开或房间关闭时调用，由播放页同步地址栏
+  onRoomChange: (roomId: string | null) => void;
+}
+
+export interface WatchRoomControls {
+  room: WatchRoom | null;
+  members: string[];
+  userName: string;
+  isHost: boolean;
+  canControl: boolean;
+  notice: string | null;
+  busy: boolean;
+  create: () => Promise<void>;
+  leave: () => Promise<void>;
+  close: () => Promise<void>;
+  kick: (userName: string) => Promise<void>;
+  transfer: (userName: string) => Promise<void>;
+  setHostOnly: (hostOnly: boolean) => Promise<void>;
+  // 播放器的播放、暂停、跳转与倍速事件中调用
+  reportPlayback: () => void;
+}
+
+/**
+ * 一起看：轮询房间状态并同步本地播放器，有控制权时上报本地播放操作
+ */
+export function useWatchRoom({
+  roomId,
+  artPlayerRef,
+  video,
+  onNavigate,
+  onRoomChange,
+}: UseWatchRoomOptions): WatchRoomControls {
+  const [room, setRoom] = useState<WatchRoom | null>(null);
+  const [members, setMembers] = useState<string[]>([]);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const userName = useMemo(
+    () => getAuthInfoFromBrowserCookie()?.username || '',
+    []
+  );
+
+  const roomRef = useRef<WatchRoom | null>(null);
+  const videoRef = useRef(video);
+  videoRef.current = video;
+  const onNavigateRef = useRef(onNavigate);
+  onNavigateRef.current = onNavigate;
+  const onRoomChangeRef = useRef(onRoomChange);
+  onRoomChangeRef.current = onRoomChange;
+
+  // 服务器时间与本地时间之差，用于推算当前应播放到的进度
+  const clockOffsetRef = useRef(0);
+  // 已应用的房间状态版本，较旧的轮询结果直接丢弃
+  const lastVersionRef = useRef(0);
+  const reportingRef = useRef(false);
+  // 本地视频与房间一致后才上报本地的换集换源，避免加入时用本地状态覆盖房间
+  const syncedRef = useRef(false);
+  const suppressUntilRef = useRef(0);
+  const reportTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const noticeTimerRef = useRef<NodeJS.Timeout | null>(null);
+
+  const showNotice = useCallback((message: string) => {
+    setNotice(message);
+    if (noticeTimerRef.current) clearTimeout(noticeTimerRef.current);
+    noticeTimerRef.current = setTimeout(() => setNotice(null), NOTICE_MS);
+  }, []);
+
+  const canControlRoom = useCallback(
+    (r: WatchRoom) => r.host === userName || !r.host_only,
+    [userName]
+  );
+
+  const updateRoom = useCallback((r: WatchRoom | null) => {
+    roomRef.current = r;
+    setRoom(r);
+  }, []);
+
+  const resetRoom = useCallback(() => {
+    updateRoom(null);
+    setMembers([]);
+    lastVersionRef.current = 0;
+    syncedRef.current = false;
+  }, [updateRoom]);
+
+  // 上报本地播放状态，extra 用于换集换源等附加字段
+  const sendState = useCallback(
+    async (extra: Record<string, unknown> = {}) => {
+      const r = roomRef.current;
+      const art = artPlayerRef.current;
+      if (!r) return;
+
+      reportingRef.current = true;
+      try {
+        const updated = await updateWatchRoomState(r.id, {
+          ...(art
+            ? {
+                playing: !art.paused,
+                position: art.currentTime || 0,
+                rate: art.playbackRate || 1,
+              }
+            : {}),
+          ...extra,
+        });
+        lastVersionRef.current = updated.version;
+        updateRoom(updated);
+      } catch (err) {
+        console.error('同步播放状态失败:', err);
+        showNotice(err instanceof Error ? err.message : '同步播放状态失败');
+      } finally {
+        reportingRef.current = false;
+      }
+    },
+    [artPlayerRef, showNotice, updateRoom]
+  );
+
+  const reportPlayback = useCallback(() => {
+    const r = roomRef.current;
+    if (!r || !canControlRoom(r) || Date.now() < suppressUntilRef.current) {
+      return;
+    }
+    if (reportTimerRef.current) clearTimeout(reportTimerRef.current);
+    reportTimerRef.current = setTimeout(() => {
+      reportTimerRef.current = null;
+      sendState();
+    }, REPORT_DEBOUNCE_MS);
+  }, [canControlRoom, sendState]);
+
+  // 将房间状态应用到本地播放器
+  const applyRoom = useCallback(
+    (r: WatchRoom) => {
+      const changed = r.version !== lastVersionRef.current;
+      const current = videoRef.current;
+      if (
+        r.source !== current.source ||
+        r.video_id !== current.id ||
+        r.episode !== current.episode
+      ) {
+        lastVersionRef.current = r.version;
+        syncedRef.current = false;
+        onNavigateRef.current({
+          source: r.source,
+          id: r.video_id,
+          title: r.title,
+          episode: r.episode,
+        });
+        return;
+      }
+
+      syncedRef.current = true;
+
+      const art = artPlayerRef.current;
+      if (!art || !art.duration) return;
+      lastVersionRef.current = r.version;
+
+      const expected = expectedPosition(r, clockOffsetRef.current);
+      const drift = Math.abs((art.currentTime || 0) - expected);
+      const stateMismatch = art.paused === r.playing;
+
+      // 房主的播放器即为房间状态：仅跟随他人的操作，自身偏差（如缓冲）时重新上报
+      if (r.host === userName && !(changed && r.updated_by !== userName)) {
+        if (drift > DRIFT_TOLERANCE || stateMismatch) {
+          reportPlayback();
+        }
+        return;
+      }
+
+      if (!changed && drift <= DRIFT_TOLERANCE && !stateMismatch) return;
+
+      suppressUntilRef.current = Date.now() + SUPPRESS_MS;
+      if (art.playbackRate !== r.rate) {
+        art.playbackRate = r.rate;
+      }
+      if (drift > DRIFT_TOLERANCE) {
+        art.currentTime = expected;
+      }
+      if (r.playing && art.paused) {
+        Promise.resolve(art.play()).catch(() =>
+          showNotice('浏览器阻止了自动播放，请点击播放以加入同步')
+        );
+      } else if (!r.playing && !art.paused) {
+        art.pause();
+      }
+    },
+    [artPlayerRef, reportPlayback, showNotice, userName]
+  );
+
+  // 轮询房间状态
+  useEffect(() => {
+    if (!roomId) {
+      resetRoom();
+      return;
+    }
+
+    let stopped = false;
+    let timer: NodeJS.Timeout | null = null;
+
+    const poll = async () => {
+      try {
+        const result = await getWatchRoomState(roomId);
+        if (stopped) return;
+        if (result.closed) {
+          showNotice(result.reason);
+          resetRoom();
+          onRoomChangeRef.current(null);
+          return;
+        }
+
+        clockOffsetRef.current = result.server_time - Date.now();
+        setMembers(result.members);
+        // 上报进行中或结果早于已应用的版本时，等待下一次轮询
+        if (
+          !reportingRef.current &&
+          result.room.version >= lastVersionRef.current
+        ) {
+          updateRoom(result.room);
+          applyRoom(result.room);
+        }
+      } catch (err) {
+        console.error('获取房间状态失败:', err);
+      }
+      if (!stopped) {
+        timer = setTimeout(poll, POLL_INTERVAL_MS);
+      }
+    };
+
+    poll();
+    return () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [roomId, applyRoom, resetRoom, showNotice, updateRoom]);
+
+  // 有控制权的成员切换集数或资源站时同步到房间
+  useEffect(() => {
+    const r = roomRef.current;
+    if (!r || !syncedRef.current || !canControlRoom(r)) return;
+    if (
+      r.source === video.source &&
+      r.video_id === video.id &&
+      r.episode === video.episode
+    ) {
+      return;
+    }
+    sendState({
+      source: video.source,
+      id: video.id,
+      title: video.title,
+      episode: video.episode,
+      position: 0,
+      playing: true,
+    });
+  }, [
+    video.source,
+    video.id,
+    video.title,
+    video.episode,
+    canControlRoom,
+    sendState,
+  ]);
+
+  useEffect(() => {
+    return () => {
+      if (reportTimerRef.current) clearTimeout(reportTimerRef.current);
+      if (noticeTimerRef.current) clearTimeout(noticeTimerRef.current);
+    };
+  }, []);
+
+  const runAction = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (err) {
+      console.error('房间操作失败:', err);
+      showNotice(err instanceof Error ? err.message : '房间操作失败');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const create = () =>
+    runAction(async () => {
+      const current = videoRef.current;
+      const art = artPlayerRef.current;
+      const snapshot = await createWatchRoom({
+        ...current,
+        position: art?.currentTime || 0,
+      });
+      clockOffsetRef.current = snapshot.server_time - Date.now();
+      lastVersionRef.current = snapshot.room.version;
+      syncedRef.current = true;
+      updateRoom(snapshot.room);
+      setMembers(snapshot.members);
+      onRoomChangeRef.current(snapshot.room.id);
+      // 创建后立即同步当前的播放状态
+      await sendState();
+    });
+
+  const leave = () =>
+    runAction(async () => {
+      const r = roomRef.current;
+      if (r) await manageWatchRoom(r.id, 'leave');
+      resetRoom();
+      onRoomChangeRef.current(null);
+    });
+
+  const close = () =>
+    runAction(async () => {
+      const r = roomRef.current;
+      if (r) await manageWatchRoom(r.id, 'close');
+      resetRoom();
+      onRoomChangeRef.current(null);
+    });
+
+  const manage = (
+    action: 'kick' | 'transfer' | 'settings',
+    options: { username?: string; host_only?: boolean }
+  ) =>
+    runAction(async () => {
+      const r = roomRef.current;
+      if (!r) return;
+      const updated = await manageWatchRoom(r.id, action, options);
+      if (updated) updateRoom(updated);
+      if (action === 'kick') {
+        setMembers((list) => list.filter((name) => name !== options.username));
+      }
+    });
+
+  return {
+    room,
+    members,
+    userName,
+    isHost: !!room && room.host === userName,
+    canControl: !!room && canControlRoom(room),
+    notice,
+    busy,
+    create,
+    leave,
+    close,
+    kick: (target) => manage('kick', { username: target }),
+    transfer: (target) => manage('transfer', { username: target }),
+    setHostOnly: (hostOnly) => manage('settings', { host_only: hostOnly }),
+    reportPlayback,
+  };
+}
+
+/**
+ * 播放器左上角的房间成员列表
+ */
+export function WatchRoomOverlay({
+  controls,
+}: {
+  controls: WatchRoomControls;
+}) {
+  const [expanded, setExpanded] = useState(true);
+  const { room, members, notice } = controls;
+
+  if (!room && !notice) return null;
+
+  return (
+    <div className='absolute top-3 left-3 z-[400] max-w-[60%] space-y-2 pointer-events-none'>
+      {room && (
+        <div className='pointer-events-auto rounded-lg bg-black/60 backdrop-blur-sm text-white text-xs'>
+          <button
+            onClick={() => setExpanded(!expanded)}
+            className='flex items-center gap-1.5 px-2.5 py-1.5'
+            title={expanded ? '收起成员列表' : '展开成员列表'}
+          >
+            <Users className='w-3.5 h-3.5' />
+            <span>
+              一起看 · {members.length} 人在线
+              {room.host_only ? '' : ' · 共同控制'}
+            </span>
+          </button>
+          {expanded && (
+            <ul className='px-2.5 pb-2 space-y-1'>
+              {members.map((name) => (
+                <li key={name} className='flex items-center gap-1.5'>
+                  <span className='w-1.5 h-1.5 rounded-full bg-green-400'></span>
+                  <span className='truncate'>{name}</span>
+                  {name === room.host && (
+                    <Crown className='w-3 h-3 text-yellow-400 flex-shrink-0' />
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+      {notice && (
+        <div className='rounded-lg bg-black/70 px-2.5 py-1.5 text-xs text-white'>
+          {notice}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * 一起看设置面板：创建房间、分享链接与房主管理
+ */
+export default function WatchRoomPanel({
+  controls,
+  isOpen,
+  onOpenChange,
+}: {
+  controls: WatchRoomControls;
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+}) {
+  const [copied, setCopied] = useState(false);
+  const { room, members, userName, isHost, busy } = controls;
+
+  if (!isOpen) return null;
+
+  const shareLink = (() => {
+    if (!room || typeof window === 'undefined') return '';
+    const url = new URL('/play', window.location.origin);
+    url.searchParams.set('source', room.source);
+    url.searchParams.set('id', room.video_id);
+    url.searchParams.set('title', room.title);
+    url.searchParams.set('room', room.id);
+    return url.toString();
+  })();
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(shareLink);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('复制链接失败:', err);
+    }
+  };
+
+  const buttonClassName =
+    'px-2 py-1 rounded text-xs transition-colors disabled:opacity-50';
+
+  return (
+    <div className='fixed inset-0 bg-black/50 flex items-center justify-center z-[9999] p-4'>
+      <div className='bg-white dark:bg-gray-800 rounded-lg p-6 w-full max-w-md space-y-5'>
+        <div className='flex items-center justify-between'>
+          <h3 className='text-lg font-semibold text-gray-900 dark:text-gray-100'>
+            一起看
+          </h3>
+          <button
+            onClick={() => onOpenChange(false)}
+            className='text-gray-400 hover:text-gray-600 dark:hover:text-gray-200'
+          >
+            ✕
+          </button>
+        </div>
+
+        {!room ? (
+          <div className='space-y-4'>
+            <p className='text-sm text-gray-600 dark:text-gray-400'>
+              创建房间后分享链接，成员的播放、暂停、进度与选集将与房主保持同步。
+            </p>
+            <button
+              onClick={controls.create}
+              disabled={busy}
+              className='w-full py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white rounded text-sm transition-colors'
+            >
+              {busy ? '创建中...' : '创建房间'}
+            </button>
+          </div>
+        ) : (
+          <div className='space-y-5'>
+            {/* 分享链接 */}
+            <div>
+              <span className='block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300'>
+                房间 {room.id} 的邀请链接
+              </span>
+              <div className='flex gap-2'>
+                <input
+                  readOnly
+                  value={shareLink}
+                  onFocus={(e) => e.target.select()}
+                  className='flex-1 min-w-0 px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded bg-gray-50 dark:bg-gray-700 text-gray-900 dark:text-gray-100'
+                />
+                <button
+                  onClick={handleCopy}
+                  className='flex items-center gap-1 px-3 py-1.5 bg-green-600 hover:bg-green-700 text-white rounded text-sm transition-colors'
+                >
+                  <Copy className='w-4 h-4' />
+                  {copied ? '已复制' : '复制'}
+                </button>
+              </div>
+            </div>
+
+            {/* 房主设置 */}
+            {isHost && (
+              <label className='flex items-center justify-between text-sm text-gray-700 dark:text-gray-300'>
+                <span>仅房主可控制播放</span>
+                <input
+                  type='checkbox'
+                  checked={room.host_only}
+                  disabled={busy}
+                  onChange={(e) => controls.setHostOnly(e.target.checked)}
+                  className='rounded'
+                />
+              </label>
+            )}
+
+            {/* 成员列表 */}
+            <div>
+              <span className='block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300'>
+                在线成员（{members.length}）
+              </span>
+              <ul className='space-y-1.5 max-h-48 overflow-y-auto'>
+                {members.map((name) => (
+                  <li
+                    key={name}
+                    className='flex items-center justify-between px-3 py-1.5 rounded bg-gray-50 dark:bg-gray-700/50 text-sm text-gray-800 dark:text-gray-200'
+                  >
+                    <span className='flex items-center gap-1.5 truncate'>
+                      {name}
+                      {name === room.host && (
+                        <Crown className='w-3.5 h-3.5 text-yellow-500' />
+                      )}
+                      {name === userName && (
+                        <span className='text-xs text-gray-400'>（我）</span>
+                      )}
+                    </span>
+                    {isHost && name !== userName && (
+                      <span className='flex gap-1'>
+                        <button
+                          onClick={() => controls.transfer(name)}
+                          disabled={busy}
+                          className={`${buttonClassName} bg-blue-100 hover:bg-blue-200 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300`}
+                        >
+                          设为房主
+                        </button>
+                        <button
+                          onClick={() => controls.kick(name)}
+                          disabled={busy}
+                          className={`${buttonClassName} bg-red-100 hover:bg-red-200 text-red-700 dark:bg-red-900/40 dark:text-red-300`}
+                        >
+                          移出
+                        </button>
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            {!controls.canControl && (
+              <p className='text-xs text-gray-500 dark:text-gray-400'>
+                当前由房主控制播放，你的播放进度将自动与房主同步。
+              </p>
+            )}
+
+            <div className='flex gap-2'>
+              <button
+                onClick={controls.leave}
+                disabled={busy}
+                className='flex-1 py-1.5 text-sm rounded border border-gray-200 text-gray-600 hover:text-red-500 hover:border-red-300 dark:border-gray-700 dark:text-gray-400 dark:hover:text-red-400 disabled:opacity-50'
+              >
+                离开房间
+              </button>
+              {isHost && (
+                <button
+                  onClick={controls.close}
+                  disabled={busy}
+                  className='flex-1 py-1.5 text-sm rounded bg-red-600 hover:bg-red-700 text-white disabled:opacity-50'
+                >
+                  关闭房间
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// 导出一起看按钮组件
+export function WatchRoomButton({
+  onClick,
+  active,
+}: {
+  onClick: () => void;
+  active: boolean;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className={`flex items-center space-x-1 px-3 py-1.5 rounded text-sm transition-colors ${
+        active
+          ? 'bg-green-100 hover:bg-green-200 text-green-700 dark:bg-green-900/40 dark:hover:bg-green-900/60 dark:text-green-300'
+          : 'bg-gray-100 hover:bg-gray-200 text-gray-700 dark:bg-gray-700 dark:hover:bg-gray-600 dark:text-gray-300'
+      }`}
+      title='与好友一起看'
+    >
+      <Users className='w-4 h-4' />
+      <span>一起看</span>
+    </button>
+  );
+}
@@ -0,0 +1,153 @@
+// D1 结构迁移测试，使用 node:sqlite 内存数据库（Node 22.5+，低版本跳过）
+
+import {
+  createMemoryD1Database,
+  memorySqliteAvailable,
+} from '@/__mocks__/memorySqlite';
+
+import { D1Storage } from '../d1.db';
+import { D1_LATEST_VERSION, getD1SchemaStatus } from '../d1.migrations';
+
+// 旧版 cloudflare-d1-init.sql 中的部分表结构
+const LEGACY_SCHEMA = `
+CREATE TABLE users (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  username TEXT UNIQUE NOT NULL,
+  password_hash TEXT NOT NULL,
+  salt TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+CREATE TABLE user_settings (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  username TEXT UNIQUE NOT NULL,
+  filter_adult_content BOOLEAN DEFAULT 1,
+  FOREIGN KEY (username) REFERENCES users(username) ON DELETE CASCADE
+);
+CREATE TABLE play_records (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  username TEXT NOT NULL,
+  video_id TEXT NOT NULL,
+  video_title TEXT,
+  UNIQUE(username, video_id)
+);
+CREATE TABLE search_history (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  username TEXT NOT NULL,
+  keyword TEXT NOT NULL,
+  search_time DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX idx_users_username ON users(username);
+CREATE INDEX idx_play_records_username ON play_records(username);
+CREATE TRIGGER create_default_user_settings AFTER INSERT ON users
+BEGIN
+  INSERT OR IGNORE INTO user_settings (username) VALUES (NEW.username);
+END;
+INSERT INTO users (username, password_hash, salt) VALUES ('alice', 'hash', 'salt');
+`;
+
+(memorySqliteAvailable ? describe : describe.skip)('D1 结构迁移', () => {
+  it('新数据库执行全部迁移', async () => {
+    const db = createMemoryD1Database();
+    const storage = new D1Storage(db);
+
+    expect((await storage.applySchemaMigrations()).applied).toHaveLength(
+      D1_LATEST_VERSION
+    );
+    expect((await getD1SchemaStatus(db)).pending).toEqual([]);
+    expect(await storage.applySchemaMigrations()).toEqual({
+      applied: [],
+      renamed: [],
+    });
+  });
+
+  it('自动迁移检测到旧版表结构时停止且不改动旧表', async () => {
+    const db = createMemoryD1Database();
+    await db.exec(LEGACY_SCHEMA);
+    const storage = new D1Storage(db);
+
+    const status = await storage.getSchemaStatus();
+    expect(status.legacy).toEqual(['users', 'user_settings', 'play_records']);
+    expect(status.error).toContain('检测到旧版初始化脚本建立的表');
+
+    const legacyUser = await db
+      .prepare('SELECT password_hash FROM users WHERE username = ?')
+      .bind('alice')
+      .first<{ password_hash: string }>();
+    expect(legacyUser?.password_hash).toBe('hash');
+  });
+
+  it('站长执行迁移时旧版表结构改名保留并按当前结构重建', async () => {
+    const db = createMemoryD1Database();
+    await db.exec(LEGACY_SCHEMA);
+    // 之前的版本把 CREATE TABLE IF NOT EXISTS 视为成功，已记录前两个迁移
+    await db.exec(`
+      CREATE TABLE schema_version (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at INTEGER NOT NULL
+      );
+      INSERT INTO schema_version VALUES (1, 'create_core_tables', 0);
+      INSERT INTO schema_version VALUES (2, 'add_play_records_episode_title', 0);
+    `);
+    const storage = new D1Storage(db);
+    expect((await storage.applySchemaMigrations()).renamed).toEqual([
+      'users',
+      'user_settings',
+      'play_records',
+    ]);
+
+    const tables = await db
+      .prepare("SELECT name FROM sqlite_master WHERE type = 'table'")
+      .all<{ name: string }>();
+    const names = tables.results.map((t) => t.name);
+    expect(names).toEqual(
+      expect.arrayContaining([
+        'legacy_users',
+        'legacy_user_settings',
+        'legacy_play_records',
+        'users',
+        'play_records',
+      ])
+    );
+    // 与当前代码兼容的旧表保留原样
+    expect(names).not.toContain('legacy_search_history');
+
+    const legacyUser = await db
+      .prepare('SELECT password_hash FROM legacy_users WHERE username = ?')
+      .bind('alice')
+      .first<{ password_hash: string }>();
+    expect(legacyUser?.password_hash).toBe('hash');
+
+    // 新表可以正常读写，旧触发器不再生效
+    await storage.registerUser('bob', 'secret');
+    expect(await storage.verifyUser('bob', 'secret')).toBe(true);
+    await storage.setPlayRecord('bob', 'src+1', {
+      title: '标题',
+      source_name: '源',
+      cover: '',
+      year: '2024',
+      index: 1,
+      total_episodes: 10,
+      play_time: 60,
+      total_time: 1200,
+      save_time: 1,
+      search_title: '标题',
+    });
+    expect(Object.keys(await storage.getAllPlayRecords('bob'))).toEqual([
+      'src+1',
+    ]);
+    expect(await getD1SchemaStatus(db)).toEqual(
+      expect.objectContaining({ pending: [], legacy: [] })
+    );
+  });
+
+  it('已存在同名的 legacy_ 表时报错', async () => {
+    const db = createMemoryD1Database();
+    await db.exec(LEGACY_SCHEMA);
+    await db.exec('CREATE TABLE legacy_users (id INTEGER)');
+
+    await expect(new D1Storage(db).applySchemaMigrations()).rejects.toThrow(
+      'legacy_users 已存在'
+    );
+  });
+});
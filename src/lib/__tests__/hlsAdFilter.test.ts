@@ -0,0 +1,149 @@
+import { filterAdsFromM3U8 } from '../hlsAdFilter';
+import { buildProxyUrl } from '../hlsProxy';
+
+const BASE_URL = 'https://vod.example.com/20240101/abc123/index.m3u8';
+const MAIN_DIR = 'https://vod.example.com/20240101/abc123/hls/';
+const AD_DIR = 'https://ads.example.net/creative/';
+
+function mainSegments(from: number, count: number): string[] {
+  return Array.from({ length: count }, (_, i) => [
+    '#EXTINF:10.000000,',
+    `${MAIN_DIR}seg${String(from + i).padStart(4, '0')}.ts`,
+  ]).reduce<string[]>((all, lines) => all.concat(lines), []);
+}
+
+const AD_SEGMENTS = [
+  '#EXTINF:3.000000,',
+  `${AD_DIR}ad0.ts`,
+  '#EXTINF:3.000000,',
+  `${AD_DIR}ad1.ts`,
+  '#EXTINF:2.500000,',
+  `${AD_DIR}ad2.ts`,
+];
+
+const HEADER = [
+  '#EXTM3U',
+  '#EXT-X-VERSION:3',
+  '#EXT-X-TARGETDURATION:10',
+  '#EXT-X-MEDIA-SEQUENCE:0',
+];
+
+// 正片中间插入一段由 #EXT-X-DISCONTINUITY 包裹的广告
+const AD_PLAYLIST = [
+  ...HEADER,
+  ...mainSegments(0, 6),
+  '#EXT-X-DISCONTINUITY',
+  ...AD_SEGMENTS,
+  '#EXT-X-DISCONTINUITY',
+  ...mainSegments(6, 6),
+  '#EXT-X-ENDLIST',
+].join('\n');
+
+const CLEAN_PLAYLIST = [
+  ...HEADER,
+  ...mainSegments(0, 12),
+  '#EXTINF:4.200000,',
+  `${MAIN_DIR}seg0012.ts`,
+  '#EXT-X-ENDLIST',
+].join('\n');
+
+function segmentUris(content: string): string[] {
+  return content.split('\n').filter((line) => line && !line.startsWith('#'));
+}
+
+describe('filterAdsFromM3U8', () => {
+  it('移除以 DISCONTINUITY 包裹的广告块', () => {
+    const result = filterAdsFromM3U8(AD_PLAYLIST, BASE_URL);
+
+    expect(result.removed).toEqual([
+      {
+        start: 6,
+        count: 3,
+        duration: 8.5,
+        reasons: ['host', 'path', 'duration'],
+        uri: `${AD_DIR}ad0.ts`,
+      },
+    ]);
+    expect(result.removedDuration).toBe(8.5);
+
+    const uris = segmentUris(result.content);
+    expect(uris).toHaveLength(12);
+    expect(uris.some((uri) => uri.startsWith(AD_DIR))).toBe(false);
+    expect(result.content.startsWith(HEADER.join('\n'))).toBe(true);
+    expect(result.content.trim().endsWith('#EXT-X-ENDLIST')).toBe(true);
+    // 两段正片之间仍保留一个 DISCONTINUITY
+    expect(result.content.match(/#EXT-X-DISCONTINUITY\n/g)).toHaveLength(1);
+  });
+
+  it('经由代理的分片按原始地址比较', () => {
+    const proxied = AD_PLAYLIST.split('\n')
+      .map((line) =>
+        line.startsWith('https://') ? buildProxyUrl(line, 'site1') : line
+      )
+      .join('\n');
+
+    const result = filterAdsFromM3U8(
+      proxied,
+      'http://localhost:3000' + buildProxyUrl(BASE_URL, 'site1')
+    );
+
+    expect(result.removed).toHaveLength(1);
+    expect(result.removed[0].reasons).toEqual(['host', 'path', 'duration']);
+    expect(result.removed[0].uri).toBe(
+      buildProxyUrl(`${AD_DIR}ad0.ts`, 'site1')
+    );
+    expect(segmentUris(result.content)).toHaveLength(12);
+  });
+
+  it('无广告的播放列表原样返回', () => {
+    const result = filterAdsFromM3U8(CLEAN_PLAYLIST, BASE_URL);
+
+    expect(result.content).toBe(CLEAN_PLAYLIST);
+    expect(result.removed).toEqual([]);
+    expect(result.removedDuration).toBe(0);
+  });
+
+  it('与正片特征一致的分段不视为广告', () => {
+    const playlist = [
+      ...HEADER,
+      ...mainSegments(0, 6),
+      '#EXT-X-DISCONTINUITY',
+      ...mainSegments(6, 3),
+      '#EXT-X-DISCONTINUITY',
+      ...mainSegments(9, 6),
+      '#EXT-X-ENDLIST',
+    ].join('\n');
+
+    expect(filterAdsFromM3U8(playlist, BASE_URL).content).toBe(playlist);
+  });
+
+  it('关闭规则或处理主播放列表时不做改动', () => {
+    expect(
+      filterAdsFromM3U8(AD_PLAYLIST, BASE_URL, { enabled: false }).content
+    ).toBe(AD_PLAYLIST);
+
+    const master = [
+      '#EXTM3U',
+      '#EXT-X-STREAM-INF:BANDWIDTH=800000,RESOLUTION=1280x720',
+      'https://vod.example.com/20240101/abc123/720p/index.m3u8',
+    ].join('\n');
+    expect(filterAdsFromM3U8(master, BASE_URL).content).toBe(master);
+  });
+
+  it('按关键字移除分片', () => {
+    const result = filterAdsFromM3U8(CLEAN_PLAYLIST, BASE_URL, {
+      keywords: ['seg0003'],
+    });
+
+    expect(result.removed).toEqual([
+      {
+        start: 3,
+        count: 1,
+        duration: 10,
+        reasons: ['keyword'],
+        uri: `${MAIN_DIR}seg0003.ts`,
+      },
+    ]);
+    expect(segmentUris(result.content)).not.toContain(`${MAIN_DIR}seg0003.ts`);
+  });
+});
@@ -0,0 +1,90 @@
+import {
+  getQueryCandidates,
+  isPinyinQuery,
+  isPinyinSearchEnabled,
+  normalizeSearchQuery,
+  toSimplified,
+} from '../queryNormalize';
+
+describe('toSimplified', () => {
+  it('逐字转换繁体字', () => {
+    expect(toSimplified('後宮甄嬛傳')).toBe('后宫甄嬛传');
+  });
+
+  it('未收录的字保持不变', () => {
+    expect(toSimplified('甄嬛 ABC 123')).toBe('甄嬛 ABC 123');
+  });
+});
+
+describe('normalizeSearchQuery', () => {
+  it('去除中文季集后缀', () => {
+    expect(normalizeSearchQuery('甄嬛传 第二季')).toBe('甄嬛传');
+    expect(normalizeSearchQuery('庆余年第2集')).toBe('庆余年');
+  });
+
+  it('去除末尾的英文季集后缀', () => {
+    expect(normalizeSearchQuery('Friends S02E05')).toBe('Friends');
+    expect(normalizeSearchQuery('Friends S02')).toBe('Friends');
+    expect(normalizeSearchQuery('Friends EP10')).toBe('Friends');
+    expect(normalizeSearchQuery('Friends Episode 3')).toBe('Friends');
+    expect(normalizeSearchQuery('Friends S02 EP05')).toBe('Friends');
+    expect(normalizeSearchQuery('Friends Season 2')).toBe('Friends');
+  });
+
+  it('保留标题中间的 E3、S1 等字样', () => {
+    expect(normalizeSearchQuery('E3 游戏展')).toBe('E3 游戏展');
+    expect(normalizeSearchQuery('S1 方程式 纪录片')).toBe('S1 方程式 纪录片');
+    expect(normalizeSearchQuery('E3 游戏展 EP2')).toBe('E3 游戏展');
+  });
+
+  it('标点统一为空格', () => {
+    expect(normalizeSearchQuery('《甄嬛传》·完整版')).toBe('甄嬛传 完整版');
+  });
+
+  it('繁体与后缀一起处理', () => {
+    expect(normalizeSearchQuery('後宮甄嬛傳 第二季')).toBe('后宫甄嬛传');
+  });
+
+  it('去除后为空时保留原词', () => {
+    expect(normalizeSearchQuery('第二季')).toBe('第二季');
+  });
+});
+
+describe('getQueryCandidates', () => {
+  it('归一化后与原词不同时依次尝试两者', () => {
+    expect(getQueryCandidates('甄嬛傳 第二季')).toEqual([
+      '甄嬛传',
+      '甄嬛傳 第二季',
+    ]);
+  });
+
+  it('无需归一化时只返回一个候选', () => {
+    expect(getQueryCandidates('甄嬛传')).toEqual(['甄嬛传']);
+  });
+});
+
+describe('拼音联想', () => {
+  const original = process.env.ENABLE_PINYIN_SEARCH;
+
+  afterEach(() => {
+    if (original === undefined) {
+      delete process.env.ENABLE_PINYIN_SEARCH;
+    } else {
+      process.env.ENABLE_PINYIN_SEARCH = original;
+    }
+  });
+
+  it('识别拼音输入', () => {
+    expect(isPinyinQuery('zhenhuanzhuan')).toBe(true);
+    expect(isPinyinQuery('zhz')).toBe(true);
+    expect(isPinyinQuery('甄嬛传')).toBe(false);
+    expect(isPinyinQuery('S02E05')).toBe(false);
+  });
+
+  it('默认关闭，设置环境变量后开启', () => {
+    delete process.env.ENABLE_PINYIN_SEARCH;
+    expect(isPinyinSearchEnabled()).toBe(false);
+    process.env.ENABLE_PINYIN_SEARCH = 'true';
+    expect(isPinyinSearchEnabled()).toBe(true);
+  });
+});
@@ -0,0 +1,162 @@
+import {
+  detectSkipSegments,
+  EpisodePrints,
+  findCommonRun,
+  getSkipProposals,
+  recordSegmentPrint,
+  SegmentPrint,
+} from '../skipDetector';
+
+interface Spec {
+  duration?: number;
+  size: number;
+  hash: number;
+}
+
+// 按顺序排列分片，开始时间从 offset 起累加
+function toPrints(specs: Spec[], offset = 0): SegmentPrint[] {
+  let start = offset;
+  return specs.map(({ duration = 5, size, hash }) => {
+    const print = { start, duration, size, hash };
+    start += duration;
+    return print;
+  });
+}
+
+// 各集不同的正片分片，大小彼此相差远超容差
+function episodeContent(episode: number, count: number): Spec[] {
+  return Array.from({ length: count }, (_, i) => ({
+    size: 203001 + episode * 3001 + i * 20000,
+    hash: episode * 1000 + i,
+  }));
+}
+
+// 每集相同的 30 秒片头与 20 秒片尾
+const INTRO: Spec[] = Array.from({ length: 6 }, (_, i) => ({
+  size: 100000 + i * 20000,
+  hash: 9000 + i,
+}));
+const OUTRO: Spec[] = Array.from({ length: 4 }, (_, i) => ({
+  size: 50000 + i * 10000,
+  hash: 8000 + i,
+}));
+
+// 加密分片：内容哈希每集不同，大小因填充略有差异
+function encrypted(specs: Spec[], episode: number): Spec[] {
+  return specs.map((spec, i) => ({
+    ...spec,
+    size: spec.size + 16 * episode,
+    hash: episode * 100000 + i,
+  }));
+}
+
+function episode(number: number, intro = INTRO, outro = OUTRO): EpisodePrints {
+  const total = 1200;
+  return {
+    head: toPrints([...intro, ...episodeContent(number, 20)]),
+    tail: toPrints([...episodeContent(number, 16), ...outro], total - 100),
+    total,
+    updated_time: number,
+  };
+}
+
+describe('findCommonRun', () => {
+  it('找出位置不同的相同片段并返回在第一组中的区间', () => {
+    const first = toPrints([...INTRO, ...episodeContent(1, 10)]);
+    // 第二集开头多了 10 秒前情提要
+    const second = toPrints([
+      ...episodeContent(2, 2),
+      ...INTRO,
+      ...episodeContent(2, 10),
+    ]);
+
+    expect(findCommonRun(first, second)).toEqual({ start: 0, end: 30 });
+    expect(findCommonRun(second, first)).toEqual({ start: 10, end: 40 });
+  });
+
+  it('没有相同分片时返回 null', () => {
+    expect(
+      findCommonRun(
+        toPrints(episodeContent(1, 10)),
+        toPrints(episodeContent(2, 10))
+      )
+    ).toBeNull();
+  });
+
+  it('哈希不同时按分片大小与时长匹配加密分片', () => {
+    const first = toPrints([...encrypted(INTRO, 1), ...episodeContent(1, 10)]);
+    const second = toPrints([...encrypted(INTRO, 2), ...episodeContent(2, 10)]);
+
+    expect(findCommonRun(first, second)).toEqual({ start: 0, end: 30 });
+  });
+
+  it('加密分片大小或时长超出容差时不匹配', () => {
+    const first = toPrints(encrypted(INTRO, 1));
+    const resized = toPrints(
+      INTRO.map((spec, i) => ({ size: spec.size * 1.02, hash: i }))
+    );
+    const retimed = toPrints(
+      encrypted(INTRO, 2).map((spec) => ({ ...spec, duration: 6 }))
+    );
+
+    expect(findCommonRun(first, resized)).toBeNull();
+    expect(findCommonRun(first, retimed)).toBeNull();
+  });
+});
+
+describe('detectSkipSegments', () => {
+  it('识别各集相同的片头与片尾', () => {
+    expect(detectSkipSegments(episode(1), [episode(2), episode(3)])).toEqual([
+      { start: 0, end: 30, type: 'opening', title: '片头（自动识别）' },
+      { start: 1180, end: 1200, type: 'ending', title: '片尾（自动识别）' },
+    ]);
+  });
+
+  it('过短或覆盖整个窗口的相同片段不视为片头', () => {
+    const shortIntro = INTRO.slice(0, 2);
+    expect(
+      detectSkipSegments(episode(1, shortIntro, []), [
+        episode(2, shortIntro, []),
+      ])
+    ).toEqual([]);
+
+    // 恒定码率时整个窗口都相同
+    const current = episode(1);
+    expect(detectSkipSegments(current, [{ ...current, tail: [] }])).toEqual([]);
+  });
+});
+
+describe('getSkipProposals', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  function record(key: string, number: number) {
+    const prints = episode(number);
+    [...prints.head, ...prints.tail].forEach((print) =>
+      recordSegmentPrint(key, number, print, prints.total)
+    );
+  }
+
+  it('至少记录两集后给出建议', () => {
+    record('src+1', 1);
+    expect(getSkipProposals('src+1', 1)).toEqual([]);
+
+    record('src+1', 2);
+    expect(getSkipProposals('src+1', 2).map((s) => [s.start, s.end])).toEqual([
+      [0, 30],
+      [1180, 1200],
+    ]);
+  });
+
+  it('窗口外的分片不会记录', () => {
+    expect(
+      recordSegmentPrint(
+        'src+1',
+        1,
+        { start: 600, duration: 5, size: 1, hash: 1 },
+        1200
+      )
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,543 @@
+// 存储一致性测试：同一组场景在每种 IStorage 实现上运行，保证各存储行为一致
+// Redis / Kvrocks / Upstash 使用内存 Redis，D1 使用 node:sqlite 内存数据库（Node 22.5+，低版本跳过，CI 使用 Node 22 运行）
+
+import { memoryRedis } from '@/__mocks__/memoryRedis';
+import {
+  createMemoryD1Database,
+  memorySqliteAvailable,
+} from '@/__mocks__/memorySqlite';
+
+import { AdminConfig } from '../admin.types';
+import { D1Storage } from '../d1.db';
+import { KvrocksStorage } from '../kvrocks.db';
+import { LocalStorage } from '../localstorage.db';
+import { RedisStorage } from '../redis.db';
+import {
+  EpisodeSkipConfig,
+  EpisodeSubtitle,
+  Favorite,
+  IStorage,
+  PlayRecord,
+  SharedSkipConfig,
+  SourceHealth,
+  WatchRoom,
+} from '../types';
+import { UpstashRedisStorage } from '../upstash.db';
+
+jest.mock('redis', () => ({
+  createClient: () => jest.requireActual('@/__mocks__/memoryRedis').memoryRedis,
+}));
+
+jest.mock('@upstash/redis', () => {
+  const { memoryRedis, MemoryUpstashRedis } = jest.requireActual(
+    '@/__mocks__/memoryRedis'
+  );
+  return {
+    Redis: class extends MemoryUpstashRedis {
+      constructor() {
+        super(memoryRedis);
+      }
+    },
+  };
+});
+
+process.env.USERNAME = 'owner';
+process.env.REDIS_URL = 'redis://memory';
+process.env.UPSTASH_URL = 'https://memory';
+process.env.UPSTASH_TOKEN = 'token';
+
+interface Backend {
+  name: string;
+  available: boolean;
+  create: () => IStorage;
+}
+
+const BACKENDS: Backend[] = [
+  { name: 'redis', available: true, create: () => new RedisStorage() },
+  { name: 'kvrocks', available: true, create: () => new KvrocksStorage() },
+  {
+    name: 'upstash',
+    available: true,
+    create: () => new UpstashRedisStorage(),
+  },
+  {
+    name: 'd1',
+    available: memorySqliteAvailable,
+    create: () => new D1Storage(createMemoryD1Database()),
+  },
+  { name: 'localstorage', available: true, create: () => new LocalStorage() },
+];
+
+function playRecord(title: string, saveTime = 1000): PlayRecord {
+  return {
+    title,
+    source_name: '测试源',
+    cover: 'https://example.com/cover.jpg',
+    year: '2024',
+    index: 2,
+    total_episodes: 12,
+    play_time: 120,
+    total_time: 1500,
+    save_time: saveTime,
+    search_title: title,
+  };
+}
+
+function favorite(title: string): Favorite {
+  return {
+    title,
+    source_name: '测试源',
+    cover: 'https://example.com/cover.jpg',
+    year: '2024',
+    total_episodes: 12,
+    save_time: 1000,
+    search_title: title,
+  };
+}
+
+function skipConfig(id: string): EpisodeSkipConfig {
+  return {
+    source: 'src',
+    id,
+    title: `剧集 ${id}`,
+    segments: [
+      { start: 0, end: 90, type: 'opening' },
+      { start: 1400, end: 1500, type: 'ending', title: '片尾' },
+    ],
+    updated_time: 1000,
+  };
+}
+
+function subtitle(name: string): EpisodeSubtitle {
+  return {
+    name,
+    content: 'WEBVTT\n\n00:00.000 --> 00:01.000\n你好',
+    offset: 0.5,
+    size: 24,
+    updated_time: 1000,
+  };
+}
+
+function watchRoom(id: string): WatchRoom {
+  return {
+    id,
+    host: 'alice',
+    source: 'src',
+    video_id: '1',
+    title: '测试影片',
+    episode: 1,
+    playing: false,
+    position: 0,
+    rate: 1,
+    state_time: 1000,
+    version: 1,
+    updated_by: 'alice',
+    host_only: false,
+    kicked: [],
+    created_time: 1000,
+  };
+}
+
+function sourceHealth(failures: number): SourceHealth {
+  return {
+    success_count: 3,
+    failure_count: failures,
+    consecutive_failures: failures,
+    avg_latency: 200,
+    last_latency: 180,
+    updated_time: 1000,
+  };
+}
+
+for (const backend of BACKENDS) {
+  (backend.available ? describe : describe.skip)(`${backend.name} 存储`, () => {
+    let storage: IStorage;
+
+    beforeEach(() => {
+      memoryRedis.reset();
+      localStorage.clear();
+      storage = backend.create();
+    });
+
+    describe('播放记录', () => {
+      it('保存、读取和删除', async () => {
+        expect(await storage.getPlayRecord('alice', 'src+1')).toBeNull();
+
+        await storage.setPlayRecord('alice', 'src+1', playRecord('甲'));
+        await storage.setPlayRecord('alice', 'src+2', {
+          ...playRecord('乙'),
+          episode_title: 'SP1',
+        });
+        await storage.setPlayRecord('bob', 'src+3', playRecord('丙'));
+
+        expect(await storage.getPlayRecord('alice', 'src+1')).toEqual(
+          playRecord('甲')
+        );
+        expect(await storage.getAllPlayRecords('alice')).toEqual({
+          'src+1': playRecord('甲'),
+          'src+2': { ...playRecord('乙'), episode_title: 'SP1' },
+        });
+
+        await storage.deletePlayRecord('alice', 'src+1');
+        expect(await storage.getPlayRecord('alice', 'src+1')).toBeNull();
+        expect(Object.keys(await storage.getAllPlayRecords('alice'))).toEqual([
+          'src+2',
+        ]);
+      });
+
+      it('重复保存时覆盖旧记录', async () => {
+        await storage.setPlayRecord('alice', 'src+1', playRecord('甲', 1000));
+        await storage.setPlayRecord('alice', 'src+1', playRecord('甲', 2000));
+
+        expect(await storage.getPlayRecord('alice', 'src+1')).toEqual(
+          playRecord('甲', 2000)
+        );
+      });
+    });
+
+    describe('收藏', () => {
+      it('保存、读取和删除', async () => {
+        expect(await storage.getFavorite('alice', 'src+1')).toBeNull();
+
+        await storage.setFavorite('alice', 'src+1', favorite('甲'));
+        await storage.setFavorite('alice', 'src+2', favorite('乙'));
+
+        expect(await storage.getFavorite('alice', 'src+1')).toEqual(
+          favorite('甲')
+        );
+        expect(await storage.getAllFavorites('alice')).toEqual({
+          'src+1': favorite('甲'),
+          'src+2': favorite('乙'),
+        });
+        expect(await storage.getAllFavorites('bob')).toEqual({});
+
+        await storage.deleteFavorite('alice', 'src+1');
+        expect(await storage.getFavorite('alice', 'src+1')).toBeNull();
+      });
+    });
+
+    describe('用户', () => {
+      it('注册、校验和修改密码', async () => {
+        expect(await storage.checkUserExist('alice')).toBe(false);
+
+        await storage.registerUser('alice', 'secret');
+
+        expect(await storage.checkUserExist('alice')).toBe(true);
+        expect(await storage.verifyUser('alice', 'secret')).toBe(true);
+        expect(await storage.verifyUser('alice', 'wrong')).toBe(false);
+        expect(await storage.verifyUser('bob', 'secret')).toBe(false);
+        expect(await storage.getUserPassword('alice')).toBe('secret');
+        expect(await storage.getUserPassword('bob')).toBeNull();
+
+        await storage.changePassword('alice', 'changed');
+        expect(await storage.verifyUser('alice', 'secret')).toBe(false);
+        expect(await storage.verifyUser('alice', 'changed')).toBe(true);
+      });
+
+      it('用户列表包含注册的用户并标记站长', async () => {
+        await storage.registerUser('alice', 'secret');
+        await storage.registerUser('owner', 'secret');
+
+        const users = await storage.getAllUsers();
+        expect(
+          users
+            .map(({ username, role }) => ({ username, role }))
+            .sort((a, b) => a.username.localeCompare(b.username))
+        ).toEqual([
+          { username: 'alice', role: 'user' },
+          { username: 'owner', role: 'owner' },
+        ]);
+      });
+
+      it('删除用户时清除该用户的全部数据', async () => {
+        for (const user of ['alice', 'bob']) {
+          await storage.registerUser(user, 'secret');
+          await storage.setPlayRecord(user, 'src+1', playRecord('甲'));
+          await storage.setFavorite(user, 'src+1', favorite('甲'));
+          await storage.addSearchHistory(user, '关键词');
+          await storage.setSkipConfig(user, 'src+1', skipConfig('1'));
+          await storage.setSubtitle(user, 'src+1+1', subtitle('中文'));
+          await storage.updateUserSettings(user, { theme: 'dark' });
+        }
+
+        await storage.deleteUser('alice');
+
+        expect(await storage.checkUserExist('alice')).toBe(false);
+        expect(await storage.verifyUser('alice', 'secret')).toBe(false);
+        expect(await storage.getAllPlayRecords('alice')).toEqual({});
+        expect(await storage.getAllFavorites('alice')).toEqual({});
+        expect(await storage.getSearchHistory('alice')).toEqual([]);
+        expect(await storage.getAllSkipConfigs('alice')).toEqual({});
+        expect(await storage.getAllSubtitles('alice')).toEqual({});
+        expect(await storage.getUserSettings('alice')).toBeNull();
+
+        // 其他用户不受影响
+        expect(await storage.verifyUser('bob', 'secret')).toBe(true);
+        expect(
+          Object.keys(await storage.getAllPlayRecords('bob'))
+        ).toHaveLength(1);
+        expect(Object.keys(await storage.getAllFavorites('bob'))).toHaveLength(
+          1
+        );
+        expect(await storage.getSearchHistory('bob')).toEqual(['关键词']);
+        expect(
+          Object.keys(await storage.getAllSkipConfigs('bob'))
+        ).toHaveLength(1);
+        expect(Object.keys(await storage.getAllSubtitles('bob'))).toHaveLength(
+          1
+        );
+        expect((await storage.getUserSettings('bob'))?.theme).toBe('dark');
+      });
+    });
+
+    describe('搜索历史', () => {
+      it('按添加时间倒序返回', async () => {
+        await storage.addSearchHistory('alice', 'a');
+        await storage.addSearchHistory('alice', 'b');
+        await storage.addSearchHistory('alice', 'c');
+
+        expect(await storage.getSearchHistory('alice')).toEqual([
+          'c',
+          'b',
+          'a',
+        ]);
+      });
+
+      it('重复搜索时去重并移到最前', async () => {
+        await storage.addSearchHistory('alice', 'a');
+        await storage.addSearchHistory('alice', 'b');
+        await storage.addSearchHistory('alice', 'a');
+
+        expect(await storage.getSearchHistory('alice')).toEqual(['a', 'b']);
+      });
+
+      it('最多保留 20 条', async () => {
+        for (let i = 1; i <= 25; i++) {
+          await storage.addSearchHistory('alice', `关键词${i}`);
+        }
+
+        const history = await storage.getSearchHistory('alice');
+        expect(history).toHaveLength(20);
+        expect(history[0]).toBe('关键词25');
+        expect(history[19]).toBe('关键词6');
+      });
+
+      it('删除单条和全部记录', async () => {
+        await storage.addSearchHistory('alice', 'a');
+        await storage.addSearchHistory('alice', 'b');
+        await storage.addSearchHistory('bob', 'a');
+
+        await storage.deleteSearchHistory('alice', 'a');
+        expect(await storage.getSearchHistory('alice')).toEqual(['b']);
+
+        await storage.deleteSearchHistory('alice');
+        expect(await storage.getSearchHistory('alice')).toEqual([]);
+        expect(await storage.getSearchHistory('bob')).toEqual(['a']);
+      });
+    });
+
+    describe('用户设置', () => {
+      it('未保存时返回 null', async () => {
+        expect(await storage.getUserSettings('alice')).toBeNull();
+      });
+
+      it('首次部分更新时以默认值补全', async () => {
+        await storage.updateUserSettings('alice', { theme: 'dark' });
+
+        expect(await storage.getUserSettings('alice')).toEqual({
+          filter_adult_content: true,
+          theme: 'dark',
+          language: 'zh-CN',
+          auto_play: true,
+          video_quality: 'auto',
+        });
+      });
+
+      it('部分更新时保留已有设置', async () => {
+        await storage.setUserSettings('alice', {
+          filter_adult_content: false,
+          theme: 'light',
+          language: 'en',
+          auto_play: true,
+          video_quality: '1080p',
+          default_playback_rate: 1.5,
+        });
+        await storage.updateUserSettings('alice', {
+          theme: 'dark',
+          preferred_sources: ['a', 'b'],
+        });
+
+        expect(await storage.getUserSettings('alice')).toEqual({
+          filter_adult_content: false,
+          theme: 'dark',
+          language: 'en',
+          auto_play: true,
+          video_quality: '1080p',
+          default_playback_rate: 1.5,
+          preferred_sources: ['a', 'b'],
+        });
+      });
+    });
+
+    describe('跳过配置', () => {
+      it('保存、读取和删除', async () => {
+        expect(await storage.getSkipConfig('alice', 'src+1')).toBeNull();
+
+        await storage.setSkipConfig('alice', 'src+1', skipConfig('1'));
+        await storage.setSkipConfig('alice', 'src+2', skipConfig('2'));
+
+        expect(await storage.getSkipConfig('alice', 'src+1')).toEqual(
+          skipConfig('1')
+        );
+        expect(await storage.getAllSkipConfigs('alice')).toEqual({
+          'src+1': skipConfig('1'),
+          'src+2': skipConfig('2'),
+        });
+
+        await storage.deleteSkipConfig('alice', 'src+1');
+        expect(await storage.getSkipConfig('alice', 'src+1')).toBeNull();
+        expect(Object.keys(await storage.getAllSkipConfigs('alice'))).toEqual([
+          'src+2',
+        ]);
+      });
+
+      it('共享配置保存、读取和删除', async () => {
+        const shared: SharedSkipConfig = {
+          ...skipConfig('1'),
+          contributor: 'alice',
+        };
+        expect(await storage.getSharedSkipConfig('src+1')).toBeNull();
+
+        await storage.setSharedSkipConfig('src+1', shared);
+        expect(await storage.getSharedSkipConfig('src+1')).toEqual(shared);
+        expect(await storage.getAllSharedSkipConfigs()).toEqual({
+          'src+1': shared,
+        });
+
+        await storage.deleteSharedSkipConfig('src+1');
+        expect(await storage.getAllSharedSkipConfigs()).toEqual({});
+      });
+    });
+
+    describe('外挂字幕', () => {
+      it('保存、读取和删除', async () => {
+        expect(await storage.getSubtitle('alice', 'src+1+1')).toBeNull();
+
+        await storage.setSubtitle('alice', 'src+1+1', subtitle('中文'));
+        await storage.setSubtitle('alice', 'src+1+2', subtitle('英文'));
+
+        expect(await storage.getSubtitle('alice', 'src+1+1')).toEqual(
+          subtitle('中文')
+        );
+        expect(await storage.getAllSubtitles('alice')).toEqual({
+          'src+1+1': subtitle('中文'),
+          'src+1+2': subtitle('英文'),
+        });
+
+        await storage.deleteSubtitle('alice', 'src+1+1');
+        expect(await storage.getSubtitle('alice', 'src+1+1')).toBeNull();
+      });
+    });
+
+    describe('一起看房间', () => {
+      it('保存房间和成员，删除房间时清除成员', async () => {
+        expect(await storage.getWatchRoom('room1')).toBeNull();
+
+        await storage.setWatchRoom('room1', watchRoom('room1'));
+        await storage.setWatchRoomMember('room1', 'alice', 1000);
+        await storage.setWatchRoomMember('room1', 'bob', 2000);
+        await storage.setWatchRoomMember('room1', 'alice', 3000);
+
+        expect(await storage.getWatchRoom('room1')).toEqual(watchRoom('room1'));
+        expect(await storage.getWatchRoomMembers('room1')).toEqual({
+          alice: 3000,
+          bob: 2000,
+        });
+
+        await storage.setWatchRoom('room2', watchRoom('room2'));
+        expect(
+          (await storage.getAllWatchRooms()).map((room) => room.id).sort()
+        ).toEqual(['room1', 'room2']);
+        await storage.deleteWatchRoom('room2');
+
+        await storage.deleteWatchRoomMember('room1', 'bob');
+        expect(await storage.getWatchRoomMembers('room1')).toEqual({
+          alice: 3000,
+        });
+
+        await storage.deleteWatchRoom('room1');
+        expect(await storage.getWatchRoom('room1')).toBeNull();
+        expect(await storage.getWatchRoomMembers('room1')).toEqual({});
+        expect(await storage.getAllWatchRooms()).toEqual([]);
+      });
+    });
+
+    describe('接口缓存', () => {
+      it('读取未过期的缓存并按前缀清除', async () => {
+        expect(await storage.getCache('search:a')).toBeNull();
+
+        await storage.setCache('search:a', { list: [1, 2] }, 60);
+        await storage.setCache('search:b', ['x'], 60);
+        await storage.setCache('detail:a', 'detail', 60);
+
+        expect(await storage.getCache('search:a')).toEqual({ list: [1, 2] });
+        expect(await storage.getCache('detail:a')).toBe('detail');
+
+        await storage.clearCache('search:');
+        expect(await storage.getCache('search:a')).toBeNull();
+        expect(await storage.getCache('search:b')).toBeNull();
+        expect(await storage.getCache('detail:a')).toBe('detail');
+
+        await storage.clearCache();
+        expect(await storage.getCache('detail:a')).toBeNull();
+      });
+
+      it('过期后返回 null', async () => {
+        const now = Date.now();
+        const spy = jest.spyOn(Date, 'now').mockReturnValue(now);
+        try {
+          await storage.setCache('search:a', 'value', 60);
+          spy.mockReturnValue(now + 61 * 1000);
+          expect(await storage.getCache('search:a')).toBeNull();
+        } finally {
+          spy.mockRestore();
+        }
+      });
+    });
+
+    describe('资源站健康状态', () => {
+      it('保存、读取和删除', async () => {
+        expect(await storage.getAllSourceHealth()).toEqual({});
+
+        await storage.setSourceHealth('a', sourceHealth(0));
+        await storage.setSourceHealth('b', sourceHealth(2));
+        expect(await storage.getAllSourceHealth()).toEqual({
+          a: sourceHealth(0),
+          b: sourceHealth(2),
+        });
+
+        await storage.deleteSourceHealth('a');
+        expect(await storage.getAllSourceHealth()).toEqual({
+          b: sourceHealth(2),
+        });
+
+        await storage.deleteSourceHealth();
+        expect(await storage.getAllSourceHealth()).toEqual({});
+      });
+    });
+
+    describe('管理员配置', () => {
+      it('保存和读取', async () => {
+        const config = {
+          SiteConfig: { SiteName: 'KatelyaTV' },
+          UserConfig: { AllowRegister: true, Users: [] },
+          SourceConfig: [],
+        } as unknown as AdminConfig;
+
+        expect(await storage.getAdminConfig()).toBeNull();
+        await storage.setAdminConfig(config);
+        expect(await storage.getAdminConfig()).toEqual(config);
+      });
+    });
+  });
+}
@@ -0,0 +1,132 @@
+import {
+  convertToWebVtt,
+  detectSubtitleFormat,
+  shiftWebVtt,
+} from '../subtitle';
+
+const SRT = [
+  '1',
+  '00:00:01,000 --> 00:00:03,500',
+  '第一句',
+  '',
+  '2',
+  '00:00:04.250 --> 00:00:06.000',
+  '<i>第二句</i>',
+  '第二行',
+  '',
+].join('\n');
+
+const SRT_VTT = [
+  'WEBVTT',
+  '',
+  '00:00:01.000 --> 00:00:03.500',
+  '第一句',
+  '',
+  '00:00:04.250 --> 00:00:06.000',
+  '第二句',
+  '第二行',
+  '',
+].join('\n');
+
+const ASS = [
+  '[Script Info]',
+  'Title: 示例',
+  '',
+  '[V4+ Styles]',
+  'Format: Name, Fontname, Fontsize',
+  'Style: Default,Arial,20',
+  '',
+  '[Events]',
+  'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+  'Dialogue: 0,0:00:05.50,0:00:07.00,Default,,0,0,0,,{\\an8}顶部\\N第二行',
+  'Dialogue: 0,0:00:01.00,0:00:02.00,Default,,0,0,0,,你好，世界, 逗号',
+  'Dialogue: 0,0:00:03.00,0:00:04.00,Default,,0,0,0,,{\\p1}m 0 0 l 100 0',
+].join('\n');
+
+describe('detectSubtitleFormat', () => {
+  it('优先按扩展名识别', () => {
+    expect(detectSubtitleFormat('', 'a.SRT')).toBe('srt');
+    expect(detectSubtitleFormat('', 'https://x.com/a.ssa?t=1')).toBe('ass');
+    expect(detectSubtitleFormat('', 'a.vtt')).toBe('vtt');
+  });
+
+  it('按内容识别，无法识别时返回 null', () => {
+    expect(detectSubtitleFormat('\uFEFFWEBVTT\n')).toBe('vtt');
+    expect(detectSubtitleFormat(ASS)).toBe('ass');
+    expect(detectSubtitleFormat(SRT)).toBe('srt');
+    expect(detectSubtitleFormat('<html></html>')).toBeNull();
+  });
+});
+
+describe('convertToWebVtt', () => {
+  it('SRT 的逗号与点号毫秒均可解析，并去掉 HTML 标签', () => {
+    expect(convertToWebVtt(SRT)).toBe(SRT_VTT);
+  });
+
+  it('兼容 BOM 与 CRLF 换行', () => {
+    expect(convertToWebVtt(`\uFEFF${SRT.replace(/\n/g, '\r\n')}`)).toBe(
+      SRT_VTT
+    );
+  });
+
+  it('ASS 处理换行、特效标签、文本中的逗号，忽略绘图并按时间排序', () => {
+    expect(convertToWebVtt(ASS)).toBe(
+      [
+        'WEBVTT',
+        '',
+        '00:00:01.000 --> 00:00:02.000',
+        '你好，世界, 逗号',
+        '',
+        '00:00:05.500 --> 00:00:07.000',
+        '顶部',
+        '第二行',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('ASS 按 Format 行的字段顺序解析', () => {
+    const ass = [
+      '[Events]',
+      'Format: Start, End, Text',
+      'Dialogue: 0:00:10.00,0:00:12.25,重排字段',
+    ].join('\n');
+
+    expect(convertToWebVtt(ass, 'ass')).toBe(
+      'WEBVTT\n\n00:00:10.000 --> 00:00:12.250\n重排字段\n'
+    );
+  });
+
+  it('VTT 重新整理，无效或空字幕报错', () => {
+    expect(convertToWebVtt(SRT_VTT)).toBe(SRT_VTT);
+    expect(() => convertToWebVtt('随便一段文字')).toThrow('无法识别');
+    expect(() => convertToWebVtt('[Events]\n', 'ass')).toThrow(
+      '没有有效的字幕'
+    );
+  });
+});
+
+describe('shiftWebVtt', () => {
+  it('整体延后字幕', () => {
+    expect(shiftWebVtt(SRT_VTT, 1.5)).toBe(
+      SRT_VTT.replace(
+        '00:00:01.000 --> 00:00:03.500',
+        '00:00:02.500 --> 00:00:05.000'
+      ).replace(
+        '00:00:04.250 --> 00:00:06.000',
+        '00:00:05.750 --> 00:00:07.500'
+      )
+    );
+  });
+
+  it('负偏移在 0 处截断并保留时间行后的设置', () => {
+    const vtt = 'WEBVTT\n\n00:00:01.000 --> 00:00:03.000 align:start\n字幕\n';
+    expect(shiftWebVtt(vtt, -2)).toBe(
+      'WEBVTT\n\n00:00:00.000 --> 00:00:01.000 align:start\n字幕\n'
+    );
+  });
+
+  it('偏移为 0 时原样返回', () => {
+    expect(shiftWebVtt(SRT_VTT, 0)).toBe(SRT_VTT);
+  });
+});
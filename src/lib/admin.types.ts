@@ -1,3 +1,24 @@
+// HLS 去广告规则，可按资源站单独配置
+export interface AdFilterRules {
+  enabled?: boolean; // 为 false 时该源不做去广告处理
+  checkHost?: boolean; // 分片域名与正片不同视为广告
+  checkPath?: boolean; // 分片目录与正片不同视为广告
+  checkDuration?: boolean; // 分片时长特征与正片不同视为广告
+  maxAdDuration?: number; // 单个广告块的最长时长（秒），超过则不视为广告
+  keywords?: string[]; // 分片地址包含任一关键字即视为广告
+}
+
+// 视频解析接口，用于播放视频网站页面地址
+export interface ParserConfig {
+  key: string;
+  name: string;
+  url: string; // 地址模板，{url} 替换为视频地址，未包含时拼接在末尾
+  type: 'web' | 'json'; // web 为网页嵌入播放，json 返回可直接播放的地址
+  platforms: string[]; // 支持的平台，为空表示不限
+  headers?: Record<string, string>; // 请求 JSON 解析接口时附加的请求头
+  disabled?: boolean;
+}
+
 export interface AdminConfig {
   SiteConfig: {
     SiteName: string;
@@ -20,10 +41,17 @@ export interface AdminConfig {
     name: string;
     api: string;
     detail?: string;
+    format?: 'json' | 'xml'; // 接口格式，未设置时自动识别
     from: 'config' | 'custom';
     disabled?: boolean;
     is_adult?: boolean; // 新增：是否为成人内容资源站
+    ad_filter?: AdFilterRules; // 去广告规则，未设置时使用默认规则
+    force_proxy?: boolean; // 播放时强制经由服务端 HLS 代理
+    proxy_headers?: Record<string, string>; // 代理请求资源站时附加的请求头，如 Referer
+    proxy_hosts?: string[]; // 除接口主机外允许代理的播放域名，包含其子域名
+    play_mode?: 'parse' | 'direct'; // parse 表示播放地址为视频网站页面，需经解析接口播放
   }[];
+  ParseConfig: ParserConfig[];
 }
 
 export interface AdminConfigResult {
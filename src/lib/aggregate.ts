@@ -0,0 +1,152 @@
+import { toSimplified } from './queryNormalize';
+import { AggregatedSearchResult, SearchResult } from './types';
+
+/**
+ * 标题归一化：繁转简、去除空白与常见标点、统一全角字符与大小写，用于跨源比较
+ */
+export function normalizeTitle(title: string): string {
+  return toSimplified(title || '')
+    .replace(/[！-～]/g, (ch) => String.fromCharCode(ch.charCodeAt(0) - 0xfee0))
+    .toLowerCase()
+    .replace(/[\s·・:：,，.。!！?？'"“”‘’、\-—_()（）[\]【】《》<>]/g, '');
+}
+
+function groupYear(item: SearchResult): string {
+  return item.year && item.year !== 'unknown' ? item.year : 'unknown';
+}
+
+function pickMostFrequent<T>(values: T[]): T | undefined {
+  const counter = new Map<T, number>();
+  let best: T | undefined;
+  let bestCount = 0;
+  values.forEach((value) => {
+    const count = (counter.get(value) || 0) + 1;
+    counter.set(value, count);
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+/**
+ * 将多个资源站的搜索结果按 归一化标题 + 年份 + 豆瓣 ID 分组
+ * 同一标题年份下存在多个不同豆瓣 ID 时拆分为多组，无豆瓣 ID 的结果并入条目最多的一组
+ */
+export function groupSearchResults(results: SearchResult[]): SearchResult[][] {
+  const buckets = new Map<string, SearchResult[]>();
+  results.forEach((item) => {
+    const key = `${normalizeTitle(item.title)}-${groupYear(item)}`;
+    const bucket = buckets.get(key) || [];
+    bucket.push(item);
+    buckets.set(key, bucket);
+  });
+
+  const groups: SearchResult[][] = [];
+  buckets.forEach((bucket) => {
+    const byDouban = new Map<number, SearchResult[]>();
+    const withoutDouban: SearchResult[] = [];
+    bucket.forEach((item) => {
+      if (item.douban_id && item.douban_id !== 0) {
+        const list = byDouban.get(item.douban_id) || [];
+        list.push(item);
+        byDouban.set(item.douban_id, list);
+      } else {
+        withoutDouban.push(item);
+      }
+    });
+
+    if (byDouban.size <= 1) {
+      groups.push(bucket);
+      return;
+    }
+
+    const doubanGroups = Array.from(byDouban.values()).sort(
+      (a, b) => b.length - a.length
+    );
+    doubanGroups[0].push(...withoutDouban);
+    groups.push(...doubanGroups);
+  });
+
+  return groups;
+}
+
+/**
+ * 分组排序：标题包含搜索词的优先，其次按年份倒序
+ */
+export function sortSearchGroups(
+  groups: SearchResult[][],
+  query = ''
+): SearchResult[][] {
+  const normalizedQuery = normalizeTitle(query.trim());
+  return [...groups].sort((a, b) => {
+    const aMatch =
+      !!normalizedQuery && normalizeTitle(a[0].title).includes(normalizedQuery);
+    const bMatch =
+      !!normalizedQuery && normalizeTitle(b[0].title).includes(normalizedQuery);
+    if (aMatch && !bMatch) return -1;
+    if (!aMatch && bMatch) return 1;
+
+    const aYear = groupYear(a[0]);
+    const bYear = groupYear(b[0]);
+    if (aYear === bYear) {
+      return b.length - a.length;
+    }
+    if (aYear === 'unknown') return 1;
+    if (bYear === 'unknown') return -1;
+    return aYear > bYear ? -1 : 1;
+  });
+}
+
+/**
+ * 将一组搜索结果合并为一个聚合条目
+ */
+export function toAggregatedResult(
+  group: SearchResult[]
+): AggregatedSearchResult {
+  const first = group[0];
+  const doubanId = pickMostFrequent(
+    group.map((item) => item.douban_id).filter((id): id is number => !!id)
+  );
+  const episodes =
+    pickMostFrequent(
+      group.map((item) => item.episodes.length).filter((len) => len > 0)
+    ) || 0;
+  // 封面优先选择出现次数最多的 https 地址
+  const posters = group.map((item) => item.poster).filter(Boolean);
+  const poster =
+    pickMostFrequent(posters.filter((url) => url.startsWith('https://'))) ||
+    pickMostFrequent(posters) ||
+    '';
+
+  return {
+    key: `${normalizeTitle(first.title)}-${groupYear(first)}${
+      doubanId ? `-${doubanId}` : ''
+    }`,
+    title: first.title,
+    year: first.year,
+    poster,
+    douban_id: doubanId,
+    type_name: first.type_name,
+    episodes,
+    sources: group.map((item) => ({
+      source: item.source,
+      source_name: item.source_name,
+      id: item.id,
+      episodes: item.episodes.length,
+    })),
+  };
+}
+
+/**
+ * 聚合搜索结果：分组、排序并转换为聚合条目
+ */
+export function aggregateSearchResults(
+  results: SearchResult[],
+  query = ''
+): AggregatedSearchResult[] {
+  return sortSearchGroups(groupSearchResults(results), query).map(
+    toAggregatedResult
+  );
+}
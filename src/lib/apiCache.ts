@@ -0,0 +1,62 @@
+/* eslint-disable no-console */
+
+import { getCacheTime } from './config';
+import { getStorage } from './db';
+import { IStorage } from './types';
+
+export type ApiCacheScope = 'search' | 'detail';
+
+// 归一化搜索词：去除首尾空白、合并连续空白并统一小写
+function normalizeQuery(query: string): string {
+  return query.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+export function searchCacheKey(source: string, query: string): string {
+  return `search:${source}:${normalizeQuery(query)}`;
+}
+
+export function detailCacheKey(source: string, id: string): string {
+  return `detail:${source}:${id}`;
+}
+
+/**
+ * 优先从存储中读取缓存，未命中时调用 loader 并按站点接口缓存时间写入
+ * shouldCache 返回 false 时不写入缓存（例如空结果）
+ */
+export async function withApiCache<T>(
+  key: string,
+  loader: () => Promise<T>,
+  shouldCache: (value: T) => boolean = () => true
+): Promise<T> {
+  // 存储初始化失败时跳过缓存，直接请求接口
+  let storage: IStorage | null = null;
+
+  try {
+    storage = getStorage();
+    const cached = await storage.getCache<T>(key);
+    if (cached !== null) {
+      return cached;
+    }
+  } catch (err) {
+    console.error('读取接口缓存失败:', err);
+  }
+
+  const value = await loader();
+
+  if (storage && shouldCache(value)) {
+    try {
+      await storage.setCache(key, value, await getCacheTime());
+    } catch (err) {
+      console.error('写入接口缓存失败:', err);
+    }
+  }
+
+  return value;
+}
+
+/**
+ * 清除接口缓存，不传 scope 时清除全部
+ */
+export async function purgeApiCache(scope?: ApiCacheScope): Promise<void> {
+  await getStorage().clearCache(scope ? `${scope}:` : undefined);
+}
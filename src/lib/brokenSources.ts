@@ -0,0 +1,70 @@
+/* eslint-disable no-console */
+'use client';
+
+import { normalizeTitle } from './aggregate';
+
+// 播放失败的资源站记录，按标题区分，仅保存在本地
+const STORAGE_KEY = 'katelyatv_broken_sources';
+// 资源站可能恢复，失败记录 3 天后过期
+const EXPIRE_MS = 3 * 24 * 60 * 60 * 1000;
+
+type BrokenSourceStore = Record<string, Record<string, number>>;
+
+function readStore(): BrokenSourceStore {
+  if (typeof window === 'undefined') return {};
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as BrokenSourceStore) : {};
+  } catch (err) {
+    console.error('读取失败源记录失败:', err);
+    return {};
+  }
+}
+
+function writeStore(store: BrokenSourceStore): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch (err) {
+    console.error('保存失败源记录失败:', err);
+  }
+}
+
+/**
+ * 记录某个标题下播放失败的资源站
+ */
+export function markSourceBroken(
+  title: string,
+  source: string,
+  id: string
+): void {
+  const store = readStore();
+  const now = Date.now();
+
+  // 顺带清理过期记录
+  Object.keys(store).forEach((titleKey) => {
+    Object.keys(store[titleKey]).forEach((key) => {
+      if (now - store[titleKey][key] > EXPIRE_MS) {
+        delete store[titleKey][key];
+      }
+    });
+    if (Object.keys(store[titleKey]).length === 0) {
+      delete store[titleKey];
+    }
+  });
+
+  const titleKey = normalizeTitle(title);
+  store[titleKey] = { ...store[titleKey], [`${source}+${id}`]: now };
+  writeStore(store);
+}
+
+/**
+ * 某个标题下的资源站是否曾播放失败（未过期）
+ */
+export function isSourceBroken(
+  title: string,
+  source: string,
+  id: string
+): boolean {
+  const time = readStore()[normalizeTitle(title)]?.[`${source}+${id}`];
+  return !!time && Date.now() - time <= EXPIRE_MS;
+}
@@ -1,7 +1,8 @@
 /* eslint-disable @typescript-eslint/no-explicit-any, no-console, @typescript-eslint/no-non-null-assertion */
 
-import { AdminConfig } from './admin.types';
+import { AdminConfig, ParserConfig } from './admin.types';
 import { getStorage } from './db';
+import { DEFAULT_PARSERS } from './parser';
 import runtimeConfig from './runtime';
 
 export interface ApiSite {
@@ -9,6 +10,8 @@ export interface ApiSite {
   api: string;
   name: string;
   detail?: string;
+  format?: 'json' | 'xml'; // 接口格式，未设置时自动识别
+  playMode?: 'parse' | 'direct'; // parse 表示需经解析接口播放
 }
 
 interface ConfigFileStruct {
@@ -38,9 +41,14 @@ export const API_CONFIG = {
   },
 };
 
+// 未配置解析接口时使用默认列表，复制一份避免修改到常量
+function defaultParsers(): ParserConfig[] {
+  return DEFAULT_PARSERS.map((p) => ({ ...p, platforms: [...p.platforms] }));
+}
+
 // 在模块加载时根据环境决定配置来源
 let fileConfig: ConfigFileStruct;
-let cachedConfig: AdminConfig;
+let cachedConfig: AdminConfig | undefined;
 
 async function initConfig() {
   if (cachedConfig) {
@@ -98,6 +106,8 @@ async function initConfig() {
               name: site.name,
               api: site.api,
               detail: site.detail,
+              format: site.format,
+              play_mode: site.playMode,
               from: 'config',
               disabled: false,
               is_adult: (site as any).is_adult || false, // 确保 is_adult 字段被正确处理
@@ -119,6 +129,10 @@ async function initConfig() {
           }
         });
 
+        if (!Array.isArray(adminConfig.ParseConfig)) {
+          adminConfig.ParseConfig = defaultParsers();
+        }
+
         const existedUsers = new Set(
           (adminConfig.UserConfig.Users || []).map((u) => u.username)
         );
@@ -176,10 +190,13 @@ async function initConfig() {
             name: site.name,
             api: site.api,
             detail: site.detail,
+            format: site.format,
+            play_mode: site.playMode,
             from: 'config',
             disabled: false,
             is_adult: (site as any).is_adult || false, // 确保 is_adult 字段被正确处理
           })),
+          ParseConfig: defaultParsers(),
         };
       }
 
@@ -216,19 +233,30 @@ async function initConfig() {
         name: site.name,
         api: site.api,
         detail: site.detail,
+        format: site.format,
+        play_mode: site.playMode,
         from: 'config',
         disabled: false,
       })),
+      ParseConfig: defaultParsers(),
     } as AdminConfig;
   }
 }
 
+// 初始化并返回缓存的配置，初始化失败时抛出错误
+async function getInitializedConfig(): Promise<AdminConfig> {
+  await initConfig();
+  if (!cachedConfig) {
+    throw new Error('加载管理员配置失败');
+  }
+  return cachedConfig;
+}
+
 export async function getConfig(): Promise<AdminConfig> {
   const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
   
   if (process.env.DOCKER_ENV === 'true' || storageType === 'localstorage') {
-    await initConfig();
-    return cachedConfig;
+    return getInitializedConfig();
   }
   
   // 非 docker 环境且 DB 存储，直接读 db 配置
@@ -264,6 +292,8 @@ export async function getConfig(): Promise<AdminConfig> {
           name: site.name,
           api: site.api,
           detail: site.detail,
+          format: site.format,
+          play_mode: site.playMode,
           from: 'config',
           disabled: false,
           is_adult: (site as any).is_adult || false, // 确保处理 is_adult 字段
@@ -285,6 +315,10 @@ export async function getConfig(): Promise<AdminConfig> {
       }
     });
 
+    if (!Array.isArray(adminConfig.ParseConfig)) {
+      adminConfig.ParseConfig = defaultParsers();
+    }
+
     const ownerUser = process.env.USERNAME || '';
     // 检查配置中的站长用户是否和 USERNAME 匹配，如果不匹配则降级为普通用户
     let containOwner = false;
@@ -308,13 +342,12 @@ export async function getConfig(): Promise<AdminConfig> {
     cachedConfig = adminConfig;
   } else {
     // DB 无配置，执行一次初始化
-    await initConfig();
+    return await getInitializedConfig();
   }
   return cachedConfig;
   } catch (error) {
     // 如果数据库访问失败，回退到默认配置
-    await initConfig();
-    return cachedConfig;
+    return getInitializedConfig();
   }
 }
 
@@ -380,9 +413,12 @@ export async function resetConfig() {
       name: site.name,
       api: site.api,
       detail: site.detail,
+      format: site.format,
+      play_mode: site.playMode,
       from: 'config',
       disabled: false,
     })),
+    ParseConfig: defaultParsers(),
   } as AdminConfig;
 
   if (storage && typeof (storage as any).setAdminConfig === 'function') {
@@ -395,6 +431,15 @@ export async function resetConfig() {
   cachedConfig.SiteConfig = adminConfig.SiteConfig;
   cachedConfig.UserConfig = adminConfig.UserConfig;
   cachedConfig.SourceConfig = adminConfig.SourceConfig;
+  cachedConfig.ParseConfig = adminConfig.ParseConfig;
+}
+
+/**
+ * 清除进程内缓存的管理员配置，下次 getConfig 时重新从存储读取
+ * 用于配置在管理接口之外被整体替换的场景，如存储迁移
+ */
+export function clearConfigCache() {
+  cachedConfig = undefined;
 }
 
 export async function getCacheTime(): Promise<number> {
@@ -429,6 +474,7 @@ export async function getAvailableApiSites(filterAdult = false): Promise<ApiSite
     name: s.name,
     api: s.api,
     detail: s.detail,
+    format: s.format,
   }));
 }
 
@@ -475,6 +521,7 @@ export async function getFilteredApiSites(userName?: string): Promise<ApiSite[]>
     name: s.name,
     api: s.api,
     detail: s.detail,
+    format: s.format,
   }));
 }
 
@@ -497,5 +544,6 @@ export async function getAdultApiSites(): Promise<ApiSite[]> {
     name: s.name,
     api: s.api,
     detail: s.detail,
+    format: s.format,
   }));
 }
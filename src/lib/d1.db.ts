@@ -1,26 +1,27 @@
 /* eslint-disable no-console, @typescript-eslint/no-explicit-any, @typescript-eslint/no-non-null-assertion */
 
 import { AdminConfig } from './admin.types';
-import { EpisodeSkipConfig, Favorite, IStorage, PlayRecord, User, UserSettings } from './types';
+import { D1SchemaStatus, getD1SchemaStatus, runD1Migrations } from './d1.migrations';
+import { DEFAULT_USER_SETTINGS, EpisodeSkipConfig, EpisodeSubtitle, Favorite, IStorage, PlayRecord, SharedSkipConfig, SourceHealth, User, UserSettings, WatchRoom } from './types';
 
 // 搜索历史最大条数
 const SEARCH_HISTORY_LIMIT = 20;
 
 // D1 数据库接口
-interface D1Database {
+export interface D1Database {
   prepare(sql: string): D1PreparedStatement;
   exec(sql: string): Promise<D1ExecResult>;
   batch(statements: D1PreparedStatement[]): Promise<D1Result[]>;
 }
 
-interface D1PreparedStatement {
+export interface D1PreparedStatement {
   bind(...values: any[]): D1PreparedStatement;
   first<T = any>(colName?: string): Promise<T | null>;
   run(): Promise<D1Result>;
   all<T = any>(): Promise<D1Result<T>>;
 }
 
-interface D1Result<T = any> {
+export interface D1Result<T = any> {
   results: T[];
   success: boolean;
   error?: string;
@@ -32,7 +33,7 @@ interface D1Result<T = any> {
   };
 }
 
-interface D1ExecResult {
+export interface D1ExecResult {
   count: number;
   duration: number;
 }
@@ -58,14 +59,65 @@ function getD1Database(): D1Database {
 
 export class D1Storage implements IStorage {
   private db: D1Database | null = null;
+  private readonly openDatabase: () => Promise<D1Database>;
+  private schemaReady: Promise<void> | null = null;
+  private schemaError: string | null = null;
+
+  // 可传入兼容 D1 接口的数据库或异步打开它的函数（如 SQLite 文件存储），默认使用 D1 绑定
+  constructor(db?: D1Database | (() => Promise<D1Database>)) {
+    if (typeof db === 'function') {
+      this.openDatabase = db;
+    } else {
+      this.db = db || null;
+      this.openDatabase = async () => getD1Database();
+    }
+  }
 
   private async getDatabase(): Promise<D1Database> {
     if (!this.db) {
-      this.db = getD1Database();
+      this.db = await this.openDatabase();
     }
+    // 首次访问时自动执行未完成的结构迁移，检测到旧版表结构时停止，等待站长确认
+    if (!this.schemaReady) {
+      this.schemaReady = this.migrate(this.db);
+    }
+    await this.schemaReady;
     return this.db;
   }
 
+  private async migrate(db: D1Database): Promise<void> {
+    try {
+      await runD1Migrations(db);
+      this.schemaError = null;
+    } catch (err) {
+      // 迁移失败不阻断请求，下次访问时重试
+      console.error('D1 数据库迁移失败:', err);
+      this.schemaError = (err as Error).message;
+      this.schemaReady = null;
+    }
+  }
+
+  // 数据库结构版本，供管理页面查看
+  async getSchemaStatus(): Promise<D1SchemaStatus & { error: string | null }> {
+    const db = await this.getDatabase();
+    return { ...(await getD1SchemaStatus(db)), error: this.schemaError };
+  }
+
+  // 站长手动执行迁移，会改名保留旧版表结构，失败时抛出错误
+  async applySchemaMigrations(): Promise<{
+    applied: number[];
+    renamed: string[];
+  }> {
+    const db = this.db || (await this.openDatabase());
+    const { ran, renamed } = await runD1Migrations(db, {
+      convertLegacy: true,
+    });
+    this.db = db;
+    this.schemaReady = Promise.resolve();
+    this.schemaError = null;
+    return { applied: ran, renamed };
+  }
+
   // 播放记录相关
   async getPlayRecord(
     userName: string,
@@ -91,6 +143,7 @@ export class D1Storage implements IStorage {
         total_time: result.total_time,
         save_time: result.save_time,
         search_title: result.search_title || undefined,
+        episode_title: result.episode_title || undefined,
       };
     } catch (err) {
       console.error('Failed to get play record:', err);
@@ -109,8 +162,8 @@ export class D1Storage implements IStorage {
         .prepare(
           `
           INSERT OR REPLACE INTO play_records 
-          (username, key, title, source_name, cover, year, index_episode, total_episodes, play_time, total_time, save_time, search_title)
-          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          (username, key, title, source_name, cover, year, index_episode, total_episodes, play_time, total_time, save_time, search_title, episode_title)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `
         )
         .bind(
@@ -125,7 +178,8 @@ export class D1Storage implements IStorage {
           record.play_time,
           record.total_time,
           record.save_time,
-          record.search_title || null
+          record.search_title || null,
+          record.episode_title || null
         )
         .run();
     } catch (err) {
@@ -160,6 +214,7 @@ export class D1Storage implements IStorage {
           total_time: row.total_time,
           save_time: row.save_time,
           search_title: row.search_title || undefined,
+          episode_title: row.episode_title || undefined,
         };
       });
 
@@ -220,8 +275,8 @@ export class D1Storage implements IStorage {
         .prepare(
           `
           INSERT OR REPLACE INTO favorites 
-          (username, key, title, source_name, cover, year, total_episodes, save_time)
-          VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+          (username, key, title, source_name, cover, year, total_episodes, save_time, search_title)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
         `
         )
         .bind(
@@ -232,7 +287,8 @@ export class D1Storage implements IStorage {
           favorite.cover,
           favorite.year,
           favorite.total_episodes,
-          favorite.save_time
+          favorite.save_time,
+          favorite.search_title
         )
         .run();
     } catch (err) {
@@ -314,6 +370,21 @@ export class D1Storage implements IStorage {
     }
   }
 
+  async getUserPassword(userName: string): Promise<string | null> {
+    try {
+      const db = await this.getDatabase();
+      const result = await db
+        .prepare('SELECT password FROM users WHERE username = ?')
+        .bind(userName)
+        .first<{ password: string }>();
+
+      return result?.password ?? null;
+    } catch (err) {
+      console.error('Failed to get user password:', err);
+      throw err;
+    }
+  }
+
   async checkUserExist(userName: string): Promise<boolean> {
     try {
       const db = await this.getDatabase();
@@ -354,6 +425,13 @@ export class D1Storage implements IStorage {
         db
           .prepare('DELETE FROM search_history WHERE username = ?')
           .bind(userName),
+        db.prepare('DELETE FROM subtitles WHERE username = ?').bind(userName),
+        db
+          .prepare('DELETE FROM skip_configs WHERE username = ?')
+          .bind(userName),
+        db
+          .prepare('DELETE FROM user_settings WHERE username = ?')
+          .bind(userName),
       ];
 
       await db.batch(statements);
@@ -367,9 +445,10 @@ export class D1Storage implements IStorage {
   async getSearchHistory(userName: string): Promise<string[]> {
     try {
       const db = await this.getDatabase();
+      // created_at 只精确到秒，按自增 id 排序才能保证最新的在前
       const result = await db
         .prepare(
-          'SELECT keyword FROM search_history WHERE username = ? ORDER BY created_at DESC LIMIT ?'
+          'SELECT keyword FROM search_history WHERE username = ? ORDER BY id DESC LIMIT ?'
         )
         .bind(userName, SEARCH_HISTORY_LIMIT)
         .all<{ keyword: string }>();
@@ -406,7 +485,7 @@ export class D1Storage implements IStorage {
           WHERE username = ? AND id NOT IN (
             SELECT id FROM search_history 
             WHERE username = ? 
-            ORDER BY created_at DESC 
+            ORDER BY id DESC 
             LIMIT ?
           )
         `
@@ -638,19 +717,371 @@ export class D1Storage implements IStorage {
     settings: Partial<UserSettings>
   ): Promise<void> {
     const current = await this.getUserSettings(userName);
-    const defaultSettings: UserSettings = {
-      filter_adult_content: true,
-      theme: 'auto',
-      language: 'zh-CN',
-      auto_play: false,
-      video_quality: 'auto'
-    };
     const updated: UserSettings = { 
-      ...defaultSettings, 
+      ...DEFAULT_USER_SETTINGS, 
       ...current, 
       ...settings,
       filter_adult_content: settings.filter_adult_content ?? current?.filter_adult_content ?? true
     };
     await this.setUserSettings(userName, updated);
   }
+
+  // ---------- 外挂字幕 ----------
+  async getSubtitle(
+    userName: string,
+    key: string
+  ): Promise<EpisodeSubtitle | null> {
+    try {
+      const db = await this.getDatabase();
+      const row = await db
+        .prepare('SELECT data FROM subtitles WHERE username = ? AND key = ?')
+        .bind(userName, key)
+        .first<{ data: string }>();
+
+      return row ? (JSON.parse(row.data) as EpisodeSubtitle) : null;
+    } catch (err) {
+      console.error('Failed to get subtitle:', err);
+      throw err;
+    }
+  }
+
+  async setSubtitle(
+    userName: string,
+    key: string,
+    subtitle: EpisodeSubtitle
+  ): Promise<void> {
+    try {
+      const db = await this.getDatabase();
+      await db
+        .prepare(
+          'INSERT OR REPLACE INTO subtitles (username, key, data, updated_time) VALUES (?, ?, ?, ?)'
+        )
+        .bind(userName, key, JSON.stringify(subtitle), subtitle.updated_time)
+        .run();
+    } catch (err) {
+      console.error('Failed to set subtitle:', err);
+      throw err;
+    }
+  }
+
+  async getAllSubtitles(
+    userName: string
+  ): Promise<Record<string, EpisodeSubtitle>> {
+    try {
+      const db = await this.getDatabase();
+      const result = await db
+        .prepare('SELECT key, data FROM subtitles WHERE username = ?')
+        .bind(userName)
+        .all<{ key: string; data: string }>();
+
+      const subtitles: Record<string, EpisodeSubtitle> = {};
+      result.results.forEach((row) => {
+        subtitles[row.key] = JSON.parse(row.data) as EpisodeSubtitle;
+      });
+      return subtitles;
+    } catch (err) {
+      console.error('Failed to get all subtitles:', err);
+      throw err;
+    }
+  }
+
+  async deleteSubtitle(userName: string, key: string): Promise<void> {
+    try {
+      const db = await this.getDatabase();
+      await db
+        .prepare('DELETE FROM subtitles WHERE username = ? AND key = ?')
+        .bind(userName, key)
+        .run();
+    } catch (err) {
+      console.error('Failed to delete subtitle:', err);
+      throw err;
+    }
+  }
+
+  // ---------- 社区共享跳过配置 ----------
+  async getSharedSkipConfig(key: string): Promise<SharedSkipConfig | null> {
+    try {
+      const db = await this.getDatabase();
+      const row = await db
+        .prepare('SELECT data FROM shared_skip_configs WHERE config_key = ?')
+        .bind(key)
+        .first<{ data: string }>();
+
+      return row ? (JSON.parse(row.data) as SharedSkipConfig) : null;
+    } catch (err) {
+      console.error('Failed to get shared skip config:', err);
+      throw err;
+    }
+  }
+
+  async setSharedSkipConfig(
+    key: string,
+    config: SharedSkipConfig
+  ): Promise<void> {
+    try {
+      const db = await this.getDatabase();
+      await db
+        .prepare(
+          'INSERT OR REPLACE INTO shared_skip_configs (config_key, data, updated_time) VALUES (?, ?, ?)'
+        )
+        .bind(key, JSON.stringify(config), config.updated_time)
+        .run();
+    } catch (err) {
+      console.error('Failed to set shared skip config:', err);
+      throw err;
+    }
+  }
+
+  async getAllSharedSkipConfigs(): Promise<Record<string, SharedSkipConfig>> {
+    try {
+      const db = await this.getDatabase();
+      const result = await db
+        .prepare(
+          'SELECT config_key, data FROM shared_skip_configs ORDER BY updated_time DESC'
+        )
+        .all<{ config_key: string; data: string }>();
+
+      const configs: Record<string, SharedSkipConfig> = {};
+      result.results.forEach((row) => {
+        configs[row.config_key] = JSON.parse(row.data) as SharedSkipConfig;
+      });
+      return configs;
+    } catch (err) {
+      console.error('Failed to get shared skip configs:', err);
+      throw err;
+    }
+  }
+
+  async deleteSharedSkipConfig(key: string): Promise<void> {
+    try {
+      const db = await this.getDatabase();
+      await db
+        .prepare('DELETE FROM shared_skip_configs WHERE config_key = ?')
+        .bind(key)
+        .run();
+    } catch (err) {
+      console.error('Failed to delete shared skip config:', err);
+      throw err;
+    }
+  }
+
+  // ---------- 一起看房间 ----------
+  async getWatchRoom(roomId: string): Promise<WatchRoom | null> {
+    try {
+      const db = await this.getDatabase();
+      const row = await db
+        .prepare('SELECT data FROM watch_rooms WHERE room_id = ?')
+        .bind(roomId)
+        .first<{ data: string }>();
+
+      return row ? (JSON.parse(row.data) as WatchRoom) : null;
+    } catch (err) {
+      console.error('Failed to get watch room:', err);
+      throw err;
+    }
+  }
+
+  async getAllWatchRooms(): Promise<WatchRoom[]> {
+    try {
+      const db = await this.getDatabase();
+      const result = await db
+        .prepare('SELECT data FROM watch_rooms')
+        .all<{ data: string }>();
+
+      return result.results.map((row) => JSON.parse(row.data) as WatchRoom);
+    } catch (err) {
+      console.error('Failed to get watch rooms:', err);
+      throw err;
+    }
+  }
+
+  async setWatchRoom(roomId: string, room: WatchRoom): Promise<void> {
+    try {
+      const db = await this.getDatabase();
+      await db
+        .prepare(
+          'INSERT OR REPLACE INTO watch_rooms (room_id, data, updated_time) VALUES (?, ?, ?)'
+        )
+        .bind(roomId, JSON.stringify(room), Date.now())
+        .run();
+    } catch (err) {
+      console.error('Failed to set watch room:', err);
+      throw err;
+    }
+  }
+
+  async deleteWatchRoom(roomId: string): Promise<void> {
+    try {
+      const db = await this.getDatabase();
+      await db.batch([
+        db.prepare('DELETE FROM watch_rooms WHERE room_id = ?').bind(roomId),
+        db
+          .prepare('DELETE FROM watch_room_members WHERE room_id = ?')
+          .bind(roomId),
+      ]);
+    } catch (err) {
+      console.error('Failed to delete watch room:', err);
+      throw err;
+    }
+  }
+
+  async getWatchRoomMembers(roomId: string): Promise<Record<string, number>> {
+    try {
+      const db = await this.getDatabase();
+      const result = await db
+        .prepare(
+          'SELECT username, last_seen FROM watch_room_members WHERE room_id = ?'
+        )
+        .bind(roomId)
+        .all<{ username: string; last_seen: number }>();
+
+      const members: Record<string, number> = {};
+      result.results.forEach((row) => {
+        members[row.username] = row.last_seen;
+      });
+      return members;
+    } catch (err) {
+      console.error('Failed to get watch room members:', err);
+      throw err;
+    }
+  }
+
+  async setWatchRoomMember(
+    roomId: string,
+    userName: string,
+    lastSeen: number
+  ): Promise<void> {
+    try {
+      const db = await this.getDatabase();
+      await db
+        .prepare(
+          'INSERT OR REPLACE INTO watch_room_members (room_id, username, last_seen) VALUES (?, ?, ?)'
+        )
+        .bind(roomId, userName, lastSeen)
+        .run();
+    } catch (err) {
+      console.error('Failed to set watch room member:', err);
+      throw err;
+    }
+  }
+
+  async deleteWatchRoomMember(roomId: string, userName: string): Promise<void> {
+    try {
+      const db = await this.getDatabase();
+      await db
+        .prepare(
+          'DELETE FROM watch_room_members WHERE room_id = ? AND username = ?'
+        )
+        .bind(roomId, userName)
+        .run();
+    } catch (err) {
+      console.error('Failed to delete watch room member:', err);
+      throw err;
+    }
+  }
+
+  // ---------- 接口缓存 ----------
+  async getCache<T = unknown>(key: string): Promise<T | null> {
+    try {
+      const db = await this.getDatabase();
+      const row = await db
+        .prepare(
+          'SELECT data FROM api_cache WHERE cache_key = ? AND expire_time > ?'
+        )
+        .bind(key, Date.now())
+        .first<{ data: string }>();
+
+      return row ? (JSON.parse(row.data) as T) : null;
+    } catch (err) {
+      console.error('Failed to get cache:', err);
+      throw err;
+    }
+  }
+
+  async setCache<T = unknown>(key: string, value: T, ttl: number): Promise<void> {
+    try {
+      const db = await this.getDatabase();
+      const now = Date.now();
+      // 写入的同时顺带清理已过期的缓存
+      await db.batch([
+        db
+          .prepare(
+            'INSERT OR REPLACE INTO api_cache (cache_key, data, expire_time) VALUES (?, ?, ?)'
+          )
+          .bind(key, JSON.stringify(value), now + ttl * 1000),
+        db.prepare('DELETE FROM api_cache WHERE expire_time <= ?').bind(now),
+      ]);
+    } catch (err) {
+      console.error('Failed to set cache:', err);
+      throw err;
+    }
+  }
+
+  async clearCache(prefix?: string): Promise<void> {
+    try {
+      const db = await this.getDatabase();
+      if (prefix) {
+        await db
+          .prepare('DELETE FROM api_cache WHERE substr(cache_key, 1, ?) = ?')
+          .bind(prefix.length, prefix)
+          .run();
+      } else {
+        await db.prepare('DELETE FROM api_cache').run();
+      }
+    } catch (err) {
+      console.error('Failed to clear cache:', err);
+      throw err;
+    }
+  }
+
+  // ---------- 资源站健康状态 ----------
+  async getAllSourceHealth(): Promise<Record<string, SourceHealth>> {
+    try {
+      const db = await this.getDatabase();
+      const result = await db
+        .prepare('SELECT source_key, data FROM source_health')
+        .all<{ source_key: string; data: string }>();
+
+      const health: Record<string, SourceHealth> = {};
+      result.results.forEach((row) => {
+        health[row.source_key] = JSON.parse(row.data) as SourceHealth;
+      });
+      return health;
+    } catch (err) {
+      console.error('Failed to get source health:', err);
+      throw err;
+    }
+  }
+
+  async setSourceHealth(key: string, health: SourceHealth): Promise<void> {
+    try {
+      const db = await this.getDatabase();
+      await db
+        .prepare(
+          'INSERT OR REPLACE INTO source_health (source_key, data, updated_time) VALUES (?, ?, ?)'
+        )
+        .bind(key, JSON.stringify(health), health.updated_time)
+        .run();
+    } catch (err) {
+      console.error('Failed to set source health:', err);
+      throw err;
+    }
+  }
+
+  async deleteSourceHealth(key?: string): Promise<void> {
+    try {
+      const db = await this.getDatabase();
+      if (key) {
+        await db
+          .prepare('DELETE FROM source_health WHERE source_key = ?')
+          .bind(key)
+          .run();
+      } else {
+        await db.prepare('DELETE FROM source_health').run();
+      }
+    } catch (err) {
+      console.error('Failed to delete source health:', err);
+      throw err;
+    }
+  }
 }
@@ -0,0 +1,337 @@
+/* eslint-disable no-console */
+
+// D1 数据库结构迁移：按版本号顺序执行，已执行的版本记录在 schema_version 表中
+// 迁移语句需要可以重复执行，兼容按旧文档手动建过表的数据库
+
+import type { D1Database } from './d1.db';
+
+export interface D1Migration {
+  version: number;
+  name: string;
+  up: (db: D1Database) => Promise<void>;
+}
+
+export interface D1SchemaStatus {
+  current: number; // 已执行的最高版本，0 表示尚未执行过迁移
+  latest: number;
+  applied: { version: number; name: string; applied_at: number }[];
+  pending: { version: number; name: string }[];
+  legacy: string[]; // 旧版初始化脚本建出的表，需站长执行迁移时改名保留
+}
+
+async function runStatements(db: D1Database, statements: string[]) {
+  await db.batch(statements.map((sql) => db.prepare(sql)));
+}
+
+async function addColumnIfMissing(
+  db: D1Database,
+  table: string,
+  column: string,
+  definition: string
+) {
+  const { results } = await db
+    .prepare(`PRAGMA table_info(${table})`)
+    .all<{ name: string }>();
+  if (!results.some((c) => c.name === column)) {
+    await db
+      .prepare(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`)
+      .run();
+  }
+}
+
+// 新增迁移时追加到末尾并递增版本号，不要修改已发布的迁移
+export const D1_MIGRATIONS: D1Migration[] = [
+  {
+    version: 1,
+    name: 'create_core_tables',
+    up: (db) =>
+      runStatements(db, [
+        `CREATE TABLE IF NOT EXISTS users (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          username TEXT UNIQUE NOT NULL,
+          password TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )`,
+        `CREATE TABLE IF NOT EXISTS play_records (
+          username TEXT NOT NULL,
+          key TEXT NOT NULL,
+          title TEXT NOT NULL,
+          source_name TEXT,
+          cover TEXT,
+          year TEXT,
+          index_episode INTEGER,
+          total_episodes INTEGER,
+          play_time INTEGER,
+          total_time INTEGER,
+          save_time INTEGER NOT NULL,
+          search_title TEXT,
+          PRIMARY KEY (username, key)
+        )`,
+        `CREATE TABLE IF NOT EXISTS favorites (
+          username TEXT NOT NULL,
+          key TEXT NOT NULL,
+          title TEXT NOT NULL,
+          source_name TEXT,
+          cover TEXT,
+          year TEXT,
+          total_episodes INTEGER,
+          save_time INTEGER NOT NULL,
+          search_title TEXT,
+          PRIMARY KEY (username, key)
+        )`,
+        `CREATE TABLE IF NOT EXISTS search_history (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          username TEXT NOT NULL,
+          keyword TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )`,
+        `CREATE TABLE IF NOT EXISTS skip_configs (
+          username TEXT NOT NULL,
+          key TEXT NOT NULL,
+          source TEXT NOT NULL,
+          video_id TEXT NOT NULL,
+          title TEXT,
+          segments TEXT NOT NULL,
+          updated_time INTEGER NOT NULL,
+          PRIMARY KEY (username, key)
+        )`,
+        `CREATE TABLE IF NOT EXISTS user_settings (
+          username TEXT PRIMARY KEY,
+          settings TEXT NOT NULL,
+          updated_time INTEGER NOT NULL
+        )`,
+        `CREATE TABLE IF NOT EXISTS admin_configs (
+          config_key TEXT PRIMARY KEY,
+          config_value TEXT NOT NULL,
+          description TEXT
+        )`,
+        'CREATE INDEX IF NOT EXISTS idx_play_records_username ON play_records(username)',
+        'CREATE INDEX IF NOT EXISTS idx_favorites_username ON favorites(username)',
+        'CREATE INDEX IF NOT EXISTS idx_search_history_username ON search_history(username)',
+        'CREATE INDEX IF NOT EXISTS idx_skip_configs_username ON skip_configs(username)',
+      ]),
+  },
+  {
+    version: 2,
+    name: 'add_play_records_episode_title',
+    up: (db) => addColumnIfMissing(db, 'play_records', 'episode_title', 'TEXT'),
+  },
+  {
+    version: 3,
+    name: 'create_cache_tables',
+    up: (db) =>
+      runStatements(db, [
+        `CREATE TABLE IF NOT EXISTS source_health (
+          source_key TEXT PRIMARY KEY,
+          data TEXT NOT NULL,
+          updated_time INTEGER NOT NULL
+        )`,
+        `CREATE TABLE IF NOT EXISTS api_cache (
+          cache_key TEXT PRIMARY KEY,
+          data TEXT NOT NULL,
+          expire_time INTEGER NOT NULL
+        )`,
+        'CREATE INDEX IF NOT EXISTS idx_api_cache_expire_time ON api_cache(expire_time)',
+      ]),
+  },
+  {
+    version: 4,
+    name: 'create_subtitle_and_shared_skip_tables',
+    up: (db) =>
+      runStatements(db, [
+        `CREATE TABLE IF NOT EXISTS subtitles (
+          username TEXT NOT NULL,
+          key TEXT NOT NULL,
+          data TEXT NOT NULL,
+          updated_time INTEGER NOT NULL,
+          PRIMARY KEY (username, key)
+        )`,
+        `CREATE TABLE IF NOT EXISTS shared_skip_configs (
+          config_key TEXT PRIMARY KEY,
+          data TEXT NOT NULL,
+          updated_time INTEGER NOT NULL
+        )`,
+      ]),
+  },
+  {
+    version: 5,
+    name: 'create_watch_room_tables',
+    up: (db) =>
+      runStatements(db, [
+        `CREATE TABLE IF NOT EXISTS watch_rooms (
+          room_id TEXT PRIMARY KEY,
+          data TEXT NOT NULL,
+          updated_time INTEGER NOT NULL
+        )`,
+        `CREATE TABLE IF NOT EXISTS watch_room_members (
+          room_id TEXT NOT NULL,
+          username TEXT NOT NULL,
+          last_seen INTEGER NOT NULL,
+          PRIMARY KEY (room_id, username)
+        )`,
+      ]),
+  },
+];
+
+export const D1_LATEST_VERSION =
+  D1_MIGRATIONS[D1_MIGRATIONS.length - 1].version;
+
+// 旧版 cloudflare-d1-init.sql 建出的表缺少当前代码依赖的列，以这些列判断是否为旧表结构
+// 旧版 search_history 与当前代码用到的列一致，无需处理
+const LEGACY_TABLE_MARKERS: Record<string, string> = {
+  users: 'password', // 旧版为 password_hash + salt
+  user_settings: 'settings', // 旧版按列保存各项设置
+  play_records: 'key', // 旧版以 video_id 作为记录标识
+  favorites: 'key',
+  skip_configs: 'segments', // 旧版只有 skip_start / skip_end
+};
+
+const LEGACY_TABLE_PREFIX = 'legacy_';
+
+/**
+ * 检测旧版初始化脚本建出的表：表存在但缺少当前结构的标志列
+ */
+export async function findLegacyD1Tables(db: D1Database): Promise<string[]> {
+  const legacy: string[] = [];
+  for (const [table, column] of Object.entries(LEGACY_TABLE_MARKERS)) {
+    const { results } = await db
+      .prepare(`PRAGMA table_info(${table})`)
+      .all<{ name: string }>();
+    if (results.length > 0 && !results.some((c) => c.name === column)) {
+      legacy.push(table);
+    }
+  }
+  return legacy;
+}
+
+/**
+ * 将旧版初始化脚本建出的表改名为 legacy_ 前缀保留原数据，并删除其上的索引与触发器，
+ * 之后由迁移按当前结构重新建表。旧表的列与当前代码不兼容（如密码以哈希保存），无法自动转换数据。
+ * 返回被改名的表
+ */
+export async function convertLegacyD1Schema(db: D1Database): Promise<string[]> {
+  const legacy = await findLegacyD1Tables(db);
+  if (legacy.length === 0) return [];
+
+  const conflicts = await db
+    .prepare(
+      `SELECT name FROM sqlite_master WHERE name IN (${legacy
+        .map(() => '?')
+        .join(', ')})`
+    )
+    .bind(...legacy.map((table) => LEGACY_TABLE_PREFIX + table))
+    .all<{ name: string }>();
+  if (conflicts.results.length > 0) {
+    throw new Error(
+      `检测到旧版表结构（${legacy.join('、')}），但 ${conflicts.results
+        .map((r) => r.name)
+        .join('、')} 已存在，请处理后重试`
+    );
+  }
+
+  // 旧表的索引与触发器与新表同名，改名前删除
+  const { results: objects } = await db
+    .prepare(
+      `SELECT type, name FROM sqlite_master
+        WHERE type IN ('index', 'trigger') AND sql IS NOT NULL
+        AND tbl_name IN (${legacy.map(() => '?').join(', ')})`
+    )
+    .bind(...legacy)
+    .all<{ type: string; name: string }>();
+
+  console.warn(
+    `检测到旧版 D1 表结构，已改名保留：${legacy
+      .map((table) => `${table} -> ${LEGACY_TABLE_PREFIX}${table}`)
+      .join('，')}`
+  );
+  await runStatements(db, [
+    ...objects.map(
+      ({ type, name }) =>
+        `DROP ${type === 'index' ? 'INDEX' : 'TRIGGER'} IF EXISTS "${name}"`
+    ),
+    ...legacy.map(
+      (table) => `ALTER TABLE ${table} RENAME TO ${LEGACY_TABLE_PREFIX}${table}`
+    ),
+  ]);
+  return legacy;
+}
+
+async function getAppliedMigrations(db: D1Database) {
+  await db
+    .prepare(
+      `CREATE TABLE IF NOT EXISTS schema_version (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at INTEGER NOT NULL
+      )`
+    )
+    .run();
+  const { results } = await db
+    .prepare(
+      'SELECT version, name, applied_at FROM schema_version ORDER BY version ASC'
+    )
+    .all<{ version: number; name: string; applied_at: number }>();
+  return results;
+}
+
+/**
+ * 读取数据库结构版本和待执行的迁移
+ */
+export async function getD1SchemaStatus(
+  db: D1Database
+): Promise<D1SchemaStatus> {
+  const applied = await getAppliedMigrations(db);
+  const versions = new Set(applied.map((m) => m.version));
+  return {
+    current: applied.reduce((max, m) => Math.max(max, m.version), 0),
+    latest: D1_LATEST_VERSION,
+    applied,
+    pending: D1_MIGRATIONS.filter((m) => !versions.has(m.version)).map(
+      ({ version, name }) => ({ version, name })
+    ),
+    legacy: await findLegacyD1Tables(db),
+  };
+}
+
+/**
+ * 按顺序执行尚未执行的迁移，返回本次执行的版本号与改名保留的旧表；某个迁移失败时抛出错误并停止
+ * 存在旧版表结构时，只有 convertLegacy 为 true（站长手动执行）才会改名旧表，
+ * 转换后全部迁移重新执行一遍以按当前结构建表；否则抛出错误，避免自动迁移时让已有数据“消失”
+ */
+export async function runD1Migrations(
+  db: D1Database,
+  options: { convertLegacy?: boolean } = {}
+): Promise<{ ran: number[]; renamed: string[] }> {
+  let converted: string[] = [];
+  if (options.convertLegacy) {
+    converted = await convertLegacyD1Schema(db);
+  } else {
+    const legacy = await findLegacyD1Tables(db);
+    if (legacy.length > 0) {
+      throw new Error(
+        `检测到旧版初始化脚本建立的表（${legacy.join(
+          '、'
+        )}），与当前版本不兼容。请站长在管理后台「数据库结构」中确认执行迁移，旧表将改名为 ${LEGACY_TABLE_PREFIX} 前缀保留`
+      );
+    }
+  }
+  const recorded = await getAppliedMigrations(db);
+  const applied = new Set(
+    converted.length > 0 ? [] : recorded.map((m) => m.version)
+  );
+  const ran: number[] = [];
+  for (const migration of D1_MIGRATIONS) {
+    if (applied.has(migration.version)) continue;
+    console.log(`执行 D1 迁移 ${migration.version}: ${migration.name}`);
+    await migration.up(db);
+    // 多个实例同时迁移时只保留先写入的记录
+    await db
+      .prepare(
+        'INSERT OR IGNORE INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)'
+      )
+      .bind(migration.version, migration.name, Date.now())
+      .run();
+    ran.push(migration.version);
+  }
+  return { ran, renamed: converted };
+}
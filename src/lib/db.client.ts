@@ -15,6 +15,17 @@
  */
 
 import { getAuthInfoFromBrowserCookie } from './auth';
+import {
+  parseUserDataBundle,
+  planRecordMerge,
+  planSearchHistoryMerge,
+  planSettingsMerge,
+  USER_DATA_FORMAT,
+  USER_DATA_VERSION,
+  UserDataBundle,
+  UserDataImportMode,
+  UserDataImportResult,
+} from './userData';
 
 // ---- 类型 ----
 export interface PlayRecord {
@@ -28,6 +39,7 @@ export interface PlayRecord {
   total_time: number; // 总进度（秒）
   save_time: number; // 记录保存时间（时间戳）
   search_title?: string; // 搜索时使用的标题
+  episode_title?: string; // 资源站提供的剧集标签，如 "SP2"、"花絮"
 }
 
 // ---- 收藏类型 ----
@@ -59,6 +71,45 @@ export interface EpisodeSkipConfig {
   updated_time: number; // 最后更新时间
 }
 
+// ---- 外挂字幕类型 ----
+export interface EpisodeSubtitle {
+  name: string; // 字幕名称（文件名或地址）
+  url?: string; // 远程字幕地址
+  content?: string; // 上传的字幕内容（WebVTT）
+  offset: number; // 时间偏移（秒）
+  size: number; // 字号（px）
+  updated_time: number;
+}
+
+export interface SharedSkipConfig extends EpisodeSkipConfig {
+  contributor: string; // 发布者用户名
+}
+
+// ---- 一起看房间类型 ----
+export interface WatchRoom {
+  id: string;
+  host: string;
+  source: string;
+  video_id: string;
+  title: string;
+  episode: number; // 从 1 开始的集数
+  playing: boolean;
+  position: number; // state_time 时刻的播放进度（秒）
+  rate: number;
+  state_time: number; // 服务器时间戳
+  version: number;
+  updated_by: string;
+  host_only: boolean;
+  kicked: string[];
+  created_time: number;
+}
+
+export interface WatchRoomSnapshot {
+  room: WatchRoom;
+  members: string[]; // 在线成员
+  server_time: number;
+}
+
 // ---- 缓存数据结构 ----
 interface CacheData<T> {
   data: T;
@@ -79,6 +130,7 @@ const PLAY_RECORDS_KEY = 'katelyatv_play_records';
 const FAVORITES_KEY = 'katelyatv_favorites';
 const SEARCH_HISTORY_KEY = 'katelyatv_search_history';
 const SKIP_CONFIGS_KEY = 'katelyatv_skip_configs';
+const SUBTITLES_KEY = 'katelyatv_subtitles';
 const LEGACY_PLAY_RECORDS_KEY = 'moontv_play_records';
 const LEGACY_FAVORITES_KEY = 'moontv_favorites';
 const LEGACY_SEARCH_HISTORY_KEY = 'moontv_search_history';
@@ -99,6 +151,7 @@ const STORAGE_TYPE = (() => {
       | 'redis'
       | 'd1'
       | 'upstash'
+      | 'sqlite'
       | undefined) ||
     'localstorage';
   return raw;
@@ -1545,3 +1598,657 @@ export async function deleteSkipConfig(source: string, id: string): Promise<void
     throw err;
   }
 }
+
+// ---------------- 社区共享跳过配置 ----------------
+
+/**
+ * 社区共享配置依赖服务端存储，本地存储模式下不可用
+ */
+export function isCommunitySkipAvailable(): boolean {
+  return STORAGE_TYPE !== 'localstorage';
+}
+
+/**
+ * 获取社区共享的跳过配置，仅数据库存储模式可用
+ */
+export async function getSharedSkipConfig(
+  source: string,
+  id: string
+): Promise<SharedSkipConfig | null> {
+  if (STORAGE_TYPE === 'localstorage') return null;
+
+  try {
+    const authInfo = getAuthInfoFromBrowserCookie();
+    if (!authInfo?.username) {
+      return null;
+    }
+
+    const response = await fetch('/api/skip-configs', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        action: 'getShared',
+        key: generateSkipConfigKey(source, id),
+        username: authInfo.username,
+        signature: authInfo.signature,
+        timestamp: authInfo.timestamp,
+      }),
+    });
+
+    if (!response.ok) {
+      return null;
+    }
+
+    const data = await response.json();
+    return data.config || null;
+  } catch (err) {
+    console.error('获取共享跳过配置失败:', err);
+    return null;
+  }
+}
+
+/**
+ * 将跳过配置发布到社区，供未设置个人配置的用户默认使用
+ */
+export async function publishSkipConfig(
+  source: string,
+  id: string,
+  config: EpisodeSkipConfig
+): Promise<void> {
+  if (STORAGE_TYPE === 'localstorage') {
+    throw new Error('本地存储模式不支持发布到社区');
+  }
+
+  const authInfo = getAuthInfoFromBrowserCookie();
+  if (!authInfo?.username) {
+    throw new Error('用户未登录');
+  }
+
+  const response = await fetch('/api/skip-configs', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      action: 'publish',
+      key: generateSkipConfigKey(source, id),
+      config,
+      username: authInfo.username,
+      signature: authInfo.signature,
+      timestamp: authInfo.timestamp,
+    }),
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || '发布跳过配置失败');
+  }
+}
+
+/**
+ * 撤回自己发布到社区的跳过配置
+ */
+export async function withdrawSkipConfig(
+  source: string,
+  id: string
+): Promise<void> {
+  if (STORAGE_TYPE === 'localstorage') {
+    throw new Error('本地存储模式不支持社区跳过配置');
+  }
+
+  const response = await fetch('/api/skip-configs', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      action: 'withdraw',
+      key: generateSkipConfigKey(source, id),
+    }),
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || '撤回跳过配置失败');
+  }
+}
+
+/**
+ * 是否使用社区跳过时间，对应用户设置 use_community_skip，默认开启
+ */
+export async function getCommunitySkipEnabled(): Promise<boolean> {
+  if (STORAGE_TYPE === 'localstorage') return false;
+
+  try {
+    const authInfo = getAuthInfoFromBrowserCookie();
+    if (!authInfo?.username) {
+      return false;
+    }
+
+    const response = await fetch('/api/user/settings', {
+      headers: {
+        Authorization: `Bearer ${authInfo.username}`,
+      },
+    });
+    if (!response.ok) {
+      return true;
+    }
+
+    const data = await response.json();
+    return data.settings?.use_community_skip !== false;
+  } catch (err) {
+    console.error('获取社区跳过设置失败:', err);
+    return true;
+  }
+}
+
+/**
+ * 保存是否使用社区跳过时间
+ */
+export async function setCommunitySkipEnabled(enabled: boolean): Promise<void> {
+  const authInfo = getAuthInfoFromBrowserCookie();
+  if (STORAGE_TYPE === 'localstorage' || !authInfo?.username) return;
+
+  const response = await fetch('/api/user/settings', {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${authInfo.username}`,
+    },
+    body: JSON.stringify({
+      settings: { use_community_skip: enabled },
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error('保存社区跳过设置失败');
+  }
+}
+
+// ---------------- 外挂字幕 ----------------
+
+/**
+ * 生成字幕键，episode 为从 1 开始的集数
+ */
+export function generateSubtitleKey(
+  source: string,
+  id: string,
+  episode: number
+): string {
+  return `${source}+${id}+${episode}`;
+}
+
+async function postSubtitleAction(body: Record<string, unknown>): Promise<any> {
+  const response = await fetch('/api/subtitles', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `请求失败: ${response.status}`);
+  }
+  return data;
+}
+
+/**
+ * 获取某一集关联的外挂字幕
+ */
+export async function getSubtitle(
+  source: string,
+  id: string,
+  episode: number
+): Promise<EpisodeSubtitle | null> {
+  const key = generateSubtitleKey(source, id, episode);
+  try {
+    if (STORAGE_TYPE === 'localstorage') {
+      const all = JSON.parse(localStorage.getItem(SUBTITLES_KEY) || '{}');
+      return all[key] || null;
+    }
+    const data = await postSubtitleAction({ action: 'get', key });
+    return data.subtitle || null;
+  } catch (err) {
+    console.error('获取字幕失败:', err);
+    return null;
+  }
+}
+
+/**
+ * 保存某一集关联的外挂字幕
+ */
+export async function saveSubtitle(
+  source: string,
+  id: string,
+  episode: number,
+  subtitle: EpisodeSubtitle
+): Promise<void> {
+  const key = generateSubtitleKey(source, id, episode);
+  if (STORAGE_TYPE === 'localstorage') {
+    const all = JSON.parse(localStorage.getItem(SUBTITLES_KEY) || '{}');
+    all[key] = subtitle;
+    localStorage.setItem(SUBTITLES_KEY, JSON.stringify(all));
+    return;
+  }
+  await postSubtitleAction({ action: 'set', key, subtitle });
+}
+
+/**
+ * 移除某一集关联的外挂字幕
+ */
+export async function deleteSubtitle(
+  source: string,
+  id: string,
+  episode: number
+): Promise<void> {
+  const key = generateSubtitleKey(source, id, episode);
+  if (STORAGE_TYPE === 'localstorage') {
+    const all = JSON.parse(localStorage.getItem(SUBTITLES_KEY) || '{}');
+    delete all[key];
+    localStorage.setItem(SUBTITLES_KEY, JSON.stringify(all));
+    return;
+  }
+  await postSubtitleAction({ action: 'delete', key });
+}
+
+// ---------------- 播放器偏好 ----------------
+
+export interface PlayerPreferences {
+  default_playback_rate: number; // 默认倍速
+  default_volume: number; // 默认音量 0-1
+  default_muted: boolean; // 默认静音
+  auto_next_episode: boolean; // 自动播放下一集
+  block_ad: boolean; // 去广告
+  speed_test: boolean; // 优选和测速
+  preferred_sources: string[]; // 偏好的资源站 key，按优先级排序
+}
+
+export const DEFAULT_PLAYER_PREFERENCES: PlayerPreferences = {
+  default_playback_rate: 1,
+  default_volume: 0.7,
+  default_muted: false,
+  auto_next_episode: true,
+  block_ad: true,
+  speed_test: true,
+  preferred_sources: [],
+};
+
+const PLAYER_PREFERENCES_KEY = 'katelyatv_player_preferences';
+// 旧版本仅保存在浏览器中的开关，继续同步以兼容本地设置面板
+const LEGACY_BLOCK_AD_KEY = 'enable_blockad';
+const LEGACY_OPTIMIZATION_KEY = 'enableOptimization';
+
+function pickPlayerPreferences(
+  source: Record<string, unknown>
+): Partial<PlayerPreferences> {
+  const result: Partial<PlayerPreferences> = {};
+  (
+    Object.keys(DEFAULT_PLAYER_PREFERENCES) as Array<keyof PlayerPreferences>
+  ).forEach((key) => {
+    const value = source[key];
+    if (
+      value !== undefined &&
+      value !== null &&
+      typeof value === typeof DEFAULT_PLAYER_PREFERENCES[key]
+    ) {
+      (result as Record<string, unknown>)[key] = value;
+    }
+  });
+  return result;
+}
+
+/**
+ * 读取浏览器中缓存的播放器偏好（含旧版开关）
+ */
+export function getLocalPlayerPreferences(): PlayerPreferences {
+  const prefs: PlayerPreferences = { ...DEFAULT_PLAYER_PREFERENCES };
+  if (typeof window === 'undefined') return prefs;
+
+  try {
+    const blockAd = localStorage.getItem(LEGACY_BLOCK_AD_KEY);
+    if (blockAd !== null) prefs.block_ad = blockAd === 'true';
+    const optimization = localStorage.getItem(LEGACY_OPTIMIZATION_KEY);
+    if (optimization !== null) prefs.speed_test = JSON.parse(optimization);
+
+    const raw = localStorage.getItem(PLAYER_PREFERENCES_KEY);
+    return raw
+      ? { ...prefs, ...pickPlayerPreferences(JSON.parse(raw)) }
+      : prefs;
+  } catch (err) {
+    console.error('读取本地播放器偏好失败:', err);
+    return prefs;
+  }
+}
+
+function setLocalPlayerPreferences(prefs: PlayerPreferences): void {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(PLAYER_PREFERENCES_KEY, JSON.stringify(prefs));
+  localStorage.setItem(LEGACY_BLOCK_AD_KEY, String(prefs.block_ad));
+  localStorage.setItem(
+    LEGACY_OPTIMIZATION_KEY,
+    JSON.stringify(prefs.speed_test)
+  );
+}
+
+/**
+ * 获取播放器偏好
+ * 数据库存储模式下从用户设置读取并跨设备同步，失败时使用本地缓存
+ */
+export async function getPlayerPreferences(): Promise<PlayerPreferences> {
+  const local = getLocalPlayerPreferences();
+  if (STORAGE_TYPE === 'localstorage') return local;
+
+  try {
+    const authInfo = getAuthInfoFromBrowserCookie();
+    if (!authInfo?.username) {
+      return local;
+    }
+
+    const response = await fetch('/api/user/settings', {
+      headers: {
+        Authorization: `Bearer ${authInfo.username}`,
+      },
+    });
+    if (!response.ok) {
+      return local;
+    }
+
+    const data = await response.json();
+    const prefs = { ...local, ...pickPlayerPreferences(data.settings || {}) };
+    setLocalPlayerPreferences(prefs);
+    return prefs;
+  } catch (err) {
+    console.error('获取播放器偏好失败:', err);
+    return local;
+  }
+}
+
+/**
+ * 保存播放器偏好（部分更新），返回合并后的完整偏好
+ */
+export async function savePlayerPreferences(
+  updates: Partial<PlayerPreferences>
+): Promise<PlayerPreferences> {
+  const prefs = { ...getLocalPlayerPreferences(), ...updates };
+  setLocalPlayerPreferences(prefs);
+
+  const authInfo = getAuthInfoFromBrowserCookie();
+  if (STORAGE_TYPE === 'localstorage' || !authInfo?.username) return prefs;
+
+  const response = await fetch('/api/user/settings', {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${authInfo.username}`,
+    },
+    body: JSON.stringify({ settings: updates }),
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || '保存播放器偏好失败');
+  }
+  return prefs;
+}
+
+// ---------------- 一起看 ----------------
+
+/**
+ * 一起看需要服务端存储共享房间状态，本地存储模式下不可用
+ */
+export function isWatchRoomAvailable(): boolean {
+  return STORAGE_TYPE !== 'localstorage';
+}
+
+async function postWatchRoomAction(
+  body: Record<string, unknown>
+): Promise<any> {
+  const response = await fetch('/api/watch-room', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `请求失败: ${response.status}`);
+  }
+  return data;
+}
+
+/**
+ * 为当前视频创建房间，创建者为房主
+ */
+export async function createWatchRoom(video: {
+  source: string;
+  id: string;
+  title: string;
+  episode: number;
+  position: number;
+}): Promise<WatchRoomSnapshot> {
+  return postWatchRoomAction({ action: 'create', ...video });
+}
+
+/**
+ * 获取房间状态并上报在线心跳
+ * 房间已关闭或被移出时返回 closed 及原因，其他错误抛出
+ */
+export async function getWatchRoomState(
+  roomId: string
+): Promise<
+  ({ closed: false } & WatchRoomSnapshot) | { closed: true; reason: string }
+> {
+  const response = await fetch(
+    `/api/watch-room?id=${encodeURIComponent(roomId)}`
+  );
+  const data = await response.json().catch(() => ({}));
+  if (response.status === 404 || response.status === 403) {
+    return { closed: true, reason: data.error || '房间已关闭' };
+  }
+  if (!response.ok) {
+    throw new Error(data.error || `请求失败: ${response.status}`);
+  }
+  return { closed: false, ...data };
+}
+
+/**
+ * 更新房间播放状态，episode 为从 1 开始的集数
+ */
+export async function updateWatchRoomState(
+  roomId: string,
+  state: Partial<{
+    playing: boolean;
+    position: number;
+    rate: number;
+    episode: number;
+    source: string;
+    id: string;
+    title: string;
+  }>
+): Promise<WatchRoom> {
+  const data = await postWatchRoomAction({
+    action: 'update',
+    room: roomId,
+    state,
+  });
+  return data.room;
+}
+
+/**
+ * 房间管理操作：离开、房主设置、移出成员、转让房主与关闭房间
+ */
+export async function manageWatchRoom(
+  roomId: string,
+  action: 'leave' | 'settings' | 'kick' | 'transfer' | 'close',
+  options: { username?: string; host_only?: boolean } = {}
+): Promise<WatchRoom | null> {
+  const data = await postWatchRoomAction({ action, room: roomId, ...options });
+  return data.room || null;
+}
+
+// ---------------- 数据备份 ----------------
+
+function readLocalJson<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * 导出当前用户的全部数据
+ * 本地存储模式下直接读取浏览器数据，其它模式由服务端导出
+ */
+export async function exportUserData(): Promise<UserDataBundle> {
+  if (STORAGE_TYPE !== 'localstorage') {
+    const res = await fetch('/api/user/export');
+    const data = await res.json();
+    if (!res.ok) {
+      throw new Error(data.error || `导出失败: ${res.status}`);
+    }
+    return data as UserDataBundle;
+  }
+
+  const [playRecords, favorites, skipConfigs, searchHistory] =
+    await Promise.all([
+      getAllPlayRecords(),
+      getAllFavorites(),
+      getAllSkipConfigs(),
+      getSearchHistory(),
+    ]);
+  return {
+    format: USER_DATA_FORMAT,
+    version: USER_DATA_VERSION,
+    username: getAuthInfoFromBrowserCookie()?.username || '',
+    exported_at: Date.now(),
+    play_records: playRecords as UserDataBundle['play_records'],
+    favorites: favorites as UserDataBundle['favorites'],
+    skip_configs: skipConfigs,
+    subtitles: readLocalJson<Record<string, EpisodeSubtitle>>(
+      SUBTITLES_KEY,
+      {}
+    ),
+    search_history: searchHistory,
+    settings: { ...getLocalPlayerPreferences() } as UserDataBundle['settings'],
+  };
+}
+
+/**
+ * 导入备份数据，返回各类数据的写入情况
+ */
+export async function importUserData(
+  data: unknown,
+  mode: UserDataImportMode
+): Promise<UserDataImportResult> {
+  if (STORAGE_TYPE !== 'localstorage') {
+    const res = await fetch('/api/user/import', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ mode, data }),
+    });
+    const body = await res.json();
+    if (!res.ok) {
+      throw new Error(body.error || `导入失败: ${res.status}`);
+    }
+    // 丢弃本地缓存，重新从服务端加载
+    cacheManager.clearUserCache();
+    await refreshAllCache();
+    return body.result as UserDataImportResult;
+  }
+
+  const { bundle, invalid } = parseUserDataBundle(data);
+  const [playRecords, favorites, skipConfigs, searchHistory] =
+    await Promise.all([
+      getAllPlayRecords(),
+      getAllFavorites(),
+      getAllSkipConfigs(),
+      getSearchHistory(),
+    ]);
+  const subtitles = readLocalJson<Record<string, EpisodeSubtitle>>(
+    SUBTITLES_KEY,
+    {}
+  );
+
+  const recordPlan = planRecordMerge(
+    playRecords,
+    bundle.play_records,
+    mode,
+    (r) => r.save_time
+  );
+  const favoritePlan = planRecordMerge(
+    favorites,
+    bundle.favorites,
+    mode,
+    (f) => f.save_time
+  );
+  const skipPlan = planRecordMerge(
+    skipConfigs,
+    bundle.skip_configs,
+    mode,
+    (c) => c.updated_time
+  );
+  const subtitlePlan = planRecordMerge(
+    subtitles,
+    bundle.subtitles,
+    mode,
+    (s) => s.updated_time
+  );
+  const history = planSearchHistoryMerge(
+    searchHistory,
+    bundle.search_history,
+    mode
+  );
+  const settings = planSettingsMerge(
+    { ...getLocalPlayerPreferences() } as UserDataBundle['settings'],
+    bundle.settings,
+    mode
+  );
+
+  localStorage.setItem(PLAY_RECORDS_KEY, JSON.stringify(recordPlan.merged));
+  localStorage.setItem(FAVORITES_KEY, JSON.stringify(favoritePlan.merged));
+  localStorage.setItem(SKIP_CONFIGS_KEY, JSON.stringify(skipPlan.merged));
+  localStorage.setItem(SUBTITLES_KEY, JSON.stringify(subtitlePlan.merged));
+  localStorage.setItem(SEARCH_HISTORY_KEY, JSON.stringify(history));
+  if (settings) {
+    setLocalPlayerPreferences({
+      ...DEFAULT_PLAYER_PREFERENCES,
+      ...pickPlayerPreferences(settings),
+    });
+  }
+
+  window.dispatchEvent(
+    new CustomEvent('playRecordsUpdated', { detail: recordPlan.merged })
+  );
+  window.dispatchEvent(
+    new CustomEvent('favoritesUpdated', { detail: favoritePlan.merged })
+  );
+  window.dispatchEvent(
+    new CustomEvent('searchHistoryUpdated', { detail: history })
+  );
+
+  return {
+    play_records: recordPlan.changed.length,
+    favorites: favoritePlan.changed.length,
+    skip_configs: skipPlan.changed.length,
+    subtitles: subtitlePlan.changed.length,
+    search_history: history.filter((k) => !searchHistory.includes(k)).length,
+    settings: !!settings,
+    skipped:
+      recordPlan.skipped +
+      favoritePlan.skipped +
+      skipPlan.skipped +
+      subtitlePlan.skipped,
+    removed:
+      recordPlan.removed.length +
+      favoritePlan.removed.length +
+      skipPlan.removed.length +
+      subtitlePlan.removed.length,
+    invalid,
+  };
+}
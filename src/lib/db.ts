@@ -5,23 +5,27 @@ import { D1Storage } from './d1.db';
 import { KvrocksStorage } from './kvrocks.db';
 import { LocalStorage } from './localstorage.db';
 import { RedisStorage } from './redis.db';
+import { SqliteStorage } from './sqlite.db';
 import { Favorite, IStorage, PlayRecord } from './types';
 import { UpstashRedisStorage } from './upstash.db';
 
-// storage type 常量: 'localstorage' | 'redis' | 'kvrocks' | 'd1' | 'upstash'，默认 'localstorage'
+export type StorageType =
+  | 'localstorage'
+  | 'redis'
+  | 'kvrocks'
+  | 'd1'
+  | 'upstash'
+  | 'sqlite';
+
+// storage type 常量，默认 'localstorage'
 const STORAGE_TYPE =
-  (process.env.NEXT_PUBLIC_STORAGE_TYPE as
-    | 'localstorage'
-    | 'redis'
-    | 'kvrocks'
-    | 'd1'
-    | 'upstash'
-    | undefined) || 'localstorage';
-
-// 创建存储实例
-function createStorage(): IStorage {
-  const storageType = STORAGE_TYPE;
-  
+  (process.env.NEXT_PUBLIC_STORAGE_TYPE as StorageType | undefined) ||
+  'localstorage';
+
+// 创建存储实例，配置的存储不可用时抛出错误；迁移数据时也用于创建源存储
+export function createStorage(
+  storageType: StorageType = STORAGE_TYPE
+): IStorage {
   try {
     switch (storageType) {
       case 'redis':
@@ -30,24 +34,27 @@ function createStorage(): IStorage {
         return new KvrocksStorage();
       case 'upstash':
         return new UpstashRedisStorage();
+      case 'sqlite':
+        // 仅支持 Node.js 运行时（如 Docker 部署），数据库在首次访问时打开
+        return new SqliteStorage();
       case 'd1':
-        // 对于 d1，先检查是否可用
-        if (typeof globalThis !== 'undefined' && (globalThis as any).DB) {
-          return new D1Storage();
-        } else if (process.env.DB) {
+        if (
+          (typeof globalThis !== 'undefined' && (globalThis as any).DB) ||
+          process.env.DB
+        ) {
           return new D1Storage();
-        } else {
-          // D1 不可用，回退到 LocalStorage
-          return new LocalStorage();
         }
+        throw new Error('未找到 D1 数据库绑定 DB');
       case 'localstorage':
       default:
         // 使用 LocalStorage 实现，适用于本地开发和简单部署
         return new LocalStorage();
     }
   } catch (error) {
-    // 创建存储失败，回退到 LocalStorage
-    return new LocalStorage();
+    // 配置的存储不可用时直接报错，回退到 LocalStorage 会让数据写到别处
+    throw new Error(
+      `创建 ${storageType} 存储失败: ${(error as Error).message}`
+    );
   }
 }
 
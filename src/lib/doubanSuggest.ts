@@ -0,0 +1,51 @@
+// 豆瓣搜索联想接口，支持中文、全拼与拼音首字母输入
+
+export interface DoubanSuggestItem {
+  id: string;
+  title: string;
+  sub_title: string;
+  year: string;
+  img: string;
+  type: string;
+}
+
+const DOUBAN_SUGGEST_URL = 'https://movie.douban.com/j/subject_suggest?q=';
+
+/**
+ * 请求豆瓣搜索联想，仅保留影视条目
+ */
+export async function fetchDoubanSuggest(
+  query: string
+): Promise<DoubanSuggestItem[]> {
+  // 联想请求需要快速返回，超时时间比普通豆瓣请求短
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 5000);
+
+  try {
+    const response = await fetch(
+      DOUBAN_SUGGEST_URL + encodeURIComponent(query),
+      {
+        signal: controller.signal,
+        headers: {
+          'User-Agent':
+            'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36',
+          Referer: 'https://movie.douban.com/',
+          Accept: 'application/json, text/plain, */*',
+        },
+      }
+    );
+    clearTimeout(timeoutId);
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! Status: ${response.status}`);
+    }
+
+    const data = (await response.json()) as DoubanSuggestItem[];
+    return Array.isArray(data)
+      ? data.filter((item) => item.type === 'movie' && item.title)
+      : [];
+  } catch (error) {
+    clearTimeout(timeoutId);
+    throw error;
+  }
+}
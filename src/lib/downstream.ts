@@ -1,5 +1,14 @@
+import { detailCacheKey, searchCacheKey, withApiCache } from '@/lib/apiCache';
 import { API_CONFIG, ApiSite, getConfig } from '@/lib/config';
-import { SearchResult } from '@/lib/types';
+import { isXmlApi, isXmlContent, parseMacCmsXml } from '@/lib/maccmsXml';
+import {
+  getPinyinAlternates,
+  getQueryCandidates,
+  isPinyinQuery,
+  isPinyinSearchEnabled,
+} from '@/lib/queryNormalize';
+import { withSourceHealth } from '@/lib/sourceHealth';
+import { PlayLine, SearchResult } from '@/lib/types';
 import { cleanHtmlTags } from '@/lib/utils';
 
 interface ApiSearchItem {
@@ -7,6 +16,7 @@ interface ApiSearchItem {
   vod_name: string;
   vod_pic: string;
   vod_remarks?: string;
+  vod_play_from?: string;
   vod_play_url?: string;
   vod_class?: string;
   vod_year?: string;
@@ -15,176 +25,279 @@ interface ApiSearchItem {
   type_name?: string;
 }
 
+interface ApiListResponse {
+  list?: ApiSearchItem[];
+  pagecount?: number;
+}
+
+// XML 接口使用对应的 Accept，避免部分站点按 Accept 返回错误格式
+function requestHeaders(
+  apiSite: ApiSite,
+  headers: Record<string, string>
+): Record<string, string> {
+  return isXmlApi(apiSite)
+    ? { ...headers, Accept: 'application/xml, text/xml, */*' }
+    : headers;
+}
+
+// 读取资源站响应：XML（苹果 CMS at/xml 协议）转换为与 JSON 接口相同的结构
+async function readApiResponse(
+  response: Response,
+  apiSite: ApiSite
+): Promise<ApiListResponse> {
+  const text = await response.text();
+  if (isXmlApi(apiSite) || (!apiSite.format && isXmlContent(text))) {
+    return parseMacCmsXml(text);
+  }
+  return JSON.parse(text);
+}
+
 export async function searchFromApi(
   apiSite: ApiSite,
   query: string
 ): Promise<SearchResult[]> {
   try {
-    const apiBaseUrl = apiSite.api;
-    const apiUrl =
-      apiBaseUrl + API_CONFIG.search.path + encodeURIComponent(query);
-    const apiName = apiSite.name;
-
-    // 添加超时处理
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 8000);
-
-    const response = await fetch(apiUrl, {
-      headers: API_CONFIG.search.headers,
-      signal: controller.signal,
-    });
-
-    clearTimeout(timeoutId);
+    return await searchFromApiStrict(apiSite, query);
+  } catch (error) {
+    return [];
+  }
+}
 
-    if (!response.ok) {
-      return [];
+// 与 searchFromApi 相同，但请求失败时抛出异常，便于调用方统计每个源的错误
+// 搜索词先归一化（繁转简、去季集后缀与标点），无结果时依次尝试原词与拼音联想（需开启）
+export async function searchFromApiStrict(
+  apiSite: ApiSite,
+  query: string
+): Promise<SearchResult[]> {
+  const candidates = getQueryCandidates(query);
+  for (const candidate of candidates) {
+    const results = await searchCandidate(apiSite, candidate);
+    if (results.length > 0) {
+      return results;
     }
+  }
 
-    const data = await response.json();
-    if (
-      !data ||
-      !data.list ||
-      !Array.isArray(data.list) ||
-      data.list.length === 0
-    ) {
-      return [];
+  if (!isPinyinSearchEnabled() || !isPinyinQuery(query)) {
+    return [];
+  }
+  const alternates = await getPinyinAlternates(query);
+  for (const alternate of alternates) {
+    if (candidates.includes(alternate)) continue;
+    const results = await searchCandidate(apiSite, alternate);
+    if (results.length > 0) {
+      return results;
     }
-    // 处理第一页结果
-    const results = data.list.map((item: ApiSearchItem) => {
-      let episodes: string[] = [];
-
-      // 使用正则表达式从 vod_play_url 提取 m3u8 链接
-      if (item.vod_play_url) {
-        const m3u8Regex = /\$(https?:\/\/[^"'\s]+?\.m3u8)/g;
-        // 先用 $$$ 分割
-        const vod_play_url_array = item.vod_play_url.split('$$$');
-        // 对每个分片做匹配，取匹配到最多的作为结果
-        vod_play_url_array.forEach((url: string) => {
-          const matches = url.match(m3u8Regex) || [];
-          if (matches.length > episodes.length) {
-            episodes = matches;
-          }
-        });
-      }
+  }
+  return [];
+}
 
-      episodes = Array.from(new Set(episodes)).map((link: string) => {
-        link = link.substring(1); // 去掉开头的 $
-        const parenIndex = link.indexOf('(');
-        return parenIndex > 0 ? link.substring(0, parenIndex) : link;
-      });
+function searchCandidate(
+  apiSite: ApiSite,
+  query: string
+): Promise<SearchResult[]> {
+  // 命中缓存时不再请求资源站；空结果不缓存，避免资源站临时异常被长期记住
+  return withApiCache(
+    searchCacheKey(apiSite.key, query),
+    () =>
+      withSourceHealth(apiSite.key, () => fetchSearchResults(apiSite, query)),
+    (results) => results.length > 0
+  );
+}
 
-      return {
-        id: item.vod_id.toString(),
-        title: item.vod_name.trim().replace(/\s+/g, ' '),
-        poster: item.vod_pic,
-        episodes,
-        source: apiSite.key,
-        source_name: apiName,
-        class: item.vod_class,
-        year: item.vod_year
-          ? item.vod_year.match(/\d{4}/)?.[0] || ''
-          : 'unknown',
-        desc: cleanHtmlTags(item.vod_content || ''),
-        type_name: item.type_name,
-        douban_id: item.vod_douban_id,
-      };
-    });
+async function fetchSearchResults(
+  apiSite: ApiSite,
+  query: string
+): Promise<SearchResult[]> {
+  const apiBaseUrl = apiSite.api;
+  const apiUrl =
+    apiBaseUrl + API_CONFIG.search.path + encodeURIComponent(query);
 
-    const config = await getConfig();
-    const MAX_SEARCH_PAGES: number = config.SiteConfig.SearchDownstreamMaxPage;
-
-    // 获取总页数
-    const pageCount = data.pagecount || 1;
-    // 确定需要获取的额外页数
-    const pagesToFetch = Math.min(pageCount - 1, MAX_SEARCH_PAGES - 1);
-
-    // 如果有额外页数，获取更多页的结果
-    if (pagesToFetch > 0) {
-      const additionalPagePromises = [];
-
-      for (let page = 2; page <= pagesToFetch + 1; page++) {
-        const pageUrl =
-          apiBaseUrl +
-          API_CONFIG.search.pagePath
-            .replace('{query}', encodeURIComponent(query))
-            .replace('{page}', page.toString());
-
-        const pagePromise = (async () => {
-          try {
-            const pageController = new AbortController();
-            const pageTimeoutId = setTimeout(
-              () => pageController.abort(),
-              8000
-            );
-
-            const pageResponse = await fetch(pageUrl, {
-              headers: API_CONFIG.search.headers,
-              signal: pageController.signal,
-            });
-
-            clearTimeout(pageTimeoutId);
-
-            if (!pageResponse.ok) return [];
-
-            const pageData = await pageResponse.json();
-
-            if (!pageData || !pageData.list || !Array.isArray(pageData.list))
-              return [];
-
-            return pageData.list.map((item: ApiSearchItem) => {
-              let episodes: string[] = [];
-
-              // 使用正则表达式从 vod_play_url 提取 m3u8 链接
-              if (item.vod_play_url) {
-                const m3u8Regex = /\$(https?:\/\/[^"'\s]+?\.m3u8)/g;
-                episodes = item.vod_play_url.match(m3u8Regex) || [];
-              }
-
-              episodes = Array.from(new Set(episodes)).map((link: string) => {
-                link = link.substring(1); // 去掉开头的 $
-                const parenIndex = link.indexOf('(');
-                return parenIndex > 0 ? link.substring(0, parenIndex) : link;
-              });
-
-              return {
-                id: item.vod_id.toString(),
-                title: item.vod_name.trim().replace(/\s+/g, ' '),
-                poster: item.vod_pic,
-                episodes,
-                source: apiSite.key,
-                source_name: apiName,
-                class: item.vod_class,
-                year: item.vod_year
-                  ? item.vod_year.match(/\d{4}/)?.[0] || ''
-                  : 'unknown',
-                desc: cleanHtmlTags(item.vod_content || ''),
-                type_name: item.type_name,
-                douban_id: item.vod_douban_id,
-              };
-            });
-          } catch (error) {
-            return [];
-          }
-        })();
+  // 添加超时处理
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 8000);
 
-        additionalPagePromises.push(pagePromise);
-      }
+  const response = await fetch(apiUrl, {
+    headers: requestHeaders(apiSite, API_CONFIG.search.headers),
+    signal: controller.signal,
+  });
+
+  clearTimeout(timeoutId);
+
+  if (!response.ok) {
+    throw new Error(`搜索请求失败: ${response.status}`);
+  }
+
+  const data = await readApiResponse(response, apiSite);
+  if (
+    !data ||
+    !data.list ||
+    !Array.isArray(data.list) ||
+    data.list.length === 0
+  ) {
+    return [];
+  }
+  // 处理第一页结果
+  const results = data.list.map((item) => mapSearchItem(item, apiSite));
+
+  const config = await getConfig();
+  const MAX_SEARCH_PAGES: number = config.SiteConfig.SearchDownstreamMaxPage;
+
+  // 获取总页数
+  const pageCount = data.pagecount || 1;
+  // 确定需要获取的额外页数
+  const pagesToFetch = Math.min(pageCount - 1, MAX_SEARCH_PAGES - 1);
+
+  // 如果有额外页数，获取更多页的结果
+  if (pagesToFetch > 0) {
+    const additionalPagePromises = [];
+
+    for (let page = 2; page <= pagesToFetch + 1; page++) {
+      const pageUrl =
+        apiBaseUrl +
+        API_CONFIG.search.pagePath
+          .replace('{query}', encodeURIComponent(query))
+          .replace('{page}', page.toString());
+
+      const pagePromise = (async () => {
+        try {
+          const pageController = new AbortController();
+          const pageTimeoutId = setTimeout(() => pageController.abort(), 8000);
+
+          const pageResponse = await fetch(pageUrl, {
+            headers: requestHeaders(apiSite, API_CONFIG.search.headers),
+            signal: pageController.signal,
+          });
 
-      // 等待所有额外页的结果
-      const additionalResults = await Promise.all(additionalPagePromises);
+          clearTimeout(pageTimeoutId);
 
-      // 合并所有页的结果
-      additionalResults.forEach((pageResults) => {
-        if (pageResults.length > 0) {
-          results.push(...pageResults);
+          if (!pageResponse.ok) return [];
+
+          const pageData = await readApiResponse(pageResponse, apiSite);
+
+          if (!pageData || !pageData.list || !Array.isArray(pageData.list))
+            return [];
+
+          return pageData.list.map((item) => mapSearchItem(item, apiSite));
+        } catch (error) {
+          return [];
         }
-      });
+      })();
+
+      additionalPagePromises.push(pagePromise);
     }
 
-    return results;
-  } catch (error) {
+    // 等待所有额外页的结果
+    const additionalResults = await Promise.all(additionalPagePromises);
+
+    // 合并所有页的结果
+    additionalResults.forEach((pageResults) => {
+      if (pageResults.length > 0) {
+        results.push(...pageResults);
+      }
+    });
+  }
+
+  return results;
+}
+
+function mapSearchItem(item: ApiSearchItem, apiSite: ApiSite): SearchResult {
+  const playLines = parsePlayLines(
+    item.vod_play_from,
+    item.vod_play_url,
+    extractM3u8Episodes
+  );
+
+  const defaultLine = selectDefaultPlayLine(playLines);
+
+  return {
+    id: item.vod_id.toString(),
+    title: item.vod_name.trim().replace(/\s+/g, ' '),
+    poster: item.vod_pic,
+    episodes: defaultLine?.episodes || [],
+    episodes_titles: defaultLine?.titles || [],
+    play_lines: playLines,
+    source: apiSite.key,
+    source_name: apiSite.name,
+    class: item.vod_class,
+    year: item.vod_year ? item.vod_year.match(/\d{4}/)?.[0] || '' : 'unknown',
+    desc: cleanHtmlTags(item.vod_content || ''),
+    type_name: item.type_name,
+    douban_id: item.vod_douban_id,
+  };
+}
+
+// 默认使用剧集最多的线路，搜索与详情使用同一规则，保证打开的是同一条线路
+function selectDefaultPlayLine(playLines: PlayLine[]): PlayLine | null {
+  return playLines.reduce<PlayLine | null>(
+    (best, line) =>
+      !best || line.episodes.length > best.episodes.length ? line : best,
+    null
+  );
+}
+
+interface EpisodeEntry {
+  title: string;
+  url: string;
+}
+
+// 按 vod_play_from 将 vod_play_url 拆分为命名播放线路，忽略没有可播放剧集的线路
+function parsePlayLines(
+  playFrom: string | undefined,
+  playUrl: string | undefined,
+  extract: (group: string) => EpisodeEntry[]
+): PlayLine[] {
+  if (!playUrl) {
     return [];
   }
+  const names = (playFrom || '').split('$$$');
+  return playUrl
+    .split('$$$')
+    .map((group, index) => {
+      const entries = extract(group);
+      return {
+        name: names[index]?.trim() || `线路${index + 1}`,
+        episodes: entries.map((entry) => entry.url),
+        titles: entries.map((entry) => entry.title),
+      };
+    })
+    .filter((line) => line.episodes.length > 0);
+}
+
+// 使用正则表达式从一条线路中提取 m3u8 链接，保留 "第01集$" 等剧集标签
+function extractM3u8Episodes(group: string): EpisodeEntry[] {
+  const seen = new Set<string>();
+  const entries: EpisodeEntry[] = [];
+  group.split('#').forEach((part) => {
+    const matches = part.match(/\$(https?:\/\/[^"'\s]+?\.m3u8)/g) || [];
+    matches.forEach((link, index) => {
+      link = link.substring(1); // 去掉开头的 $
+      const parenIndex = link.indexOf('(');
+      const url = parenIndex > 0 ? link.substring(0, parenIndex) : link;
+      if (seen.has(url)) return;
+      seen.add(url);
+      // 同一段中有多个链接时（缺少 # 分隔），只有第一个能对应到标签
+      const title = index === 0 ? part.substring(0, part.indexOf('$')) : '';
+      entries.push({ title: title.trim(), url });
+    });
+  });
+  return entries;
+}
+
+// 按 "名称$地址#名称$地址" 格式提取一条线路中的 http(s) 链接
+function extractEpisodes(group: string): EpisodeEntry[] {
+  return group
+    .split('#')
+    .map((ep: string) => {
+      const parts = ep.split('$');
+      return parts.length > 1
+        ? { title: parts[0].trim(), url: parts[1] }
+        : { title: '', url: '' };
+    })
+    .filter(
+      (entry) =>
+        entry.url &&
+        (entry.url.startsWith('http://') || entry.url.startsWith('https://'))
+    );
 }
 
 // 匹配 m3u8 链接的正则
@@ -193,6 +306,15 @@ const M3U8_PATTERN = /(https?:\/\/[^"'\s]+?\.m3u8)/g;
 export async function getDetailFromApi(
   apiSite: ApiSite,
   id: string
+): Promise<SearchResult> {
+  return withApiCache(detailCacheKey(apiSite.key, id), () =>
+    withSourceHealth(apiSite.key, () => fetchDetail(apiSite, id))
+  );
+}
+
+async function fetchDetail(
+  apiSite: ApiSite,
+  id: string
 ): Promise<SearchResult> {
   if (apiSite.detail) {
     return handleSpecialSourceDetail(id, apiSite);
@@ -204,7 +326,7 @@ export async function getDetailFromApi(
   const timeoutId = setTimeout(() => controller.abort(), 10000);
 
   const response = await fetch(detailUrl, {
-    headers: API_CONFIG.detail.headers,
+    headers: requestHeaders(apiSite, API_CONFIG.detail.headers),
     signal: controller.signal,
   });
 
@@ -214,7 +336,7 @@ export async function getDetailFromApi(
     throw new Error(`详情请求失败: ${response.status}`);
   }
 
-  const data = await response.json();
+  const data = await readApiResponse(response, apiSite);
 
   if (
     !data ||
@@ -226,30 +348,20 @@ export async function getDetailFromApi(
   }
 
   const videoDetail = data.list[0];
-  let episodes: string[] = [];
-
-  // 处理播放源拆分
-  if (videoDetail.vod_play_url) {
-    const playSources = videoDetail.vod_play_url.split('$$$');
-    if (playSources.length > 0) {
-      const mainSource = playSources[0];
-      const episodeList = mainSource.split('#');
-      episodes = episodeList
-        .map((ep: string) => {
-          const parts = ep.split('$');
-          return parts.length > 1 ? parts[1] : '';
-        })
-        .filter(
-          (url: string) =>
-            url && (url.startsWith('http://') || url.startsWith('https://'))
-        );
-    }
-  }
+  const playLines = parsePlayLines(
+    videoDetail.vod_play_from,
+    videoDetail.vod_play_url,
+    extractEpisodes
+  );
+  const defaultLine = selectDefaultPlayLine(playLines);
+  let episodes = defaultLine?.episodes || [];
+  let episodesTitles = defaultLine?.titles || [];
 
   // 如果播放源为空，则尝试从内容中解析 m3u8
   if (episodes.length === 0 && videoDetail.vod_content) {
     const matches = videoDetail.vod_content.match(M3U8_PATTERN) || [];
     episodes = matches.map((link: string) => link.replace(/^\$/, ''));
+    episodesTitles = [];
   }
 
   return {
@@ -257,13 +369,15 @@ export async function getDetailFromApi(
     title: videoDetail.vod_name,
     poster: videoDetail.vod_pic,
     episodes,
+    episodes_titles: episodesTitles,
+    play_lines: playLines,
     source: apiSite.key,
     source_name: apiSite.name,
     class: videoDetail.vod_class,
     year: videoDetail.vod_year
       ? videoDetail.vod_year.match(/\d{4}/)?.[0] || ''
       : 'unknown',
-    desc: cleanHtmlTags(videoDetail.vod_content),
+    desc: cleanHtmlTags(videoDetail.vod_content || ''),
     type_name: videoDetail.type_name,
     douban_id: videoDetail.vod_douban_id,
   };
@@ -290,25 +404,32 @@ async function handleSpecialSourceDetail(
   }
 
   const html = await response.text();
-  let matches: string[] = [];
+  // 第一个分组为 "第01集$" 中的剧集标签，第二个分组为链接
+  let matches: RegExpMatchArray[] = [];
 
   if (apiSite.key === 'ffzy') {
     const ffzyPattern =
-      /\$(https?:\/\/[^"'\s]+?\/\d{8}\/\d+_[a-f0-9]+\/index\.m3u8)/g;
-    matches = html.match(ffzyPattern) || [];
+      /([^$#"'<>\s]*)\$(https?:\/\/[^"'\s]+?\/\d{8}\/\d+_[a-f0-9]+\/index\.m3u8)/g;
+    matches = Array.from(html.matchAll(ffzyPattern));
   }
 
   if (matches.length === 0) {
-    const generalPattern = /\$(https?:\/\/[^"'\s]+?\.m3u8)/g;
-    matches = html.match(generalPattern) || [];
+    const generalPattern = /([^$#"'<>\s]*)\$(https?:\/\/[^"'\s]+?\.m3u8)/g;
+    matches = Array.from(html.matchAll(generalPattern));
   }
 
-  // 去重并清理链接前缀
-  matches = Array.from(new Set(matches)).map((link: string) => {
-    link = link.substring(1); // 去掉开头的 $
+  // 去重并清理链接后缀
+  const seen = new Set<string>();
+  const entries: EpisodeEntry[] = [];
+  matches.forEach(([, title, link]) => {
     const parenIndex = link.indexOf('(');
-    return parenIndex > 0 ? link.substring(0, parenIndex) : link;
+    const url = parenIndex > 0 ? link.substring(0, parenIndex) : link;
+    if (seen.has(url)) return;
+    seen.add(url);
+    entries.push({ title: title.trim(), url });
   });
+  const episodes = entries.map((entry) => entry.url);
+  const episodesTitles = entries.map((entry) => entry.title);
 
   // 提取标题
   const titleMatch = html.match(/<h1[^>]*>([^<]+)<\/h1>/);
@@ -332,7 +453,13 @@ async function handleSpecialSourceDetail(
     id,
     title: titleText,
     poster: coverUrl,
-    episodes: matches,
+    episodes,
+    episodes_titles: episodesTitles,
+    // 详情页无法区分线路，全部剧集作为一条线路
+    play_lines:
+      episodes.length > 0
+        ? [{ name: apiSite.name, episodes, titles: episodesTitles }]
+        : [],
     source: apiSite.key,
     source_name: apiSite.name,
     class: '',
@@ -0,0 +1,351 @@
+// HLS 播放列表去广告：识别以 #EXT-X-DISCONTINUITY 分隔、且与正片特征不同的分片块并整体移除
+// 纯函数实现，不依赖浏览器环境，便于针对样例播放列表测试
+
+import { AdFilterRules } from './admin.types';
+import { unwrapProxyUrl } from './hlsProxy';
+
+export type AdBlockReason = 'host' | 'path' | 'duration' | 'keyword';
+
+export interface RemovedAdBlock {
+  start: number; // 在原播放列表分片序列中的起始下标
+  count: number; // 分片数量
+  duration: number; // 总时长（秒）
+  reasons: AdBlockReason[];
+  uri: string; // 第一个分片地址，便于排查
+}
+
+export interface AdFilterResult {
+  content: string;
+  removed: RemovedAdBlock[];
+  removedDuration: number;
+}
+
+export const DEFAULT_AD_FILTER_RULES: Required<AdFilterRules> = {
+  enabled: true,
+  checkHost: true,
+  checkPath: true,
+  checkDuration: true,
+  maxAdDuration: 120,
+  keywords: [],
+};
+
+// 启发式识别移除的时长超过该比例时视为误判，保留原播放列表
+const MAX_REMOVED_RATIO = 0.5;
+
+// 播放列表级标签，输出时保留在头部
+const HEADER_TAGS = [
+  '#EXTM3U',
+  '#EXT-X-VERSION',
+  '#EXT-X-TARGETDURATION',
+  '#EXT-X-MEDIA-SEQUENCE',
+  '#EXT-X-DISCONTINUITY-SEQUENCE',
+  '#EXT-X-PLAYLIST-TYPE',
+  '#EXT-X-INDEPENDENT-SEGMENTS',
+  '#EXT-X-ALLOW-CACHE',
+  '#EXT-X-START',
+];
+
+interface Segment {
+  index: number;
+  duration: number;
+  uri: string;
+  tags: string[]; // #EXTINF 等分片级标签（不含 KEY/MAP/DISCONTINUITY）
+  key: string | null; // 当前生效的 #EXT-X-KEY
+  map: string | null; // 当前生效的 #EXT-X-MAP
+  host: string;
+  dir: string;
+}
+
+type Block = Segment[];
+
+interface ParsedPlaylist {
+  header: string[];
+  blocks: Block[];
+  trailer: string[];
+}
+
+function splitUri(
+  uri: string,
+  baseUrl?: string
+): { host: string; dir: string } {
+  try {
+    // 经由 HLS 代理的分片按原始地址比较
+    const url = new URL(
+      unwrapProxyUrl(new URL(uri, baseUrl || 'http://localhost/').toString()),
+      'http://localhost/'
+    );
+    return {
+      host: url.host,
+      dir: url.pathname.slice(0, url.pathname.lastIndexOf('/') + 1),
+    };
+  } catch {
+    return { host: '', dir: '' };
+  }
+}
+
+function parsePlaylist(content: string, baseUrl?: string): ParsedPlaylist {
+  const header: string[] = [];
+  const trailer: string[] = [];
+  const blocks: Block[] = [];
+  let pending: string[] = [];
+  let key: string | null = null;
+  let map: string | null = null;
+  let newBlock = true;
+  let index = 0;
+
+  content.split(/\r?\n/).forEach((raw) => {
+    const line = raw.trim();
+    if (!line) return;
+
+    if (line.startsWith('#')) {
+      const tag = line.split(':')[0];
+      if (HEADER_TAGS.includes(tag)) {
+        header.push(line);
+      } else if (tag === '#EXT-X-ENDLIST') {
+        trailer.push(line);
+      } else if (tag === '#EXT-X-DISCONTINUITY') {
+        newBlock = true;
+      } else if (tag === '#EXT-X-KEY') {
+        key = /METHOD=NONE/i.test(line) ? null : line;
+      } else if (tag === '#EXT-X-MAP') {
+        map = line;
+      } else {
+        pending.push(line);
+      }
+      return;
+    }
+
+    const extinf = pending.find((l) => l.startsWith('#EXTINF:'));
+    if (newBlock || blocks.length === 0) {
+      blocks.push([]);
+      newBlock = false;
+    }
+    blocks[blocks.length - 1].push({
+      index: index++,
+      duration: extinf ? parseFloat(extinf.slice(8)) || 0 : 0,
+      uri: line,
+      tags: pending,
+      key,
+      map,
+      ...splitUri(line, baseUrl),
+    });
+    pending = [];
+  });
+
+  // 最后一个分片之后的标签原样保留
+  trailer.unshift(...pending);
+  return { header, blocks, trailer };
+}
+
+function serializePlaylist(
+  header: string[],
+  blocks: Block[],
+  trailer: string[]
+): string {
+  const lines = [...header];
+  let lastKey: string | null = null;
+  let lastMap: string | null = null;
+
+  blocks.forEach((block, blockIndex) => {
+    if (blockIndex > 0) {
+      lines.push('#EXT-X-DISCONTINUITY');
+    }
+    block.forEach((segment) => {
+      // 移除分片后需要补齐后续分片的加密与初始化信息
+      if (segment.key !== lastKey) {
+        lines.push(segment.key || '#EXT-X-KEY:METHOD=NONE');
+        lastKey = segment.key;
+      }
+      if (segment.map && segment.map !== lastMap) {
+        lines.push(segment.map);
+        lastMap = segment.map;
+      }
+      lines.push(...segment.tags, segment.uri);
+    });
+  });
+
+  lines.push(...trailer);
+  return lines.join('\n') + '\n';
+}
+
+function blockDuration(block: Block): number {
+  return block.reduce((sum, segment) => sum + segment.duration, 0);
+}
+
+// 按时长加权取出现最多的值，作为正片特征
+function dominantValue(
+  segments: Segment[],
+  getValue: (segment: Segment) => string
+): string {
+  const weights = new Map<string, number>();
+  segments.forEach((segment) => {
+    const value = getValue(segment);
+    weights.set(value, (weights.get(value) || 0) + (segment.duration || 1));
+  });
+  let best = '';
+  let bestWeight = -1;
+  weights.forEach((weight, value) => {
+    if (weight > bestWeight) {
+      best = value;
+      bestWeight = weight;
+    }
+  });
+  return best;
+}
+
+// 分片时长众数及其占比；正片通常以固定时长切片，广告切片时长与之不同
+function durationProfile(segments: Segment[]): { mode: number; share: number } {
+  const counts = new Map<string, number>();
+  segments.forEach((segment) => {
+    const value = segment.duration.toFixed(2);
+    counts.set(value, (counts.get(value) || 0) + 1);
+  });
+  let mode = '0';
+  let modeCount = 0;
+  counts.forEach((count, value) => {
+    if (count > modeCount) {
+      mode = value;
+      modeCount = count;
+    }
+  });
+  return {
+    mode: Number(mode),
+    share: segments.length > 0 ? modeCount / segments.length : 0,
+  };
+}
+
+function toRemoved(
+  segments: Segment[],
+  reasons: AdBlockReason[]
+): RemovedAdBlock {
+  return {
+    start: segments[0].index,
+    count: segments.length,
+    duration: blockDuration(segments),
+    reasons,
+    uri: segments[0].uri,
+  };
+}
+
+// 按关键字逐个移除分片，相邻的命中分片合并为一条记录
+function removeKeywordSegments(
+  blocks: Block[],
+  keywords: string[],
+  removed: RemovedAdBlock[]
+): Block[] {
+  const active = keywords.filter(Boolean);
+  if (active.length === 0) return blocks;
+
+  return blocks
+    .map((block) => {
+      const kept: Segment[] = [];
+      let run: Segment[] = [];
+      const flush = () => {
+        if (run.length > 0) {
+          removed.push(toRemoved(run, ['keyword']));
+          run = [];
+        }
+      };
+      block.forEach((segment) => {
+        if (active.some((keyword) => segment.uri.includes(keyword))) {
+          run.push(segment);
+        } else {
+          flush();
+          kept.push(segment);
+        }
+      });
+      flush();
+      return kept;
+    })
+    .filter((block) => block.length > 0);
+}
+
+function detectAdReasons(
+  block: Block,
+  main: { host: string; dir: string; mode: number; share: number },
+  rules: Required<AdFilterRules>
+): AdBlockReason[] {
+  const reasons: AdBlockReason[] = [];
+  if (rules.checkHost && block.every((s) => s.host !== main.host)) {
+    reasons.push('host');
+  }
+  if (rules.checkPath && block.every((s) => s.dir !== main.dir)) {
+    reasons.push('path');
+  }
+  // 块内最后一个分片通常较短，不参与比较；单分片的块无法判断时长特征
+  if (rules.checkDuration && main.share >= 0.5 && block.length >= 2) {
+    const inspected = block.slice(0, -1);
+    if (inspected.every((s) => Math.abs(s.duration - main.mode) > 0.05)) {
+      reasons.push('duration');
+    }
+  }
+  return reasons;
+}
+
+/**
+ * 过滤 HLS 媒体播放列表中的广告分片，返回处理后的内容与被移除的广告块
+ * baseUrl 用于解析相对地址，以比较分片域名与目录
+ */
+export function filterAdsFromM3U8(
+  content: string,
+  baseUrl?: string,
+  rules?: AdFilterRules
+): AdFilterResult {
+  const unchanged: AdFilterResult = {
+    content,
+    removed: [],
+    removedDuration: 0,
+  };
+  const options = { ...DEFAULT_AD_FILTER_RULES, ...rules };
+
+  // 多码率主播放列表不含分片，无需处理
+  if (!content || !options.enabled || content.includes('#EXT-X-STREAM-INF')) {
+    return unchanged;
+  }
+
+  const { header, blocks, trailer } = parsePlaylist(content, baseUrl);
+  const removed: RemovedAdBlock[] = [];
+  let remaining = removeKeywordSegments(blocks, options.keywords, removed);
+
+  if (remaining.length > 1) {
+    const segments = remaining.reduce<Segment[]>((all, b) => all.concat(b), []);
+    const totalDuration = blockDuration(segments);
+    // 时长最长的块一定是正片
+    const longest = remaining.reduce((a, b) =>
+      blockDuration(b) > blockDuration(a) ? b : a
+    );
+    const main = {
+      host: dominantValue(segments, (s) => s.host),
+      dir: dominantValue(segments, (s) => s.dir),
+      ...durationProfile(segments),
+    };
+
+    const detected: RemovedAdBlock[] = [];
+    const kept = remaining.filter((block) => {
+      if (block === longest || blockDuration(block) > options.maxAdDuration) {
+        return true;
+      }
+      const reasons = detectAdReasons(block, main, options);
+      if (reasons.length === 0) return true;
+      detected.push(toRemoved(block, reasons));
+      return false;
+    });
+
+    const detectedDuration = detected.reduce((sum, b) => sum + b.duration, 0);
+    if (detectedDuration <= totalDuration * MAX_REMOVED_RATIO) {
+      removed.push(...detected);
+      remaining = kept;
+    }
+  }
+
+  if (removed.length === 0) {
+    return unchanged;
+  }
+
+  removed.sort((a, b) => a.start - b.start);
+  return {
+    content: serializePlaylist(header, remaining, trailer),
+    removed,
+    removedDuration: removed.reduce((sum, b) => sum + b.duration, 0),
+  };
+}
@@ -0,0 +1,103 @@
+// HLS 代理：播放列表中的分片、密钥与子播放列表地址改写为经由 /api/proxy/m3u8 访问
+
+export const HLS_PROXY_PATH = '/api/proxy/m3u8';
+
+/**
+ * 生成代理地址，服务端按 source 校验地址是否属于该资源站并附加其自定义请求头
+ */
+export function buildProxyUrl(url: string, source: string): string {
+  const params = new URLSearchParams({ url, source });
+  return `${HLS_PROXY_PATH}?${params.toString()}`;
+}
+
+/**
+ * 是否已经是代理地址（相对或同源绝对地址）
+ */
+export function isProxyUrl(url: string): boolean {
+  try {
+    return new URL(url, 'http://localhost/').pathname === HLS_PROXY_PATH;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * 取出代理地址中的原始地址，非代理地址原样返回
+ */
+export function unwrapProxyUrl(url: string): string {
+  if (!isProxyUrl(url)) return url;
+  const original = new URL(url, 'http://localhost/').searchParams.get('url');
+  return original || url;
+}
+
+/**
+ * 响应可能是 m3u8 播放列表时需要读取文本并改写，其余（分片、密钥）直接透传
+ */
+export function mayBePlaylist(
+  contentType: string | null,
+  url: string
+): boolean {
+  if (contentType && /mpegurl|^text\//i.test(contentType)) return true;
+  try {
+    return /\.m3u8?$/i.test(new URL(url).pathname);
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * 播放列表中分片、密钥与子播放列表所在的主机名，代理据此放行资源站的 CDN 域名
+ */
+export function getPlaylistHosts(content: string, baseUrl: string): string[] {
+  const hosts = new Set<string>();
+  content.split(/\r?\n/).forEach((line) => {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+    const uris = trimmed.startsWith('#')
+      ? Array.from(trimmed.matchAll(/URI="([^"]+)"/g), (match) => match[1])
+      : [trimmed];
+    uris.forEach((uri) => {
+      if (uri.startsWith('data:') || isProxyUrl(uri)) return;
+      try {
+        hosts.add(new URL(uri, baseUrl).hostname.toLowerCase());
+      } catch (error) {
+        // 地址无效时忽略
+      }
+    });
+  });
+  return Array.from(hosts);
+}
+
+/**
+ * 改写播放列表：相对地址按 baseUrl 解析后统一改为代理地址
+ * 处理分片/子播放列表行以及 KEY、MAP、MEDIA 等标签中的 URI 属性
+ */
+export function rewritePlaylist(
+  content: string,
+  baseUrl: string,
+  source: string
+): string {
+  const toProxy = (uri: string) => {
+    if (uri.startsWith('data:') || isProxyUrl(uri)) return uri;
+    try {
+      return buildProxyUrl(new URL(uri, baseUrl).toString(), source);
+    } catch (error) {
+      return uri;
+    }
+  };
+
+  return content
+    .split(/\r?\n/)
+    .map((line) => {
+      const trimmed = line.trim();
+      if (!trimmed) return line;
+      if (trimmed.startsWith('#')) {
+        return trimmed.replace(
+          /URI="([^"]+)"/g,
+          (_, uri: string) => `URI="${toProxy(uri)}"`
+        );
+      }
+      return toProxy(trimmed);
+    })
+    .join('\n');
+}
@@ -3,7 +3,7 @@
 import { createClient, RedisClientType } from 'redis';
 
 import { AdminConfig } from './admin.types';
-import { EpisodeSkipConfig, Favorite, IStorage, PlayRecord, User, UserSettings } from './types';
+import { DEFAULT_USER_SETTINGS, EpisodeSkipConfig, EpisodeSubtitle, Favorite, IStorage, PlayRecord, SharedSkipConfig, SourceHealth, User, UserSettings, WatchRoom } from './types';
 
 // 搜索历史最大条数
 const SEARCH_HISTORY_LIMIT = 20;
@@ -304,7 +304,12 @@ export class KvrocksStorage implements IStorage {
 
   async verifyUser(userName: string, password: string): Promise<boolean> {
     const userData = await this.getUser(userName);
-    return userData && userData.password === password;
+    return userData !== null && userData.password === password;
+  }
+
+  async getUserPassword(userName: string): Promise<string | null> {
+    const userData = await this.getUser(userName);
+    return userData ? String(userData.password) : null;
   }
 
   async checkUserExist(userName: string): Promise<boolean> {
@@ -333,6 +338,8 @@ export class KvrocksStorage implements IStorage {
         `u:${userName}:fav:*`, // 收藏
         `u:${userName}:search_history`, // 搜索历史
         `u:${userName}:skip_config:*`, // 跳过配置
+        `u:${userName}:sub:*`, // 外挂字幕
+        `u:${userName}:settings`, // 用户设置
       ];
 
       for (const pattern of patterns) {
@@ -386,21 +393,214 @@ export class KvrocksStorage implements IStorage {
     settings: Partial<UserSettings>
   ): Promise<void> {
     const current = await this.getUserSettings(userName);
-    const defaultSettings: UserSettings = {
-      filter_adult_content: true,
-      theme: 'auto',
-      language: 'zh-CN',
-      auto_play: false,
-      video_quality: 'auto'
-    };
     const updated: UserSettings = { 
-      ...defaultSettings, 
+      ...DEFAULT_USER_SETTINGS, 
       ...current, 
       ...settings,
       filter_adult_content: settings.filter_adult_content ?? current?.filter_adult_content ?? true
     };
     await this.setUserSettings(userName, updated);
   }
+
+  // ---------- 外挂字幕 ----------
+  private subtitleKey(user: string, key: string) {
+    return `u:${user}:sub:${key}`; // u:username:sub:source+id+集数
+  }
+
+  async getSubtitle(
+    userName: string,
+    key: string
+  ): Promise<EpisodeSubtitle | null> {
+    const val = await withRetry(() =>
+      this.client.get(this.subtitleKey(userName, key))
+    );
+    return val ? (JSON.parse(val) as EpisodeSubtitle) : null;
+  }
+
+  async setSubtitle(
+    userName: string,
+    key: string,
+    subtitle: EpisodeSubtitle
+  ): Promise<void> {
+    await withRetry(() =>
+      this.client.set(this.subtitleKey(userName, key), JSON.stringify(subtitle))
+    );
+  }
+
+  async getAllSubtitles(
+    userName: string
+  ): Promise<Record<string, EpisodeSubtitle>> {
+    const prefix = `u:${userName}:sub:`;
+    const keys: string[] = await withRetry(() =>
+      this.client.keys(`${prefix}*`)
+    );
+    if (keys.length === 0) return {};
+    const values = await withRetry(() => this.client.mGet(keys));
+    const result: Record<string, EpisodeSubtitle> = {};
+    keys.forEach((fullKey, idx) => {
+      const raw = values[idx];
+      if (raw) {
+        result[fullKey.replace(prefix, '')] = JSON.parse(raw) as EpisodeSubtitle;
+      }
+    });
+    return result;
+  }
+
+  async deleteSubtitle(userName: string, key: string): Promise<void> {
+    await withRetry(() => this.client.del(this.subtitleKey(userName, key)));
+  }
+
+  // ---------- 社区共享跳过配置 ----------
+  private sharedSkipKey() {
+    return 'skip:shared';
+  }
+
+  async getSharedSkipConfig(key: string): Promise<SharedSkipConfig | null> {
+    const val = await withRetry(() =>
+      this.client.hGet(this.sharedSkipKey(), key)
+    );
+    return val ? (JSON.parse(val) as SharedSkipConfig) : null;
+  }
+
+  async setSharedSkipConfig(
+    key: string,
+    config: SharedSkipConfig
+  ): Promise<void> {
+    await withRetry(() =>
+      this.client.hSet(this.sharedSkipKey(), key, JSON.stringify(config))
+    );
+  }
+
+  async getAllSharedSkipConfigs(): Promise<Record<string, SharedSkipConfig>> {
+    const raw = await withRetry(() => this.client.hGetAll(this.sharedSkipKey()));
+    const result: Record<string, SharedSkipConfig> = {};
+    Object.entries(raw || {}).forEach(([key, val]) => {
+      result[key] = JSON.parse(val) as SharedSkipConfig;
+    });
+    return result;
+  }
+
+  async deleteSharedSkipConfig(key: string): Promise<void> {
+    await withRetry(() => this.client.hDel(this.sharedSkipKey(), key));
+  }
+
+  // ---------- 一起看房间 ----------
+  private watchRoomKey() {
+    return 'watch:rooms';
+  }
+
+  private watchRoomMembersKey(roomId: string) {
+    return `watch:room:${roomId}:members`;
+  }
+
+  async getWatchRoom(roomId: string): Promise<WatchRoom | null> {
+    const val = await withRetry(() =>
+      this.client.hGet(this.watchRoomKey(), roomId)
+    );
+    return val ? (JSON.parse(val) as WatchRoom) : null;
+  }
+
+  async getAllWatchRooms(): Promise<WatchRoom[]> {
+    const raw = await withRetry(() => this.client.hGetAll(this.watchRoomKey()));
+    return Object.values(raw || {}).map((val) => JSON.parse(val) as WatchRoom);
+  }
+
+  async setWatchRoom(roomId: string, room: WatchRoom): Promise<void> {
+    await withRetry(() =>
+      this.client.hSet(this.watchRoomKey(), roomId, JSON.stringify(room))
+    );
+  }
+
+  async deleteWatchRoom(roomId: string): Promise<void> {
+    await withRetry(() => this.client.hDel(this.watchRoomKey(), roomId));
+    await withRetry(() => this.client.del(this.watchRoomMembersKey(roomId)));
+  }
+
+  async getWatchRoomMembers(roomId: string): Promise<Record<string, number>> {
+    const raw = await withRetry(() =>
+      this.client.hGetAll(this.watchRoomMembersKey(roomId))
+    );
+    const result: Record<string, number> = {};
+    Object.entries(raw || {}).forEach(([userName, val]) => {
+      result[userName] = Number(val);
+    });
+    return result;
+  }
+
+  async setWatchRoomMember(
+    roomId: string,
+    userName: string,
+    lastSeen: number
+  ): Promise<void> {
+    await withRetry(() =>
+      this.client.hSet(
+        this.watchRoomMembersKey(roomId),
+        userName,
+        String(lastSeen)
+      )
+    );
+  }
+
+  async deleteWatchRoomMember(roomId: string, userName: string): Promise<void> {
+    await withRetry(() =>
+      this.client.hDel(this.watchRoomMembersKey(roomId), userName)
+    );
+  }
+
+  // ---------- 接口缓存 ----------
+  private cacheKey(key: string) {
+    return `cache:${key}`;
+  }
+
+  async getCache<T = unknown>(key: string): Promise<T | null> {
+    const val = await withRetry(() => this.client.get(this.cacheKey(key)));
+    return val ? (JSON.parse(val) as T) : null;
+  }
+
+  async setCache<T = unknown>(key: string, value: T, ttl: number): Promise<void> {
+    await withRetry(() =>
+      this.client.set(this.cacheKey(key), JSON.stringify(value), { EX: ttl })
+    );
+  }
+
+  async clearCache(prefix?: string): Promise<void> {
+    const keys = await withRetry(() =>
+      this.client.keys(`${this.cacheKey(prefix || '')}*`)
+    );
+    if (keys.length > 0) {
+      await withRetry(() => this.client.del(keys));
+    }
+  }
+
+  // ---------- 资源站健康状态 ----------
+  private sourceHealthKey() {
+    return 'source:health';
+  }
+
+  async getAllSourceHealth(): Promise<Record<string, SourceHealth>> {
+    const raw = await withRetry(() =>
+      this.client.hGetAll(this.sourceHealthKey())
+    );
+    const result: Record<string, SourceHealth> = {};
+    Object.entries(raw || {}).forEach(([key, val]) => {
+      result[key] = JSON.parse(val) as SourceHealth;
+    });
+    return result;
+  }
+
+  async setSourceHealth(key: string, health: SourceHealth): Promise<void> {
+    await withRetry(() =>
+      this.client.hSet(this.sourceHealthKey(), key, JSON.stringify(health))
+    );
+  }
+
+  async deleteSourceHealth(key?: string): Promise<void> {
+    if (key) {
+      await withRetry(() => this.client.hDel(this.sourceHealthKey(), key));
+    } else {
+      await withRetry(() => this.client.del(this.sourceHealthKey()));
+    }
+  }
 }
 
 // Kvrocks客户端单例
@@ -1,6 +1,9 @@
 /* eslint-disable no-console */
 import { AdminConfig } from './admin.types';
-import { EpisodeSkipConfig, Favorite, IStorage, PlayRecord, User, UserSettings } from './types';
+import { DEFAULT_USER_SETTINGS, EpisodeSkipConfig, EpisodeSubtitle, Favorite, IStorage, PlayRecord, SharedSkipConfig, SourceHealth, User, UserSettings, WatchRoom } from './types';
+
+// 搜索历史最大条数
+const SEARCH_HISTORY_LIMIT = 20;
 
 /**
  * LocalStorage 存储实现
@@ -166,6 +169,19 @@ export class LocalStorage implements IStorage {
     }
   }
 
+  async getUserPassword(userName: string): Promise<string | null> {
+    if (typeof window === 'undefined') return null;
+
+    try {
+      const storageKey = this.getStorageKey('user', userName);
+      const data = localStorage.getItem(storageKey);
+      return data ? JSON.parse(data).password ?? null : null;
+    } catch (error) {
+      console.error('Error reading user password:', error);
+      return null;
+    }
+  }
+
   async checkUserExist(userName: string): Promise<boolean> {
     if (typeof window === 'undefined') return false;
     
@@ -200,7 +216,7 @@ export class LocalStorage implements IStorage {
       // 移除重复项并添加到开头
       const newHistory = [keyword, ...history.filter(item => item !== keyword)];
       // 限制历史记录数量
-      const limitedHistory = newHistory.slice(0, 50);
+      const limitedHistory = newHistory.slice(0, SEARCH_HISTORY_LIMIT);
       
       const storageKey = this.getStorageKey('searchhistory', userName);
       localStorage.setItem(storageKey, JSON.stringify(limitedHistory));
@@ -297,20 +313,7 @@ export class LocalStorage implements IStorage {
     try {
       const storageKey = this.getStorageKey('settings', userName);
       const data = localStorage.getItem(storageKey);
-      if (data) {
-        return JSON.parse(data);
-      }
-      
-      // 如果用户设置不存在，返回默认设置
-      const defaultSettings: UserSettings = {
-        filter_adult_content: true, // 默认开启成人内容过滤
-        theme: 'auto',
-        language: 'zh-CN',
-        auto_play: true,
-        video_quality: 'auto'
-      };
-      
-      return defaultSettings;
+      return data ? JSON.parse(data) : null;
     } catch (error) {
       console.error('Error getting user settings:', error);
       return null;
@@ -332,9 +335,14 @@ export class LocalStorage implements IStorage {
     if (typeof window === 'undefined') return;
     
     try {
-      const currentSettings = await this.getUserSettings(userName);
-      const updatedSettings = { ...currentSettings, ...settings };
-      await this.setUserSettings(userName, updatedSettings as UserSettings);
+      const current = await this.getUserSettings(userName);
+      const updated: UserSettings = {
+        ...DEFAULT_USER_SETTINGS,
+        ...current,
+        ...settings,
+        filter_adult_content: settings.filter_adult_content ?? current?.filter_adult_content ?? true
+      };
+      await this.setUserSettings(userName, updated);
     } catch (error) {
       console.error('Error updating user settings:', error);
     }
@@ -435,7 +443,7 @@ export class LocalStorage implements IStorage {
       localStorage.removeItem(userKey);
       
       // 删除用户相关的所有数据
-      const prefixes = ['playrecord', 'favorite', 'searchhistory', 'skipconfig', 'settings'];
+      const prefixes = ['playrecord', 'favorite', 'searchhistory', 'skipconfig', 'subtitle', 'settings'];
       
       for (const prefix of prefixes) {
         const dataPrefix = this.getStorageKey(prefix, userName);
@@ -455,4 +463,285 @@ export class LocalStorage implements IStorage {
       throw error;
     }
   }
+
+  // ---------- 外挂字幕 ----------
+  async getSubtitle(userName: string, key: string): Promise<EpisodeSubtitle | null> {
+    if (typeof window === 'undefined') return null;
+    
+    try {
+      const data = localStorage.getItem(this.getStorageKey('subtitle', userName, key));
+      return data ? JSON.parse(data) : null;
+    } catch (error) {
+      console.error('Error getting subtitle:', error);
+      return null;
+    }
+  }
+
+  async setSubtitle(userName: string, key: string, subtitle: EpisodeSubtitle): Promise<void> {
+    if (typeof window === 'undefined') return;
+    
+    try {
+      localStorage.setItem(
+        this.getStorageKey('subtitle', userName, key),
+        JSON.stringify(subtitle)
+      );
+    } catch (error) {
+      console.error('Error setting subtitle:', error);
+    }
+  }
+
+  async getAllSubtitles(userName: string): Promise<{ [key: string]: EpisodeSubtitle }> {
+    if (typeof window === 'undefined') return {};
+    
+    try {
+      const prefix = this.getStorageKey('subtitle', userName);
+      const subtitles: { [key: string]: EpisodeSubtitle } = {};
+      
+      for (let i = 0; i < localStorage.length; i++) {
+        const storageKey = localStorage.key(i);
+        if (storageKey && storageKey.startsWith(prefix + '_')) {
+          const data = localStorage.getItem(storageKey);
+          if (data) {
+            subtitles[storageKey.replace(prefix + '_', '')] = JSON.parse(data);
+          }
+        }
+      }
+      
+      return subtitles;
+    } catch (error) {
+      console.error('Error getting all subtitles:', error);
+      return {};
+    }
+  }
+
+  async deleteSubtitle(userName: string, key: string): Promise<void> {
+    if (typeof window === 'undefined') return;
+    
+    try {
+      localStorage.removeItem(this.getStorageKey('subtitle', userName, key));
+    } catch (error) {
+      console.error('Error deleting subtitle:', error);
+    }
+  }
+
+  // ---------- 社区共享跳过配置 ----------
+  async getSharedSkipConfig(key: string): Promise<SharedSkipConfig | null> {
+    const all = await this.getAllSharedSkipConfigs();
+    return all[key] || null;
+  }
+
+  async setSharedSkipConfig(key: string, config: SharedSkipConfig): Promise<void> {
+    if (typeof window === 'undefined') return;
+    
+    try {
+      const all = await this.getAllSharedSkipConfigs();
+      all[key] = config;
+      localStorage.setItem('katelyatv_shared_skip_configs', JSON.stringify(all));
+    } catch (error) {
+      console.error('Error setting shared skip config:', error);
+    }
+  }
+
+  async getAllSharedSkipConfigs(): Promise<{ [key: string]: SharedSkipConfig }> {
+    if (typeof window === 'undefined') return {};
+    
+    try {
+      const data = localStorage.getItem('katelyatv_shared_skip_configs');
+      return data ? JSON.parse(data) : {};
+    } catch (error) {
+      console.error('Error getting shared skip configs:', error);
+      return {};
+    }
+  }
+
+  async deleteSharedSkipConfig(key: string): Promise<void> {
+    if (typeof window === 'undefined') return;
+    
+    try {
+      const all = await this.getAllSharedSkipConfigs();
+      delete all[key];
+      localStorage.setItem('katelyatv_shared_skip_configs', JSON.stringify(all));
+    } catch (error) {
+      console.error('Error deleting shared skip config:', error);
+    }
+  }
+
+  // ---------- 一起看房间 ----------
+  async getWatchRoom(roomId: string): Promise<WatchRoom | null> {
+    if (typeof window === 'undefined') return null;
+    
+    try {
+      const data = localStorage.getItem(`katelyatv_watch_room_${roomId}`);
+      return data ? JSON.parse(data) : null;
+    } catch (error) {
+      console.error('Error getting watch room:', error);
+      return null;
+    }
+  }
+
+  async getAllWatchRooms(): Promise<WatchRoom[]> {
+    if (typeof window === 'undefined') return [];
+    
+    try {
+      const rooms: WatchRoom[] = [];
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (key?.startsWith('katelyatv_watch_room_') && !key.startsWith('katelyatv_watch_room_members_')) {
+          rooms.push(JSON.parse(localStorage.getItem(key) || 'null'));
+        }
+      }
+      return rooms.filter(Boolean);
+    } catch (error) {
+      console.error('Error getting watch rooms:', error);
+      return [];
+    }
+  }
+
+  async setWatchRoom(roomId: string, room: WatchRoom): Promise<void> {
+    if (typeof window === 'undefined') return;
+    
+    try {
+      localStorage.setItem(`katelyatv_watch_room_${roomId}`, JSON.stringify(room));
+    } catch (error) {
+      console.error('Error setting watch room:', error);
+    }
+  }
+
+  async deleteWatchRoom(roomId: string): Promise<void> {
+    if (typeof window === 'undefined') return;
+    
+    try {
+      localStorage.removeItem(`katelyatv_watch_room_${roomId}`);
+      localStorage.removeItem(`katelyatv_watch_room_members_${roomId}`);
+    } catch (error) {
+      console.error('Error deleting watch room:', error);
+    }
+  }
+
+  async getWatchRoomMembers(roomId: string): Promise<{ [userName: string]: number }> {
+    if (typeof window === 'undefined') return {};
+    
+    try {
+      const data = localStorage.getItem(`katelyatv_watch_room_members_${roomId}`);
+      return data ? JSON.parse(data) : {};
+    } catch (error) {
+      console.error('Error getting watch room members:', error);
+      return {};
+    }
+  }
+
+  async setWatchRoomMember(roomId: string, userName: string, lastSeen: number): Promise<void> {
+    if (typeof window === 'undefined') return;
+    
+    try {
+      const members = await this.getWatchRoomMembers(roomId);
+      members[userName] = lastSeen;
+      localStorage.setItem(`katelyatv_watch_room_members_${roomId}`, JSON.stringify(members));
+    } catch (error) {
+      console.error('Error setting watch room member:', error);
+    }
+  }
+
+  async deleteWatchRoomMember(roomId: string, userName: string): Promise<void> {
+    if (typeof window === 'undefined') return;
+    
+    try {
+      const members = await this.getWatchRoomMembers(roomId);
+      delete members[userName];
+      localStorage.setItem(`katelyatv_watch_room_members_${roomId}`, JSON.stringify(members));
+    } catch (error) {
+      console.error('Error deleting watch room member:', error);
+    }
+  }
+
+  // ---------- 接口缓存 ----------
+  async getCache<T = unknown>(key: string): Promise<T | null> {
+    if (typeof window === 'undefined') return null;
+    
+    try {
+      const data = localStorage.getItem(`katelyatv_cache_${key}`);
+      if (!data) return null;
+      const entry = JSON.parse(data) as { value: T; expire_time: number };
+      if (entry.expire_time <= Date.now()) {
+        localStorage.removeItem(`katelyatv_cache_${key}`);
+        return null;
+      }
+      return entry.value;
+    } catch (error) {
+      console.error('Error getting cache:', error);
+      return null;
+    }
+  }
+
+  async setCache<T = unknown>(key: string, value: T, ttl: number): Promise<void> {
+    if (typeof window === 'undefined') return;
+    
+    try {
+      localStorage.setItem(
+        `katelyatv_cache_${key}`,
+        JSON.stringify({ value, expire_time: Date.now() + ttl * 1000 })
+      );
+    } catch (error) {
+      console.error('Error setting cache:', error);
+    }
+  }
+
+  async clearCache(prefix?: string): Promise<void> {
+    if (typeof window === 'undefined') return;
+    
+    try {
+      const fullPrefix = `katelyatv_cache_${prefix || ''}`;
+      const keysToRemove: string[] = [];
+      for (let i = 0; i < localStorage.length; i++) {
+        const storageKey = localStorage.key(i);
+        if (storageKey && storageKey.startsWith(fullPrefix)) {
+          keysToRemove.push(storageKey);
+        }
+      }
+      keysToRemove.forEach((key) => localStorage.removeItem(key));
+    } catch (error) {
+      console.error('Error clearing cache:', error);
+    }
+  }
+
+  // ---------- 资源站健康状态 ----------
+  async getAllSourceHealth(): Promise<{ [key: string]: SourceHealth }> {
+    if (typeof window === 'undefined') return {};
+    
+    try {
+      const data = localStorage.getItem('katelyatv_source_health');
+      return data ? JSON.parse(data) : {};
+    } catch (error) {
+      console.error('Error getting source health:', error);
+      return {};
+    }
+  }
+
+  async setSourceHealth(key: string, health: SourceHealth): Promise<void> {
+    if (typeof window === 'undefined') return;
+    
+    try {
+      const all = await this.getAllSourceHealth();
+      all[key] = health;
+      localStorage.setItem('katelyatv_source_health', JSON.stringify(all));
+    } catch (error) {
+      console.error('Error setting source health:', error);
+    }
+  }
+
+  async deleteSourceHealth(key?: string): Promise<void> {
+    if (typeof window === 'undefined') return;
+    
+    try {
+      if (key) {
+        const all = await this.getAllSourceHealth();
+        delete all[key];
+        localStorage.setItem('katelyatv_source_health', JSON.stringify(all));
+      } else {
+        localStorage.removeItem('katelyatv_source_health');
+      }
+    } catch (error) {
+      console.error('Error deleting source health:', error);
+    }
+  }
 }
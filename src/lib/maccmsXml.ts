@@ -0,0 +1,112 @@
+// 苹果 CMS（MacCMS）XML 接口解析
+// 结构：<rss><list pagecount=".."><video><id/><name/>…<dl><dd flag="..">…</dd></dl></video></list></rss>
+
+export interface MacCmsXmlVideo {
+  vod_id: string;
+  vod_name: string;
+  vod_pic: string;
+  vod_remarks?: string;
+  vod_play_from?: string;
+  vod_play_url?: string;
+  vod_year?: string;
+  vod_content?: string;
+  type_name?: string;
+}
+
+export interface MacCmsXmlResult {
+  list: MacCmsXmlVideo[];
+  page: number;
+  pagecount: number;
+}
+
+const XML_ENTITIES: { [key: string]: string } = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&apos;': "'",
+  '&#39;': "'",
+};
+
+// 去除 CDATA 包裹；非 CDATA 文本需要解码 XML 实体
+function readText(raw: string): string {
+  const cdata = raw.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+  if (cdata) {
+    return cdata[1].trim();
+  }
+  return raw
+    .replace(/&(amp|lt|gt|quot|apos|#39);/g, (entity) => XML_ENTITIES[entity])
+    .trim();
+}
+
+function readTag(block: string, tag: string): string {
+  const match = block.match(
+    new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'i')
+  );
+  return match ? readText(match[1]) : '';
+}
+
+function readAttr(block: string, tag: string, attr: string): string {
+  const match = block.match(
+    new RegExp(`<${tag}\\b[^>]*\\b${attr}=["']([^"']*)["']`, 'i')
+  );
+  return match ? match[1] : '';
+}
+
+/**
+ * 根据资源站配置判断是否为 XML 接口：优先使用显式配置，否则按地址识别
+ */
+export function isXmlApi(site: {
+  api: string;
+  format?: 'json' | 'xml';
+}): boolean {
+  if (site.format) {
+    return site.format === 'xml';
+  }
+  const api = site.api.toLowerCase();
+  return api.includes('at/xml') || api.endsWith('.xml');
+}
+
+/**
+ * 判断响应内容是否为 XML
+ */
+export function isXmlContent(text: string): boolean {
+  return /^\s*</.test(text);
+}
+
+/**
+ * 解析 MacCMS XML 接口返回内容，字段映射为与 JSON 接口一致的 vod_* 结构
+ */
+export function parseMacCmsXml(xml: string): MacCmsXmlResult {
+  const videos = xml.match(/<video\b[^>]*>[\s\S]*?<\/video>/gi) || [];
+
+  const list = videos.map((block): MacCmsXmlVideo => {
+    const flags: string[] = [];
+    const urls: string[] = [];
+    const ddPattern = /<dd\b([^>]*)>([\s\S]*?)<\/dd>/gi;
+    let dd: RegExpExecArray | null;
+    while ((dd = ddPattern.exec(block)) !== null) {
+      const flag = dd[1].match(/flag=["']([^"']*)["']/i);
+      flags.push(flag ? flag[1] : '');
+      urls.push(readText(dd[2]));
+    }
+
+    return {
+      vod_id: readTag(block, 'id'),
+      vod_name: readTag(block, 'name'),
+      vod_pic: readTag(block, 'pic'),
+      vod_remarks: readTag(block, 'note'),
+      vod_play_from: flags.join('$$$'),
+      vod_play_url: urls.join('$$$'),
+      vod_year: readTag(block, 'year'),
+      vod_content: readTag(block, 'des'),
+      type_name: readTag(block, 'type'),
+    };
+  });
+
+  return {
+    list,
+    page: Number(readAttr(xml, 'list', 'page')) || 1,
+    pagecount: Number(readAttr(xml, 'list', 'pagecount')) || 1,
+  };
+}
@@ -0,0 +1,603 @@
+/* eslint-disable no-console */
+'use client';
+
+// 离线下载：将剧集的 HLS 播放列表、分片与密钥保存到 IndexedDB，供无网络时播放
+// 播放列表中的地址改写为 offline:// 地址，由播放页的 hls.js loader 从 IndexedDB 读取
+// AES-128 密钥原样保存，解密仍由 hls.js 完成
+
+import { AdFilterRules } from './admin.types';
+import { filterAdsFromM3U8 } from './hlsAdFilter';
+import { buildProxyUrl, unwrapProxyUrl } from './hlsProxy';
+import { SearchResult } from './types';
+
+export type OfflineStatus = 'downloading' | 'paused' | 'completed' | 'error';
+
+export interface OfflineEpisode {
+  key: string; // source+id+集数
+  source: string;
+  id: string;
+  episode: number; // 第几集，从 1 开始
+  title: string;
+  episode_name: string;
+  source_name: string;
+  poster: string;
+  detail: SearchResult; // 无网络时用于恢复播放页
+  url: string; // 原始播放地址
+  force_proxy: boolean;
+  ad_filter?: AdFilterRules; // 为空表示下载时不去广告
+  total: number; // 需要下载的资源数（分片、密钥与初始化分片），解析完成前为 0
+  downloaded: number;
+  size: number; // 已下载字节数
+  status: OfflineStatus;
+  error?: string;
+  created_time: number;
+  updated_time: number;
+}
+
+export type OfflineDownloadRequest = Pick<
+  OfflineEpisode,
+  | 'source'
+  | 'id'
+  | 'episode'
+  | 'title'
+  | 'episode_name'
+  | 'source_name'
+  | 'poster'
+  | 'detail'
+  | 'url'
+>;
+
+export interface OfflineDownloadOptions {
+  forceProxy?: boolean;
+  blockAd?: boolean;
+  adFilterRules?: AdFilterRules | null;
+}
+
+export interface OfflineUpdateEvent {
+  key: string;
+  episode: OfflineEpisode | null; // 为 null 表示已删除
+}
+
+const DB_NAME = 'katelyatv_offline';
+const DB_VERSION = 1;
+const EPISODE_STORE = 'episodes';
+// 分片、密钥、改写后的播放列表与资源地址列表，键为 `${key}#${名称}`
+const CHUNK_STORE = 'chunks';
+
+const OFFLINE_SCHEME = 'offline://';
+const PLAYLIST_NAME = 'index.m3u8';
+const RESOURCES_NAME = 'resources';
+const UPDATE_EVENT = 'offlineDownloadsUpdated';
+
+// 同时下载的分片数
+const CONCURRENCY = 3;
+// 单个资源的重试次数
+const MAX_ATTEMPTS = 3;
+
+interface DownloadTask {
+  controller: AbortController;
+  paused: boolean;
+}
+
+// 进行中的下载任务，删除时移除，任务据此判断是否仍需写入
+const tasks = new Map<string, DownloadTask>();
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(EPISODE_STORE)) {
+          db.createObjectStore(EPISODE_STORE, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(CHUNK_STORE)) {
+          db.createObjectStore(CHUNK_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * 在一个事务中执行操作，事务提交后返回最后一个请求的结果
+ */
+async function transact<T>(
+  stores: string[],
+  mode: IDBTransactionMode,
+  run: (tx: IDBTransaction) => IDBRequest<T> | void
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(stores, mode);
+    const request = run(tx);
+    tx.oncomplete = () => resolve(request ? request.result : (undefined as T));
+    tx.onabort = () => reject(tx.error);
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+function chunkKey(key: string, name: string | number): string {
+  return `${key}#${name}`;
+}
+
+function chunkRange(key: string): IDBKeyRange {
+  return IDBKeyRange.bound(`${key}#`, `${key}#\uffff`);
+}
+
+function isActive(key: string, task: DownloadTask): boolean {
+  return tasks.get(key) === task;
+}
+
+function emit(key: string, episode: OfflineEpisode | null) {
+  if (typeof window === 'undefined') return;
+  window.dispatchEvent(
+    new CustomEvent<OfflineUpdateEvent>(UPDATE_EVENT, {
+      detail: { key, episode },
+    })
+  );
+}
+
+// 页面刷新后不存在对应任务的下载视为已暂停
+function withLiveStatus(episode: OfflineEpisode): OfflineEpisode {
+  if (episode.status === 'downloading' && !tasks.has(episode.key)) {
+    return { ...episode, status: 'paused' };
+  }
+  return episode;
+}
+
+function errorMessage(err: unknown): string {
+  if (err instanceof DOMException && err.name === 'QuotaExceededError') {
+    return '存储空间不足，请删除部分离线内容后重试';
+  }
+  return err instanceof Error ? err.message : '下载失败';
+}
+
+// ---------------------------------------------------------------------------
+// 播放列表解析
+// ---------------------------------------------------------------------------
+
+// 经由代理获取的播放列表中是代理地址，统一还原为原始绝对地址
+function resolveUri(uri: string, baseUrl: string): string {
+  return new URL(unwrapProxyUrl(uri), baseUrl).toString();
+}
+
+function mapPlaylistUris(
+  content: string,
+  map: (uri: string) => string
+): string {
+  return content
+    .split(/\r?\n/)
+    .map((line) => {
+      const trimmed = line.trim();
+      if (!trimmed) return line;
+      if (trimmed.startsWith('#')) {
+        return trimmed.replace(
+          /URI="([^"]+)"/g,
+          (_, uri: string) => `URI="${map(uri)}"`
+        );
+      }
+      return map(trimmed);
+    })
+    .join('\n');
+}
+
+/**
+ * 从多码率主播放列表中选择码率最高的子播放列表
+ */
+function pickVariant(content: string, baseUrl: string): string {
+  const lines = content.split(/\r?\n/).map((line) => line.trim());
+  let bestUri = '';
+  let bestBandwidth = -1;
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i].startsWith('#EXT-X-STREAM-INF')) continue;
+    const uri = lines
+      .slice(i + 1)
+      .find((next) => next && !next.startsWith('#'));
+    const bandwidth = Number(lines[i].match(/[:,]BANDWIDTH=(\d+)/)?.[1] || 0);
+    if (uri && bandwidth > bestBandwidth) {
+      bestUri = uri;
+      bestBandwidth = bandwidth;
+    }
+  }
+
+  if (!bestUri) {
+    throw new Error('播放列表中没有可用的清晰度');
+  }
+  return resolveUri(bestUri, baseUrl);
+}
+
+/**
+ * 改写媒体播放列表：分片、密钥与初始化分片地址改为 offline:// 地址
+ * 返回改写后的播放列表与按编号排列的原始资源地址
+ */
+function buildOfflinePlaylist(
+  content: string,
+  key: string
+): { playlist: string; resources: string[] } {
+  if (!content.includes('#EXT-X-ENDLIST')) {
+    throw new Error('直播流不支持离线下载');
+  }
+  const method = content.match(/#EXT-X-KEY:.*?METHOD=([A-Z0-9-]+)/)?.[1];
+  if (method && method !== 'NONE' && method !== 'AES-128') {
+    throw new Error(`不支持 ${method} 加密的视频`);
+  }
+
+  const resources: string[] = [];
+  const indexes = new Map<string, number>();
+  const playlist = mapPlaylistUris(content, (uri) => {
+    if (uri.startsWith('data:')) return uri;
+    let index = indexes.get(uri);
+    if (index === undefined) {
+      index = resources.length;
+      resources.push(uri);
+      indexes.set(uri, index);
+    }
+    return getOfflineResourceUrl(key, index);
+  });
+
+  if (resources.length === 0) {
+    throw new Error('播放列表中没有视频分片');
+  }
+  return { playlist, resources };
+}
+
+// ---------------------------------------------------------------------------
+// 下载
+// ---------------------------------------------------------------------------
+
+/**
+ * 请求资源，直连失败（多为跨域限制）时改走服务端代理
+ */
+async function fetchResource(
+  url: string,
+  episode: OfflineEpisode,
+  signal: AbortSignal
+): Promise<{ response: Response; url: string }> {
+  const proxyUrl = buildProxyUrl(url, episode.source);
+  const targets = episode.force_proxy ? [proxyUrl] : [url, proxyUrl];
+  let lastError: unknown = null;
+
+  for (const target of targets) {
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      try {
+        const response = await fetch(target, { signal });
+        if (!response.ok) {
+          throw new Error(`请求失败: ${response.status}`);
+        }
+        // 直连时以跳转后的地址作为相对地址的基准
+        return {
+          response,
+          url: target === url ? response.url || url : url,
+        };
+      } catch (err) {
+        if (signal.aborted) throw err;
+        lastError = err;
+        // 网络或跨域错误重试无意义，直接尝试代理
+        if (err instanceof TypeError) break;
+      }
+    }
+  }
+  throw lastError || new Error('下载失败');
+}
+
+/**
+ * 获取媒体播放列表（必要时从主播放列表中选择清晰度），
+ * 去广告后改写地址并保存
+ */
+async function preparePlaylist(
+  episode: OfflineEpisode,
+  signal: AbortSignal
+): Promise<number> {
+  let url = episode.url;
+  let content = '';
+  for (let depth = 0; ; depth++) {
+    const result = await fetchResource(url, episode, signal);
+    content = await result.response.text();
+    if (!content.includes('#EXTM3U')) {
+      throw new Error('播放地址不是 HLS 播放列表，无法离线下载');
+    }
+    if (!content.includes('#EXT-X-STREAM-INF')) {
+      const baseUrl = result.url;
+      content = mapPlaylistUris(content, (uri) =>
+        uri.startsWith('data:') ? uri : resolveUri(uri, baseUrl)
+      );
+      break;
+    }
+    if (depth >= 2) {
+      throw new Error('播放列表嵌套层级过多');
+    }
+    url = pickVariant(content, result.url);
+  }
+
+  if (episode.ad_filter) {
+    const filtered = filterAdsFromM3U8(content, url, episode.ad_filter);
+    content = filtered.content;
+    if (filtered.removed.length > 0) {
+      console.info('离线下载已移除广告分片:', filtered.removed);
+    }
+  }
+
+  const { playlist, resources } = buildOfflinePlaylist(content, episode.key);
+  await transact([CHUNK_STORE], 'readwrite', (tx) => {
+    const store = tx.objectStore(CHUNK_STORE);
+    store.put(playlist, chunkKey(episode.key, PLAYLIST_NAME));
+    store.put(resources, chunkKey(episode.key, RESOURCES_NAME));
+  });
+  return resources.length;
+}
+
+async function putEpisode(episode: OfflineEpisode): Promise<void> {
+  await transact([EPISODE_STORE], 'readwrite', (tx) => {
+    tx.objectStore(EPISODE_STORE).put(episode);
+  });
+  emit(episode.key, withLiveStatus(episode));
+}
+
+/**
+ * 下载尚未保存的资源，分片与下载进度在同一事务中写入，中断后可准确续传
+ */
+async function downloadResources(
+  episode: OfflineEpisode,
+  task: DownloadTask
+): Promise<void> {
+  const { signal } = task.controller;
+  const resources =
+    (await transact<string[] | undefined>([CHUNK_STORE], 'readonly', (tx) =>
+      tx.objectStore(CHUNK_STORE).get(chunkKey(episode.key, RESOURCES_NAME))
+    )) || [];
+  const stored = await transact<IDBValidKey[]>(
+    [CHUNK_STORE],
+    'readonly',
+    (tx) => tx.objectStore(CHUNK_STORE).getAllKeys(chunkRange(episode.key))
+  );
+  const done = new Set(
+    stored.map((key) => String(key).slice(episode.key.length + 1))
+  );
+  const pending = resources
+    .map((_, index) => index)
+    .filter((index) => !done.has(String(index)));
+  episode.downloaded = resources.length - pending.length;
+
+  let cursor = 0;
+  const worker = async () => {
+    while (cursor < pending.length && !signal.aborted) {
+      const index = pending[cursor++];
+      const { response } = await fetchResource(
+        resources[index],
+        episode,
+        signal
+      );
+      const data = await response.arrayBuffer();
+      if (!isActive(episode.key, task)) return;
+
+      episode.downloaded += 1;
+      episode.size += data.byteLength;
+      episode.updated_time = Date.now();
+      const snapshot = { ...episode };
+      await transact([EPISODE_STORE, CHUNK_STORE], 'readwrite', (tx) => {
+        tx.objectStore(CHUNK_STORE).put(data, chunkKey(episode.key, index));
+        tx.objectStore(EPISODE_STORE).put(snapshot);
+      });
+      emit(episode.key, snapshot);
+    }
+  };
+
+  // 任一分片失败时中止其余请求，等待全部结束后再更新状态，避免被覆盖
+  const results = await Promise.allSettled(
+    Array.from({ length: CONCURRENCY }, () =>
+      worker().catch((err) => {
+        task.controller.abort();
+        throw err;
+      })
+    )
+  );
+  const failure = results.find(
+    (result): result is PromiseRejectedResult => result.status === 'rejected'
+  );
+  if (failure || signal.aborted) {
+    throw failure ? failure.reason : new Error('下载已中止');
+  }
+}
+
+async function runTask(episode: OfflineEpisode): Promise<void> {
+  const task: DownloadTask = {
+    controller: new AbortController(),
+    paused: false,
+  };
+  tasks.set(episode.key, task);
+
+  const current: OfflineEpisode = {
+    ...episode,
+    status: 'downloading',
+    error: undefined,
+    updated_time: Date.now(),
+  };
+  try {
+    await putEpisode(current);
+    if (current.total === 0) {
+      current.total = await preparePlaylist(current, task.controller.signal);
+      current.downloaded = 0;
+      current.size = 0;
+      await putEpisode(current);
+    }
+    await downloadResources(current, task);
+    if (!isActive(current.key, task)) return;
+    current.status = 'completed';
+  } catch (err) {
+    if (!isActive(current.key, task)) return;
+    if (task.paused) {
+      current.status = 'paused';
+    } else {
+      console.error('离线下载失败:', err);
+      current.status = 'error';
+      current.error = errorMessage(err);
+    }
+  }
+
+  tasks.delete(current.key);
+  current.updated_time = Date.now();
+  await putEpisode(current).catch((err) =>
+    console.error('保存离线下载状态失败:', err)
+  );
+}
+
+// ---------------------------------------------------------------------------
+// 对外接口
+// ---------------------------------------------------------------------------
+
+export function isOfflineSupported(): boolean {
+  return typeof window !== 'undefined' && typeof indexedDB !== 'undefined';
+}
+
+export function getOfflineEpisodeKey(
+  source: string,
+  id: string,
+  episode: number
+): string {
+  return `${source}+${id}+${episode}`;
+}
+
+export function isOfflineUrl(url: string): boolean {
+  return url.startsWith(OFFLINE_SCHEME);
+}
+
+export function getOfflinePlaylistUrl(key: string): string {
+  return `${OFFLINE_SCHEME}${encodeURIComponent(key)}/${PLAYLIST_NAME}`;
+}
+
+function getOfflineResourceUrl(key: string, index: number): string {
+  return `${OFFLINE_SCHEME}${encodeURIComponent(key)}/${index}`;
+}
+
+/**
+ * 读取 offline:// 地址对应的内容：播放列表返回文本，分片与密钥返回 ArrayBuffer
+ * 不存在时返回 null
+ */
+export async function loadOfflineResource(
+  url: string
+): Promise<string | ArrayBuffer | null> {
+  const [encodedKey, name] = url.slice(OFFLINE_SCHEME.length).split('/');
+  if (!encodedKey || !name) return null;
+  const key = decodeURIComponent(encodedKey);
+  const result = await transact<string | ArrayBuffer | undefined>(
+    [CHUNK_STORE],
+    'readonly',
+    (tx) => tx.objectStore(CHUNK_STORE).get(chunkKey(key, name))
+  );
+  return result ?? null;
+}
+
+/**
+ * 获取全部离线剧集，按创建时间倒序
+ */
+export async function getOfflineEpisodes(): Promise<OfflineEpisode[]> {
+  if (!isOfflineSupported()) return [];
+  const episodes = await transact<OfflineEpisode[]>(
+    [EPISODE_STORE],
+    'readonly',
+    (tx) => tx.objectStore(EPISODE_STORE).getAll()
+  );
+  return episodes
+    .map(withLiveStatus)
+    .sort((a, b) => b.created_time - a.created_time);
+}
+
+/**
+ * 开始下载，已存在的未完成任务会继续下载
+ */
+export async function startOfflineDownload(
+  request: OfflineDownloadRequest,
+  options: OfflineDownloadOptions = {}
+): Promise<void> {
+  const key = getOfflineEpisodeKey(request.source, request.id, request.episode);
+  if (tasks.has(key)) return;
+
+  const existing = await transact<OfflineEpisode | undefined>(
+    [EPISODE_STORE],
+    'readonly',
+    (tx) => tx.objectStore(EPISODE_STORE).get(key)
+  );
+  if (existing) {
+    if (existing.status !== 'completed') {
+      await resumeOfflineDownload(key);
+    }
+    return;
+  }
+
+  // 申请持久化存储，避免浏览器在空间紧张时清理已下载的内容
+  navigator.storage?.persist?.().catch(() => undefined);
+
+  const now = Date.now();
+  runTask({
+    ...request,
+    key,
+    force_proxy: options.forceProxy === true,
+    ad_filter: options.blockAd ? options.adFilterRules || {} : undefined,
+    total: 0,
+    downloaded: 0,
+    size: 0,
+    status: 'downloading',
+    created_time: now,
+    updated_time: now,
+  });
+}
+
+export function pauseOfflineDownload(key: string): void {
+  const task = tasks.get(key);
+  if (!task) return;
+  task.paused = true;
+  task.controller.abort();
+}
+
+export async function resumeOfflineDownload(key: string): Promise<void> {
+  if (tasks.has(key)) return;
+  const episode = await transact<OfflineEpisode | undefined>(
+    [EPISODE_STORE],
+    'readonly',
+    (tx) => tx.objectStore(EPISODE_STORE).get(key)
+  );
+  if (!episode || episode.status === 'completed') return;
+  runTask(episode);
+}
+
+/**
+ * 删除离线剧集及其全部分片，进行中的下载会先中止
+ */
+export async function deleteOfflineEpisode(key: string): Promise<void> {
+  const task = tasks.get(key);
+  if (task) {
+    tasks.delete(key);
+    task.controller.abort();
+  }
+  await transact([EPISODE_STORE, CHUNK_STORE], 'readwrite', (tx) => {
+    tx.objectStore(EPISODE_STORE).delete(key);
+    tx.objectStore(CHUNK_STORE).delete(chunkRange(key));
+  });
+  emit(key, null);
+}
+
+/**
+ * 订阅离线下载的进度与状态变化
+ */
+export function subscribeOfflineDownloads(
+  callback: (event: OfflineUpdateEvent) => void
+): () => void {
+  if (typeof window === 'undefined') {
+    return () => undefined;
+  }
+  const handleUpdate = (event: Event) => {
+    callback((event as CustomEvent<OfflineUpdateEvent>).detail);
+  };
+  window.addEventListener(UPDATE_EVENT, handleUpdate);
+  return () => window.removeEventListener(UPDATE_EVENT, handleUpdate);
+}
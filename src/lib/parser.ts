@@ -0,0 +1,154 @@
+// 视频解析接口：平台识别、解析地址生成与可用解析接口筛选
+// 服务端与浏览器端共用，不依赖运行环境
+
+import { ParserConfig } from './admin.types';
+
+// 支持识别的视频平台，key 同时用于解析接口的 platforms 配置
+export const PARSE_PLATFORMS: {
+  key: string;
+  name: string;
+  hosts: string[];
+  flags: string[]; // TVBox 播放标识
+}[] = [
+  { key: 'qq', name: '腾讯视频', hosts: ['qq.com'], flags: ['qq', '腾讯'] },
+  {
+    key: 'iqiyi',
+    name: '爱奇艺',
+    hosts: ['iqiyi.com', 'qiyi.com'],
+    flags: ['qiyi', 'iqiyi', '爱奇艺', '奇艺'],
+  },
+  {
+    key: 'youku',
+    name: '优酷',
+    hosts: ['youku.com'],
+    flags: ['youku', '优酷'],
+  },
+  { key: 'mgtv', name: '芒果TV', hosts: ['mgtv.com'], flags: ['mgtv', '芒果'] },
+  {
+    key: 'bilibili',
+    name: '哔哩哔哩',
+    hosts: ['bilibili.com'],
+    flags: ['bilibili', '哔哩'],
+  },
+  {
+    key: 'sohu',
+    name: '搜狐视频',
+    hosts: ['sohu.com'],
+    flags: ['sohu', '搜狐'],
+  },
+  {
+    key: 'letv',
+    name: '乐视',
+    hosts: ['letv.com', 'le.com'],
+    flags: ['letv', 'le', '乐视'],
+  },
+  {
+    key: 'tudou',
+    name: '土豆',
+    hosts: ['tudou.com'],
+    flags: ['tudou', '土豆'],
+  },
+  { key: 'pptv', name: 'PPTV', hosts: ['pptv.com'], flags: ['pptv', 'PPTV'] },
+  { key: '1905', name: '1905电影网', hosts: ['1905.com'], flags: ['1905'] },
+];
+
+// 默认解析接口，管理员未配置时使用
+export const DEFAULT_PARSERS: ParserConfig[] = [
+  {
+    key: 'xmflv',
+    name: '虾米解析',
+    url: 'https://jx.xmflv.com/?url={url}',
+    type: 'web',
+    platforms: ['qq', 'iqiyi', 'youku', 'mgtv', 'bilibili', 'sohu'],
+  },
+  {
+    key: 'aidouer',
+    name: '爱豆解析',
+    url: 'https://jx.aidouer.net/?url={url}',
+    type: 'web',
+    platforms: ['qq', 'iqiyi', 'youku', 'mgtv', 'bilibili'],
+  },
+  {
+    key: '8090',
+    name: '8090解析',
+    url: 'https://www.8090g.cn/?url={url}',
+    type: 'web',
+    platforms: ['qq', 'iqiyi', 'youku', 'mgtv', 'bilibili'],
+  },
+  {
+    key: 'okjx',
+    name: 'OK解析',
+    url: 'https://okjx.cc/?url={url}',
+    type: 'web',
+    platforms: ['qq', 'iqiyi', 'youku', 'mgtv', 'bilibili'],
+  },
+];
+
+/**
+ * 根据视频地址识别平台，无法识别时返回 unknown
+ */
+export function detectPlatform(url: string): string {
+  let host = '';
+  try {
+    host = new URL(url).hostname.toLowerCase();
+  } catch {
+    return 'unknown';
+  }
+  const platform = PARSE_PLATFORMS.find((p) =>
+    p.hosts.some((h) => host === h || host.endsWith(`.${h}`))
+  );
+  return platform ? platform.key : 'unknown';
+}
+
+/**
+ * 生成解析地址：模板中的 {url} 替换为编码后的视频地址，未包含时拼接在末尾
+ */
+export function buildParseUrl(template: string, url: string): string {
+  const encoded = encodeURIComponent(url);
+  return template.includes('{url}')
+    ? template.split('{url}').join(encoded)
+    : template + encoded;
+}
+
+/**
+ * 筛选支持该视频地址的已启用解析接口，preferred 指定的接口排在最前
+ * 未识别平台时不做平台限制
+ */
+export function getCompatibleParsers(
+  parsers: ParserConfig[],
+  url: string,
+  preferred?: string | null
+): ParserConfig[] {
+  const platform = detectPlatform(url);
+  const compatible = parsers.filter(
+    (p) =>
+      !p.disabled &&
+      (platform === 'unknown' ||
+        p.platforms.length === 0 ||
+        p.platforms.includes(platform))
+  );
+  const index = preferred
+    ? compatible.findIndex((p) => p.key === preferred)
+    : -1;
+  if (index > 0) {
+    compatible.unshift(...compatible.splice(index, 1));
+  }
+  return compatible;
+}
+
+/**
+ * 从 JSON 解析接口的响应中取出播放地址，兼容常见的返回格式
+ */
+export function extractParsedUrl(data: unknown): string | null {
+  if (!data || typeof data !== 'object') return null;
+  const record = data as Record<string, unknown>;
+  const candidates = [
+    record.url,
+    (record.data as Record<string, unknown> | undefined)?.url,
+  ];
+  const url = candidates.find(
+    (value): value is string =>
+      typeof value === 'string' && /^https?:\/\//i.test(value)
+  );
+  return url || null;
+}
@@ -0,0 +1,135 @@
+// 服务端代理的目标地址校验：只允许访问资源站自身的公网 http(s) 地址，防止经由代理访问内网服务
+
+// 代理跟随重定向的最大次数，每一跳都重新校验
+const MAX_REDIRECTS = 5;
+
+// 内网、回环、链路本地等 IPv4 地址段
+const PRIVATE_IPV4_RANGES: [number, number][] = [
+  [0x00000000, 8], // 0.0.0.0/8
+  [0x0a000000, 8], // 10.0.0.0/8
+  [0x64400000, 10], // 100.64.0.0/10 运营商级 NAT
+  [0x7f000000, 8], // 127.0.0.0/8
+  [0xa9fe0000, 16], // 169.254.0.0/16 链路本地，含云厂商元数据地址
+  [0xac100000, 12], // 172.16.0.0/12
+  [0xc0a80000, 16], // 192.168.0.0/16
+  [0xc6120000, 15], // 198.18.0.0/15
+  [0xe0000000, 3], // 224.0.0.0/3 组播与保留地址
+];
+
+function isPrivateIPv4(hostname: string): boolean {
+  const parts = hostname.split('.').map(Number);
+  const value =
+    ((parts[0] << 24) | (parts[1] << 16) | (parts[2] << 8) | parts[3]) >>> 0;
+  return PRIVATE_IPV4_RANGES.some(([base, bits]) => {
+    const mask = (0xffffffff << (32 - bits)) >>> 0;
+    return (value & mask) >>> 0 === base;
+  });
+}
+
+function isPrivateIPv6(address: string): boolean {
+  const lower = address.toLowerCase();
+  return (
+    // ::、::1 以及 IPv4 映射/兼容地址
+    lower.startsWith('::') ||
+    // fc00::/7 唯一本地地址
+    /^f[cd]/.test(lower) ||
+    // fe80::/10 链路本地与 fec0::/10 站点本地地址
+    /^fe[89a-f]/.test(lower)
+  );
+}
+
+/**
+ * 主机名是否指向内网：回环、私有、链路本地地址，以及 localhost、单标签主机名（如 Docker 服务名）
+ * Edge Runtime 无法解析 DNS，解析到内网地址的公网域名需由部署环境的出口策略拦截
+ */
+export function isPrivateHostname(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  if (host.startsWith('[') && host.endsWith(']')) {
+    return isPrivateIPv6(host.slice(1, -1));
+  }
+  if (/^\d{1,3}(\.\d{1,3}){3}$/.test(host)) {
+    return isPrivateIPv4(host);
+  }
+  return (
+    !host.includes('.') ||
+    host === 'localhost' ||
+    /\.(localhost|local|internal|lan|home\.arpa)$/.test(host)
+  );
+}
+
+/**
+ * 主机名是否属于允许列表：与列表中的主机名相同或为其子域名
+ */
+export function isAllowedHost(hostname: string, hosts: string[]): boolean {
+  const host = hostname.toLowerCase();
+  return hosts.some((allowed) => {
+    const entry = allowed.toLowerCase();
+    return host === entry || host.endsWith(`.${entry}`);
+  });
+}
+
+/**
+ * 资源站允许代理的主机名：接口与详情地址所在主机，以及管理员配置的播放域名
+ */
+export function getSourceProxyHosts(source: {
+  api: string;
+  detail?: string;
+  proxy_hosts?: string[];
+}): string[] {
+  const hosts = new Set<string>();
+  [source.api, source.detail].forEach((address) => {
+    if (!address) return;
+    try {
+      hosts.add(new URL(address).hostname.toLowerCase());
+    } catch {
+      // 地址无效时忽略
+    }
+  });
+  (source.proxy_hosts || []).forEach((host) => {
+    if (host) hosts.add(host.toLowerCase());
+  });
+  return Array.from(hosts);
+}
+
+/**
+ * 代理目标是否允许访问：http(s) 协议、非内网主机，且（指定允许列表时）主机名在列表内
+ */
+export function isProxyTargetAllowed(url: URL, hosts?: string[]): boolean {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return false;
+  if (url.username || url.password) return false;
+  if (isPrivateHostname(url.hostname)) return false;
+  return !hosts || isAllowedHost(url.hostname, hosts);
+}
+
+export class ProxyTargetError extends Error {
+  constructor(readonly url: string) {
+    super(`不允许代理该地址: ${url}`);
+    this.name = 'ProxyTargetError';
+  }
+}
+
+/**
+ * 手动跟随重定向的 fetch，每一跳都按 hosts 重新校验，避免经由重定向访问内网或其他站点
+ */
+export async function fetchProxyTarget(
+  url: URL,
+  init: RequestInit,
+  hosts?: string[]
+): Promise<{ response: Response; url: URL }> {
+  let current = url;
+  for (let i = 0; i <= MAX_REDIRECTS; i++) {
+    if (!isProxyTargetAllowed(current, hosts)) {
+      throw new ProxyTargetError(current.toString());
+    }
+    const response = await fetch(current.toString(), {
+      ...init,
+      redirect: 'manual',
+    });
+    const location = response.headers.get('Location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return { response, url: current };
+    }
+    current = new URL(location, current);
+  }
+  throw new Error('重定向次数过多');
+}
@@ -0,0 +1,171 @@
+/* eslint-disable no-console */
+
+import { fetchDoubanSuggest } from './doubanSuggest';
+
+// 常用繁体字 → 简体字对照表（每项为 "繁简" 两个字），覆盖影视标题中的常见用字
+const TRADITIONAL_PAIRS = `
+萬万 與与 醜丑 專专 業业 叢丛 東东 絲丝 兩两 嚴严 喪丧 個个 豐丰 臨临 為为 麗丽 舉举 麼么 義义 烏乌 樂乐 喬乔 習习 鄉乡
+書书 買买 亂乱 爭争 虧亏 雲云 亞亚 產产 畝亩 親亲 億亿 僅仅 從从 侖仑 倉仓 儀仪 們们 價价 眾众 優优 會会 傘伞 偉伟 傳传
+傷伤 倫伦 偽伪 體体 餘余 傭佣 俠侠 侶侣 偵侦 側侧 僑侨 倆俩 債债 傾倾 償偿 儲储 兒儿 兌兑 黨党 蘭兰 關关 興兴 養养 獸兽
+內内 岡冈 冊册 寫写 軍军 農农 馮冯 沖冲 決决 況况 凍冻 淨净 涼凉 減减 湊凑 幾几 鳳凤 憑凭 凱凯 擊击 劃划 劉刘 則则 剛刚
+創创 刪删 別别 劍剑 劑剂 勸劝 辦办 務务 動动 勵励 勁劲 勞劳 勢势 勳勋 區区 醫医 華华 協协 單单 賣卖 盧卢 衛卫 卻却 廠厂
+廳厅 曆历 歷历 厲厉 壓压 厭厌 廁厕 廂厢 廈厦 廚厨 縣县 參参 雙双 發发 髮发 變变 敘叙 疊叠 葉叶 號号 嘆叹 嚇吓 呂吕 嗎吗
+噸吨 聽听 啟启 吳吴 嘔呕 員员 嗆呛 嗚呜 詠咏 嚨咙 響响 啞哑 嘩哗 喲哟 嘮唠 喚唤 嘖啧 嘯啸 噴喷 噓嘘 囑嘱 嚕噜 囂嚣 團团
+園园 圍围 國国 圖图 圓圆 聖圣 場场 壞坏 塊块 堅坚 壇坛 壩坝 墳坟 墜坠 壟垄 壘垒 墾垦 塹堑 墮堕 牆墙 壯壮 聲声 殼壳 壺壶
+處处 備备 復复 複复 夠够 頭头 誇夸 夾夹 奪夺 奮奋 獎奖 奧奥 妝妆 婦妇 媽妈 嫵妩 婁娄 嬌娇 娛娱 嫻娴 嬰婴 嬋婵 嬸婶 孫孙
+學学 孿孪 寧宁 寶宝 實实 寵宠 審审 憲宪 宮宫 寬宽 賓宾 寢寝 對对 尋寻 導导 壽寿 將将 爾尔 塵尘 嘗尝 堯尧 尷尴 屍尸 盡尽
+層层 屆届 屬属 屢屡 嶼屿 歲岁 豈岂 崗岗 嵐岚 島岛 嶺岭 峽峡 崢峥 巒峦 巔巅 鞏巩 幣币 帥帅 師师 帳帐 簾帘 幟帜 帶带 幫帮
+莊庄 慶庆 廬庐 庫库 應应 廟庙 龐庞 廢废 開开 異异 棄弃 張张 彌弥 彎弯 彈弹 強强 歸归 當当 錄录 徹彻 徑径 憶忆 懺忏 憂忧
+懷怀 態态 慫怂 悵怅 憐怜 總总 戀恋 懇恳 惡恶 惱恼 悅悦 懸悬 憫悯 驚惊 懼惧 慘惨 懲惩 憊惫 慚惭 慣惯 憤愤 願愿 懶懒 戲戏
+戰战 戶户 紮扎 撲扑 執执 擴扩 掃扫 揚扬 擾扰 撫抚 拋抛 搶抢 護护 報报 擔担 擬拟 攏拢 擁拥 攔拦 擰拧 撥拨 擇择 掛挂 摯挚
+撓挠 擋挡 掙挣 擠挤 揮挥 撈捞 損损 撿捡 換换 搗捣 據据 擲掷 攬揽 擱搁 摟搂 攪搅 攜携 攝摄 擺摆 搖摇 攤摊 撐撑 攢攒 敵敌
+斂敛 數数 齋斋 鬥斗 斬斩 斷断 無无 舊旧 時时 曠旷 曇昙 晝昼 顯显 晉晋 曬晒 曉晓 暈晕 暉晖 暫暂 術术 樸朴 機机 殺杀 雜杂
+權权 條条 來来 楊杨 傑杰 極极 構构 樞枢 棗枣 槍枪 楓枫 梟枭 櫃柜 檸柠 柵栅 標标 棧栈 棟栋 欄栏 樹树 棲栖 樣样 橋桥 樺桦
+檜桧 槳桨 樁桩 夢梦 檢检 槓杠 樓楼 欖榄 檳槟 歡欢 歐欧 殲歼 殘残 毆殴 毀毁 畢毕 斃毙 氣气 匯汇 彙汇 漢汉 湯汤 溝沟 沒没
+瀝沥 淪沦 滄沧 滬沪 濘泞 淚泪 瀉泻 潑泼 澤泽 潔洁 灑洒 窪洼 淺浅 漿浆 澆浇 濁浊 測测 濟济 瀏浏 渾浑 滸浒 濃浓 濤涛 漣涟
+澀涩 潤润 漲涨 淵渊 漬渍 漸渐 漁渔 滲渗 溫温 遊游 灣湾 濕湿 潰溃 濺溅 滿满 濾滤 濫滥 濱滨 灘滩 瀟潇 瀲潋 潛潜 瀾澜 災灾
+爐炉 燉炖 煉炼 爍烁 爛烂 燭烛 煙烟 煩烦 燒烧 燴烩 燙烫 燼烬 熱热 煥焕 愛爱 爺爷 犧牺 狀状 猶犹 狽狈 獰狞 獨独 狹狭 獅狮
+猙狰 獄狱 獵猎 豬猪 貓猫 獻献 瑪玛 環环 現现 璽玺 瓏珑 瑣琐 瑤瑶 瑩莹 瓊琼 電电 畫画 暢畅 療疗 瘋疯 癢痒 癱瘫 癮瘾 皺皱
+盜盗 盞盏 鹽盐 監监 盤盘 睜睁 瞞瞒 矚瞩 礦矿 碼码 磚砖 硯砚 礎础 碩硕 確确 礙碍 禮礼 禍祸 禱祷 禪禅 離离 禿秃 種种 積积
+稱称 穩稳 窮穷 竊窃 竅窍 窯窑 竄窜 窩窝 窺窥 豎竖 競竞 筆笔 筍笋 籠笼 箏筝 築筑 節节 範范 簡简 籌筹 籃篮 篩筛 籬篱 類类
+糧粮 緊紧 糾纠 紀纪 約约 紅红 紋纹 納纳 紐纽 純纯 紗纱 紙纸 級级 紛纷 紡纺 細细 紳绅 紹绍 終终 組组 絆绊 結结 絕绝 絞绞
+絡络 給给 絨绒 統统 絹绢 綁绑 經经 綜综 綠绿 綢绸 維维 綱纲 網网 綴缀 綽绰 綿绵 緒绪 線线 緝缉 締缔 編编 緣缘 緩缓 練练
+緯纬 緻致 縛缚 縫缝 縮缩 縱纵 績绩 織织 繞绕 繩绳 繪绘 繼继 續续 纏缠 纖纤 罰罚 羅罗 罷罢 羈羁 翹翘 聞闻 聯联 聰聪 職职
+聶聂 膽胆 脅胁 脈脉 脫脱 脹胀 腎肾 腦脑 腫肿 腳脚 腸肠 膚肤 膩腻 臉脸 臍脐 臘腊 臟脏 臥卧 艙舱 艦舰 艱艰 艷艳 豔艳 藝艺
+蘇苏 蘋苹 莖茎 薦荐 藥药 蓋盖 蔣蒋 蕭萧 薩萨 藍蓝 蘆芦 蘊蕴 蘿萝 虛虚 蟲虫 蝦虾 螞蚂 蠶蚕 蠻蛮 蠟蜡 蠅蝇 蟬蝉 螢萤 衝冲
+補补 裝装 裡里 裏里 製制 襯衬 襪袜 見见 規规 覓觅 視视 覺觉 覽览 觀观 觸触 計计 訂订 認认 討讨 讓让 訓训 記记 講讲 許许
+論论 設设 訪访 證证 評评 識识 詩诗 試试 話话 詳详 誠诚 語语 說说 誰谁 課课 調调 談谈 請请 諸诸 謀谋 謎谜 謝谢 謠谣 譯译
+議议 讀读 讚赞 謊谎 誤误 誘诱 誌志 諜谍 諾诺 謙谦 貝贝 負负 財财 貢贡 貨货 質质 販贩 貪贪 貫贯 責责 貴贵 貸贷 費费 貿贸
+賀贺 資资 賊贼 賭赌 賞赏 賜赐 賠赔 賢贤 賤贱 賦赋 賴赖 購购 賽赛 贈赠 贏赢 趕赶 趙赵 趨趋 躍跃 蹤踪 踐践 軀躯 車车 軌轨
+軒轩 轉转 輪轮 軟软 較较 載载 輔辅 輕轻 輝辉 輩辈 輸输 轎轿 轟轰 辭辞 辯辩 邊边 遼辽 達达 遷迁 過过 邁迈 運运 還还 這这
+進进 遠远 違违 連连 遲迟 適适 選选 遺遗 遙遥 鄧邓 鄭郑 鄰邻 醬酱 釋释 鈔钞 針针 釘钉 鋼钢 錢钱 鐵铁 鈴铃 銀银 銅铜 鍋锅
+錯错 鍵键 鏡镜 鐘钟 鍾钟 鑰钥 鑽钻 錦锦 鋒锋 銳锐 銷销 鋪铺 鏈链 鑒鉴 長长 門门 閃闪 閉闭 問问 閒闲 間间 閱阅 闆板 闊阔
+闖闯 闡阐 陽阳 陰阴 陣阵 階阶 際际 陸陆 隊队 隨随 險险 隱隐 隸隶 難难 雖虽 雞鸡 雛雏 霧雾 靈灵 靜静 靂雳 韋韦 韓韩 頁页
+頂顶 項项 順顺 須须 預预 頑顽 頓顿 領领 頻频 題题 額额 顏颜 顧顾 風风 颱台 颳刮 飛飞 飯饭 飲饮 飽饱 飾饰 餅饼 館馆 饑饥
+饒饶 馬马 馭驭 馳驰 駐驻 駕驾 駛驶 騎骑 騙骗 騰腾 驅驱 驕骄 驗验 驢驴 骯肮 鬆松 鬍胡 鬧闹 魚鱼 魯鲁 鮮鲜 鯨鲸 鳥鸟 鳴鸣
+鴨鸭 鴻鸿 鵝鹅 鶴鹤 鷹鹰 麥麦 黃黄 點点 齊齐 齒齿 龍龙 龜龟 後后 劇剧 夥伙 姦奸 於于 僞伪 麪面 麵面 臺台 檯台 嚮向 捲卷
+幹干 髒脏 隻只 祇只 獲获 穫获 係系 繫系 鹹咸 週周 籤签 簽签 鬱郁 準准 盪荡 蕩荡 纔才 証证 傢家 錶表 屓屃 嬤嬷 嶽岳 剋克
+餵喂 啓启 羣群 峯峰 裊袅 綫线 鎮镇 閣阁 陳陈 鄒邹 濰潍 蓮莲 賈贾 顔颜 闕阙 闢辟 劊刽 絃弦 誕诞 誼谊 諧谐 謹谨 譜谱 譽誉
+讎仇 讒谗 貞贞 貶贬 賄贿 賬账 贊赞 贓赃 蹌跄 軸轴 輯辑 輿舆 轄辖 遞递 鄲郸 醞酝 鈕钮 鈞钧 鉛铅 鉤钩 銘铭 銜衔 鋤锄 錘锤
+錫锡 鍊炼 鍛锻 鎖锁 鎊镑 鏢镖 鏽锈 鐐镣 鐮镰 鑄铸 閩闽 閨闺 閥阀 闈闱 闌阑 闔阖 陝陕 隴陇 雋隽 靦腼 韌韧 韻韵 頃顷 頌颂
+頒颁 頗颇 頰颊 頸颈 頹颓 顆颗 顛颠 飄飘 飢饥 餃饺 餌饵 餓饿 餡馅 餿馊 饅馒 駁驳 駝驼 駱骆 騷骚 驟骤 鬢鬓 鮑鲍 鯉鲤 鰻鳗
+鱗鳞 鳩鸠 鴉鸦 鴛鸳 鴦鸯 鵑鹃 鵬鹏 鶯莺 鷗鸥 鸚鹦 黴霉 齡龄 龔龚
+`;
+
+let traditionalMap: Map<string, string> | null = null;
+
+function getTraditionalMap(): Map<string, string> {
+  if (!traditionalMap) {
+    traditionalMap = new Map(
+      TRADITIONAL_PAIRS.split(/\s+/)
+        .filter((pair) => pair.length === 2)
+        .map((pair) => [pair[0], pair[1]] as [string, string])
+    );
+  }
+  return traditionalMap;
+}
+
+/**
+ * 繁体转简体（逐字替换，未收录的字保持不变）
+ */
+export function toSimplified(text: string): string {
+  const map = getTraditionalMap();
+  let result = '';
+  for (let i = 0; i < text.length; i++) {
+    result += map.get(text[i]) || text[i];
+  }
+  return result;
+}
+
+// 季、集等后缀：第二季、第3集、Season 2、S02E05、EP10
+// 英文缩写只在末尾去除，避免误删标题中的 "E3"、"S1" 等字样；集数先于季数去除
+const SUFFIX_PATTERNS = [
+  /第\s*[0-9零〇一二两三四五六七八九十百]+\s*[季部集期话話回篇章]/g,
+  /\bseason\s*\d+\b/gi,
+  /\be(p|pisode)?\s*\d{1,3}\s*$/i,
+  /\bs\d{1,2}(\s*e\d{1,3})?\s*$/i,
+];
+
+// 标点与符号统一替换为空格
+const PUNCTUATION_PATTERN =
+  /[\s·・~～!！@#$%^&*()（）\-—_=+[\]【】{}|\\:：;；'"“”‘’,，.。<>《》〈〉「」『』?？/、]+/g;
+
+/**
+ * 搜索词归一化：繁体转简体、去除季/集后缀与标点，合并多余空白
+ * 去除后缀后为空时保留原词，避免 "第二季" 这类搜索词被清空
+ */
+export function normalizeSearchQuery(query: string): string {
+  const simplified = toSimplified(query.trim());
+  const stripped = SUFFIX_PATTERNS.reduce(
+    (text, pattern) => text.replace(pattern, ' '),
+    simplified
+  )
+    .replace(PUNCTUATION_PATTERN, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return stripped || simplified.replace(/\s+/g, ' ');
+}
+
+/**
+ * 依次尝试的搜索词：先用归一化后的词，无结果时再用用户原始输入
+ */
+export function getQueryCandidates(query: string): string[] {
+  const original = query.trim().replace(/\s+/g, ' ');
+  const normalized = normalizeSearchQuery(original);
+  return normalized === original ? [normalized] : [normalized, original];
+}
+
+/**
+ * 是否启用拼音联想搜索：需要请求豆瓣接口，默认关闭
+ */
+export function isPinyinSearchEnabled(): boolean {
+  return process.env.ENABLE_PINYIN_SEARCH === 'true';
+}
+
+/**
+ * 是否为拼音（含拼音首字母）输入，如 "zhenhuanzhuan"、"zhz"
+ */
+export function isPinyinQuery(query: string): boolean {
+  return /^[a-z][a-z\s']+$/i.test(query.trim());
+}
+
+// 拼音联想结果缓存，避免同一搜索词对每个资源站重复请求豆瓣
+const PINYIN_CACHE_TTL_MS = 10 * 60 * 1000;
+const PINYIN_CACHE_MAX = 100;
+const pinyinCache = new Map<
+  string,
+  { expires: number; promise: Promise<string[]> }
+>();
+
+/**
+ * 拼音输入的候选中文标题：借助豆瓣联想接口（支持全拼与首字母）获取
+ */
+export function getPinyinAlternates(query: string): Promise<string[]> {
+  const key = query
+    .trim()
+    .toLowerCase()
+    .replace(/[\s']+/g, '');
+  const cached = pinyinCache.get(key);
+  if (cached && cached.expires > Date.now()) {
+    return cached.promise;
+  }
+
+  const promise = fetchDoubanSuggest(key)
+    .then((items) =>
+      Array.from(new Set(items.map((item) => normalizeSearchQuery(item.title))))
+        .filter(Boolean)
+        .slice(0, 3)
+    )
+    .catch((err) => {
+      console.error('获取拼音联想失败:', err);
+      pinyinCache.delete(key);
+      return [] as string[];
+    });
+
+  if (pinyinCache.size >= PINYIN_CACHE_MAX) {
+    const oldest = pinyinCache.keys().next().value;
+    if (oldest !== undefined) pinyinCache.delete(oldest);
+  }
+  pinyinCache.set(key, { expires: Date.now() + PINYIN_CACHE_TTL_MS, promise });
+  return promise;
+}
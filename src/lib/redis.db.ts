@@ -3,7 +3,7 @@
 import { createClient, RedisClientType } from 'redis';
 
 import { AdminConfig } from './admin.types';
-import { EpisodeSkipConfig, Favorite, IStorage, PlayRecord, User, UserSettings } from './types';
+import { DEFAULT_USER_SETTINGS, EpisodeSkipConfig, EpisodeSubtitle, Favorite, IStorage, PlayRecord, SharedSkipConfig, SourceHealth, User, UserSettings, WatchRoom } from './types';
 
 // 搜索历史最大条数
 const SEARCH_HISTORY_LIMIT = 20;
@@ -181,6 +181,13 @@ export class RedisStorage implements IStorage {
     return ensureString(stored) === password;
   }
 
+  async getUserPassword(userName: string): Promise<string | null> {
+    const stored = await withRetry(() =>
+      this.client.get(this.userPwdKey(userName))
+    );
+    return stored === null ? null : ensureString(stored);
+  }
+
   // 检查用户是否存在
   async checkUserExist(userName: string): Promise<boolean> {
     // 使用 EXISTS 判断 key 是否存在
@@ -224,6 +231,23 @@ export class RedisStorage implements IStorage {
       await withRetry(() => this.client.del(favoriteKeys));
     }
 
+    // 删除外挂字幕
+    const subtitleKeys = await withRetry(() =>
+      this.client.keys(`u:${userName}:sub:*`)
+    );
+    if (subtitleKeys.length > 0) {
+      await withRetry(() => this.client.del(subtitleKeys));
+    }
+
+    // 删除跳过配置及其索引
+    const skipConfigKeys = await withRetry(() =>
+      this.client.keys(`katelyatv:skip_config:${userName}:*`)
+    );
+    if (skipConfigKeys.length > 0) {
+      await withRetry(() => this.client.del(skipConfigKeys));
+    }
+    await withRetry(() => this.client.del(this.skipConfigsKey(userName)));
+
     // 删除用户设置
     await withRetry(() => this.client.del(this.userSettingsKey(userName)));
   }
@@ -238,20 +262,7 @@ export class RedisStorage implements IStorage {
       this.client.get(this.userSettingsKey(userName))
     );
     
-    if (data) {
-      return JSON.parse(ensureString(data));
-    }
-    
-    // 如果用户设置不存在，返回默认设置
-    const defaultSettings: UserSettings = {
-      filter_adult_content: true, // 默认开启成人内容过滤
-      theme: 'auto',
-      language: 'zh-CN',
-      auto_play: true,
-      video_quality: 'auto'
-    };
-    
-    return defaultSettings;
+    return data ? JSON.parse(ensureString(data)) : null;
   }
 
   async setUserSettings(userName: string, settings: UserSettings): Promise<void> {
@@ -264,9 +275,14 @@ export class RedisStorage implements IStorage {
   }
 
   async updateUserSettings(userName: string, settings: Partial<UserSettings>): Promise<void> {
-    const currentSettings = await this.getUserSettings(userName);
-    const updatedSettings = { ...currentSettings, ...settings };
-    await this.setUserSettings(userName, updatedSettings as UserSettings);
+    const current = await this.getUserSettings(userName);
+    const updated: UserSettings = {
+      ...DEFAULT_USER_SETTINGS,
+      ...current,
+      ...settings,
+      filter_adult_content: settings.filter_adult_content ?? current?.filter_adult_content ?? true
+    };
+    await this.setUserSettings(userName, updated);
   }
 
   // ---------- 搜索历史 ----------
@@ -419,6 +435,206 @@ export class RedisStorage implements IStorage {
       await this.client.sRem(this.skipConfigsKey(userName), key);
     });
   }
+
+  // ---------- 外挂字幕 ----------
+  private subtitleKey(user: string, key: string) {
+    return `u:${user}:sub:${key}`; // u:username:sub:source+id+集数
+  }
+
+  async getSubtitle(
+    userName: string,
+    key: string
+  ): Promise<EpisodeSubtitle | null> {
+    const val = await withRetry(() =>
+      this.client.get(this.subtitleKey(userName, key))
+    );
+    return val ? (JSON.parse(val) as EpisodeSubtitle) : null;
+  }
+
+  async setSubtitle(
+    userName: string,
+    key: string,
+    subtitle: EpisodeSubtitle
+  ): Promise<void> {
+    await withRetry(() =>
+      this.client.set(this.subtitleKey(userName, key), JSON.stringify(subtitle))
+    );
+  }
+
+  async getAllSubtitles(
+    userName: string
+  ): Promise<Record<string, EpisodeSubtitle>> {
+    const prefix = `u:${userName}:sub:`;
+    const keys: string[] = await withRetry(() =>
+      this.client.keys(`${prefix}*`)
+    );
+    if (keys.length === 0) return {};
+    const values = await withRetry(() => this.client.mGet(keys));
+    const result: Record<string, EpisodeSubtitle> = {};
+    keys.forEach((fullKey, idx) => {
+      const raw = values[idx];
+      if (raw) {
+        result[fullKey.replace(prefix, '')] = JSON.parse(raw) as EpisodeSubtitle;
+      }
+    });
+    return result;
+  }
+
+  async deleteSubtitle(userName: string, key: string): Promise<void> {
+    await withRetry(() => this.client.del(this.subtitleKey(userName, key)));
+  }
+
+  // ---------- 社区共享跳过配置 ----------
+  private sharedSkipKey() {
+    return 'skip:shared';
+  }
+
+  async getSharedSkipConfig(key: string): Promise<SharedSkipConfig | null> {
+    const val = await withRetry(() =>
+      this.client.hGet(this.sharedSkipKey(), key)
+    );
+    return val ? (JSON.parse(val) as SharedSkipConfig) : null;
+  }
+
+  async setSharedSkipConfig(
+    key: string,
+    config: SharedSkipConfig
+  ): Promise<void> {
+    await withRetry(() =>
+      this.client.hSet(this.sharedSkipKey(), key, JSON.stringify(config))
+    );
+  }
+
+  async getAllSharedSkipConfigs(): Promise<Record<string, SharedSkipConfig>> {
+    const raw = await withRetry(() => this.client.hGetAll(this.sharedSkipKey()));
+    const result: Record<string, SharedSkipConfig> = {};
+    Object.entries(raw || {}).forEach(([key, val]) => {
+      result[key] = JSON.parse(val) as SharedSkipConfig;
+    });
+    return result;
+  }
+
+  async deleteSharedSkipConfig(key: string): Promise<void> {
+    await withRetry(() => this.client.hDel(this.sharedSkipKey(), key));
+  }
+
+  // ---------- 一起看房间 ----------
+  private watchRoomKey() {
+    return 'watch:rooms';
+  }
+
+  private watchRoomMembersKey(roomId: string) {
+    return `watch:room:${roomId}:members`;
+  }
+
+  async getWatchRoom(roomId: string): Promise<WatchRoom | null> {
+    const val = await withRetry(() =>
+      this.client.hGet(this.watchRoomKey(), roomId)
+    );
+    return val ? (JSON.parse(val) as WatchRoom) : null;
+  }
+
+  async getAllWatchRooms(): Promise<WatchRoom[]> {
+    const raw = await withRetry(() => this.client.hGetAll(this.watchRoomKey()));
+    return Object.values(raw || {}).map((val) => JSON.parse(val) as WatchRoom);
+  }
+
+  async setWatchRoom(roomId: string, room: WatchRoom): Promise<void> {
+    await withRetry(() =>
+      this.client.hSet(this.watchRoomKey(), roomId, JSON.stringify(room))
+    );
+  }
+
+  async deleteWatchRoom(roomId: string): Promise<void> {
+    await withRetry(() => this.client.hDel(this.watchRoomKey(), roomId));
+    await withRetry(() => this.client.del(this.watchRoomMembersKey(roomId)));
+  }
+
+  async getWatchRoomMembers(roomId: string): Promise<Record<string, number>> {
+    const raw = await withRetry(() =>
+      this.client.hGetAll(this.watchRoomMembersKey(roomId))
+    );
+    const result: Record<string, number> = {};
+    Object.entries(raw || {}).forEach(([userName, val]) => {
+      result[userName] = Number(val);
+    });
+    return result;
+  }
+
+  async setWatchRoomMember(
+    roomId: string,
+    userName: string,
+    lastSeen: number
+  ): Promise<void> {
+    await withRetry(() =>
+      this.client.hSet(
+        this.watchRoomMembersKey(roomId),
+        userName,
+        String(lastSeen)
+      )
+    );
+  }
+
+  async deleteWatchRoomMember(roomId: string, userName: string): Promise<void> {
+    await withRetry(() =>
+      this.client.hDel(this.watchRoomMembersKey(roomId), userName)
+    );
+  }
+
+  // ---------- 接口缓存 ----------
+  private cacheKey(key: string) {
+    return `cache:${key}`;
+  }
+
+  async getCache<T = unknown>(key: string): Promise<T | null> {
+    const val = await withRetry(() => this.client.get(this.cacheKey(key)));
+    return val ? (JSON.parse(val) as T) : null;
+  }
+
+  async setCache<T = unknown>(key: string, value: T, ttl: number): Promise<void> {
+    await withRetry(() =>
+      this.client.set(this.cacheKey(key), JSON.stringify(value), { EX: ttl })
+    );
+  }
+
+  async clearCache(prefix?: string): Promise<void> {
+    const keys = await withRetry(() =>
+      this.client.keys(`${this.cacheKey(prefix || '')}*`)
+    );
+    if (keys.length > 0) {
+      await withRetry(() => this.client.del(keys));
+    }
+  }
+
+  // ---------- 资源站健康状态 ----------
+  private sourceHealthKey() {
+    return 'source:health';
+  }
+
+  async getAllSourceHealth(): Promise<Record<string, SourceHealth>> {
+    const raw = await withRetry(() =>
+      this.client.hGetAll(this.sourceHealthKey())
+    );
+    const result: Record<string, SourceHealth> = {};
+    Object.entries(raw || {}).forEach(([key, val]) => {
+      result[key] = JSON.parse(val) as SourceHealth;
+    });
+    return result;
+  }
+
+  async setSourceHealth(key: string, health: SourceHealth): Promise<void> {
+    await withRetry(() =>
+      this.client.hSet(this.sourceHealthKey(), key, JSON.stringify(health))
+    );
+  }
+
+  async deleteSourceHealth(key?: string): Promise<void> {
+    if (key) {
+      await withRetry(() => this.client.hDel(this.sourceHealthKey(), key));
+    } else {
+      await withRetry(() => this.client.del(this.sourceHealthKey()));
+    }
+  }
 }
 
 // 单例 Redis 客户端
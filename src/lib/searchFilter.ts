@@ -0,0 +1,271 @@
+import {
+  SearchFacetCount,
+  SearchFacets,
+  SearchFilters,
+  SearchResult,
+} from './types';
+
+type FacetKey = keyof SearchFacets;
+
+// 筛选条件与 URL 参数的对应关系
+const LIST_PARAMS = {
+  type_name: 'type',
+  class: 'class',
+  source: 'source',
+} as const;
+
+function parseYear(year?: string): number | null {
+  const value = Number(year);
+  return year && Number.isInteger(value) && value > 0 ? value : null;
+}
+
+function parseList(value: string | null): string[] | undefined {
+  const list = (value || '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return list.length > 0 ? list : undefined;
+}
+
+/**
+ * 拆分资源站的 vod_class 字段，如 "剧情,爱情" / "剧情 / 爱情"
+ */
+export function splitClasses(value?: string): string[] {
+  return (value || '')
+    .split(/[,，/、|\s]+/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * 从 URL 参数解析搜索筛选条件
+ */
+export function parseSearchFilters(params: URLSearchParams): SearchFilters {
+  const filters: SearchFilters = {};
+
+  const yearFrom = parseYear(params.get('year_from') || undefined);
+  const yearTo = parseYear(params.get('year_to') || undefined);
+  if (yearFrom) filters.year_from = yearFrom;
+  if (yearTo) filters.year_to = yearTo;
+
+  (Object.keys(LIST_PARAMS) as (keyof typeof LIST_PARAMS)[]).forEach((key) => {
+    const list = parseList(params.get(LIST_PARAMS[key]));
+    if (list) filters[key] = list;
+  });
+
+  const douban = params.get('douban');
+  if (douban === '1' || douban === '0') {
+    filters.has_douban = douban === '1';
+  }
+
+  const sort = params.get('sort');
+  if (sort === 'year_desc' || sort === 'year_asc') {
+    filters.sort = sort;
+  }
+
+  return filters;
+}
+
+/**
+ * 将筛选条件写回 URL 参数，未设置的条件会从参数中移除
+ */
+export function applySearchFiltersToParams(
+  params: URLSearchParams,
+  filters: SearchFilters
+): URLSearchParams {
+  const next = new URLSearchParams(params);
+  const setParam = (name: string, value?: string) => {
+    if (value) {
+      next.set(name, value);
+    } else {
+      next.delete(name);
+    }
+  };
+
+  setParam('year_from', filters.year_from?.toString());
+  setParam('year_to', filters.year_to?.toString());
+  (Object.keys(LIST_PARAMS) as (keyof typeof LIST_PARAMS)[]).forEach((key) => {
+    setParam(LIST_PARAMS[key], filters[key]?.join(','));
+  });
+  setParam(
+    'douban',
+    filters.has_douban === undefined
+      ? undefined
+      : filters.has_douban
+      ? '1'
+      : '0'
+  );
+  setParam('sort', filters.sort);
+
+  return next;
+}
+
+/**
+ * 是否设置了任意筛选条件（不含排序）
+ */
+export function hasSearchFilters(filters: SearchFilters): boolean {
+  return (
+    filters.year_from !== undefined ||
+    filters.year_to !== undefined ||
+    !!filters.type_name?.length ||
+    !!filters.class?.length ||
+    !!filters.source?.length ||
+    filters.has_douban !== undefined
+  );
+}
+
+// 判断结果是否满足筛选条件，skip 指定的分面不参与判断
+function matchesFilters(
+  result: SearchResult,
+  filters: SearchFilters,
+  skip?: FacetKey
+): boolean {
+  if (
+    skip !== 'year' &&
+    (filters.year_from !== undefined || filters.year_to !== undefined)
+  ) {
+    const year = parseYear(result.year);
+    if (year === null) return false;
+    if (filters.year_from !== undefined && year < filters.year_from) {
+      return false;
+    }
+    if (filters.year_to !== undefined && year > filters.year_to) return false;
+  }
+
+  if (
+    skip !== 'type_name' &&
+    filters.type_name?.length &&
+    !filters.type_name.includes((result.type_name || '').trim())
+  ) {
+    return false;
+  }
+
+  if (
+    skip !== 'class' &&
+    filters.class?.length &&
+    !splitClasses(result.class).some((c) => filters.class?.includes(c))
+  ) {
+    return false;
+  }
+
+  if (
+    skip !== 'source' &&
+    filters.source?.length &&
+    !filters.source.includes(result.source)
+  ) {
+    return false;
+  }
+
+  if (
+    skip !== 'has_douban' &&
+    filters.has_douban !== undefined &&
+    !!result.douban_id !== filters.has_douban
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * 按年份排序，年份未知的排在最后；排序稳定，同年份保持原有顺序
+ */
+export function sortByYear<T>(
+  items: T[],
+  getYear: (item: T) => string | undefined,
+  order: 'asc' | 'desc'
+): T[] {
+  return items
+    .map((item, index) => ({ item, index, year: parseYear(getYear(item)) }))
+    .sort((a, b) => {
+      if (a.year === b.year) return a.index - b.index;
+      if (a.year === null) return 1;
+      if (b.year === null) return -1;
+      return order === 'asc' ? a.year - b.year : b.year - a.year;
+    })
+    .map(({ item }) => item);
+}
+
+/**
+ * 按筛选条件过滤并排序搜索结果
+ */
+export function applySearchFilters(
+  results: SearchResult[],
+  filters: SearchFilters
+): SearchResult[] {
+  const filtered = results.filter((result) => matchesFilters(result, filters));
+  if (!filters.sort) {
+    return filtered;
+  }
+  return sortByYear(
+    filtered,
+    (result) => result.year,
+    filters.sort === 'year_asc' ? 'asc' : 'desc'
+  );
+}
+
+function countValues(
+  results: SearchResult[],
+  getValues: (result: SearchResult) => { value: string; label: string }[]
+): SearchFacetCount[] {
+  const counts = new Map<string, SearchFacetCount>();
+  results.forEach((result) => {
+    getValues(result).forEach(({ value, label }) => {
+      const entry = counts.get(value);
+      if (entry) {
+        entry.count += 1;
+      } else {
+        counts.set(value, { value, label, count: 1 });
+      }
+    });
+  });
+  return Array.from(counts.values());
+}
+
+/**
+ * 统计搜索结果的分面计数，用于筛选面板展示
+ */
+export function computeSearchFacets(
+  results: SearchResult[],
+  filters: SearchFilters = {}
+): SearchFacets {
+  const except = (key: FacetKey) =>
+    results.filter((result) => matchesFilters(result, filters, key));
+  const byCount = (a: SearchFacetCount, b: SearchFacetCount) =>
+    b.count - a.count || a.label.localeCompare(b.label);
+
+  const year = countValues(except('year'), (result) => {
+    const value = parseYear(result.year);
+    return value === null ? [] : [{ value: `${value}`, label: `${value}` }];
+  }).sort((a, b) => Number(b.value) - Number(a.value));
+
+  const typeName = countValues(except('type_name'), (result) => {
+    const value = (result.type_name || '').trim();
+    return value ? [{ value, label: value }] : [];
+  }).sort(byCount);
+
+  const classes = countValues(except('class'), (result) =>
+    Array.from(new Set(splitClasses(result.class))).map((value) => ({
+      value,
+      label: value,
+    }))
+  ).sort(byCount);
+
+  const source = countValues(except('source'), (result) => [
+    { value: result.source, label: result.source_name },
+  ]).sort(byCount);
+
+  const hasDouban = countValues(except('has_douban'), (result) =>
+    result.douban_id
+      ? [{ value: 'true', label: '有豆瓣信息' }]
+      : [{ value: 'false', label: '无豆瓣信息' }]
+  ).sort((a, b) => (a.value === 'true' ? -1 : b.value === 'true' ? 1 : 0));
+
+  return {
+    year,
+    type_name: typeName,
+    class: classes,
+    source,
+    has_douban: hasDouban,
+  };
+}
@@ -0,0 +1,158 @@
+/* eslint-disable no-console */
+
+import { normalizeTitle } from './aggregate';
+import { getStorage } from './db';
+import { SearchSuggestion, SearchSuggestionSource } from './types';
+
+// 参与排序的候选条目
+export interface SuggestionCandidate {
+  title: string;
+  poster?: string;
+  year?: string;
+  source: SearchSuggestionSource;
+  // 同一来源内的权重，如站内被播放/收藏的次数
+  weight?: number;
+}
+
+// 站内片库条目：汇总所有用户的播放记录与收藏
+export interface LibraryTitle {
+  title: string;
+  poster: string;
+  year: string;
+  count: number;
+  save_time: number;
+}
+
+// 各来源的基础分：个人历史最贴近用户意图，其次是站内热门，最后是豆瓣
+const SOURCE_SCORES: Record<SearchSuggestionSource, number> = {
+  history: 30,
+  library: 20,
+  douban: 10,
+};
+
+const LIBRARY_CACHE_KEY = 'suggest:library';
+const LIBRARY_CACHE_TTL = 10 * 60;
+const LIBRARY_LIMIT = 500;
+
+// 与输入的匹配程度：前缀匹配 > 包含；豆瓣结果可能由拼音匹配得到，不要求包含
+function matchScore(title: string, query: string): number {
+  if (!query) return 0;
+  if (title.startsWith(query)) return 10;
+  if (title.includes(query)) return 5;
+  return -1;
+}
+
+/**
+ * 合并多个来源的候选并排序：相同标题合并来源与分数，海报取第一个非空值
+ */
+export function rankSuggestions(
+  query: string,
+  candidates: SuggestionCandidate[],
+  limit = 10
+): SearchSuggestion[] {
+  const normalizedQuery = normalizeTitle(query);
+  const merged = new Map<string, SearchSuggestion>();
+
+  candidates.forEach((candidate) => {
+    const key = normalizeTitle(candidate.title);
+    if (!key) return;
+
+    const match = matchScore(key, normalizedQuery);
+    if (match < 0 && candidate.source !== 'douban') return;
+
+    const score =
+      SOURCE_SCORES[candidate.source] +
+      Math.max(match, 0) +
+      Math.min(candidate.weight || 0, 10);
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, {
+        title: candidate.title,
+        poster: candidate.poster || undefined,
+        year: candidate.year || undefined,
+        sources: [candidate.source],
+        score,
+      });
+      return;
+    }
+
+    if (!existing.sources.includes(candidate.source)) {
+      existing.sources.push(candidate.source);
+      existing.score += score;
+    }
+    existing.poster = existing.poster || candidate.poster || undefined;
+    existing.year = existing.year || candidate.year || undefined;
+  });
+
+  return Array.from(merged.values())
+    .sort((a, b) => b.score - a.score || a.title.length - b.title.length)
+    .slice(0, limit);
+}
+
+async function buildLibraryTitles(): Promise<LibraryTitle[]> {
+  const storage = getStorage();
+  const users = await storage.getAllUsers();
+  const titles = new Map<string, LibraryTitle>();
+
+  const collect = (item: {
+    title: string;
+    search_title?: string;
+    cover: string;
+    year: string;
+    save_time: number;
+  }) => {
+    const title = item.search_title || item.title;
+    const key = normalizeTitle(title);
+    if (!key) return;
+    const existing = titles.get(key);
+    if (existing) {
+      existing.count += 1;
+      existing.save_time = Math.max(existing.save_time, item.save_time);
+      existing.poster = existing.poster || item.cover;
+    } else {
+      titles.set(key, {
+        title,
+        poster: item.cover,
+        year: item.year,
+        count: 1,
+        save_time: item.save_time,
+      });
+    }
+  };
+
+  await Promise.all(
+    users.map(async ({ username }) => {
+      const [records, favorites] = await Promise.all([
+        storage.getAllPlayRecords(username),
+        storage.getAllFavorites(username),
+      ]);
+      Object.values(records).forEach(collect);
+      Object.values(favorites).forEach(collect);
+    })
+  );
+
+  return Array.from(titles.values())
+    .sort((a, b) => b.save_time - a.save_time)
+    .slice(0, LIBRARY_LIMIT);
+}
+
+/**
+ * 获取站内片库标题（所有用户最近的播放记录与收藏），结果缓存 10 分钟
+ */
+export async function getLibraryTitles(): Promise<LibraryTitle[]> {
+  const storage = getStorage();
+  try {
+    const cached = await storage.getCache<LibraryTitle[]>(LIBRARY_CACHE_KEY);
+    if (cached) return cached;
+  } catch (err) {
+    console.error('读取片库缓存失败:', err);
+  }
+
+  const titles = await buildLibraryTitles();
+  try {
+    await storage.setCache(LIBRARY_CACHE_KEY, titles, LIBRARY_CACHE_TTL);
+  } catch (err) {
+    console.error('写入片库缓存失败:', err);
+  }
+  return titles;
+}
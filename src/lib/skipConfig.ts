@@ -0,0 +1,42 @@
+// 跳过配置校验：接口写入与用户数据导入共用，保证两条路径接受的数据一致
+
+import { EpisodeSkipConfig, SkipSegment } from './types';
+
+const SEGMENT_TYPES: SkipSegment['type'][] = ['opening', 'ending'];
+
+function isValidSegment(segment: Partial<SkipSegment> | null): boolean {
+  return (
+    !!segment &&
+    typeof segment.start === 'number' &&
+    typeof segment.end === 'number' &&
+    Number.isFinite(segment.start) &&
+    Number.isFinite(segment.end) &&
+    segment.start >= 0 &&
+    segment.start < segment.end &&
+    SEGMENT_TYPES.includes(segment.type as SkipSegment['type'])
+  );
+}
+
+/**
+ * 校验跳过配置及其片段，通过时返回 null，否则返回错误信息
+ */
+export function validateSkipConfig(config: unknown): string | null {
+  const value = config as Partial<EpisodeSkipConfig> | null;
+  if (
+    !value ||
+    typeof value !== 'object' ||
+    typeof value.source !== 'string' ||
+    typeof value.id !== 'string' ||
+    typeof value.title !== 'string' ||
+    !value.source ||
+    !value.id ||
+    !value.title ||
+    !Array.isArray(value.segments)
+  ) {
+    return '配置数据格式错误';
+  }
+  if (!value.segments.every(isValidSegment)) {
+    return '片段数据格式错误';
+  }
+  return null;
+}
@@ -0,0 +1,251 @@
+/* eslint-disable no-console */
+'use client';
+
+import { SkipSegment } from './types';
+
+// 片头片尾自动识别：记录各集开头与结尾若干分钟内 HLS 分片的指纹，
+// 比较同一部剧不同集之间连续相同的分片，推断片头、片尾区间
+
+export interface SegmentPrint {
+  start: number; // 分片在本集中的开始时间（秒）
+  duration: number;
+  size: number; // 分片字节数
+  hash: number; // 分片内容采样哈希
+}
+
+export interface EpisodePrints {
+  head: SegmentPrint[];
+  tail: SegmentPrint[];
+  total: number; // 本集总时长（秒）
+  updated_time: number;
+}
+
+type PrintStore = Record<
+  string,
+  { episodes: Record<string, EpisodePrints>; updated_time: number }
+>;
+
+const STORAGE_KEY = 'katelyatv_skip_prints';
+// 只比较开头与结尾 5 分钟内的分片
+const HEAD_WINDOW = 300;
+const TAIL_WINDOW = 300;
+// 连续相同的时长需在该区间内才视为片头/片尾
+const MIN_RUN_DURATION = 15;
+const MAX_RUN_DURATION = 240;
+// 每部剧保留最近几集的指纹，最多保留的剧集数
+const MAX_EPISODES = 6;
+const MAX_TITLES = 20;
+// 未命中哈希时，分片大小与时长都非常接近也视为相同内容（转码参数一致的片头）
+const SIZE_TOLERANCE = 0.005;
+const DURATION_TOLERANCE = 0.2;
+// 采样步长，避免对每个字节计算哈希
+const HASH_STRIDE = 97;
+
+/**
+ * 计算分片指纹：按固定步长采样字节的 FNV-1a 哈希
+ */
+export function fingerprintSegment(payload: ArrayBuffer): {
+  size: number;
+  hash: number;
+} {
+  const bytes = new Uint8Array(payload);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < bytes.length; i += HASH_STRIDE) {
+    hash ^= bytes[i];
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return { size: bytes.length, hash };
+}
+
+function isSamePrint(a: SegmentPrint, b: SegmentPrint): boolean {
+  if (a.size === b.size && a.hash === b.hash) return true;
+  return (
+    Math.abs(a.duration - b.duration) <= DURATION_TOLERANCE &&
+    Math.abs(a.size - b.size) / Math.max(a.size, b.size, 1) <= SIZE_TOLERANCE
+  );
+}
+
+/**
+ * 找出两组分片中最长的连续相同片段，返回在 a 中的时间区间
+ */
+export function findCommonRun(
+  a: SegmentPrint[],
+  b: SegmentPrint[]
+): { start: number; end: number } | null {
+  let best: { start: number; end: number } | null = null;
+
+  for (let i = 0; i < a.length; i++) {
+    for (let j = 0; j < b.length; j++) {
+      let len = 0;
+      while (
+        i + len < a.length &&
+        j + len < b.length &&
+        isSamePrint(a[i + len], b[j + len])
+      ) {
+        len++;
+      }
+      if (len === 0) continue;
+      const last = a[i + len - 1];
+      const run = { start: a[i].start, end: last.start + last.duration };
+      if (!best || run.end - run.start > best.end - best.start) {
+        best = run;
+      }
+    }
+  }
+
+  return best;
+}
+
+function windowDuration(prints: SegmentPrint[]): number {
+  return prints.reduce((sum, p) => sum + p.duration, 0);
+}
+
+function pickRun(
+  current: SegmentPrint[],
+  others: SegmentPrint[][]
+): { start: number; end: number } | null {
+  let best: { start: number; end: number } | null = null;
+  others.forEach((other) => {
+    const run = findCommonRun(current, other);
+    if (!run) return;
+    const length = run.end - run.start;
+    // 整个窗口都相同多半是恒定码率导致的误判
+    if (
+      length < MIN_RUN_DURATION ||
+      length > MAX_RUN_DURATION ||
+      length >= windowDuration(current) * 0.9
+    ) {
+      return;
+    }
+    if (!best || length > best.end - best.start) {
+      best = run;
+    }
+  });
+  return best;
+}
+
+/**
+ * 根据当前集与其他集的分片指纹推断片头与片尾
+ */
+export function detectSkipSegments(
+  current: EpisodePrints,
+  others: EpisodePrints[]
+): SkipSegment[] {
+  const segments: SkipSegment[] = [];
+
+  const opening = pickRun(
+    current.head,
+    others.map((o) => o.head)
+  );
+  if (opening) {
+    segments.push({
+      start: Math.floor(opening.start),
+      end: Math.ceil(opening.end),
+      type: 'opening',
+      title: '片头（自动识别）',
+    });
+  }
+
+  const ending = pickRun(
+    current.tail,
+    others.map((o) => o.tail)
+  );
+  if (ending) {
+    segments.push({
+      start: Math.floor(ending.start),
+      end: Math.ceil(ending.end),
+      type: 'ending',
+      title: '片尾（自动识别）',
+    });
+  }
+
+  return segments;
+}
+
+function readStore(): PrintStore {
+  if (typeof window === 'undefined') return {};
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as PrintStore) : {};
+  } catch (err) {
+    console.error('读取分片指纹失败:', err);
+    return {};
+  }
+}
+
+function writeStore(store: PrintStore): void {
+  // 只保留最近观看的剧集
+  const keys = Object.keys(store).sort(
+    (a, b) => store[b].updated_time - store[a].updated_time
+  );
+  keys.slice(MAX_TITLES).forEach((key) => delete store[key]);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch (err) {
+    console.error('保存分片指纹失败:', err);
+  }
+}
+
+function upsertPrint(list: SegmentPrint[], print: SegmentPrint): void {
+  const index = list.findIndex((p) => Math.abs(p.start - print.start) < 0.01);
+  if (index >= 0) {
+    list[index] = print;
+  } else {
+    list.push(print);
+    list.sort((a, b) => a.start - b.start);
+  }
+}
+
+/**
+ * 记录 hls.js 已加载的分片指纹，仅保存开头与结尾窗口内的分片
+ * 返回是否有新的指纹被记录
+ */
+export function recordSegmentPrint(
+  key: string,
+  episode: number,
+  print: SegmentPrint,
+  total: number
+): boolean {
+  const inHead = print.start < HEAD_WINDOW;
+  const inTail = total > 0 && print.start >= total - TAIL_WINDOW;
+  if (!inHead && !inTail) return false;
+
+  const store = readStore();
+  const entry = store[key] || { episodes: {}, updated_time: 0 };
+  const prints: EpisodePrints = entry.episodes[episode] || {
+    head: [],
+    tail: [],
+    total,
+    updated_time: 0,
+  };
+
+  if (inHead) upsertPrint(prints.head, print);
+  if (inTail) upsertPrint(prints.tail, print);
+  prints.total = total || prints.total;
+  prints.updated_time = Date.now();
+  entry.episodes[episode] = prints;
+  entry.updated_time = prints.updated_time;
+
+  // 每部剧只保留最近的几集
+  const episodes = Object.keys(entry.episodes).sort(
+    (a, b) => entry.episodes[b].updated_time - entry.episodes[a].updated_time
+  );
+  episodes.slice(MAX_EPISODES).forEach((e) => delete entry.episodes[e]);
+
+  store[key] = entry;
+  writeStore(store);
+  return true;
+}
+
+/**
+ * 获取当前集的片头片尾建议，需要至少另一集的指纹
+ */
+export function getSkipProposals(key: string, episode: number): SkipSegment[] {
+  const entry = readStore()[key];
+  const current = entry?.episodes[episode];
+  if (!current) return [];
+  const others = Object.keys(entry.episodes)
+    .filter((e) => Number(e) !== episode)
+    .map((e) => entry.episodes[e]);
+  return others.length > 0 ? detectSkipSegments(current, others) : [];
+}
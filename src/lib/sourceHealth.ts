@@ -0,0 +1,250 @@
+/* eslint-disable no-console */
+
+import { getStorage } from './db';
+import { SourceHealth } from './types';
+
+// 连续失败达到该次数后熔断
+export const CIRCUIT_FAILURE_THRESHOLD = 3;
+// 熔断冷却时间（毫秒），期间直接跳过该资源站
+export const CIRCUIT_COOL_DOWN_MS = 5 * 60 * 1000;
+// 内存缓存与存储同步的间隔（毫秒）
+const CACHE_TTL_MS = 30 * 1000;
+// 请求结果先在内存中累计，最多每隔该时间写入一次存储（毫秒）
+const FLUSH_INTERVAL_MS = 10 * 1000;
+
+// 尚未写入存储的请求结果
+interface HealthDelta {
+  success_count: number;
+  failure_count: number;
+  latency_total: number;
+  consecutive_failures: number; // 最近一次成功之后的连续失败次数
+  had_success: boolean;
+  last_latency: number;
+  last_error?: string;
+  last_error_time?: number;
+  last_success_time?: number;
+  updated_time: number;
+}
+
+// 最近一次从存储读取的状态
+let storedHealth: Record<string, SourceHealth> = {};
+let cacheLoadedAt = 0;
+let pendingDeltas: Record<string, HealthDelta> = {};
+let lastFlushAt = 0;
+let flushing: Promise<void> | null = null;
+
+function emptyHealth(): SourceHealth {
+  return {
+    success_count: 0,
+    failure_count: 0,
+    consecutive_failures: 0,
+    avg_latency: 0,
+    last_latency: 0,
+    updated_time: Date.now(),
+  };
+}
+
+// 将累计的请求结果合并到已保存的状态上
+function applyDelta(base: SourceHealth, delta: HealthDelta): SourceHealth {
+  const total = base.success_count + base.failure_count;
+  const count = delta.success_count + delta.failure_count;
+  const next: SourceHealth = {
+    ...base,
+    success_count: base.success_count + delta.success_count,
+    failure_count: base.failure_count + delta.failure_count,
+    avg_latency: Math.round(
+      (base.avg_latency * total + delta.latency_total) / (total + count)
+    ),
+    last_latency: delta.last_latency,
+    consecutive_failures: delta.had_success
+      ? delta.consecutive_failures
+      : base.consecutive_failures + delta.consecutive_failures,
+    updated_time: delta.updated_time,
+  };
+  if (delta.last_error_time) {
+    next.last_error = delta.last_error;
+    next.last_error_time = delta.last_error_time;
+  }
+  if (delta.last_success_time) {
+    next.last_success_time = delta.last_success_time;
+  }
+
+  if (delta.consecutive_failures === 0) {
+    delete next.circuit_open_until;
+  } else if (
+    next.consecutive_failures >= CIRCUIT_FAILURE_THRESHOLD &&
+    delta.last_error_time
+  ) {
+    next.circuit_open_until = delta.last_error_time + CIRCUIT_COOL_DOWN_MS;
+  }
+  return next;
+}
+
+function currentHealth(key: string): SourceHealth | undefined {
+  const delta = pendingDeltas[key];
+  const base = storedHealth[key];
+  if (!delta) return base;
+  return applyDelta(base || emptyHealth(), delta);
+}
+
+async function loadHealth(force = false): Promise<void> {
+  if (!force && Date.now() - cacheLoadedAt < CACHE_TTL_MS) return;
+  try {
+    storedHealth = await getStorage().getAllSourceHealth();
+  } catch (err) {
+    console.error('加载资源站健康状态失败:', err);
+  }
+  cacheLoadedAt = Date.now();
+}
+
+// 读取存储中的最新状态后再合并写入，避免覆盖其他实例累计的计数
+async function writeDeltas(deltas: Record<string, HealthDelta>) {
+  let latest = storedHealth;
+  try {
+    latest = await getStorage().getAllSourceHealth();
+    cacheLoadedAt = Date.now();
+  } catch (err) {
+    console.error('加载资源站健康状态失败:', err);
+  }
+
+  await Promise.all(
+    Object.entries(deltas).map(async ([key, delta]) => {
+      const next = applyDelta(latest[key] || emptyHealth(), delta);
+      latest = { ...latest, [key]: next };
+      try {
+        await getStorage().setSourceHealth(key, next);
+      } catch (err) {
+        console.error('保存资源站健康状态失败:', err);
+      }
+    })
+  );
+  storedHealth = latest;
+}
+
+/**
+ * 将内存中累计的请求结果写入存储
+ */
+export async function flushSourceHealth(): Promise<void> {
+  if (flushing) await flushing;
+  if (Object.keys(pendingDeltas).length === 0) return;
+
+  const deltas = pendingDeltas;
+  pendingDeltas = {};
+  lastFlushAt = Date.now();
+  // 写入期间本实例仍按合并后的状态判断熔断
+  for (const [key, delta] of Object.entries(deltas)) {
+    storedHealth = {
+      ...storedHealth,
+      [key]: applyDelta(storedHealth[key] || emptyHealth(), delta),
+    };
+  }
+
+  flushing = writeDeltas(deltas).finally(() => {
+    flushing = null;
+  });
+  await flushing;
+}
+
+/**
+ * 获取全部资源站的健康状态
+ */
+export async function getAllSourceHealth(): Promise<
+  Record<string, SourceHealth>
+> {
+  await flushSourceHealth();
+  await loadHealth(true);
+  return { ...storedHealth };
+}
+
+/**
+ * 判断资源站当前是否处于熔断状态
+ */
+export async function isSourceCircuitOpen(key: string): Promise<boolean> {
+  await loadHealth();
+  const health = currentHealth(key);
+  return !!health?.circuit_open_until && health.circuit_open_until > Date.now();
+}
+
+/**
+ * 记录一次请求结果，连续失败达到阈值后打开熔断
+ * 结果先在内存中累计，定时或熔断状态变化时写入存储
+ */
+export async function recordSourceResult(
+  key: string,
+  latency: number,
+  error?: string
+): Promise<void> {
+  await loadHealth();
+  const wasOpen = !!currentHealth(key)?.circuit_open_until;
+  const now = Date.now();
+  const delta: HealthDelta = pendingDeltas[key] || {
+    success_count: 0,
+    failure_count: 0,
+    latency_total: 0,
+    consecutive_failures: 0,
+    had_success: false,
+    last_latency: 0,
+    updated_time: now,
+  };
+  delta.latency_total += latency;
+  delta.last_latency = latency;
+  delta.updated_time = now;
+
+  if (error) {
+    delta.failure_count += 1;
+    delta.consecutive_failures += 1;
+    delta.last_error = error;
+    delta.last_error_time = now;
+  } else {
+    delta.success_count += 1;
+    delta.consecutive_failures = 0;
+    delta.had_success = true;
+    delta.last_success_time = now;
+  }
+  pendingDeltas[key] = delta;
+
+  const isOpen = !!currentHealth(key)?.circuit_open_until;
+  if (wasOpen !== isOpen || now - lastFlushAt >= FLUSH_INTERVAL_MS) {
+    await flushSourceHealth();
+  }
+}
+
+/**
+ * 重置资源站健康状态，不传 key 时重置全部
+ */
+export async function resetSourceHealth(key?: string): Promise<void> {
+  if (key) {
+    delete storedHealth[key];
+    delete pendingDeltas[key];
+  } else {
+    storedHealth = {};
+    pendingDeltas = {};
+  }
+  await getStorage().deleteSourceHealth(key);
+}
+
+/**
+ * 包装一次对资源站的请求：熔断期间直接抛错，否则记录耗时与成败
+ */
+export async function withSourceHealth<T>(
+  key: string,
+  operation: () => Promise<T>
+): Promise<T> {
+  if (await isSourceCircuitOpen(key)) {
+    throw new Error('资源站连续失败，暂时跳过');
+  }
+
+  const start = Date.now();
+  try {
+    const result = await operation();
+    await recordSourceResult(key, Date.now() - start);
+    return result;
+  } catch (err) {
+    const message =
+      (err as Error).name === 'AbortError'
+        ? '请求超时'
+        : (err as Error).message || '请求失败';
+    await recordSourceResult(key, Date.now() - start, message);
+    throw err;
+  }
+}
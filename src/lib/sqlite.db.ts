@@ -0,0 +1,203 @@
+/* eslint-disable no-console, @typescript-eslint/no-explicit-any */
+
+// SQLite 文件存储：适用于单容器 Docker 部署，所有数据保存在数据目录下的一个文件中
+// 表结构与 D1 相同，通过兼容 D1 接口的适配层复用 D1Storage 和 D1 迁移
+
+import {
+  D1Database,
+  D1ExecResult,
+  D1PreparedStatement,
+  D1Result,
+  D1Storage,
+} from './d1.db';
+
+// 数据库文件名，位于 SQLITE_DATA_DIR 目录下
+const SQLITE_FILE_NAME = 'katelyatv.db';
+
+// Node.js 内置 node:sqlite 模块（Node 22+）中用到的部分
+type SqliteValue = null | number | bigint | string | Uint8Array;
+
+interface SqliteStatement {
+  run(...params: SqliteValue[]): {
+    changes: number | bigint;
+    lastInsertRowid: number | bigint;
+  };
+  get(...params: SqliteValue[]): Record<string, unknown> | undefined;
+  all(...params: SqliteValue[]): Record<string, unknown>[];
+}
+
+interface SqliteDatabase {
+  exec(sql: string): void;
+  prepare(sql: string): SqliteStatement;
+}
+
+// 与 D1 一致：undefined 按 NULL 保存，布尔值按 0 / 1 保存
+function toSqliteValue(value: any): SqliteValue {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return value;
+}
+
+class SqlitePreparedStatement implements D1PreparedStatement {
+  constructor(
+    private readonly database: SqliteD1Database,
+    private readonly sql: string,
+    private readonly values: SqliteValue[] = []
+  ) {}
+
+  bind(...values: any[]): D1PreparedStatement {
+    return new SqlitePreparedStatement(
+      this.database,
+      this.sql,
+      values.map(toSqliteValue)
+    );
+  }
+
+  async first<T = any>(colName?: string): Promise<T | null> {
+    const row = this.database.statement(this.sql).get(...this.values);
+    if (!row) return null;
+    return (colName ? row[colName] ?? null : row) as T;
+  }
+
+  async run(): Promise<D1Result> {
+    return this.runSync();
+  }
+
+  async all<T = any>(): Promise<D1Result<T>> {
+    const start = Date.now();
+    const results = this.database.statement(this.sql).all(...this.values);
+    return {
+      results: results as T[],
+      success: true,
+      meta: {
+        changed_db: false,
+        changes: 0,
+        last_row_id: 0,
+        duration: Date.now() - start,
+      },
+    };
+  }
+
+  runSync(): D1Result {
+    const start = Date.now();
+    const { changes, lastInsertRowid } = this.database
+      .statement(this.sql)
+      .run(...this.values);
+    return {
+      results: [],
+      success: true,
+      meta: {
+        changed_db: Number(changes) > 0,
+        changes: Number(changes),
+        last_row_id: Number(lastInsertRowid),
+        duration: Date.now() - start,
+      },
+    };
+  }
+}
+
+/**
+ * 将 node:sqlite 的同步接口包装为 D1Database
+ */
+export class SqliteD1Database implements D1Database {
+  private statements = new Map<string, SqliteStatement>();
+
+  constructor(private readonly db: SqliteDatabase) {}
+
+  // 执行时才编译语句：批量建表时后面的语句可能依赖前面创建的表
+  statement(sql: string): SqliteStatement {
+    let statement = this.statements.get(sql);
+    if (!statement) {
+      statement = this.db.prepare(sql);
+      this.statements.set(sql, statement);
+    }
+    return statement;
+  }
+
+  prepare(sql: string): D1PreparedStatement {
+    return new SqlitePreparedStatement(this, sql);
+  }
+
+  async exec(sql: string): Promise<D1ExecResult> {
+    const start = Date.now();
+    this.db.exec(sql);
+    return { count: 1, duration: Date.now() - start };
+  }
+
+  // 与 D1 一致，批量语句在同一个事务中执行
+  async batch(statements: D1PreparedStatement[]): Promise<D1Result[]> {
+    this.db.exec('BEGIN');
+    try {
+      const results = statements.map((s) =>
+        (s as SqlitePreparedStatement).runSync()
+      );
+      this.db.exec('COMMIT');
+      return results;
+    } catch (err) {
+      this.db.exec('ROLLBACK');
+      throw err;
+    }
+  }
+}
+
+let sqliteDatabase: Promise<SqliteD1Database> | null = null;
+
+// 只在 Node.js 运行时加载的内置模块：webpackIgnore 使其保持为原生 import()，不会被打包进 Edge 构建
+async function importNodeModule<T>(specifier: string): Promise<T> {
+  return import(/* webpackIgnore: true */ specifier);
+}
+
+/**
+ * 打开数据目录下的 SQLite 文件，目录不存在时自动创建
+ * 需要 Node.js 运行时（路由 runtime 为 nodejs）与 Node.js 22.5 及以上版本，否则抛出错误
+ */
+async function loadSqliteDatabase(): Promise<SqliteD1Database> {
+  if (process.env.NEXT_RUNTIME === 'edge') {
+    throw new Error(
+      'SQLite 存储需要 Node.js 运行时，请将路由的 runtime 改为 nodejs（Docker 镜像构建时会自动修改）'
+    );
+  }
+
+  let DatabaseSync: new (location: string) => SqliteDatabase;
+  try {
+    ({ DatabaseSync } = await importNodeModule<{
+      DatabaseSync: new (location: string) => SqliteDatabase;
+    }>('node:sqlite'));
+  } catch (err) {
+    throw new Error(
+      `无法加载 node:sqlite（当前 Node.js ${
+        process.version
+      }），SQLite 存储需要 Node.js 22.5 及以上版本: ${(err as Error).message}`
+    );
+  }
+  const fs = await importNodeModule<typeof import('fs')>('node:fs');
+  const path = await importNodeModule<typeof import('path')>('node:path');
+
+  const dataDir = path.resolve(process.env.SQLITE_DATA_DIR || './data');
+  fs.mkdirSync(dataDir, { recursive: true });
+  const file = path.join(dataDir, SQLITE_FILE_NAME);
+
+  const db = new DatabaseSync(file);
+  // 多个请求同时写入时等待锁释放，而不是立即报错
+  db.exec('PRAGMA busy_timeout = 5000');
+  console.log(`SQLite 数据库已打开: ${file}`);
+
+  return new SqliteD1Database(db);
+}
+
+function openSqliteDatabase(): Promise<SqliteD1Database> {
+  if (!sqliteDatabase) {
+    sqliteDatabase = loadSqliteDatabase().catch((err) => {
+      // 打开失败时下次访问重试
+      sqliteDatabase = null;
+      throw err;
+    });
+  }
+  return sqliteDatabase;
+}
+
+export class SqliteStorage extends D1Storage {
+  constructor() {
+    super(openSqliteDatabase);
+  }
+}
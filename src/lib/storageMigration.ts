@@ -0,0 +1,279 @@
+/* eslint-disable no-console */
+
+// 存储迁移：将账号、用户数据、管理员配置以及社区跳过配置、资源站健康状态从一个存储复制到另一个存储
+
+import { clearConfigCache } from './config';
+import { IStorage } from './types';
+import {
+  exportUserDataFromStorage,
+  importUserDataToStorage,
+  UserDataBundle,
+  UserDataImportMode,
+} from './userData';
+
+export interface MigrationCounts {
+  users: number;
+  play_records: number;
+  favorites: number;
+  skip_configs: number;
+  subtitles: number;
+  search_history: number;
+  settings: number;
+  admin_config: number;
+  shared_skip_configs: number;
+  source_health: number;
+}
+
+// 不迁移的数据及原因，试运行与迁移结果中一并列出
+export const NOT_MIGRATED: string[] = [
+  '一起看房间：房间与成员在线状态为临时数据，迁移后需重新创建房间',
+  '接口缓存：资源站搜索与详情缓存会在目标存储中重新生成',
+];
+
+export type MigrationEvent =
+  | { type: 'start'; total: number; dry_run: boolean }
+  | { type: 'progress'; done: number; total: number; username: string }
+  | { type: 'warning'; message: string }
+  | {
+      type: 'done';
+      dry_run: boolean;
+      source: MigrationCounts; // 源存储中的数据量
+      verified: MigrationCounts | null; // 写入后在目标存储中核对到的数据量
+      mismatches: string[];
+      not_migrated: string[]; // 不迁移的数据及原因
+    }
+  | { type: 'error'; error: string };
+
+export interface MigrationOptions {
+  dryRun: boolean;
+  mode: UserDataImportMode;
+  onEvent: (event: MigrationEvent) => void;
+}
+
+function emptyCounts(): MigrationCounts {
+  return {
+    users: 0,
+    play_records: 0,
+    favorites: 0,
+    skip_configs: 0,
+    subtitles: 0,
+    search_history: 0,
+    settings: 0,
+    admin_config: 0,
+    shared_skip_configs: 0,
+    source_health: 0,
+  };
+}
+
+const RECORD_LABELS: Record<
+  'play_records' | 'favorites' | 'skip_configs' | 'subtitles',
+  string
+> = {
+  play_records: '播放记录',
+  favorites: '收藏',
+  skip_configs: '跳过配置',
+  subtitles: '字幕',
+};
+
+/**
+ * 核对目标存储中的用户数据，返回找到的条数和缺失说明
+ */
+function verifyBundle(
+  username: string,
+  expected: UserDataBundle,
+  actual: UserDataBundle,
+  counts: MigrationCounts,
+  mismatches: string[]
+) {
+  (Object.keys(RECORD_LABELS) as Array<keyof typeof RECORD_LABELS>).forEach(
+    (field) => {
+      const keys = Object.keys(expected[field]);
+      const missing = keys.filter((key) => !(key in actual[field])).length;
+      counts[field] += keys.length - missing;
+      if (missing > 0) {
+        mismatches.push(
+          `${username}：${RECORD_LABELS[field]}缺少 ${missing} 条`
+        );
+      }
+    }
+  );
+
+  const missingHistory = expected.search_history.filter(
+    (keyword) => !actual.search_history.includes(keyword)
+  ).length;
+  counts.search_history += expected.search_history.length - missingHistory;
+  if (missingHistory > 0) {
+    mismatches.push(`${username}：搜索历史缺少 ${missingHistory} 条`);
+  }
+
+  if (expected.settings) {
+    if (actual.settings) {
+      counts.settings++;
+    } else {
+      mismatches.push(`${username}：用户设置未写入`);
+    }
+  }
+}
+
+/**
+ * 迁移不属于单个用户的数据：社区共享跳过配置与资源站健康状态
+ * 合并模式下目标存储中更新的共享配置保留不变
+ */
+async function migrateSharedData(
+  source: IStorage,
+  target: IStorage,
+  {
+    dryRun,
+    mode,
+    sourceCounts,
+    verified,
+    mismatches,
+  }: {
+    dryRun: boolean;
+    mode: UserDataImportMode;
+    sourceCounts: MigrationCounts;
+    verified: MigrationCounts | null;
+    mismatches: string[];
+  }
+) {
+  const shared = await source.getAllSharedSkipConfigs();
+  const health = await source.getAllSourceHealth();
+  sourceCounts.shared_skip_configs = Object.keys(shared).length;
+  sourceCounts.source_health = Object.keys(health).length;
+  if (dryRun || !verified) return;
+
+  const existing = await target.getAllSharedSkipConfigs();
+  for (const [key, config] of Object.entries(shared)) {
+    const current = existing[key];
+    if (
+      mode === 'merge' &&
+      current &&
+      current.updated_time >= config.updated_time
+    ) {
+      continue;
+    }
+    await target.setSharedSkipConfig(key, config);
+  }
+  for (const [key, value] of Object.entries(health)) {
+    await target.setSourceHealth(key, value);
+  }
+
+  const writtenShared = await target.getAllSharedSkipConfigs();
+  const writtenHealth = await target.getAllSourceHealth();
+  verified.shared_skip_configs = Object.keys(shared).filter(
+    (key) => key in writtenShared
+  ).length;
+  verified.source_health = Object.keys(health).filter(
+    (key) => key in writtenHealth
+  ).length;
+  if (verified.shared_skip_configs < sourceCounts.shared_skip_configs) {
+    mismatches.push(
+      `社区跳过配置缺少 ${
+        sourceCounts.shared_skip_configs - verified.shared_skip_configs
+      } 条`
+    );
+  }
+  if (verified.source_health < sourceCounts.source_health) {
+    mismatches.push(
+      `资源站健康状态缺少 ${
+        sourceCounts.source_health - verified.source_health
+      } 条`
+    );
+  }
+}
+
+/**
+ * 执行迁移，dryRun 时只统计源存储中的数据量，不写入目标存储
+ */
+export async function migrateStorage(
+  source: IStorage,
+  target: IStorage,
+  { dryRun, mode, onEvent }: MigrationOptions
+): Promise<void> {
+  const sourceCounts = emptyCounts();
+  const verified = dryRun ? null : emptyCounts();
+  const mismatches: string[] = [];
+
+  // 管理员配置包含资源站、用户角色等站点配置，先于用户迁移
+  const adminConfig = await source.getAdminConfig();
+  if (adminConfig) {
+    sourceCounts.admin_config = 1;
+    if (!dryRun) {
+      await target.setAdminConfig(adminConfig);
+      // 目标通常是当前使用的存储，进程内缓存的旧配置需要重新读取
+      clearConfigCache();
+      const written = await target.getAdminConfig();
+      if (written && verified) {
+        verified.admin_config = 1;
+      } else {
+        mismatches.push('管理员配置未写入');
+      }
+    }
+  } else {
+    onEvent({ type: 'warning', message: '源存储中没有管理员配置' });
+  }
+
+  await migrateSharedData(source, target, {
+    dryRun,
+    mode,
+    sourceCounts,
+    verified,
+    mismatches,
+  });
+
+  const users = await source.getAllUsers();
+  onEvent({ type: 'start', total: users.length, dry_run: dryRun });
+
+  for (let i = 0; i < users.length; i++) {
+    const { username } = users[i];
+    try {
+      const bundle = await exportUserDataFromStorage(source, username);
+      sourceCounts.users++;
+      sourceCounts.play_records += Object.keys(bundle.play_records).length;
+      sourceCounts.favorites += Object.keys(bundle.favorites).length;
+      sourceCounts.skip_configs += Object.keys(bundle.skip_configs).length;
+      sourceCounts.subtitles += Object.keys(bundle.subtitles).length;
+      sourceCounts.search_history += bundle.search_history.length;
+      if (bundle.settings) sourceCounts.settings++;
+
+      if (!dryRun && verified) {
+        // 站长账号由环境变量提供，可能没有保存密码
+        const password = await source.getUserPassword(username);
+        if (password !== null) {
+          if (await target.checkUserExist(username)) {
+            await target.changePassword(username, password);
+          } else {
+            await target.registerUser(username, password);
+          }
+        }
+        if (password === null || (await target.checkUserExist(username))) {
+          verified.users++;
+        } else {
+          mismatches.push(`${username}：账号未写入`);
+        }
+
+        await importUserDataToStorage(target, username, bundle, mode);
+        verifyBundle(
+          username,
+          bundle,
+          await exportUserDataFromStorage(target, username),
+          verified,
+          mismatches
+        );
+      }
+    } catch (err) {
+      console.error(`迁移用户 ${username} 失败:`, err);
+      mismatches.push(`${username}：${(err as Error).message}`);
+    }
+    onEvent({ type: 'progress', done: i + 1, total: users.length, username });
+  }
+
+  onEvent({
+    type: 'done',
+    dry_run: dryRun,
+    source: sourceCounts,
+    verified,
+    mismatches,
+    not_migrated: NOT_MIGRATED,
+  });
+}
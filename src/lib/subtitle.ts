@@ -0,0 +1,230 @@
+// 外挂字幕处理：将 SRT / ASS 转换为 WebVTT，并支持整体时间偏移
+// 纯函数实现，不依赖浏览器环境
+
+export type SubtitleFormat = 'vtt' | 'srt' | 'ass';
+
+interface Cue {
+  start: number; // 秒
+  end: number;
+  text: string;
+}
+
+// 上传字幕的大小上限（字节），避免把超大文件写入存储
+export const MAX_SUBTITLE_SIZE = 1024 * 1024;
+
+const TIMING_LINE = /^\s*(\S+)\s*-->\s*(\S+)(.*)$/;
+
+function stripBom(content: string): string {
+  return content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+}
+
+/**
+ * 解码字幕文件，非 UTF-8 时按 GB18030 解码（常见的中文 GBK 字幕）
+ */
+export function decodeSubtitle(buffer: ArrayBuffer): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder('gb18030').decode(buffer);
+  }
+}
+
+/**
+ * 根据文件名或内容判断字幕格式，无法识别时返回 null
+ */
+export function detectSubtitleFormat(
+  content: string,
+  fileName?: string
+): SubtitleFormat | null {
+  const ext = (fileName || '').split(/[?#]/)[0].split('.').pop()?.toLowerCase();
+  if (ext === 'vtt' || ext === 'srt') return ext;
+  if (ext === 'ass' || ext === 'ssa') return 'ass';
+
+  const text = stripBom(content).trimStart();
+  if (text.startsWith('WEBVTT')) return 'vtt';
+  if (/^\[Script Info\]/im.test(text) || /^\[Events\]/im.test(text)) {
+    return 'ass';
+  }
+  if (/\d{1,2}:\d{2}:\d{2}[,.]\d{1,3}\s*-->/.test(text)) return 'srt';
+  return null;
+}
+
+/**
+ * 解析时间戳，支持 01:02:03,456 / 01:02:03.456 / 02:03.456 / 0:01:02.34（ASS）
+ */
+function parseTimestamp(value: string): number | null {
+  const match = value
+    .trim()
+    .match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[,.](\d+))?$/);
+  if (!match) return null;
+  const [, h, m, s, fraction] = match;
+  return (
+    Number(h || 0) * 3600 +
+    Number(m) * 60 +
+    Number(s) +
+    (fraction ? Number(`0.${fraction}`) : 0)
+  );
+}
+
+function formatTimestamp(seconds: number): string {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  const pad = (n: number, len = 2) => n.toString().padStart(len, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}.${pad(ms % 1000, 3)}`;
+}
+
+// 播放器会转义字幕文本，这里去掉 HTML 标签与 ASS 特效标签，只保留纯文本
+function cleanText(text: string): string {
+  return text
+    .replace(/\{[^}]*\}/g, '')
+    .replace(/<[^>]+>/g, '')
+    .replace(/\\N/gi, '\n')
+    .replace(/\\h/g, ' ')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+function cuesToVtt(cues: Cue[]): string {
+  const body = cues
+    .filter((cue) => cue.end > cue.start && cue.text)
+    .sort((a, b) => a.start - b.start)
+    .map(
+      (cue) =>
+        `${formatTimestamp(cue.start)} --> ${formatTimestamp(cue.end)}\n${
+          cue.text
+        }`
+    )
+    .join('\n\n');
+  return `WEBVTT\n\n${body}\n`;
+}
+
+function parseSrt(content: string): Cue[] {
+  const cues: Cue[] = [];
+  stripBom(content)
+    .split(/\n\s*\n/)
+    .forEach((block) => {
+      const lines = block.split('\n');
+      const timingIndex = lines.findIndex((line) => line.includes('-->'));
+      if (timingIndex < 0) return;
+      const match = lines[timingIndex].match(TIMING_LINE);
+      const start = match ? parseTimestamp(match[1]) : null;
+      const end = match ? parseTimestamp(match[2]) : null;
+      if (start === null || end === null) return;
+      cues.push({
+        start,
+        end,
+        text: cleanText(lines.slice(timingIndex + 1).join('\n')),
+      });
+    });
+  return cues;
+}
+
+function parseAss(content: string): Cue[] {
+  const cues: Cue[] = [];
+  let inEvents = false;
+  // 默认字段顺序，以 [Events] 中的 Format 行为准
+  let format = [
+    'layer',
+    'start',
+    'end',
+    'style',
+    'name',
+    'marginl',
+    'marginr',
+    'marginv',
+    'effect',
+    'text',
+  ];
+
+  stripBom(content)
+    .split('\n')
+    .forEach((raw) => {
+      const line = raw.trim();
+      if (line.startsWith('[')) {
+        inEvents = line.toLowerCase() === '[events]';
+        return;
+      }
+      if (!inEvents) return;
+
+      if (/^format\s*:/i.test(line)) {
+        format = line
+          .slice(line.indexOf(':') + 1)
+          .split(',')
+          .map((field) => field.trim().toLowerCase());
+        return;
+      }
+      if (!/^dialogue\s*:/i.test(line)) return;
+
+      // Text 为最后一个字段，其中可能包含逗号
+      const values = line.slice(line.indexOf(':') + 1).split(',');
+      const fields: Record<string, string> = {};
+      format.forEach((field, index) => {
+        fields[field] =
+          index === format.length - 1
+            ? values.slice(index).join(',')
+            : (values[index] || '').trim();
+      });
+
+      // 绘图指令不是文字，直接忽略
+      if (/\{[^}]*\\p[1-9]/.test(fields.text || '')) return;
+
+      const start = parseTimestamp(fields.start || '');
+      const end = parseTimestamp(fields.end || '');
+      if (start === null || end === null) return;
+      cues.push({ start, end, text: cleanText(fields.text || '') });
+    });
+  return cues;
+}
+
+function parseVtt(content: string): Cue[] {
+  return parseSrt(stripBom(content).replace(/^WEBVTT[^\n]*\n/, ''));
+}
+
+/**
+ * 将字幕转换为 WebVTT，format 为空时自动识别
+ * 无法识别或没有有效字幕时抛出错误
+ */
+export function convertToWebVtt(
+  content: string,
+  format?: SubtitleFormat | null
+): string {
+  const type = format || detectSubtitleFormat(content);
+  if (!type) {
+    throw new Error('无法识别的字幕格式，仅支持 SRT / VTT / ASS');
+  }
+
+  const cues =
+    type === 'ass'
+      ? parseAss(content)
+      : type === 'srt'
+      ? parseSrt(content)
+      : parseVtt(content);
+  if (cues.length === 0) {
+    throw new Error('字幕文件中没有有效的字幕');
+  }
+  return cuesToVtt(cues);
+}
+
+/**
+ * 将 WebVTT 中的全部时间整体偏移 offset 秒，正数表示字幕延后出现
+ */
+export function shiftWebVtt(vtt: string, offset: number): string {
+  if (!offset) return vtt;
+  return vtt
+    .split('\n')
+    .map((line) => {
+      const match = line.match(TIMING_LINE);
+      if (!match) return line;
+      const start = parseTimestamp(match[1]);
+      const end = parseTimestamp(match[2]);
+      if (start === null || end === null) return line;
+      return `${formatTimestamp(start + offset)} --> ${formatTimestamp(
+        end + offset
+      )}${match[3]}`;
+    })
+    .join('\n');
+}
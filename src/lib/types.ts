@@ -12,6 +12,7 @@ export interface PlayRecord {
   total_time: number; // 总进度（秒）
   save_time: number; // 记录保存时间（时间戳）
   search_title: string; // 搜索时使用的标题
+  episode_title?: string; // 资源站提供的剧集标签，如 "SP2"、"花絮"
 }
 
 // 片头片尾数据结构
@@ -31,6 +32,55 @@ export interface EpisodeSkipConfig {
   updated_time: number; // 最后更新时间
 }
 
+// 外挂字幕，按用户与 source+id+集数 保存
+export interface EpisodeSubtitle {
+  name: string; // 字幕名称（文件名或地址）
+  url?: string; // 远程字幕地址，播放时实时加载
+  content?: string; // 上传的字幕内容，已转换为 WebVTT
+  offset: number; // 时间偏移（秒），正数表示字幕延后
+  size: number; // 字号（px）
+  updated_time: number; // 最后更新时间
+}
+
+// 社区共享的跳过配置，未设置个人配置的用户默认使用
+export interface SharedSkipConfig extends EpisodeSkipConfig {
+  contributor: string; // 发布者用户名
+  hidden?: boolean; // 被管理员隐藏后不再下发
+}
+
+// 一起看房间，播放状态以 state_time 时刻的进度表示
+export interface WatchRoom {
+  id: string; // 房间号
+  host: string; // 房主用户名
+  source: string; // 资源站 key
+  video_id: string; // 视频 id
+  title: string; // 视频标题
+  episode: number; // 当前集数（从 1 开始）
+  playing: boolean; // 是否正在播放
+  position: number; // state_time 时刻的播放进度（秒）
+  rate: number; // 播放倍速
+  state_time: number; // 播放状态更新时间（服务器时间戳）
+  version: number; // 播放状态版本，每次更新递增
+  updated_by: string; // 最近一次更新播放状态的用户
+  host_only: boolean; // 是否仅房主可控制播放
+  kicked: string[]; // 被房主移出的用户
+  created_time: number; // 创建时间
+}
+
+// 资源站健康状态
+export interface SourceHealth {
+  success_count: number; // 成功次数
+  failure_count: number; // 失败次数
+  consecutive_failures: number; // 连续失败次数
+  avg_latency: number; // 平均耗时（毫秒）
+  last_latency: number; // 最近一次耗时（毫秒）
+  last_error?: string; // 最近一次错误信息
+  last_error_time?: number; // 最近一次失败时间（时间戳）
+  last_success_time?: number; // 最近一次成功时间（时间戳）
+  circuit_open_until?: number; // 熔断截止时间（时间戳），期间跳过该源
+  updated_time: number; // 最后更新时间
+}
+
 // 收藏数据结构
 export interface Favorite {
   source_name: string;
@@ -70,6 +120,8 @@ export interface IStorage {
   // 用户相关
   registerUser(userName: string, password: string): Promise<void>;
   verifyUser(userName: string, password: string): Promise<boolean>;
+  // 读取用户保存的密码，用于在存储之间迁移账号
+  getUserPassword(userName: string): Promise<string | null>;
   // 检查用户是否存在（无需密码）
   checkUserExist(userName: string): Promise<boolean>;
   // 修改用户密码
@@ -93,6 +145,43 @@ export interface IStorage {
   getAllSkipConfigs(userName: string): Promise<{ [key: string]: EpisodeSkipConfig }>;
   deleteSkipConfig(userName: string, key: string): Promise<void>;
 
+  // 外挂字幕相关（key 为 source+id+集数）
+  getSubtitle(userName: string, key: string): Promise<EpisodeSubtitle | null>;
+  setSubtitle(userName: string, key: string, subtitle: EpisodeSubtitle): Promise<void>;
+  getAllSubtitles(userName: string): Promise<{ [key: string]: EpisodeSubtitle }>;
+  deleteSubtitle(userName: string, key: string): Promise<void>;
+
+  // 社区共享跳过配置相关（key 与个人配置相同，为 source+id）
+  getSharedSkipConfig(key: string): Promise<SharedSkipConfig | null>;
+  setSharedSkipConfig(key: string, config: SharedSkipConfig): Promise<void>;
+  getAllSharedSkipConfigs(): Promise<{ [key: string]: SharedSkipConfig }>;
+  deleteSharedSkipConfig(key: string): Promise<void>;
+
+  // 一起看房间相关，成员在线状态单独保存，避免心跳覆盖播放状态
+  getWatchRoom(roomId: string): Promise<WatchRoom | null>;
+  // 全部房间，用于清理长时间无人访问的房间
+  getAllWatchRooms(): Promise<WatchRoom[]>;
+  setWatchRoom(roomId: string, room: WatchRoom): Promise<void>;
+  // 删除房间及其成员
+  deleteWatchRoom(roomId: string): Promise<void>;
+  // 返回 用户名 -> 最近心跳时间
+  getWatchRoomMembers(roomId: string): Promise<{ [userName: string]: number }>;
+  setWatchRoomMember(roomId: string, userName: string, lastSeen: number): Promise<void>;
+  deleteWatchRoomMember(roomId: string, userName: string): Promise<void>;
+
+  // 接口缓存相关（资源站搜索、详情结果）
+  getCache<T = unknown>(key: string): Promise<T | null>;
+  // ttl 单位为秒
+  setCache<T = unknown>(key: string, value: T, ttl: number): Promise<void>;
+  // 清除以 prefix 开头的缓存，不传 prefix 时清空全部
+  clearCache(prefix?: string): Promise<void>;
+
+  // 资源站健康状态相关
+  getAllSourceHealth(): Promise<{ [key: string]: SourceHealth }>;
+  setSourceHealth(key: string, health: SourceHealth): Promise<void>;
+  // 删除指定资源站的健康状态，不传 key 时清空全部
+  deleteSourceHealth(key?: string): Promise<void>;
+
   // 用户列表
   getAllUsers(): Promise<User[]>;
 
@@ -102,11 +191,20 @@ export interface IStorage {
 }
 
 // 搜索结果数据结构
+// 播放线路：对应资源站 vod_play_from 中的一组播放地址
+export interface PlayLine {
+  name: string;
+  episodes: string[];
+  titles: string[]; // 与 episodes 一一对应的剧集标签，如 "第01集"、"SP"、"预告"
+}
+
 export interface SearchResult {
   id: string;
   title: string;
   poster: string;
-  episodes: string[];
+  episodes: string[]; // 默认线路的剧集
+  episodes_titles?: string[]; // 与 episodes 一一对应的剧集标签
+  play_lines?: PlayLine[]; // 全部可用播放线路
   source: string;
   source_name: string;
   class?: string;
@@ -116,6 +214,92 @@ export interface SearchResult {
   douban_id?: number;
 }
 
+// 聚合搜索结果：同一部影片在多个资源站的条目合并为一项
+export interface AggregatedSearchResult {
+  key: string;
+  title: string;
+  year: string;
+  poster: string;
+  douban_id?: number;
+  type_name?: string;
+  episodes: number; // 各源中最常见的集数
+  sources: {
+    source: string;
+    source_name: string;
+    id: string;
+    episodes: number;
+  }[];
+}
+
+// 单个资源站的搜索状态（流式搜索汇总使用）
+export interface SearchSourceStatus {
+  source: string;
+  source_name: string;
+  count: number;
+  elapsed: number; // 耗时（毫秒）
+  error?: string;
+}
+
+// 流式搜索事件，每行一个 JSON（NDJSON）
+export type SearchStreamEvent =
+  | {
+      type: 'start';
+      sources: { source: string; source_name: string }[];
+    }
+  | {
+      type: 'source';
+      source: string;
+      source_name: string;
+      results: SearchResult[];
+      elapsed: number;
+      error?: string;
+    }
+  | {
+      type: 'done';
+      total: number;
+      elapsed: number;
+      sources: SearchSourceStatus[];
+      facets?: SearchFacets;
+    };
+
+// 搜索联想来源：个人搜索历史、站内播放记录与收藏、豆瓣
+export type SearchSuggestionSource = 'history' | 'library' | 'douban';
+
+// 搜索联想条目
+export interface SearchSuggestion {
+  title: string;
+  poster?: string;
+  year?: string;
+  sources: SearchSuggestionSource[];
+  score: number;
+}
+
+// 搜索筛选条件
+export interface SearchFilters {
+  year_from?: number;
+  year_to?: number;
+  type_name?: string[];
+  class?: string[];
+  source?: string[];
+  has_douban?: boolean;
+  sort?: 'year_desc' | 'year_asc'; // 不设置时按相关度排序
+}
+
+export interface SearchFacetCount {
+  value: string;
+  label: string;
+  count: number;
+}
+
+// 搜索结果分面统计：每一项的计数基于除自身以外的其他筛选条件
+export interface SearchFacets {
+  year: SearchFacetCount[];
+  type_name: SearchFacetCount[];
+  class: SearchFacetCount[];
+  source: SearchFacetCount[];
+  has_douban: SearchFacetCount[];
+}
+
 // 豆瓣数据结构
 export interface DoubanItem {
   id: string;
@@ -147,6 +331,15 @@ export interface Config {
   api_site: { [key: string]: ApiSite };
 }
 
+// 用户设置未保存时的默认值，各存储部分更新设置时以此补全
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  filter_adult_content: true,
+  theme: 'auto',
+  language: 'zh-CN',
+  auto_play: true,
+  video_quality: 'auto',
+};
+
 // 用户设置
 export interface UserSettings {
   filter_adult_content: boolean; // 是否过滤成人内容，默认为 true
@@ -154,7 +347,15 @@ export interface UserSettings {
   language: string;
   auto_play: boolean;
   video_quality: string;
-  [key: string]: string | boolean | number; // 允许其他设置
+  // 播放器偏好，未设置时使用默认值
+  default_playback_rate?: number; // 默认倍速
+  default_volume?: number; // 默认音量 0-1
+  default_muted?: boolean; // 默认静音
+  auto_next_episode?: boolean; // 播放结束后自动播放下一集
+  block_ad?: boolean; // 去广告
+  speed_test?: boolean; // 优选和测速
+  preferred_sources?: string[]; // 偏好的资源站 key，按优先级排序
+  [key: string]: string | boolean | number | string[] | undefined; // 允许其他设置
 }
 
 // 搜索结果（支持成人内容分组）
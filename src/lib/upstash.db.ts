@@ -3,7 +3,7 @@
 import { Redis } from '@upstash/redis';
 
 import { AdminConfig } from './admin.types';
-import { EpisodeSkipConfig, Favorite, IStorage, PlayRecord, User, UserSettings } from './types';
+import { DEFAULT_USER_SETTINGS, EpisodeSkipConfig, EpisodeSubtitle, Favorite, IStorage, PlayRecord, SharedSkipConfig, SourceHealth, User, UserSettings, WatchRoom } from './types';
 
 // 搜索历史最大条数
 const SEARCH_HISTORY_LIMIT = 20;
@@ -167,6 +167,13 @@ export class UpstashRedisStorage implements IStorage {
     return ensureString(stored) === password;
   }
 
+  async getUserPassword(userName: string): Promise<string | null> {
+    const stored = await withRetry(() =>
+      this.client.get(this.userPwdKey(userName))
+    );
+    return stored === null ? null : ensureString(stored);
+  }
+
   // 检查用户是否存在
   async checkUserExist(userName: string): Promise<boolean> {
     // 使用 EXISTS 判断 key 是否存在
@@ -209,6 +216,26 @@ export class UpstashRedisStorage implements IStorage {
     if (favoriteKeys.length > 0) {
       await withRetry(() => this.client.del(...favoriteKeys));
     }
+
+    // 删除外挂字幕
+    const subtitleKeys = await withRetry(() =>
+      this.client.keys(`u:${userName}:sub:*`)
+    );
+    if (subtitleKeys.length > 0) {
+      await withRetry(() => this.client.del(...subtitleKeys));
+    }
+
+    // 删除跳过配置及其索引
+    const skipConfigKeys = await withRetry(() =>
+      this.client.keys(`katelyatv:skip_config:${userName}:*`)
+    );
+    if (skipConfigKeys.length > 0) {
+      await withRetry(() => this.client.del(...skipConfigKeys));
+    }
+    await withRetry(() => this.client.del(this.skipConfigsKey(userName)));
+
+    // 删除用户设置
+    await withRetry(() => this.client.del(this.userSettingsKey(userName)));
   }
 
   // ---------- 搜索历史 ----------
@@ -383,21 +410,211 @@ export class UpstashRedisStorage implements IStorage {
     settings: Partial<UserSettings>
   ): Promise<void> {
     const current = await this.getUserSettings(userName);
-    const defaultSettings: UserSettings = {
-      filter_adult_content: true,
-      theme: 'auto',
-      language: 'zh-CN',
-      auto_play: false,
-      video_quality: 'auto'
-    };
     const updated: UserSettings = { 
-      ...defaultSettings, 
+      ...DEFAULT_USER_SETTINGS, 
       ...current, 
       ...settings,
       filter_adult_content: settings.filter_adult_content ?? current?.filter_adult_content ?? true
     };
     await this.setUserSettings(userName, updated);
   }
+
+  // ---------- 外挂字幕 ----------
+  private subtitleKey(user: string, key: string) {
+    return `u:${user}:sub:${key}`; // u:username:sub:source+id+集数
+  }
+
+  async getSubtitle(
+    userName: string,
+    key: string
+  ): Promise<EpisodeSubtitle | null> {
+    const val = await withRetry(() =>
+      this.client.get(this.subtitleKey(userName, key))
+    );
+    return val ? (val as EpisodeSubtitle) : null;
+  }
+
+  async setSubtitle(
+    userName: string,
+    key: string,
+    subtitle: EpisodeSubtitle
+  ): Promise<void> {
+    await withRetry(() =>
+      this.client.set(this.subtitleKey(userName, key), subtitle)
+    );
+  }
+
+  async getAllSubtitles(
+    userName: string
+  ): Promise<Record<string, EpisodeSubtitle>> {
+    const prefix = `u:${userName}:sub:`;
+    const keys: string[] = await withRetry(() =>
+      this.client.keys(`${prefix}*`)
+    );
+    const result: Record<string, EpisodeSubtitle> = {};
+    for (const fullKey of keys) {
+      const value = await withRetry(() => this.client.get(fullKey));
+      if (value) {
+        result[ensureString(fullKey.replace(prefix, ''))] =
+          value as EpisodeSubtitle;
+      }
+    }
+    return result;
+  }
+
+  async deleteSubtitle(userName: string, key: string): Promise<void> {
+    await withRetry(() => this.client.del(this.subtitleKey(userName, key)));
+  }
+
+  // ---------- 社区共享跳过配置 ----------
+  private sharedSkipKey() {
+    return 'skip:shared';
+  }
+
+  async getSharedSkipConfig(key: string): Promise<SharedSkipConfig | null> {
+    const val = await withRetry(() =>
+      this.client.hget<SharedSkipConfig>(this.sharedSkipKey(), key)
+    );
+    return val || null;
+  }
+
+  async setSharedSkipConfig(
+    key: string,
+    config: SharedSkipConfig
+  ): Promise<void> {
+    await withRetry(() =>
+      this.client.hset(this.sharedSkipKey(), { [key]: config })
+    );
+  }
+
+  async getAllSharedSkipConfigs(): Promise<Record<string, SharedSkipConfig>> {
+    const raw = await withRetry(() =>
+      this.client.hgetall<Record<string, SharedSkipConfig>>(
+        this.sharedSkipKey()
+      )
+    );
+    return raw || {};
+  }
+
+  async deleteSharedSkipConfig(key: string): Promise<void> {
+    await withRetry(() => this.client.hdel(this.sharedSkipKey(), key));
+  }
+
+  // ---------- 一起看房间 ----------
+  private watchRoomKey() {
+    return 'watch:rooms';
+  }
+
+  private watchRoomMembersKey(roomId: string) {
+    return `watch:room:${roomId}:members`;
+  }
+
+  async getWatchRoom(roomId: string): Promise<WatchRoom | null> {
+    const val = await withRetry(() =>
+      this.client.hget<WatchRoom>(this.watchRoomKey(), roomId)
+    );
+    return val || null;
+  }
+
+  async getAllWatchRooms(): Promise<WatchRoom[]> {
+    const raw = await withRetry(() =>
+      this.client.hgetall<Record<string, WatchRoom>>(this.watchRoomKey())
+    );
+    return Object.values(raw || {});
+  }
+
+  async setWatchRoom(roomId: string, room: WatchRoom): Promise<void> {
+    await withRetry(() =>
+      this.client.hset(this.watchRoomKey(), { [roomId]: room })
+    );
+  }
+
+  async deleteWatchRoom(roomId: string): Promise<void> {
+    await withRetry(() => this.client.hdel(this.watchRoomKey(), roomId));
+    await withRetry(() => this.client.del(this.watchRoomMembersKey(roomId)));
+  }
+
+  async getWatchRoomMembers(roomId: string): Promise<Record<string, number>> {
+    const raw = await withRetry(() =>
+      this.client.hgetall<Record<string, number>>(
+        this.watchRoomMembersKey(roomId)
+      )
+    );
+    const result: Record<string, number> = {};
+    Object.entries(raw || {}).forEach(([userName, val]) => {
+      result[userName] = Number(val);
+    });
+    return result;
+  }
+
+  async setWatchRoomMember(
+    roomId: string,
+    userName: string,
+    lastSeen: number
+  ): Promise<void> {
+    await withRetry(() =>
+      this.client.hset(this.watchRoomMembersKey(roomId), {
+        [userName]: lastSeen,
+      })
+    );
+  }
+
+  async deleteWatchRoomMember(roomId: string, userName: string): Promise<void> {
+    await withRetry(() =>
+      this.client.hdel(this.watchRoomMembersKey(roomId), userName)
+    );
+  }
+
+  // ---------- 接口缓存 ----------
+  private cacheKey(key: string) {
+    return `cache:${key}`;
+  }
+
+  async getCache<T = unknown>(key: string): Promise<T | null> {
+    const val = await withRetry(() => this.client.get<T>(this.cacheKey(key)));
+    return val ?? null;
+  }
+
+  async setCache<T = unknown>(key: string, value: T, ttl: number): Promise<void> {
+    await withRetry(() =>
+      this.client.set(this.cacheKey(key), value, { ex: ttl })
+    );
+  }
+
+  async clearCache(prefix?: string): Promise<void> {
+    const keys = await withRetry(() =>
+      this.client.keys(`${this.cacheKey(prefix || '')}*`)
+    );
+    if (keys.length > 0) {
+      await withRetry(() => this.client.del(...keys));
+    }
+  }
+
+  // ---------- 资源站健康状态 ----------
+  private sourceHealthKey() {
+    return 'source:health';
+  }
+
+  async getAllSourceHealth(): Promise<Record<string, SourceHealth>> {
+    const raw = await withRetry(() =>
+      this.client.hgetall<Record<string, SourceHealth>>(this.sourceHealthKey())
+    );
+    return raw || {};
+  }
+
+  async setSourceHealth(key: string, health: SourceHealth): Promise<void> {
+    await withRetry(() =>
+      this.client.hset(this.sourceHealthKey(), { [key]: health })
+    );
+  }
+
+  async deleteSourceHealth(key?: string): Promise<void> {
+    if (key) {
+      await withRetry(() => this.client.hdel(this.sourceHealthKey(), key));
+    } else {
+      await withRetry(() => this.client.del(this.sourceHealthKey()));
+    }
+  }
 }
 
 // 单例 Upstash Redis 客户端
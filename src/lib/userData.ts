@@ -0,0 +1,393 @@
+// 用户数据备份：导出包格式、校验与导入时的合并规则
+// 服务端与浏览器端（本地存储模式）共用，不依赖运行环境
+
+import { validateSkipConfig } from './skipConfig';
+import { MAX_SUBTITLE_SIZE } from './subtitle';
+import {
+  EpisodeSkipConfig,
+  EpisodeSubtitle,
+  Favorite,
+  IStorage,
+  PlayRecord,
+  UserSettings,
+} from './types';
+
+// 导出包格式标识与版本，格式变化时递增版本并在 parseUserDataBundle 中兼容旧版本
+export const USER_DATA_FORMAT = 'katelyatv-user-data';
+export const USER_DATA_VERSION = 1;
+
+// 与各存储实现保持一致的搜索历史上限
+const SEARCH_HISTORY_LIMIT = 20;
+
+export interface UserDataBundle {
+  format: typeof USER_DATA_FORMAT;
+  version: number;
+  username: string;
+  exported_at: number;
+  play_records: Record<string, PlayRecord>;
+  favorites: Record<string, Favorite>;
+  skip_configs: Record<string, EpisodeSkipConfig>;
+  subtitles: Record<string, EpisodeSubtitle>;
+  search_history: string[];
+  settings: Partial<UserSettings> | null;
+}
+
+// merge：保留两边的数据，同一条目以保存时间较新的为准
+// overwrite：以导入包为准，清除导入包中没有的数据
+export type UserDataImportMode = 'merge' | 'overwrite';
+
+export interface UserDataImportResult {
+  play_records: number; // 写入的条数
+  favorites: number;
+  skip_configs: number;
+  subtitles: number;
+  search_history: number;
+  settings: boolean; // 是否写入了用户设置
+  skipped: number; // 因本地数据更新而跳过的条数
+  removed: number; // 覆盖模式下删除的条数
+  invalid: number; // 格式错误被忽略的条数
+}
+
+export interface RecordMergePlan<T> {
+  merged: Record<string, T>; // 导入后的完整数据
+  changed: string[]; // 需要写入的 key
+  removed: string[]; // 需要删除的 key
+  skipped: number;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isPlayRecord(value: unknown): value is PlayRecord {
+  return (
+    isObject(value) &&
+    typeof value.title === 'string' &&
+    typeof value.index === 'number' &&
+    typeof value.play_time === 'number' &&
+    typeof value.save_time === 'number'
+  );
+}
+
+function isFavorite(value: unknown): value is Favorite {
+  return (
+    isObject(value) &&
+    typeof value.title === 'string' &&
+    typeof value.save_time === 'number'
+  );
+}
+
+// 与 /api/skip-configs 写入时的校验一致，片段不合法的配置计入忽略条数
+function isSkipConfig(value: unknown): value is EpisodeSkipConfig {
+  return (
+    isObject(value) &&
+    typeof value.updated_time === 'number' &&
+    validateSkipConfig(value) === null
+  );
+}
+
+function isSubtitle(value: unknown): value is EpisodeSubtitle {
+  if (
+    !isObject(value) ||
+    typeof value.name !== 'string' ||
+    typeof value.offset !== 'number' ||
+    typeof value.size !== 'number' ||
+    typeof value.updated_time !== 'number'
+  ) {
+    return false;
+  }
+  if (typeof value.url === 'string' && value.url) {
+    return /^https?:\/\//i.test(value.url);
+  }
+  return (
+    typeof value.content === 'string' &&
+    value.content.startsWith('WEBVTT') &&
+    value.content.length <= MAX_SUBTITLE_SIZE
+  );
+}
+
+function pickValid<T>(
+  input: unknown,
+  isValid: (value: unknown) => value is T
+): { records: Record<string, T>; invalid: number } {
+  const records: Record<string, T> = {};
+  let invalid = 0;
+  if (!isObject(input)) return { records, invalid };
+  Object.entries(input).forEach(([key, value]) => {
+    if (key && isValid(value)) {
+      records[key] = value;
+    } else {
+      invalid++;
+    }
+  });
+  return { records, invalid };
+}
+
+/**
+ * 校验导入包，返回规范化后的数据和被忽略的条目数，格式错误时抛出错误
+ */
+export function parseUserDataBundle(input: unknown): {
+  bundle: UserDataBundle;
+  invalid: number;
+} {
+  if (!isObject(input) || input.format !== USER_DATA_FORMAT) {
+    throw new Error('不是有效的用户数据备份文件');
+  }
+  if (typeof input.version !== 'number' || input.version > USER_DATA_VERSION) {
+    throw new Error('备份文件版本过新，请升级后再导入');
+  }
+
+  const playRecords = pickValid(input.play_records, isPlayRecord);
+  const favorites = pickValid(input.favorites, isFavorite);
+  const skipConfigs = pickValid(input.skip_configs, isSkipConfig);
+  const subtitles = pickValid(input.subtitles, isSubtitle);
+  const searchHistory = Array.isArray(input.search_history)
+    ? input.search_history.filter(
+        (k): k is string => typeof k === 'string' && k.trim() !== ''
+      )
+    : [];
+
+  // 设置仅保留基础类型的字段
+  let settings: Partial<UserSettings> | null = null;
+  if (isObject(input.settings)) {
+    const picked: Partial<UserSettings> = {};
+    Object.entries(input.settings).forEach(([key, value]) => {
+      if (
+        ['string', 'number', 'boolean'].includes(typeof value) ||
+        (Array.isArray(value) && value.every((v) => typeof v === 'string'))
+      ) {
+        picked[key] = value as UserSettings[string];
+      }
+    });
+    settings = picked;
+  }
+
+  return {
+    bundle: {
+      format: USER_DATA_FORMAT,
+      version: USER_DATA_VERSION,
+      username: typeof input.username === 'string' ? input.username : '',
+      exported_at:
+        typeof input.exported_at === 'number' ? input.exported_at : 0,
+      play_records: playRecords.records,
+      favorites: favorites.records,
+      skip_configs: skipConfigs.records,
+      subtitles: subtitles.records,
+      search_history: searchHistory,
+      settings,
+    },
+    invalid:
+      playRecords.invalid +
+      favorites.invalid +
+      skipConfigs.invalid +
+      subtitles.invalid,
+  };
+}
+
+/**
+ * 计算导入后的数据：合并模式下同一 key 仅在导入的保存时间更新时覆盖
+ */
+export function planRecordMerge<T>(
+  existing: Record<string, T>,
+  incoming: Record<string, T>,
+  mode: UserDataImportMode,
+  getTime: (item: T) => number
+): RecordMergePlan<T> {
+  const merged: Record<string, T> = mode === 'overwrite' ? {} : { ...existing };
+  const changed: string[] = [];
+  let skipped = 0;
+
+  Object.entries(incoming).forEach(([key, item]) => {
+    const current = existing[key];
+    if (mode === 'merge' && current && getTime(current) >= getTime(item)) {
+      skipped++;
+      return;
+    }
+    merged[key] = item;
+    changed.push(key);
+  });
+
+  const removed =
+    mode === 'overwrite'
+      ? Object.keys(existing).filter((key) => !(key in incoming))
+      : [];
+  return { merged, changed, removed, skipped };
+}
+
+/**
+ * 计算导入后的搜索历史（最新的在前），合并模式下本地记录优先
+ */
+export function planSearchHistoryMerge(
+  existing: string[],
+  incoming: string[],
+  mode: UserDataImportMode
+): string[] {
+  const list = mode === 'overwrite' ? incoming : [...existing, ...incoming];
+  return Array.from(new Set(list.map((k) => k.trim()))).slice(
+    0,
+    SEARCH_HISTORY_LIMIT
+  );
+}
+
+/**
+ * 计算导入后的用户设置，合并模式下已有的设置优先
+ */
+export function planSettingsMerge(
+  existing: Partial<UserSettings> | null,
+  incoming: Partial<UserSettings> | null,
+  mode: UserDataImportMode
+): Partial<UserSettings> | null {
+  if (!incoming) return null;
+  return mode === 'overwrite' ? incoming : { ...incoming, ...existing };
+}
+
+/**
+ * 从存储中读取用户的全部数据，生成导出包
+ */
+export async function exportUserDataFromStorage(
+  storage: IStorage,
+  userName: string
+): Promise<UserDataBundle> {
+  const [
+    playRecords,
+    favorites,
+    skipConfigs,
+    subtitles,
+    searchHistory,
+    settings,
+  ] = await Promise.all([
+    storage.getAllPlayRecords(userName),
+    storage.getAllFavorites(userName),
+    storage.getAllSkipConfigs(userName),
+    storage.getAllSubtitles(userName),
+    storage.getSearchHistory(userName),
+    storage.getUserSettings(userName),
+  ]);
+
+  return {
+    format: USER_DATA_FORMAT,
+    version: USER_DATA_VERSION,
+    username: userName,
+    exported_at: Date.now(),
+    play_records: playRecords,
+    favorites,
+    skip_configs: skipConfigs,
+    subtitles,
+    search_history: searchHistory,
+    settings,
+  };
+}
+
+/**
+ * 将导入包写入存储
+ */
+export async function importUserDataToStorage(
+  storage: IStorage,
+  userName: string,
+  bundle: UserDataBundle,
+  mode: UserDataImportMode
+): Promise<Omit<UserDataImportResult, 'invalid'>> {
+  const [
+    playRecords,
+    favorites,
+    skipConfigs,
+    subtitles,
+    searchHistory,
+    settings,
+  ] = await Promise.all([
+    storage.getAllPlayRecords(userName),
+    storage.getAllFavorites(userName),
+    storage.getAllSkipConfigs(userName),
+    storage.getAllSubtitles(userName),
+    storage.getSearchHistory(userName),
+    storage.getUserSettings(userName),
+  ]);
+
+  const recordPlan = planRecordMerge(
+    playRecords,
+    bundle.play_records,
+    mode,
+    (r) => r.save_time
+  );
+  const favoritePlan = planRecordMerge(
+    favorites,
+    bundle.favorites,
+    mode,
+    (f) => f.save_time
+  );
+  const skipPlan = planRecordMerge(
+    skipConfigs,
+    bundle.skip_configs,
+    mode,
+    (c) => c.updated_time
+  );
+  const subtitlePlan = planRecordMerge(
+    subtitles,
+    bundle.subtitles,
+    mode,
+    (s) => s.updated_time
+  );
+
+  for (const key of recordPlan.changed) {
+    await storage.setPlayRecord(userName, key, recordPlan.merged[key]);
+  }
+  for (const key of recordPlan.removed) {
+    await storage.deletePlayRecord(userName, key);
+  }
+  for (const key of favoritePlan.changed) {
+    await storage.setFavorite(userName, key, favoritePlan.merged[key]);
+  }
+  for (const key of favoritePlan.removed) {
+    await storage.deleteFavorite(userName, key);
+  }
+  for (const key of skipPlan.changed) {
+    await storage.setSkipConfig(userName, key, skipPlan.merged[key]);
+  }
+  for (const key of skipPlan.removed) {
+    await storage.deleteSkipConfig(userName, key);
+  }
+  for (const key of subtitlePlan.changed) {
+    await storage.setSubtitle(userName, key, subtitlePlan.merged[key]);
+  }
+  for (const key of subtitlePlan.removed) {
+    await storage.deleteSubtitle(userName, key);
+  }
+
+  // 搜索历史没有时间信息，整体重建以保持顺序
+  const history = planSearchHistoryMerge(
+    searchHistory,
+    bundle.search_history,
+    mode
+  );
+  const historyAdded = history.filter((k) => !searchHistory.includes(k));
+  if (historyAdded.length > 0 || mode === 'overwrite') {
+    await storage.deleteSearchHistory(userName);
+    for (const keyword of [...history].reverse()) {
+      await storage.addSearchHistory(userName, keyword);
+    }
+  }
+
+  const nextSettings = planSettingsMerge(settings, bundle.settings, mode);
+  if (nextSettings) {
+    await storage.setUserSettings(userName, nextSettings as UserSettings);
+  }
+
+  return {
+    play_records: recordPlan.changed.length,
+    favorites: favoritePlan.changed.length,
+    skip_configs: skipPlan.changed.length,
+    subtitles: subtitlePlan.changed.length,
+    search_history: historyAdded.length,
+    settings: !!nextSettings,
+    skipped:
+      recordPlan.skipped +
+      favoritePlan.skipped +
+      skipPlan.skipped +
+      subtitlePlan.skipped,
+    removed:
+      recordPlan.removed.length +
+      favoritePlan.removed.length +
+      skipPlan.removed.length +
+      subtitlePlan.removed.length,
+  };
+}
@@ -78,6 +78,19 @@ export function processDoubanUrl(originalUrl: string): string {
   return `${proxyUrl}${encodeURIComponent(originalUrl)}`;
 }
 
+/**
+ * 生成剧集显示名称：优先使用资源站标签，"第01集" 这类纯数字标签统一为数字
+ */
+export function getEpisodeLabel(
+  title: string | undefined,
+  episodeNumber: number
+): string {
+  const label = (title || '').trim();
+  if (!label) return String(episodeNumber);
+  const numeric = label.match(/^第?\s*0*(\d+)\s*[集话話期]?$/);
+  return numeric ? numeric[1] : label;
+}
+
 export function cleanHtmlTags(text: string): string {
   if (!text) return '';
   return text
@@ -131,8 +131,9 @@ function shouldSkipAuth(pathname: string): boolean {
 }
 
 // 配置middleware匹配规则
+// /api/search/suggest 需要登录：联想结果包含全站播放记录与收藏中的标题，不对未登录用户开放
 export const config = {
   matcher: [
-    '/((?!_next/static|_next/image|favicon.ico|login|warning|api/login|api/register|api/logout|api/cron|api/server-config|api/search|api/detail|api/image-proxy|api/tvbox).*)',
+    '/((?!_next/static|_next/image|favicon.ico|login|warning|api/login|api/register|api/logout|api/cron|api/server-config|api/search(?!/suggest)|api/detail|api/image-proxy|api/tvbox).*)',
   ],
 };